@@ -0,0 +1,295 @@
+/**
+ * Workspace backup.
+ *
+ * Walks everything the integration can reach — root pages, their child
+ * pages and databases, and every data source entry — and writes it to a
+ * directory tree that mirrors the workspace hierarchy:
+ *
+ *   <dir>/
+ *     manifest.json
+ *     Roadmap-1a2b3c4d/
+ *       page.json            { page, blocks } — blocks as a nested tree
+ *       page.md
+ *       Tasks-5e6f7a8b/
+ *         database.json
+ *         Tasks-9c0d1e2f/
+ *           data_source.json
+ *           Fix login-3a4b5c6d/
+ *             page.json
+ *             page.md
+ *
+ * The manifest records every item as it is saved, so an interrupted
+ * backup resumes where it stopped: saved pages are not fetched again,
+ * and their children are found from the page.json already on disk.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { NotionClient, NotionDatabase, NotionPage } from "./src/postman/notion-api/index.js";
+import { fetchBlockTree, findRootPages, getPageTitle, type BlockNode } from "./helpers.js";
+import { renderPageMarkdown } from "./markdown.js";
+
+export const MANIFEST_FILE = "manifest.json";
+
+export type BackupItemType = "page" | "database" | "data_source";
+
+/** One manifest entry — a page, database, or data source */
+export interface BackupItem {
+  type: BackupItemType;
+  title: string;
+  /** Directory of the item, relative to the backup root */
+  path: string;
+  /** ID of the page, database, or data source it sits under; null for roots */
+  parent_id: string | null;
+  status: "done" | "failed";
+  /** Why the last attempt failed (failed items are retried on the next run) */
+  error?: string;
+}
+
+export interface BackupManifest {
+  version: 1;
+  started_at: string;
+  /** Set when a run finishes; null while a backup is in progress or was interrupted */
+  completed_at: string | null;
+  items: Record<string, BackupItem>;
+}
+
+/** Contents of page.json */
+export interface PageBackup {
+  page: NotionPage;
+  blocks: BlockNode[];
+}
+
+/** Reported once per item as the backup walks the workspace */
+export interface BackupEvent {
+  id: string;
+  type: BackupItemType;
+  path: string;
+  status: "saved" | "skipped" | "failed";
+  error?: string;
+}
+
+export interface BackupOptions {
+  /** Ignore an existing manifest and fetch everything again */
+  fresh?: boolean;
+  onItem?: (event: BackupEvent) => void;
+}
+
+export interface BackupSummary {
+  saved: number;
+  skipped: number;
+  failed: number;
+  /** Whether an existing manifest was picked up */
+  resumed: boolean;
+}
+
+// ============================================================================
+// Manifest and files
+// ============================================================================
+
+/** Read the manifest in a backup directory, or undefined when there is none */
+export function readManifest(dir: string): BackupManifest | undefined {
+  const file = join(dir, MANIFEST_FILE);
+  if (!existsSync(file)) return undefined;
+  return JSON.parse(readFileSync(file, "utf-8")) as BackupManifest;
+}
+
+/** Write JSON via a temporary file, so an interrupted write never leaves a truncated file */
+function writeJson(file: string, data: unknown): void {
+  writeFileSync(`${file}.tmp`, JSON.stringify(data, null, 2) + "\n");
+  renameSync(`${file}.tmp`, file);
+}
+
+/**
+ * Directory name for an item: its title with characters that are unsafe
+ * in file names removed, plus the start of its ID so that items with the
+ * same title don't collide.
+ */
+function entryName(title: string, id: string): string {
+  const name = title
+    .replace(/[/\\:*?"<>|\x00-\x1f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 80)
+    .replace(/[. ]+$/, "");
+  return `${name || "Untitled"}-${id.replace(/-/g, "").slice(0, 8)}`;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** A child page or database found in a block tree */
+interface ChildRef {
+  type: "child_page" | "child_database";
+  id: string;
+}
+
+/** Child pages and databases anywhere in a block tree (inside toggles, columns, …) */
+function childRefs(nodes: BlockNode[]): ChildRef[] {
+  return nodes.flatMap((node) => {
+    const { type, id } = node.block;
+    if (type === "child_page" || type === "child_database") return [{ type, id }];
+    return childRefs(node.children);
+  });
+}
+
+// ============================================================================
+// Walk
+// ============================================================================
+
+/**
+ * Back up every page, database, and data source entry reachable from the
+ * integration's root pages into `dir`.
+ *
+ * Items that fail (for example linked databases, which the API can't
+ * read) are recorded in the manifest and the walk continues; they are
+ * retried on the next run.
+ */
+export async function backupWorkspace(
+  notion: NotionClient,
+  dir: string,
+  options: BackupOptions = {}
+): Promise<BackupSummary> {
+  mkdirSync(dir, { recursive: true });
+  const existing = options.fresh ? undefined : readManifest(dir);
+  const manifest: BackupManifest = existing
+    ? { ...existing, completed_at: null }
+    : { version: 1, started_at: new Date().toISOString(), completed_at: null, items: {} };
+  const summary: BackupSummary = { saved: 0, skipped: 0, failed: 0, resumed: existing !== undefined };
+  const visited = new Set<string>();
+  const manifestFile = join(dir, MANIFEST_FILE);
+
+  const report = (event: BackupEvent) => {
+    summary[event.status]++;
+    options.onItem?.(event);
+  };
+
+  const record = (id: string, item: BackupItem) => {
+    manifest.items[id] = item;
+    writeJson(manifestFile, manifest);
+  };
+
+  /** Previously saved item, when its files are still on disk */
+  const savedItem = (id: string, file: string): BackupItem | undefined => {
+    const item = manifest.items[id];
+    return item?.status === "done" && existsSync(join(dir, item.path, file)) ? item : undefined;
+  };
+
+  const fail = (id: string, type: BackupItemType, title: string, path: string, parentId: string | null, error: unknown) => {
+    const message = errorMessage(error);
+    record(id, { type, title, path, parent_id: parentId, status: "failed", error: message });
+    report({ id, type, path, status: "failed", error: message });
+  };
+
+  async function visitPage(pageId: string, parentPath: string, parentId: string | null, page?: NotionPage): Promise<void> {
+    if (visited.has(pageId)) return;
+    visited.add(pageId);
+
+    let backup: PageBackup;
+    let path: string;
+    const saved = savedItem(pageId, "page.json");
+
+    if (saved) {
+      path = saved.path;
+      backup = JSON.parse(readFileSync(join(dir, path, "page.json"), "utf-8")) as PageBackup;
+      report({ id: pageId, type: "page", path, status: "skipped" });
+    } else {
+      try {
+        const [fullPage, blocks] = await Promise.all([
+          page ?? notion.pages.retrieve(pageId),
+          fetchBlockTree(notion, pageId),
+        ]);
+        const title = getPageTitle(fullPage);
+        path = join(parentPath, entryName(title, pageId));
+
+        backup = { page: fullPage, blocks };
+        mkdirSync(join(dir, path), { recursive: true });
+        writeJson(join(dir, path, "page.json"), backup);
+        writeFileSync(join(dir, path, "page.md"), renderPageMarkdown(fullPage, blocks));
+        record(pageId, { type: "page", title, path, parent_id: parentId, status: "done" });
+        report({ id: pageId, type: "page", path, status: "saved" });
+      } catch (error) {
+        const title = page ? getPageTitle(page) : "";
+        const failedPath = join(parentPath, entryName(title, pageId));
+        fail(pageId, "page", title, failedPath, parentId, error);
+        return;
+      }
+    }
+
+    for (const ref of childRefs(backup.blocks)) {
+      if (ref.type === "child_page") await visitPage(ref.id, path, pageId);
+      else await visitDatabase(ref.id, path, pageId);
+    }
+  }
+
+  async function visitDatabase(databaseId: string, parentPath: string, parentId: string): Promise<void> {
+    if (visited.has(databaseId)) return;
+    visited.add(databaseId);
+
+    let database: NotionDatabase;
+    let path: string;
+    const saved = savedItem(databaseId, "database.json");
+
+    if (saved) {
+      path = saved.path;
+      database = JSON.parse(readFileSync(join(dir, path, "database.json"), "utf-8")) as NotionDatabase;
+      report({ id: databaseId, type: "database", path, status: "skipped" });
+    } else {
+      try {
+        database = await notion.databases.retrieve(databaseId);
+        const title = database.title.map((t) => t.plain_text).join("") || "(Untitled)";
+        path = join(parentPath, entryName(title, databaseId));
+        mkdirSync(join(dir, path), { recursive: true });
+        writeJson(join(dir, path, "database.json"), database);
+        record(databaseId, { type: "database", title, path, parent_id: parentId, status: "done" });
+        report({ id: databaseId, type: "database", path, status: "saved" });
+      } catch (error) {
+        const failedPath = join(parentPath, entryName("", databaseId));
+        fail(databaseId, "database", "", failedPath, parentId, error);
+        return;
+      }
+    }
+
+    for (const source of database.data_sources ?? []) {
+      await visitDataSource(source.id, source.name, path, databaseId);
+    }
+  }
+
+  async function visitDataSource(dataSourceId: string, name: string, parentPath: string, parentId: string): Promise<void> {
+    if (visited.has(dataSourceId)) return;
+    visited.add(dataSourceId);
+
+    const path = join(parentPath, entryName(name, dataSourceId));
+    let title = name;
+
+    try {
+      if (savedItem(dataSourceId, "data_source.json")) {
+        report({ id: dataSourceId, type: "data_source", path, status: "skipped" });
+      } else {
+        const dataSource = await notion.dataSources.retrieve(dataSourceId);
+        title = dataSource.title?.map((t) => t.plain_text).join("") || name || "(Untitled)";
+        mkdirSync(join(dir, path), { recursive: true });
+        writeJson(join(dir, path, "data_source.json"), dataSource);
+        record(dataSourceId, { type: "data_source", title, path, parent_id: parentId, status: "done" });
+        report({ id: dataSourceId, type: "data_source", path, status: "saved" });
+      }
+
+      // Entries are always listed again — new ones are picked up, saved ones are skipped
+      for await (const entry of notion.paginate.dataSourceQuery(dataSourceId)) {
+        await visitPage(entry.id, path, dataSourceId, entry);
+      }
+    } catch (error) {
+      fail(dataSourceId, "data_source", title, path, parentId, error);
+    }
+  }
+
+  const { rootPages } = await findRootPages(notion);
+  for (const page of rootPages) {
+    await visitPage(page.id, "", null, page);
+  }
+
+  manifest.completed_at = new Date().toISOString();
+  writeJson(manifestFile, manifest);
+  return summary;
+}
@@ -0,0 +1,158 @@
+/**
+ * Bulk edits for `datasource update-entries`.
+ *
+ * An edit is planned before anything is written: each matching entry's
+ * current values are paired with the values --set gives it, so the
+ * command can show a diff and leave alone entries that already match.
+ * Before the updates are sent, the values they replace are saved to an
+ * undo log:
+ *
+ *   {
+ *     "version": 1,
+ *     "data_source_id": "…",
+ *     "created_at": "2026-10-19T09:30:00.000Z",
+ *     "entries": [
+ *       { "page_id": "…", "title": "Fix login", "properties": { "Status": { "status": { "name": "In progress" } } } }
+ *     ]
+ *   }
+ *
+ * Replaying the log (`--undo <log>`) sends each entry's saved properties
+ * back, restoring the values from before the edit. Values the log can't
+ * hold in full, like Notion-hosted files, are listed in the plan so the
+ * command can warn before writing.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import type { NotionClient, NotionPage, NotionUser, PropertyValue } from "./src/postman/notion-api/index.js";
+import { CONFIG_DIR, formatPropertyValue, getPageTitle } from "./helpers.js";
+import { readBackValue, unrestorableReason, writableValue, type PropertySchemas } from "./property-input.js";
+
+/** An undo log that can't be read or has the wrong shape */
+export class UndoLogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UndoLogError";
+  }
+}
+
+export const UNDO_DIR = join(CONFIG_DIR, "undo");
+
+/** One property an update changes, formatted for display */
+export interface PropertyChange {
+  name: string;
+  before: string;
+  after: string;
+}
+
+/** A set of property values to write to one entry */
+export interface EntryProperties {
+  page_id: string;
+  title: string;
+  properties: Record<string, unknown>;
+}
+
+/** The update planned for one entry */
+export interface PlannedUpdate extends EntryProperties {
+  /** The properties' current values, as inputs that restore them */
+  previous: Record<string, unknown>;
+  changes: PropertyChange[];
+  /** Why some of `previous` can't restore what the entry has now, e.g. "Files: 1 Notion-hosted file can't be attached again" */
+  unrestorable: string[];
+}
+
+export interface UndoLog {
+  version: 1;
+  data_source_id: string;
+  created_at: string;
+  entries: EntryProperties[];
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Work out what setting `properties` changes on each page. Properties that
+ * already have the new value are dropped, and pages left with nothing to
+ * change are counted as unchanged.
+ *
+ * @param properties - Update inputs keyed by property name, as built by resolveAssignments
+ * @param users - Workspace users, to name people in the new values
+ */
+export function planUpdates(
+  pages: NotionPage[],
+  schema: PropertySchemas,
+  properties: Record<string, unknown>,
+  users: NotionUser[] = [],
+): { updates: PlannedUpdate[]; unchanged: number } {
+  const after = Object.fromEntries(
+    Object.entries(properties).map(([name, input]) => [name, formatPropertyValue(readBackValue(schema[name], input, users))]),
+  );
+
+  const updates: PlannedUpdate[] = [];
+  for (const page of pages) {
+    const update: PlannedUpdate = {
+      page_id: page.id,
+      title: getPageTitle(page),
+      properties: {},
+      previous: {},
+      changes: [],
+      unrestorable: [],
+    };
+    for (const [name, input] of Object.entries(properties)) {
+      const current = page.properties[name];
+      const before = current ? formatPropertyValue(current) : "(empty)";
+      if (before === after[name]) continue;
+      update.properties[name] = input;
+      if (current) update.previous[name] = writableValue(current);
+      const reason = current && unrestorableReason(current);
+      if (reason) update.unrestorable.push(`${name}: ${reason}`);
+      update.changes.push({ name, before, after: after[name] });
+    }
+    if (update.changes.length > 0) updates.push(update);
+  }
+  return { updates, unchanged: pages.length - updates.length };
+}
+
+// ============================================================================
+// Undo Log
+// ============================================================================
+
+/**
+ * Save the values an edit replaces. Without a path, the log goes to
+ * ~/.notion-cli/undo/ under a timestamped name.
+ *
+ * @returns The path the log was written to
+ */
+export function writeUndoLog(dataSourceId: string, updates: PlannedUpdate[], path?: string): string {
+  const createdAt = new Date().toISOString();
+  const log: UndoLog = {
+    version: 1,
+    data_source_id: dataSourceId,
+    created_at: createdAt,
+    entries: updates.map(({ page_id, title, previous }) => ({ page_id, title, properties: previous })),
+  };
+  const file = path ?? join(UNDO_DIR, `update-entries-${createdAt.replace(/[:.]/g, "-")}.json`);
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify(log, null, 2) + "\n");
+  return file;
+}
+
+/** Read an undo log written by writeUndoLog */
+export function readUndoLog(path: string): UndoLog {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new UndoLogError(`cannot read undo log "${path}": ${(error as Error).message}`);
+  }
+
+  const log = parsed as Partial<UndoLog> | null;
+  const validEntries = Array.isArray(log?.entries) && log.entries.every((entry) =>
+    typeof entry?.page_id === "string" && !!entry.properties && typeof entry.properties === "object");
+  if (log?.version !== 1 || !validEntries) {
+    throw new UndoLogError(`"${path}" is not an undo log from "datasource update-entries"`);
+  }
+  return log as UndoLog;
+}
@@ -19,6 +19,8 @@ import { blockCommand } from "./commands/block.js";
 import { commentCommand } from "./commands/comment.js";
 import { fileCommand } from "./commands/file.js";
 import { integrationCommand } from "./commands/integration.js";
+import { workspaceCommand } from "./commands/workspace.js";
+import { templateCommand } from "./commands/template.js";
 import { docsCommand } from "./commands/docs.js";
 
 const program = new Command();
@@ -47,6 +49,8 @@ program.addCommand(commentCommand);
 program.addCommand(fileCommand);
 program.addCommand(userCommand);
 program.addCommand(integrationCommand);
+program.addCommand(workspaceCommand);
+program.addCommand(templateCommand);
 program.addCommand(docsCommand);
 
 program.parse();
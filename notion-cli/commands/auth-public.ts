@@ -20,6 +20,8 @@ import {
   writeConfig,
   getOAuthCredentials,
   CONFIG_FILE,
+  exitWithError,
+  getClientOptions,
 } from "../helpers.js";
 import { createNotionClient } from "../src/postman/notion-api/index.js";
 
@@ -261,7 +263,7 @@ const loginCommand = new Command("login")
     console.log("Authorization code received. Exchanging for access token...");
 
     // Exchange code for token
-    const notion = createNotionClient("");
+    const notion = createNotionClient("", getClientOptions());
 
     try {
       const response = await notion.oauth.token(
@@ -351,7 +353,7 @@ const logoutCommand = new Command("logout")
       const creds = getOAuthCredentials();
       if (creds) {
         try {
-          const notion = createNotionClient("");
+          const notion = createNotionClient("", getClientOptions());
           await notion.oauth.revoke(config.NOTION_TOKEN, creds.clientId, creds.clientSecret);
           console.log("Token revoked with Notion.");
         } catch {
@@ -403,7 +405,7 @@ const introspectCommand = new Command("introspect")
       process.exit(1);
     }
 
-    const notion = createNotionClient("");
+    const notion = createNotionClient("", getClientOptions());
 
     try {
       const response = await notion.oauth.introspect(token, creds.clientId, creds.clientSecret);
@@ -420,8 +422,7 @@ const introspectCommand = new Command("introspect")
       if (response.iat) console.log(`Issued at: ${response.iat}`);
       if (response.exp) console.log(`Expires: ${response.exp}`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -440,14 +441,13 @@ const revokeCommand = new Command("revoke")
       process.exit(1);
     }
 
-    const notion = createNotionClient("");
+    const notion = createNotionClient("", getClientOptions());
 
     try {
       await notion.oauth.revoke(token, creds.clientId, creds.clientSecret);
       console.log("Token revoked.");
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
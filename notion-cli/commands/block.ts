@@ -5,8 +5,27 @@
  */
 
 import { Command } from "commander";
-import { createNotionClient } from "../src/postman/notion-api/index.js";
-import { getBearerToken, formatDate, formatBlock } from "../helpers.js";
+import {
+  createNotionClient,
+  collectAll,
+  type BlockInput,
+  type NotionBlock,
+  type NotionColor,
+  type RichTextInput,
+} from "../src/postman/notion-api/index.js";
+import {
+  getBearerToken,
+  formatDate,
+  formatBlock,
+  exitWithError,
+  getClientOptions,
+  parseMaxOption,
+  toListResponse,
+  appendBlockTree,
+  readTextInput,
+  resolveUserMentions,
+} from "../helpers.js";
+import { markdownToBlocks } from "../markdown-import.js";
 
 // -- block get ----------------------------------------------------------------
 
@@ -30,7 +49,7 @@ Examples:
   )
   .action(async (blockId: string, options: { raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       const block = await notion.blocks.retrieve(blockId);
@@ -40,6 +59,7 @@ Examples:
         return;
       }
 
+      await resolveUserMentions(notion, block);
       const parent = block.parent;
       let parentInfo: string;
       if (parent.type === "page_id") {
@@ -65,19 +85,34 @@ Examples:
         console.log(`\nContent:\n  ${formatted}`);
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
 // -- block children -----------------------------------------------------------
 
+/** Print one child block as a single summary line */
+function printChildBlock(block: NotionBlock): void {
+  const formatted = formatBlock(block);
+  const children = block.has_children ? " [has children]" : "";
+  // Child pages and databases already include their ID in the formatted output
+  const isChildRef = block.type === "child_page" || block.type === "child_database";
+  const idSuffix = isChildRef ? "" : ` (ID: ${block.id})`;
+  if (formatted) {
+    console.log(`  ${formatted}${idSuffix}${children}`);
+  } else {
+    console.log(`  [${block.type}] (ID: ${block.id})${children}`);
+  }
+}
+
 const blockChildrenCommand = new Command("children")
   .description("List a block's child blocks")
   .argument("<block-id>", "the ID of the block or page to get children for")
   .option("-r, --raw", "output raw JSON instead of formatted text")
   .option("-c, --cursor <cursor>", "pagination cursor from a previous request")
   .option("-n, --limit <number>", "max results per page, 1-100", "100")
+  .option("-a, --all", "fetch every page of children")
+  .option("-m, --max <number>", "stop after this many blocks (implies --all)")
   .addHelpText(
     "after",
     `
@@ -87,19 +122,47 @@ Details:
 
   Unlike "page get", this does NOT recurse into nested blocks.
 
+  --all follows the cursor until every child has been listed, printing
+  each page as it arrives; --max caps the total. With --raw, all pages
+  are combined into a single list response.
+
 Examples:
   $ notion-cli block children <block-id>
   $ notion-cli block children <page-id>
   $ notion-cli block children <block-id> --raw
   $ notion-cli block children <block-id> -n 10
+  $ notion-cli block children <page-id> --all
 `,
   )
-  .action(async (blockId: string, options: { raw?: boolean; cursor?: string; limit: string }) => {
+  .action(async (
+    blockId: string,
+    options: { raw?: boolean; cursor?: string; limit: string; all?: boolean; max?: string },
+  ) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
     const pageSize = Math.min(parseInt(options.limit, 10) || 100, 100);
+    const maxItems = parseMaxOption(options.max);
 
     try {
+      if (options.all || maxItems !== undefined) {
+        const blocks = notion.paginate.blockChildren(blockId, { maxItems, pageSize, startCursor: options.cursor });
+
+        if (options.raw) {
+          const results = await collectAll(blocks);
+          console.log(JSON.stringify({ ...toListResponse(results), type: "block", block: {} }, null, 2));
+          return;
+        }
+
+        let count = 0;
+        for await (const block of blocks) {
+          await resolveUserMentions(notion, block);
+          printChildBlock(block);
+          count++;
+        }
+        console.log(count === 0 ? "No child blocks found." : `\nListed ${count} block(s).`);
+        return;
+      }
+
       const response = await notion.blocks.retrieveChildren(blockId, {
         start_cursor: options.cursor,
         page_size: pageSize,
@@ -115,28 +178,19 @@ Examples:
         return;
       }
 
+      await resolveUserMentions(notion, response.results);
       console.log(`Found ${response.results.length} block(s):\n`);
 
       for (const block of response.results) {
-        const formatted = formatBlock(block);
-        const children = block.has_children ? " [has children]" : "";
-        // Child pages and databases already include their ID in the formatted output
-        const isChildRef = block.type === "child_page" || block.type === "child_database";
-        const idSuffix = isChildRef ? "" : ` (ID: ${block.id})`;
-        if (formatted) {
-          console.log(`  ${formatted}${idSuffix}${children}`);
-        } else {
-          console.log(`  [${block.type}] (ID: ${block.id})${children}`);
-        }
+        printChildBlock(block);
       }
 
       if (response.has_more && response.next_cursor) {
-        console.log(`\n📑 More results available. Use --cursor to get next page:`);
+        console.log(`\n📑 More results available. Use --cursor to get next page, or --all to fetch everything:`);
         console.log(`   notion-cli block children ${blockId} --cursor ${response.next_cursor}`);
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -163,9 +217,9 @@ const NOTION_COLORS = [
 function buildBlock(
   type: AppendBlockType,
   text: string | undefined,
-  opts: { color?: string; icon?: string; language?: string; checked?: boolean },
-): Record<string, unknown> {
-  const richText = text
+  opts: { color?: NotionColor; icon?: string; language?: string; checked?: boolean },
+): BlockInput {
+  const richText: RichTextInput[] = text
     ? [{ type: "text", text: { content: text } }]
     : [];
 
@@ -227,6 +281,7 @@ interface BlockAppendOptions {
   language?: string;
   checked?: boolean;
   json?: string;
+  markdown?: string;
 }
 
 const blockAppendCommand = new Command("append")
@@ -250,6 +305,10 @@ const blockAppendCommand = new Command("append")
     "--json <blocks>",
     "raw JSON block(s) to append — overrides text and --type; use - for stdin",
   )
+  .option(
+    "--markdown <file>",
+    "Markdown file to convert and append — overrides text and --type; use - for stdin",
+  )
   .addHelpText(
     "after",
     `
@@ -260,6 +319,10 @@ Details:
   lists, to-dos, and table of contents. Use --json for complex structures
   (tables, toggles with children, columns, multi-block appends).
 
+  Use --markdown to convert a Markdown document (same rules as
+  "page import") and append all of its blocks, in batches of 100 with
+  nested content added level by level.
+
   Types that need no text: divider, table_of_contents
   Types where text is a URL: bookmark
 
@@ -284,13 +347,44 @@ Examples:
   $ notion-cli block append <id> --type table_of_contents --color gray_background
   $ notion-cli block append <id> --json '[{"type":"divider","divider":{}}]'
   $ cat blocks.json | notion-cli block append <id> --json -
+  $ notion-cli block append <id> --markdown ./CHANGELOG.md
 `,
   )
   .action(async (parentId: string, text: string | undefined, options: BlockAppendOptions) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
+
+    let children: BlockInput[];
+
+    if (options.json && options.markdown) {
+      console.error("Error: use either --json or --markdown, not both.");
+      process.exit(1);
+    }
+
+    if (options.markdown) {
+      const blocks = markdownToBlocks(await readTextInput(options.markdown));
+      if (blocks.length === 0) {
+        console.error("Error: the Markdown input contains no blocks.");
+        process.exit(1);
+      }
+
+      try {
+        const created = await appendBlockTree(notion, parentId, blocks);
 
-    let children: unknown[];
+        if (options.raw) {
+          console.log(JSON.stringify({ ...toListResponse(created), type: "block", block: {} }, null, 2));
+          return;
+        }
+
+        console.log(`Appended ${created.length} block(s) from Markdown.`);
+        for (const block of created) {
+          printChildBlock(block);
+        }
+      } catch (error) {
+        exitWithError(error);
+      }
+      return;
+    }
 
     if (options.json) {
       // JSON mode: parse from argument or stdin
@@ -335,7 +429,7 @@ Examples:
       }
 
       children = [buildBlock(blockType, text, {
-        color: options.color,
+        color: options.color as NotionColor | undefined,
         icon: options.icon,
         language: options.language,
         checked: options.checked,
@@ -360,8 +454,7 @@ Examples:
         }
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -401,7 +494,7 @@ Examples:
   )
   .action(async (blockId: string, text: string | undefined, options: { raw?: boolean; color?: string }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     if (!text && !options.color) {
       console.error("Error: provide text, --color, or both.");
@@ -464,8 +557,7 @@ Examples:
         console.log(`  Content: ${formatted}`);
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -490,7 +582,7 @@ Examples:
   )
   .action(async (blockId: string, options: { raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       const block = await notion.blocks.delete(blockId);
@@ -505,8 +597,7 @@ Examples:
       console.log(`  Type: ${block.type}`);
       console.log(`  Archived: ${block.archived}`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
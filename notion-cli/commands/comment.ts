@@ -6,17 +6,40 @@
  */
 
 import { Command } from "commander";
-import { createNotionClient } from "../src/postman/notion-api/index.js";
-import { getBearerToken, formatDate } from "../helpers.js";
+import { createNotionClient, collectAll, type NotionComment } from "../src/postman/notion-api/index.js";
+import {
+  getBearerToken,
+  formatDate,
+  exitWithError,
+  getClientOptions,
+  parseMaxOption,
+  toListResponse,
+} from "../helpers.js";
 
 // -- comment list -------------------------------------------------------------
 
+/** Print one comment as an indented block */
+function printComment(comment: NotionComment): void {
+  const text = comment.rich_text.map((t) => t.plain_text).join("") || "(empty)";
+  const created = formatDate(comment.created_time);
+  const author = comment.created_by.id;
+
+  console.log(`  💬 ${text}`);
+  console.log(`     ID: ${comment.id}`);
+  console.log(`     Discussion: ${comment.discussion_id}`);
+  console.log(`     Author: ${author}`);
+  console.log(`     Created: ${created}`);
+  console.log();
+}
+
 const commentListCommand = new Command("list")
   .description("List comments on a page or block")
   .argument("<block-id>", "the ID of the page or block to get comments for")
   .option("-r, --raw", "output raw JSON instead of formatted text")
   .option("-c, --cursor <cursor>", "pagination cursor from a previous request")
   .option("-n, --limit <number>", "max results per page, 1-100", "100")
+  .option("-a, --all", "fetch every page of comments")
+  .option("-m, --max <number>", "stop after this many comments (implies --all)")
   .addHelpText(
     "after",
     `
@@ -27,17 +50,44 @@ Details:
   Comments are grouped by discussion_id — comments with the same
   discussion_id are part of the same thread.
 
+  --all follows the cursor until every comment has been listed; --max
+  caps the total. With --raw, all pages are combined into a single list
+  response.
+
 Examples:
   $ notion-cli comment list <page-id>
   $ notion-cli comment list <page-id> --raw
+  $ notion-cli comment list <page-id> --all
 `,
   )
-  .action(async (blockId: string, options: { raw?: boolean; cursor?: string; limit: string }) => {
+  .action(async (
+    blockId: string,
+    options: { raw?: boolean; cursor?: string; limit: string; all?: boolean; max?: string },
+  ) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
     const pageSize = Math.min(parseInt(options.limit, 10) || 100, 100);
+    const maxItems = parseMaxOption(options.max);
 
     try {
+      if (options.all || maxItems !== undefined) {
+        const comments = notion.paginate.comments(blockId, { maxItems, pageSize, startCursor: options.cursor });
+
+        if (options.raw) {
+          const results = await collectAll(comments);
+          console.log(JSON.stringify({ ...toListResponse(results), type: "comment", comment: {} }, null, 2));
+          return;
+        }
+
+        let count = 0;
+        for await (const comment of comments) {
+          printComment(comment);
+          count++;
+        }
+        console.log(count === 0 ? "No comments found." : `Listed ${count} comment(s).`);
+        return;
+      }
+
       const response = await notion.comments.list(blockId, {
         start_cursor: options.cursor,
         page_size: pageSize,
@@ -56,25 +106,15 @@ Examples:
       console.log(`Found ${response.results.length} comment(s):\n`);
 
       for (const comment of response.results) {
-        const text = comment.rich_text.map((t) => t.plain_text).join("") || "(empty)";
-        const created = formatDate(comment.created_time);
-        const author = comment.created_by.id;
-
-        console.log(`  💬 ${text}`);
-        console.log(`     ID: ${comment.id}`);
-        console.log(`     Discussion: ${comment.discussion_id}`);
-        console.log(`     Author: ${author}`);
-        console.log(`     Created: ${created}`);
-        console.log();
+        printComment(comment);
       }
 
       if (response.has_more && response.next_cursor) {
-        console.log(`📑 More results available. Use --cursor to get next page:`);
+        console.log(`📑 More results available. Use --cursor to get next page, or --all to fetch everything:`);
         console.log(`   notion-cli comment list ${blockId} --cursor ${response.next_cursor}`);
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -99,7 +139,7 @@ Examples:
   )
   .action(async (pageId: string, text: string, options: { raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       const comment = await notion.comments.create({
@@ -117,8 +157,7 @@ Examples:
       console.log(`  Discussion: ${comment.discussion_id}`);
       console.log(`  Created: ${formatDate(comment.created_time)}`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -143,7 +182,7 @@ Examples:
   )
   .action(async (discussionId: string, text: string, options: { raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       const comment = await notion.comments.create({
@@ -161,8 +200,7 @@ Examples:
       console.log(`  Discussion: ${comment.discussion_id}`);
       console.log(`  Created: ${formatDate(comment.created_time)}`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -188,7 +226,7 @@ Examples:
   )
   .action(async (commentId: string, options: { raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       const comment = await notion.comments.retrieve(commentId);
@@ -205,8 +243,7 @@ Examples:
       console.log(`  Author: ${comment.created_by.id}`);
       console.log(`  Created: ${formatDate(comment.created_time)}`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -1,13 +1,15 @@
 /**
  * database command group
  *   database get    <id>  — metadata and schema
- *   database create <id>  — create a database
+ *   database create <id>  — create a database with its initial schema
  *   database update <id>  — update title/description
  */
 
 import { Command } from "commander";
 import { createNotionClient, type DatabasePropertySchema } from "../src/postman/notion-api/index.js";
-import { getBearerToken, formatDate } from "../helpers.js";
+import { getBearerToken, formatDate, exitWithError, getClientOptions, readTextInput } from "../helpers.js";
+import { parsePropertySpec, PROPERTY_TYPES, SchemaError } from "../property-schema.js";
+import { initialProperties } from "../schema-sync.js";
 
 // -- database get -------------------------------------------------------------
 
@@ -34,7 +36,7 @@ Examples:
   )
   .action(async (databaseId: string, options: { raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     console.log(`🗃️ Fetching database...\n`);
 
@@ -101,8 +103,7 @@ Examples:
         console.log(`To view schema:   notion-cli datasource get ${dsId}`);
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -112,31 +113,90 @@ const databaseCreateCommand = new Command("create")
   .description("Create a database as a child of a page")
   .argument("<parent-page-id>", "ID of the parent page")
   .option("-t, --title <title>", "database title")
+  .option("-p, --property <spec...>", 'add properties — format: "Name:type[:settings]" (repeatable)')
+  .option("--schema-file <file>", "read the properties from a JSON or YAML schema file (use - for stdin)")
+  .option("--inline", "show the database inline in the parent page instead of as a full page")
+  .option("--icon <emoji>", "set the database icon (emoji)")
   .option("-r, --raw", "output raw JSON instead of formatted text")
   .addHelpText(
     "after",
     `
 Details:
-  Creates a new inline database as a child of the specified page.
-  The database is created with a single "Name" title property.
-  Use "database update" to add more properties after creation.
+  Creates a new database as a child of the specified page, along with
+  its first data source and that data source's schema, in one request.
+
+  --property takes the same "Name:type[:settings]" specs as
+  "datasource update --add-property":
+    "Status:status"  "Owner:people"  "Due:date"
+    "Genre:select:Rock,Pop"  "Price:number:dollar"
+    'Total:formula:prop("Price") * 2'  "ID:unique_id:TASK"
+  Name the title property with "Task:title"; without one, the title
+  property is called "Name" (or "Name 2" when "Name" is taken).
+
+  --schema-file reads properties from a file: either one written by
+  "datasource schema pull" (YAML, or the same fields as JSON), which
+  copies another data source's schema, or Notion's own schema object:
+    {"Name": {"title": {}}, "Status": {"status": {}}}
+  Specs from --property are added to the file's properties, replacing
+  any with the same name.
+
+  By default the database is a full page inside its parent. --inline
+  shows it as a block within the parent page instead.
 
 Examples:
   $ notion-cli database create <parent-page-id> --title "Task Tracker"
+  $ notion-cli database create <parent-page-id> --title "Tasks" -p "Status:status" -p "Owner:people" -p "Due:date" --inline --icon 📋
+  $ notion-cli database create <parent-page-id> -t "Bugs" -p "Bug:title" -p "Severity:select:Low,High" -p "ID:unique_id:BUG"
+  $ notion-cli datasource schema pull <datasource-id> > schema.yaml
+  $ notion-cli database create <parent-page-id> --title "Tasks (copy)" --schema-file schema.yaml
   $ notion-cli database create <parent-page-id> --title "Task Tracker" --raw
 `,
   )
-  .action(async (parentPageId: string, options: { title?: string; raw?: boolean }) => {
+  .action(async (parentPageId: string, options: {
+    title?: string;
+    property?: string[];
+    schemaFile?: string;
+    inline?: boolean;
+    icon?: string;
+    raw?: boolean;
+  }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
+
+    let properties: Record<string, unknown> = {};
+    try {
+      if (options.schemaFile) properties = initialProperties(await readTextInput(options.schemaFile));
+      for (const spec of options.property ?? []) {
+        const { name, schema } = parsePropertySpec(spec, ["title", ...PROPERTY_TYPES]);
+        properties[name] = schema;
+      }
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+
+    // A data source needs exactly one title property
+    const titles = Object.entries(properties).filter(([, schema]) => typeof schema === "object" && schema && "title" in schema);
+    if (titles.length > 1) {
+      console.error(`Error: a database has one title property, but got ${titles.map(([name]) => `"${name}"`).join(", ")}.`);
+      process.exit(1);
+    }
+    if (titles.length === 0) {
+      // "Name", unless another property has that name
+      const taken = new Set(Object.keys(properties).map((name) => name.toLowerCase()));
+      let titleName = "Name";
+      for (let n = 2; taken.has(titleName.toLowerCase()); n++) titleName = `Name ${n}`;
+      properties = { [titleName]: { title: {} }, ...properties };
+    }
 
     try {
       const db = await notion.databases.create({
         parent: { type: "page_id", page_id: parentPageId },
         title: options.title ? [{ text: { content: options.title } }] : undefined,
-        properties: {
-          Name: { title: {} },
-        },
+        initial_data_source: { properties },
+        icon: options.icon ? { type: "emoji", emoji: options.icon } : undefined,
+        is_inline: options.inline || undefined,
       });
 
       if (options.raw) {
@@ -149,9 +209,17 @@ Examples:
       console.log(`  Title: ${title}`);
       console.log(`  ID: ${db.id}`);
       console.log(`  URL: ${db.url}`);
+
+      const names = Object.keys(properties);
+      console.log(`  Properties (${names.length}): ${names.join(", ")}`);
+      const dataSource = db.data_sources?.[0];
+      if (dataSource) {
+        console.log(`  Data source: ${dataSource.id}`);
+        console.log(`\nTo add entries: notion-cli page create ${dataSource.id} --data-source --title "…"`);
+        console.log(`To view schema: notion-cli datasource get ${dataSource.id}`);
+      }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -181,7 +249,7 @@ Examples:
   )
   .action(async (databaseId: string, options: { title?: string; description?: string; raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     const params: Record<string, unknown> = {};
     if (options.title) {
@@ -210,8 +278,7 @@ Examples:
       console.log(`  ID: ${db.id}`);
       console.log(`  URL: ${db.url}`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -5,11 +5,80 @@
  *   datasource templates <id>      — list available templates
  *   datasource create <database-id> — create a data source in a database
  *   datasource update <id>         — update title, schema, or properties
+ *   datasource update-entries <id> — set properties on every entry matching a filter
+ *   datasource import <id> <file>  — create or update entries from a CSV file
+ *   datasource schema pull <id>    — write the schema as a YAML file
+ *   datasource schema apply <id> <file> — change the schema to match a YAML file
  */
 
 import { Command } from "commander";
-import { createNotionClient, type DatabasePropertySchema } from "../src/postman/notion-api/index.js";
-import { getBearerToken, getPageTitle, formatDate, formatPropertyValue } from "../helpers.js";
+import {
+  createNotionClient,
+  collectAll,
+  type DatabasePropertySchema,
+  type DataSourceTemplate,
+  type NotionClient,
+  type NotionPage,
+  type QueryFilter,
+  type QuerySort,
+} from "../src/postman/notion-api/index.js";
+import {
+  getBearerToken,
+  getPageTitle,
+  formatDate,
+  formatPropertyValue,
+  exitWithError,
+  getClientOptions,
+  parseMaxOption,
+  toListResponse,
+  readTextInput,
+  resolveUserMentions,
+  confirm,
+  columnWidths,
+  completeValues,
+  renderTable,
+  runWrites,
+} from "../helpers.js";
+import { compileWhere, compileSorts, FilterError } from "../query-filter.js";
+import {
+  cellText,
+  csvLine,
+  entryRecord,
+  fetchRelationTitles,
+  resolveColumns,
+  ColumnError,
+  EXPORT_FORMATS,
+  type CellValue,
+  type ExportFormat,
+} from "../query-export.js";
+import {
+  closestMatch,
+  notionLookups,
+  resolveAssignments,
+  PropertyInputError,
+  type PropertySchemas,
+} from "../property-input.js";
+import {
+  planUpdates,
+  readUndoLog,
+  writeUndoLog,
+  UndoLogError,
+  type EntryProperties,
+  type PlannedUpdate,
+  type UndoLog,
+} from "../bulk-update.js";
+import {
+  convertRows,
+  inferPropertyType,
+  mapColumns,
+  matchExisting,
+  parseCsv,
+  writeRow,
+  CsvError,
+  KEY_TYPES,
+} from "../csv-import.js";
+import { parsePropertySpec, schemaChanges, SchemaError, type SchemaEdits } from "../property-schema.js";
+import { planSchema, pullSchema, readSchemaDocument, type SchemaPlan } from "../schema-sync.js";
 
 // -- datasource get -----------------------------------------------------------
 
@@ -33,7 +102,7 @@ Examples:
   )
   .action(async (datasourceId: string, options: { raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       const ds = await notion.dataSources.retrieve(datasourceId);
@@ -78,25 +147,204 @@ Examples:
 
       console.log(`\nTo query entries: notion-cli datasource query ${datasourceId}`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
 // -- datasource query ---------------------------------------------------------
 
+/** Print one data source entry with its non-title properties */
+function printEntry(page: NotionPage): void {
+  const pageTitle = getPageTitle(page);
+  const lastEdited = formatDate(page.last_edited_time);
+
+  console.log(`  📄 ${pageTitle}`);
+  console.log(`     ID: ${page.id}`);
+  console.log(`     Last edited: ${lastEdited}`);
+  console.log(`     URL: ${page.url}`);
+
+  for (const [name, prop] of Object.entries(page.properties)) {
+    if (prop.type === "title") continue;
+    const value = formatPropertyValue(prop);
+    console.log(`     ${name}: ${value}`);
+  }
+
+  console.log();
+}
+
+/** Quote a value for a copy-pasteable shell command */
+function shellQuote(value: string): string {
+  return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/** The filter and sort flags of a query, repeated in the next-page hint (a cursor only works with the same query) */
+function queryFlags(options: {
+  where?: string;
+  sort?: string[];
+  filterJson?: string;
+  format?: string;
+  table?: boolean;
+  columns?: string;
+  resolveRelations?: boolean;
+}): string {
+  let flags = "";
+  if (options.where) flags += ` --where ${shellQuote(options.where)}`;
+  if (options.filterJson && options.filterJson !== "-") flags += ` --filter-json ${shellQuote(options.filterJson)}`;
+  for (const spec of options.sort ?? []) flags += ` --sort ${shellQuote(spec)}`;
+  if (options.format) flags += ` --format ${options.format}`;
+  if (options.table) flags += " --table";
+  if (options.columns) flags += ` --columns ${shellQuote(options.columns)}`;
+  if (options.resolveRelations) flags += " --resolve-relations";
+  return flags;
+}
+
+/** Flatten entries into records of the chosen columns, reading values past the 25 a page object holds */
+async function entryRecords(
+  notion: NotionClient,
+  pages: NotionPage[],
+  columns: string[],
+  resolveRelations: boolean | undefined,
+): Promise<Record<string, CellValue>[]> {
+  const complete = await completeValues(notion, pages, columns);
+  const titles = new Map<string, string>();
+  if (resolveRelations) await fetchRelationTitles(notion, complete, columns, titles);
+  return complete.map((page) => entryRecord(page, columns, titles));
+}
+
+/** Print entries in an export format. Only the entries go to stdout, so it can be piped or redirected. */
+async function printExport(
+  notion: NotionClient,
+  pages: NotionPage[],
+  format: ExportFormat,
+  columns: string[],
+  resolveRelations: boolean | undefined,
+): Promise<void> {
+  const records = await entryRecords(notion, pages, columns, resolveRelations);
+
+  switch (format) {
+    case "json":
+      console.log(JSON.stringify(records, null, 2));
+      break;
+    case "ndjson":
+      for (const record of records) console.log(JSON.stringify(record));
+      break;
+    case "table":
+      if (records.length === 0) {
+        console.log("No entries found.");
+        break;
+      }
+      console.log(renderTable(columns, records.map((record) => columns.map((column) => cellText(record[column])))));
+      break;
+    default: {
+      const delimiter = format === "tsv" ? "\t" : ",";
+      console.log(csvLine(columns, delimiter));
+      for (const record of records) {
+        console.log(csvLine(columns.map((column) => cellText(record[column])), delimiter));
+      }
+    }
+  }
+}
+
+/** Print entries as a table that fits the terminal, naming the columns that didn't fit */
+async function printEntryTable(
+  notion: NotionClient,
+  pages: NotionPage[],
+  columns: string[],
+  resolveRelations: boolean | undefined,
+): Promise<void> {
+  const records = await entryRecords(notion, pages, columns, resolveRelations);
+  const rows = records.map((record) => columns.map((column) => cellText(record[column])));
+  const width = process.stdout.columns;
+  console.log(renderTable(columns, rows, { width }));
+
+  const hidden = columns.slice(columnWidths(columns, rows, { width }).length);
+  if (hidden.length > 0) {
+    console.log(`\n${hidden.length} more column${hidden.length === 1 ? "" : "s"} didn't fit: ${hidden.join(", ")}`);
+    console.log(`Choose columns with --columns, e.g. --columns ${shellQuote([columns[0], ...hidden.slice(0, 2)].join(","))}`);
+  }
+}
+
 const datasourceQueryCommand = new Command("query")
   .description("Query entries from a data source")
   .argument("<datasource-id>", "data source ID")
   .option("-r, --raw", "output raw JSON instead of formatted text")
-  .option("-n, --limit <number>", "max entries to return, 1-100", "20")
+  .option("-n, --limit <number>", "max entries per page, 1-100 (default: 20)")
   .option("-c, --cursor <cursor>", "pagination cursor from a previous query")
+  .option("-a, --all", "fetch every page of entries")
+  .option("-m, --max <number>", "stop after this many entries (implies --all)")
+  .option("-w, --where <expression>", 'filter entries, e.g. \'Status = "Done" and Priority >= 2\'')
+  .option("-s, --sort <spec...>", 'sort entries — format: "Property:asc|desc" (repeatable)')
+  .option("--filter-json <json>", "raw Notion filter object (use - to read from stdin)")
+  .option("-f, --format <format>", `output one record per entry: ${EXPORT_FORMATS.join(", ")}`)
+  .option("-t, --table", "show entries as a table sized to the terminal")
+  .option("--columns <names>", "comma-separated columns to show, in order (with --format or --table)")
+  .option("--resolve-relations", "show related pages by title instead of ID (with --format or --table)")
   .addHelpText(
     "after",
     `
 Details:
   Queries entries (pages) from a data source, with pagination.
 
+  --where filters entries with a small expression language, checked
+  against the data source schema before the query is sent:
+    Status = "Done" and Priority >= 2 and Tags contains "infra"
+    (Owner is empty or Due < 2025-07-01) and [In Review] = false
+
+  Comparisons are "<property> <operator> <value>", joined with and / or
+  and grouped with parentheses. Property names with spaces go in
+  [brackets] or quotes. Strings are quoted; bare words, numbers,
+  true/false, and dates (2025-07-01) work unquoted. Dates can also be
+  relative: today, yesterday, tomorrow, "90 days ago", "2 weeks from now".
+
+  Operators by property type:
+    title, rich_text, url,   =  !=  contains  not contains
+      email, phone_number    starts with  ends with
+    number                   =  !=  >  >=  <  <=
+    unique_id                =  !=  >  >=  <  <=  (no empty checks)
+    checkbox                 =  !=  (true / false)
+    select, status           =  !=
+    multi_select, people,    contains  not contains  (people and
+      relation                 relations take user / page IDs)
+    date, created_time,      =  <  >  <=  >=  (before / after)
+      last_edited_time
+    files                    is empty  is not empty
+  Every type except checkbox and unique_id also supports "is empty" and
+  "is not empty". Formulas and rollups need --filter-json.
+
+  --sort takes "Property:asc" or "Property:desc" (default asc); repeat
+  it or separate specs with commas. In --where and --sort,
+  created_time and last_edited_time refer to the page timestamps when
+  no property has that name.
+
+  --filter-json sends a Notion filter object as-is, for anything --where
+  can't express. It can't be combined with --where.
+
+  By default one page is fetched. --all follows the cursor until every
+  entry has been fetched, then lists them; --max caps the total. With
+  --raw, all pages are combined into a single list response.
+
+  --format flattens each entry into one record with a plain value per
+  property, for spreadsheets and jq:
+    csv, tsv   a header row, then one line per entry
+    json       an array of objects; ndjson: one object per line
+    table      aligned columns for reading in the terminal
+  Dates are ISO 8601 ("start/end" for a range), multi-selects and other
+  lists are joined with ", " in csv/tsv/table and kept as arrays in
+  json, people are exported as emails (or names), and relations as page
+  IDs — or titles with --resolve-relations. --columns picks and orders
+  the columns ("Name,Status,Due"); besides properties it takes id, url,
+  created_time, and last_edited_time. When more entries are available,
+  the hint goes to stderr so stdout holds only the export.
+
+  --table shows entries as rows of a table sized to the terminal, with
+  the same values and --columns / --resolve-relations as --format.
+  Long cells are cut short with "…", and when the columns don't all
+  fit, the widest ones shrink first and any left over are listed below
+  the table. Emoji and CJK characters count as two columns. With --all,
+  the table appears once every entry has been fetched. When stdout is
+  not a terminal, --table falls back to the layout above so piped
+  output stays the same.
+
   Each entry is a Notion page. To read an entry's full content,
   use "page get <entry-id>".
 
@@ -106,72 +354,164 @@ Examples:
   $ notion-cli datasource query <datasource-id>
   $ notion-cli datasource query <datasource-id> --limit 50
   $ notion-cli datasource query <datasource-id> --raw
+  $ notion-cli datasource query <datasource-id> --all
+  $ notion-cli datasource query <datasource-id> --max 1000 --raw > entries.json
+  $ notion-cli datasource query <datasource-id> --where 'Status = "Done"' --sort Due:desc
+  $ notion-cli datasource query <datasource-id> -w '[Due Date] >= 2025-01-01 and Tags contains infra' --all
+  $ notion-cli datasource query <datasource-id> --filter-json '{"property":"Done","checkbox":{"equals":true}}'
+  $ notion-cli datasource query <datasource-id> --all --format csv > entries.csv
+  $ notion-cli datasource query <datasource-id> -a -f ndjson --columns "Name,Status,id" | jq -r .Name
+  $ notion-cli datasource query <datasource-id> -f table --columns Name,Owner,Due
+  $ notion-cli datasource query <datasource-id> --table --limit 50
+  $ notion-cli datasource query <datasource-id> -t -w 'Status != "Done"' --columns "Name,Status,Due,id"
 `,
   )
-  .action(async (datasourceId: string, options: { raw?: boolean; limit: string; cursor?: string }) => {
+  .action(async (
+    datasourceId: string,
+    options: {
+      raw?: boolean;
+      limit?: string;
+      cursor?: string;
+      all?: boolean;
+      max?: string;
+      where?: string;
+      sort?: string[];
+      filterJson?: string;
+      format?: string;
+      table?: boolean;
+      columns?: string;
+      resolveRelations?: boolean;
+    },
+  ) => {
+    if (options.where && options.filterJson) {
+      console.error("Error: use either --where or --filter-json, not both.");
+      process.exit(1);
+    }
+    const format = options.format?.toLowerCase() as ExportFormat | undefined;
+    if (format && !EXPORT_FORMATS.includes(format)) {
+      console.error(`Error: unknown --format "${options.format}". Use one of: ${EXPORT_FORMATS.join(", ")}`);
+      process.exit(1);
+    }
+    if (format && options.raw) {
+      console.error("Error: use either --raw or --format, not both.");
+      process.exit(1);
+    }
+    if (options.table && (options.raw || format)) {
+      console.error("Error: --table can't be combined with --raw or --format.");
+      process.exit(1);
+    }
+    if ((options.columns || options.resolveRelations) && !format && !options.table) {
+      console.error("Error: --columns and --resolve-relations work with --format or --table.");
+      process.exit(1);
+    }
+    // Piped output keeps the entry-per-block layout
+    const table = options.table && process.stdout.isTTY;
+
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
-    const pageSize = Math.min(parseInt(options.limit, 10) || 20, 100);
+    const notion = createNotionClient(bearerToken, getClientOptions());
+    const pageSize = options.limit ? Math.min(parseInt(options.limit, 10) || 20, 100) : undefined;
+    const maxItems = parseMaxOption(options.max);
+
+    let filter: QueryFilter | undefined;
+    if (options.filterJson) {
+      const json = options.filterJson === "-" ? await readTextInput("-") : options.filterJson;
+      try {
+        filter = JSON.parse(json);
+      } catch {
+        console.error("Error: --filter-json value is not valid JSON.");
+        process.exit(1);
+      }
+    }
 
     try {
-      const response = await notion.dataSources.query(datasourceId, {
-        page_size: pageSize,
-        start_cursor: options.cursor,
-      });
+      // --where and --sort are checked against the schema before querying
+      let sorts: QuerySort[] | undefined;
+      let columns: string[] = [];
+      if (options.where || options.sort || format || table) {
+        const { properties } = await notion.dataSources.retrieve(datasourceId);
+        try {
+          if (options.where) filter = compileWhere(options.where, properties);
+          if (options.sort) sorts = compileSorts(options.sort, properties);
+          if (format || table) columns = resolveColumns(properties, options.columns);
+        } catch (error) {
+          if (!(error instanceof FilterError) && !(error instanceof ColumnError)) throw error;
+          console.error(`Error: ${error.message}`);
+          process.exit(1);
+        }
+      }
+      const params = { filter, sorts };
+
+      // One page, or every page combined into the same list shape
+      const list = options.all || maxItems !== undefined
+        ? toListResponse(await collectAll(
+          notion.paginate.dataSourceQuery(datasourceId, params, { maxItems, pageSize, startCursor: options.cursor }),
+        ))
+        : await notion.dataSources.query(datasourceId, { ...params, page_size: pageSize ?? 20, start_cursor: options.cursor });
+      const pages = list.results;
+      const nextCursor = list.has_more ? list.next_cursor : null;
+      const nextPage = `notion-cli datasource query ${datasourceId}${queryFlags(options)} --cursor ${nextCursor}`;
+
+      if (format) {
+        await printExport(notion, pages, format, columns, options.resolveRelations);
+        if (nextCursor) {
+          console.error(`📑 More entries available — add --all to export everything, or fetch the next page:`);
+          console.error(`   ${nextPage}`);
+        }
+        return;
+      }
 
       if (options.raw) {
-        console.log(JSON.stringify(response, null, 2));
+        console.log(JSON.stringify(list, null, 2));
         return;
       }
 
-      if (response.results.length === 0) {
+      if (pages.length === 0) {
         console.log("No entries found.");
         return;
       }
 
-      console.log(`Entries (${response.results.length}${response.has_more ? "+" : ""}):\n`);
-      console.log("─".repeat(60));
-
-      for (const page of response.results) {
-        const pageTitle = getPageTitle(page);
-        const lastEdited = formatDate(page.last_edited_time);
-
-        console.log(`  📄 ${pageTitle}`);
-        console.log(`     ID: ${page.id}`);
-        console.log(`     Last edited: ${lastEdited}`);
-        console.log(`     URL: ${page.url}`);
-
-        for (const [name, prop] of Object.entries(page.properties)) {
-          if (prop.type === "title") continue;
-          const value = formatPropertyValue(prop);
-          console.log(`     ${name}: ${value}`);
+      console.log(`Entries (${pages.length}${nextCursor ? "+" : ""}):\n`);
+      if (table) {
+        await printEntryTable(notion, pages, columns, options.resolveRelations);
+      } else {
+        await resolveUserMentions(notion, pages);
+        console.log("─".repeat(60));
+        for (const page of pages) {
+          printEntry(page);
         }
-
-        console.log();
+        console.log("─".repeat(60));
       }
 
-      console.log("─".repeat(60));
-
-      if (response.has_more && response.next_cursor) {
-        console.log(`\n📑 More entries available. Next page:`);
-        console.log(`   notion-cli datasource query ${datasourceId} --cursor ${response.next_cursor}`);
+      if (nextCursor) {
+        console.log(`\n📑 More entries available. Next page (or use --all to fetch everything):`);
+        console.log(`   ${nextPage}`);
       }
-
-      console.log(`\nTo read an entry: notion-cli page get <entry-id>`);
+      if (!table) console.log(`\nTo read an entry: notion-cli page get <entry-id>`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
 // -- datasource templates -----------------------------------------------------
 
+/** Print one template as an indented block */
+function printTemplate(template: DataSourceTemplate): void {
+  console.log(`  📋 ${template.name || "(unnamed)"}`);
+  console.log(`     ID: ${template.id}`);
+  if (template.is_default) {
+    console.log(`     Default: yes`);
+  }
+  console.log();
+}
+
 const datasourceTemplatesCommand = new Command("templates")
   .description("List available page templates for a data source")
   .argument("<datasource-id>", "data source ID")
   .option("-r, --raw", "output raw JSON instead of formatted text")
   .option("-c, --cursor <cursor>", "pagination cursor from a previous request")
   .option("-n, --limit <number>", "max results per page, 1-100")
+  .option("-a, --all", "fetch every page of templates")
+  .option("-m, --max <number>", "stop after this many templates (implies --all)")
   .addHelpText(
     "after",
     `
@@ -179,19 +519,51 @@ Details:
   Lists page templates available for the data source. Templates are
   pages that serve as blueprints for new entries.
 
+  To create an entry from one, pass its ID to page create:
+    notion-cli page create <datasource-id> --data-source --template-id <id>
+
+  --all follows the cursor until every template has been listed; --max
+  caps the total. With --raw, all pages are combined into a single
+  response.
+
 Examples:
   $ notion-cli datasource templates <datasource-id>
   $ notion-cli datasource templates <datasource-id> --raw
+  $ notion-cli datasource templates <datasource-id> --all
 `,
   )
-  .action(async (datasourceId: string, options: { raw?: boolean; cursor?: string; limit?: string }) => {
+  .action(async (
+    datasourceId: string,
+    options: { raw?: boolean; cursor?: string; limit?: string; all?: boolean; max?: string },
+  ) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
+    const pageSize = options.limit ? Math.min(parseInt(options.limit, 10) || 100, 100) : undefined;
+    const maxItems = parseMaxOption(options.max);
 
     try {
+      if (options.all || maxItems !== undefined) {
+        const templates = notion.paginate.dataSourceTemplates(datasourceId, {}, { maxItems, pageSize, startCursor: options.cursor });
+
+        if (options.raw) {
+          // Same shape as a single templates response
+          const all = await collectAll(templates);
+          console.log(JSON.stringify({ templates: all, has_more: false, next_cursor: null }, null, 2));
+          return;
+        }
+
+        let count = 0;
+        for await (const template of templates) {
+          printTemplate(template);
+          count++;
+        }
+        console.log(count === 0 ? "No templates found." : `Listed ${count} template(s).`);
+        return;
+      }
+
       const response = await notion.dataSources.listTemplates(datasourceId, {
         start_cursor: options.cursor,
-        page_size: options.limit ? Math.min(parseInt(options.limit, 10) || 100, 100) : undefined,
+        page_size: pageSize,
       });
 
       if (options.raw) {
@@ -207,21 +579,15 @@ Examples:
       console.log(`Found ${response.templates.length} template(s):\n`);
 
       for (const template of response.templates) {
-        console.log(`  📋 ${template.name || "(unnamed)"}`);
-        console.log(`     ID: ${template.id}`);
-        if (template.is_default) {
-          console.log(`     Default: yes`);
-        }
-        console.log();
+        printTemplate(template);
       }
 
       if (response.has_more && response.next_cursor) {
-        console.log(`📑 More templates available. Use --cursor to get next page:`);
+        console.log(`📑 More templates available. Use --cursor to get next page, or --all to fetch everything:`);
         console.log(`   notion-cli datasource templates ${datasourceId} --cursor ${response.next_cursor}`);
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -247,7 +613,7 @@ Examples:
   )
   .action(async (databaseId: string, options: { title?: string; raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       const ds = await notion.dataSources.create({
@@ -266,66 +632,22 @@ Examples:
       console.log(`  Title: ${title}`);
       console.log(`  ID: ${ds.id}`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
 // -- datasource update --------------------------------------------------------
 
-/** Property types that can be added via --add-property */
-const VALID_PROPERTY_TYPES = [
-  "rich_text", "number", "select", "multi_select", "date",
-  "checkbox", "url", "email", "phone_number", "status",
-  "people", "files", "created_time", "created_by",
-  "last_edited_time", "last_edited_by",
-];
-
-/**
- * Parse a "Name:type" string into a Notion property schema object.
- * For select/multi_select, accepts "Name:select:Option1,Option2,..." to pre-populate options.
- */
-function parsePropertySpec(spec: string): { name: string; schema: Record<string, unknown> } {
-  const parts = spec.split(":");
-  if (parts.length < 2) {
-    console.error(`Error: invalid property format "${spec}". Expected "Name:type" (e.g. "Artist:rich_text").`);
-    process.exit(1);
-  }
-
-  const name = parts[0].trim();
-  const type = parts[1].trim().toLowerCase();
-
-  if (!name) {
-    console.error(`Error: property name cannot be empty in "${spec}".`);
-    process.exit(1);
-  }
-
-  if (!VALID_PROPERTY_TYPES.includes(type)) {
-    console.error(`Error: unknown property type "${type}" in "${spec}".`);
-    console.error(`Valid types: ${VALID_PROPERTY_TYPES.join(", ")}`);
-    process.exit(1);
-  }
-
-  // For select/multi_select, support optional options after a third colon
-  if ((type === "select" || type === "multi_select") && parts.length >= 3) {
-    const optionNames = parts.slice(2).join(":").split(",").map((o) => o.trim()).filter(Boolean);
-    if (optionNames.length > 0) {
-      return {
-        name,
-        schema: { [type]: { options: optionNames.map((o) => ({ name: o })) } },
-      };
-    }
-  }
-
-  return { name, schema: { [type]: {} } };
-}
-
 const datasourceUpdateCommand = new Command("update")
   .description("Update a data source's title, schema, or properties")
   .argument("<datasource-id>", "the ID of the data source to update")
   .option("-t, --title <title>", "set a new title")
-  .option("-p, --add-property <spec...>", 'add properties — format: "Name:type" (repeatable)')
+  .option("-p, --add-property <spec...>", 'add properties — format: "Name:type[:settings]" (repeatable)')
   .option("--remove-property <name...>", "remove properties by name (repeatable)")
+  .option("--rename-property <spec...>", 'rename properties — format: "Old=New" (repeatable)')
+  .option("--retype <spec...>", 'change property types — format: "Name:type[:settings]" (repeatable)')
+  .option("--add-option <spec...>", 'add select options — format: "Name:Option[:color]" (repeatable)')
+  .option("--remove-option <spec...>", 'remove select options — format: "Name:Option" (repeatable)')
   .option("-r, --raw", "output raw JSON instead of formatted text")
   .addHelpText(
     "after",
@@ -337,57 +659,107 @@ Details:
   --add-property accepts "Name:type" where type is one of:
     rich_text, number, select, multi_select, date, checkbox,
     url, email, phone_number, status, people, files,
-    created_time, created_by, last_edited_time, last_edited_by
-
-  For select/multi_select, pre-populate options with "Name:select:Opt1,Opt2":
-    --add-property "Genre:select:Lo-fi,Shoegaze,Post-rock"
+    created_time, created_by, last_edited_time, last_edited_by,
+    formula, relation, rollup, unique_id
+
+  Some types take settings after a second colon:
+    "Genre:select:Lo-fi,Shoegaze"       select / multi_select options
+    "Price:number:dollar"               number format (number_with_commas,
+                                        percent, euro, pound, yen, …)
+    'Total:formula:prop("Price") * 2'   formula expression
+    "Project:relation:<data-source-id>" relation to another data source;
+                                        add ":dual" to show it on both sides
+    "Cost:rollup:Project:Budget:sum"    rollup of a relation's property
+                                        (sum, average, count, max, …)
+    "ID:unique_id:TASK"                 auto-numbered IDs with a prefix
 
   --remove-property removes a column by name (sets it to null).
 
+  --rename-property "Old=New" renames a column; its values are kept.
+
+  --retype "Name:type[:settings]" changes a column's type, with the same
+  settings as --add-property. Notion converts the existing values where
+  it can. The title property can't change type.
+
+  --add-option "Name:Option:color" adds an option to a select or
+  multi_select property (color is optional: default, gray, brown,
+  orange, yellow, green, blue, purple, pink, red). --remove-option
+  "Name:Option" removes one; entries that used it lose the value.
+  Status options can't be changed through the API.
+
+  Renames, type changes, and option edits are checked against the
+  current schema first, so a misspelled name is reported with a
+  suggestion instead of being sent.
+
 Examples:
   $ notion-cli datasource update <id> --title "New Title"
   $ notion-cli datasource update <id> -p "Artist:rich_text" -p "Year:number"
   $ notion-cli datasource update <id> -p "Genre:select:Rock,Pop,Jazz"
+  $ notion-cli datasource update <id> -p "Price:number:dollar" -p 'Total:formula:prop("Price") * prop("Qty")'
+  $ notion-cli datasource update <id> -p "Project:relation:<projects-data-source-id>:dual"
+  $ notion-cli datasource update <id> -p "Budget:rollup:Project:Budget:sum" -p "ID:unique_id:TASK"
   $ notion-cli datasource update <id> --remove-property "Old Column"
+  $ notion-cli datasource update <id> --rename-property "Due=Due Date" --retype "Notes:rich_text"
+  $ notion-cli datasource update <id> --add-option "Genre:Ambient:purple" --remove-option "Genre:Jazz"
 `,
   )
   .action(async (datasourceId: string, options: {
     title?: string;
     addProperty?: string[];
     removeProperty?: string[];
+    renameProperty?: string[];
+    retype?: string[];
+    addOption?: string[];
+    removeOption?: string[];
     raw?: boolean;
   }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     const params: Record<string, unknown> = {};
     if (options.title) {
       params.title = [{ text: { content: options.title } }];
     }
 
-    // Build properties object from --add-property and --remove-property
-    const properties: Record<string, unknown> = {};
-    if (options.addProperty) {
-      for (const spec of options.addProperty) {
-        const { name, schema } = parsePropertySpec(spec);
-        properties[name] = schema;
-      }
-    }
-    if (options.removeProperty) {
-      for (const name of options.removeProperty) {
-        properties[name] = null;
-      }
-    }
-    if (Object.keys(properties).length > 0) {
-      params.properties = properties;
-    }
-
-    if (Object.keys(params).length === 0) {
-      console.error("Error: nothing to update. Use --title, --add-property, or --remove-property.");
+    const edits: SchemaEdits = {
+      rename: options.renameProperty,
+      retype: options.retype,
+      addOption: options.addOption,
+      removeOption: options.removeOption,
+    };
+    const editsExisting = Object.values(edits).some((specs) => specs && specs.length > 0);
+    if (!params.title && !options.addProperty && !options.removeProperty && !editsExisting) {
+      console.error(
+        "Error: nothing to update. Use --title, --add-property, --remove-property, --rename-property, --retype, --add-option, or --remove-option.",
+      );
       process.exit(1);
     }
 
     try {
+      // Build properties object from the schema flags
+      const properties: Record<string, unknown> = {};
+      try {
+        for (const spec of options.addProperty ?? []) {
+          const { name, schema } = parsePropertySpec(spec);
+          properties[name] = schema;
+        }
+        if (editsExisting) {
+          // Edits to existing properties are checked against the current schema
+          const current = await notion.dataSources.retrieve(datasourceId);
+          Object.assign(properties, schemaChanges(current.properties, edits));
+        }
+      } catch (error) {
+        if (!(error instanceof SchemaError)) throw error;
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+      for (const name of options.removeProperty ?? []) {
+        properties[name] = null;
+      }
+      if (Object.keys(properties).length > 0) {
+        params.properties = properties;
+      }
+
       const ds = await notion.dataSources.update(datasourceId, params);
 
       if (options.raw) {
@@ -410,11 +782,557 @@ Examples:
         }
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      exitWithError(error);
+    }
+  });
+
+// -- datasource update-entries -----------------------------------------------
+
+/** Print the planned changes as a table: one row per entry, one column per property */
+function printChanges(updates: PlannedUpdate[], names: string[]): void {
+  const rows = updates.map((update) => [
+    update.title,
+    ...names.map((name) => {
+      const change = update.changes.find((c) => c.name === name);
+      return change ? `${change.before} → ${change.after}` : "(unchanged)";
+    }),
+  ]);
+  console.log(renderTable(["Entry", ...names], rows));
+}
+
+/** Warn about values the undo log won't be able to put back */
+function printUnrestorable(updates: PlannedUpdate[]): void {
+  const partial = updates.filter((update) => update.unrestorable.length > 0);
+  if (partial.length === 0) return;
+  console.log(`\nWarning: the undo log can't fully restore ${partial.length} entr${partial.length === 1 ? "y" : "ies"}:`);
+  for (const update of partial) console.log(`  ${update.title} — ${update.unrestorable.join("; ")}`);
+}
+
+/** A client whose scheduler runs `--concurrency` requests at once */
+function clientWithConcurrency(value: string): NotionClient {
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.error(`Error: --concurrency must be a positive whole number (got "${value}").`);
+    process.exit(1);
+  }
+  const clientOptions = getClientOptions();
+  return createNotionClient(getBearerToken(), {
+    ...clientOptions,
+    rateLimit: { ...clientOptions.rateLimit, maxConcurrent: concurrency },
+  });
+}
+
+/** Ask before writing; without a terminal to ask on, --yes is required */
+async function confirmOrExit(question: string, yes: boolean | undefined): Promise<boolean> {
+  if (yes) return true;
+  if (!process.stdin.isTTY) {
+    console.error("Error: not running in a terminal, so there's no one to confirm. Pass --yes to apply the changes.");
+    process.exit(1);
+  }
+  return confirm(question);
+}
+
+/** Send the updates and report each failure; exits with an error if any failed */
+function runUpdates(notion: NotionClient, entries: EntryProperties[], verb: string): Promise<void> {
+  return runWrites(entries, ({ page_id, properties }) => notion.pages.update(page_id, { properties }), {
+    label: (entry) => entry.title || entry.page_id,
+    noun: "update",
+    summary: (succeeded) => `${verb} ${succeeded.length} entr${succeeded.length === 1 ? "y" : "ies"}.`,
+  });
+}
+
+const datasourceUpdateEntriesCommand = new Command("update-entries")
+  .description("Set properties on every entry that matches a filter")
+  .argument("[datasource-id]", "data source ID (not needed with --undo)")
+  .option("-w, --where <expression>", "which entries to update, as in datasource query --where")
+  .option("--filter-json <json>", "raw Notion filter object instead of --where (use - to read from stdin)")
+  .option("-s, --set <spec...>", 'new values — format: "Name=value" (repeatable)')
+  .option("--dry-run", "show the changes without applying them")
+  .option("-y, --yes", "apply without asking for confirmation")
+  .option("--concurrency <number>", "updates in flight at once", "3")
+  .option("--undo-log <file>", "where to write the undo log (default: ~/.notion-cli/undo/)")
+  .option("--undo <log>", "restore the values saved in an undo log")
+  .addHelpText(
+    "after",
+    `
+Details:
+  Queries the entries that match --where (or --filter-json), shows a
+  table of each change as "old → new", and asks for confirmation before
+  updating them. --dry-run stops after the table; --yes skips the
+  question, and is required when not running in a terminal.
+
+  --where takes the expression language of "datasource query", plus
+  relative dates (today, yesterday, "90 days ago", "2 weeks from now").
+  created_time and last_edited_time filter on the page timestamps.
+
+  --set takes "Name=value" and resolves the value against the schema,
+  as "page update --set" does: options are checked, people are found by
+  name or email, an empty value clears the property. Entries that
+  already have the new values are left alone.
+
+  Before anything is written, the values being replaced are saved to an
+  undo log in ~/.notion-cli/undo/ (or --undo-log). Replay it with
+  --undo <log> to put every entry back. Long titles, texts, people, and
+  relations are read in full first. Files uploaded to Notion can't be
+  attached again, so the plan warns about entries whose files an undo
+  would drop.
+
+  Updates run --concurrency at a time (default 3), paced to Notion's
+  rate limit. A failed update is reported and the rest carry on; the
+  command exits with an error if any failed.
+
+Examples:
+  $ notion-cli datasource update-entries <datasource-id> \\
+      --where 'last_edited_time < 90 days ago and Status != Archived' --set Status=Archived
+  $ notion-cli datasource update-entries <datasource-id> -w 'Owner is empty' -s "Owner=ada@example.com" --dry-run
+  $ notion-cli datasource update-entries <datasource-id> -w 'Tags contains legacy' -s Priority= -s Tags=archive --yes
+  $ notion-cli datasource update-entries --undo ~/.notion-cli/undo/update-entries-2026-10-19T09-30-00-000Z.json
+`,
+  )
+  .action(async (
+    datasourceId: string | undefined,
+    options: {
+      where?: string;
+      filterJson?: string;
+      set?: string[];
+      dryRun?: boolean;
+      yes?: boolean;
+      concurrency: string;
+      undoLog?: string;
+      undo?: string;
+    },
+  ) => {
+    const notion = clientWithConcurrency(options.concurrency);
+
+    if (options.undo) {
+      let log: UndoLog;
+      try {
+        log = readUndoLog(options.undo);
+      } catch (error) {
+        if (!(error instanceof UndoLogError)) throw error;
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+      const count = log.entries.length;
+      console.log(`Undo log from ${log.created_at}: ${count} entr${count === 1 ? "y" : "ies"} of data source ${log.data_source_id}.`);
+      if (options.dryRun || count === 0) return;
+      if (!(await confirmOrExit(`Restore ${count} entr${count === 1 ? "y" : "ies"}?`, options.yes))) {
+        console.log("Cancelled — no entries were changed.");
+        return;
+      }
+      await runUpdates(notion, log.entries, "Restored");
+      return;
+    }
+
+    if (!datasourceId) {
+      console.error("Error: missing <datasource-id> (or --undo <log>).");
+      process.exit(1);
+    }
+    if (!options.set?.length) {
+      console.error("Error: nothing to set. Use --set Name=value.");
       process.exit(1);
     }
+    if (!options.where === !options.filterJson) {
+      console.error("Error: choose the entries with either --where or --filter-json.");
+      process.exit(1);
+    }
+
+    let filter: QueryFilter | undefined;
+    if (options.filterJson) {
+      const json = options.filterJson === "-" ? await readTextInput("-") : options.filterJson;
+      try {
+        filter = JSON.parse(json);
+      } catch {
+        console.error("Error: --filter-json value is not valid JSON.");
+        process.exit(1);
+      }
+    }
+
+    try {
+      const { properties: schema } = await notion.dataSources.retrieve(datasourceId);
+      const lookups = notionLookups(notion);
+      let properties: Record<string, unknown>;
+      try {
+        if (options.where) filter = compileWhere(options.where, schema);
+        properties = await resolveAssignments(schema, options.set, lookups);
+      } catch (error) {
+        if (!(error instanceof FilterError) && !(error instanceof PropertyInputError)) throw error;
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+
+      const names = Object.keys(properties);
+      const pages = await completeValues(notion, await collectAll(notion.paginate.dataSourceQuery(datasourceId, { filter })), names);
+      if (pages.length === 0) {
+        console.log("No entries match.");
+        return;
+      }
+
+      const people = names.some((name) => schema[name].type === "people");
+      const { updates, unchanged } = planUpdates(pages, schema, properties, people ? await lookups.users() : []);
+      if (updates.length === 0) {
+        console.log(`Nothing to change — all ${pages.length} matching entr${pages.length === 1 ? "y has" : "ies have"} these values.`);
+        return;
+      }
+
+      printChanges(updates, names);
+      const count = updates.length;
+      const skipped = unchanged > 0 ? ` (${unchanged} already up to date)` : "";
+      console.log(`\n${count} of ${pages.length} matching entr${pages.length === 1 ? "y" : "ies"} will change${skipped}.`);
+      printUnrestorable(updates);
+
+      if (options.dryRun) {
+        console.log("Dry run — no entries were changed.");
+        return;
+      }
+      if (!(await confirmOrExit(`Update ${count} entr${count === 1 ? "y" : "ies"}?`, options.yes))) {
+        console.log("Cancelled — no entries were changed.");
+        return;
+      }
+
+      const logPath = writeUndoLog(datasourceId, updates, options.undoLog);
+      console.log(`Undo log: ${logPath}`);
+      await runUpdates(notion, updates, "Updated");
+      console.log(`\nTo undo: notion-cli datasource update-entries --undo ${shellQuote(logPath)}`);
+    } catch (error) {
+      exitWithError(error);
+    }
   });
 
+// -- datasource import --------------------------------------------------------
+
+/** Print the first few problems found in a file, then exit */
+function exitWithProblems(problems: string[]): never {
+  console.error(`Error: nothing was imported — ${problems.length} problem${problems.length === 1 ? "" : "s"} found:`);
+  for (const problem of problems.slice(0, 10)) console.error(`  ${problem}`);
+  if (problems.length > 10) console.error(`  …and ${problems.length - 10} more`);
+  process.exit(1);
+}
+
+const datasourceImportCommand = new Command("import")
+  .description("Create or update data source entries from a CSV file")
+  .argument("<datasource-id>", "data source ID")
+  .argument("<file>", "CSV file to import (use - to read from stdin)")
+  .option("-m, --map <column=property...>", 'fill a property from a differently named column; "Column=" skips it (repeatable)')
+  .option("-k, --key <column>", "update the entry whose value in this column matches, instead of creating one")
+  .option("--create-properties", "add a property for each column the schema doesn't have")
+  .option("-d, --delimiter <char>", 'cell separator, or "tab"', ",")
+  .option("--dry-run", "check the file and show what would happen without writing")
+  .option("--concurrency <number>", "writes in flight at once", "3")
+  .addHelpText(
+    "after",
+    `
+Details:
+  Turns each CSV row into a data source entry. The first row is the
+  header: columns fill the properties with the same name (matched
+  case-insensitively). --map "Column=Property" fills a property from a
+  differently named column, and --map "Column=" skips a column.
+
+  Cells are converted by the property type:
+    number        1,234.50  $12  45% (→ 0.45)
+    checkbox      true/false, yes/no, 1/0, x — empty is unchecked
+    date          2025-07-01, 2025-07-01..2025-07-03, Jul 1 2025, 7/1/2025
+    multi_select  "ui, infra" or "ui; infra"
+    select        any value — Notion adds missing options (status
+                  values must be existing options)
+    people        names or emails; relation: page titles or IDs
+  An empty cell leaves the property empty.
+
+  Every row is checked before anything is written. If any cell doesn't
+  fit, the problems are listed by row and column and nothing is
+  imported.
+
+  Columns without a matching property are an error, unless
+  --create-properties is given: each one is added to the schema as a
+  number, checkbox, date, or text property, depending on its values.
+
+  --key upserts: every existing entry is read first, and a row whose
+  key column matches an entry updates it (every mapped column is
+  written, so empty cells clear values). Other rows create new entries.
+  The key column must be a title, rich_text, number, url, email,
+  phone_number, or select property, and no two rows may share a key.
+
+  Writes run --concurrency at a time (default 3), paced to Notion's
+  rate limit. A failed row is reported and the rest carry on.
+
+Examples:
+  $ notion-cli datasource import <datasource-id> ./tasks.csv
+  $ notion-cli datasource import <datasource-id> ./tasks.csv --dry-run
+  $ notion-cli datasource import <datasource-id> ./tasks.csv --map "Task=Name" --map "Internal ID="
+  $ notion-cli datasource import <datasource-id> ./tasks.csv --key Name --create-properties
+  $ notion-cli datasource import <datasource-id> - --delimiter tab < export.tsv
+`,
+  )
+  .action(async (
+    datasourceId: string,
+    file: string,
+    options: {
+      map?: string[];
+      key?: string;
+      createProperties?: boolean;
+      delimiter: string;
+      dryRun?: boolean;
+      concurrency: string;
+    },
+  ) => {
+    const delimiter = options.delimiter === "tab" ? "\t" : options.delimiter;
+    if (delimiter.length !== 1) {
+      console.error(`Error: --delimiter must be a single character or "tab" (got "${options.delimiter}").`);
+      process.exit(1);
+    }
+    const notion = clientWithConcurrency(options.concurrency);
+    const text = await readTextInput(file);
+
+    try {
+      const { properties } = await notion.dataSources.retrieve(datasourceId);
+      const schema: PropertySchemas = { ...properties };
+      const additions: Record<string, unknown> = {};
+
+      let csv: ReturnType<typeof parseCsv>;
+      let mapping: ReturnType<typeof mapColumns>;
+      try {
+        csv = parseCsv(text, delimiter);
+        mapping = mapColumns(csv.header, schema, options.map);
+      } catch (error) {
+        if (!(error instanceof CsvError)) throw error;
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+      const { header, rows } = csv;
+      const columns = [...mapping.columns];
+
+      if (mapping.missing.length > 0 && !options.createProperties) {
+        const names = Object.keys(schema);
+        exitWithProblems(mapping.missing.map(({ column, property }) => {
+          const suggestion = closestMatch(property!, names);
+          const hint = suggestion ? `--map "${column}=${suggestion}"` : `--map "${column}=Property"`;
+          return `no property named "${property}" for column "${column}" — use ${hint}, --map "${column}=" to skip it, or --create-properties`;
+        }));
+      }
+      for (const missing of mapping.missing) {
+        const name = missing.property!;
+        const type = inferPropertyType(rows.map((row) => row[missing.index]));
+        additions[name] = { [type]: {} };
+        schema[name] = { id: name, name, type, [type]: {} } as DatabasePropertySchema;
+        columns.push(missing);
+      }
+
+      let key: { property: DatabasePropertySchema; index: number } | undefined;
+      if (options.key) {
+        const folded = options.key.toLowerCase();
+        const column = columns.find((c) => c.column.toLowerCase() === folded) ??
+          columns.find((c) => c.property?.toLowerCase() === folded);
+        if (!column?.property) {
+          console.error(`Error: --key "${options.key}" isn't an imported column. Columns: ${header.join(", ")}`);
+          process.exit(1);
+        }
+        const property = schema[column.property];
+        if (!KEY_TYPES.includes(property.type)) {
+          console.error(`Error: --key can't match on ${property.type} property "${property.name}". Use one of: ${KEY_TYPES.join(", ")}`);
+          process.exit(1);
+        }
+        key = { property, index: column.index };
+      }
+
+      const converted = await convertRows(rows, columns, schema, notionLookups(notion));
+      if (converted.errors.length > 0) exitWithProblems(converted.errors);
+
+      console.log(`Read ${rows.length} row${rows.length === 1 ? "" : "s"} from ${file === "-" ? "stdin" : file}.`);
+      console.log("Columns:");
+      for (const { column, property } of [...columns].sort((a, b) => a.index - b.index)) {
+        const target = property ? `${property} (${schema[property].type}${property in additions ? ", new" : ""})` : "(skipped)";
+        console.log(`  ${column} → ${target}`);
+      }
+
+      let matched = 0;
+      if (key) {
+        const keys = rows.map((row) => row[key.index]);
+        const existing = await matchExisting(notion, datasourceId, key.property, converted.rows, keys);
+        if (existing.errors.length > 0) exitWithProblems(existing.errors);
+        matched = existing.matched;
+      }
+      const creates = converted.rows.length - matched;
+      console.log(`\nWill create ${creates} entr${creates === 1 ? "y" : "ies"} and update ${matched}.`);
+
+      if (options.dryRun) {
+        const added = Object.keys(additions);
+        if (added.length > 0) console.log(`Would add properties: ${added.join(", ")}`);
+        console.log("Dry run — nothing was written.");
+        return;
+      }
+      if (converted.rows.length === 0) return;
+
+      if (Object.keys(additions).length > 0) {
+        await notion.dataSources.update(datasourceId, { properties: additions });
+        console.log(`Added properties: ${Object.keys(additions).join(", ")}`);
+      }
+
+      await runWrites(converted.rows, (row) => writeRow(notion, datasourceId, row), {
+        label: (row) => `row ${row.row}`,
+        noun: "row",
+        summary: (succeeded) => {
+          const updated = succeeded.filter((row) => row.page_id).length;
+          const created = succeeded.length - updated;
+          return `Created ${created} entr${created === 1 ? "y" : "ies"}, updated ${updated}.`;
+        },
+      });
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+// -- datasource schema --------------------------------------------------------
+
+const datasourceSchemaPullCommand = new Command("pull")
+  .description("Write a data source's schema as YAML")
+  .argument("<datasource-id>", "data source ID")
+  .addHelpText(
+    "after",
+    `
+Details:
+  Prints the data source's title and properties as a YAML schema file,
+  for keeping in git and applying with "datasource schema apply".
+
+  Each property lists its type, its settings (select options, number
+  format, formula expression, relation target, rollup, unique ID
+  prefix), and its id. The id lets apply tell a renamed property from a
+  new one, so keep it when editing the file.
+
+Examples:
+  $ notion-cli datasource schema pull <datasource-id> > schema.yaml
+`,
+  )
+  .action(async (datasourceId: string) => {
+    const bearerToken = getBearerToken();
+    const notion = createNotionClient(bearerToken, getClientOptions());
+
+    try {
+      const ds = await notion.dataSources.retrieve(datasourceId);
+      process.stdout.write(pullSchema(datasourceId, ds));
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+const PLAN_SYMBOLS = { add: "+", rename: "~", retype: "~", options: "~", remove: "-" } as const;
+
+/** Print a plan like: "+ Priority  select (options Low, High)" */
+function printPlan(plan: SchemaPlan, currentTitle: string): void {
+  if (plan.title !== undefined) console.log(`  ~ title  "${currentTitle}" → "${plan.title}"`);
+  for (const change of plan.changes) {
+    const detail = change.action === "rename" ? "" : `  ${change.detail}`;
+    const name = change.action === "rename" ? change.detail : change.name;
+    const warning = change.action === "remove" ? " — its values will be deleted" : "";
+    console.log(`  ${PLAN_SYMBOLS[change.action]} ${name}${detail}${warning}`);
+  }
+  for (const note of plan.skipped) console.log(`  ! skipped: ${note}`);
+
+  const count = (...actions: string[]) => plan.changes.filter((c) => actions.includes(c.action)).length;
+  const changed = count("rename", "retype", "options") + (plan.title !== undefined ? 1 : 0);
+  console.log(`\nPlan: ${count("add")} to add, ${changed} to change, ${count("remove")} to remove.`);
+}
+
+const datasourceSchemaApplyCommand = new Command("apply")
+  .description("Change a data source's schema to match a YAML file")
+  .argument("<datasource-id>", "data source ID")
+  .argument("<file>", 'schema file from "schema pull" (use - to read from stdin)')
+  .option("--dry-run", "show the plan without changing anything")
+  .option("-y, --yes", "apply without asking for confirmation")
+  .addHelpText(
+    "after",
+    `
+Details:
+  Compares the file with the data source's current schema and prints
+  a plan of what would change:
+    + Priority  select (options Low, High)    added
+    ~ Due → Due Date                          renamed
+    ~ Cost  number → formula (expression …)   type or settings changed
+    ~ Genre  options +Ambient −Jazz           options added / removed
+    - Notes  rich_text — its values will be deleted
+
+  After you confirm (or with --yes), the changes are sent in a single
+  update. Without a terminal to confirm on, --yes is required.
+
+  Properties are matched by id, then by name: changing a name in the
+  file renames the property and keeps its values. Properties without
+  an id are added; properties missing from the file are removed, so
+  check the plan for "-" lines. IDs in a file pulled from another data
+  source are ignored and properties match by name, which copies a
+  schema across data sources.
+
+  A property's settings follow its type:
+    select, multi_select   options (a list of names, or name + color)
+    number                 format (dollar, percent, …)
+    formula                expression
+    relation               data_source_id, dual (true / false)
+    rollup                 relation, property, function (sum, count, …)
+    unique_id              prefix
+  Notion's API can't change status options, the color of an existing
+  option, or the title property's type; those changes are listed as
+  skipped.
+
+Examples:
+  $ notion-cli datasource schema pull <datasource-id> > schema.yaml
+  $ notion-cli datasource schema apply <datasource-id> schema.yaml --dry-run
+  $ notion-cli datasource schema apply <datasource-id> schema.yaml
+  $ notion-cli datasource schema apply <other-datasource-id> schema.yaml --yes
+`,
+  )
+  .action(async (datasourceId: string, file: string, options: { dryRun?: boolean; yes?: boolean }) => {
+    const bearerToken = getBearerToken();
+    const notion = createNotionClient(bearerToken, getClientOptions());
+    const text = await readTextInput(file);
+
+    try {
+      const ds = await notion.dataSources.retrieve(datasourceId);
+      let plan: SchemaPlan;
+      try {
+        plan = planSchema(datasourceId, ds, readSchemaDocument(text));
+      } catch (error) {
+        if (!(error instanceof SchemaError)) throw error;
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+
+      const currentTitle = ds.title?.map((t) => t.plain_text).join("") ?? "";
+      if (plan.changes.length === 0 && plan.title === undefined) {
+        for (const note of plan.skipped) console.log(`  ! skipped: ${note}`);
+        console.log(
+          plan.skipped.length > 0
+            ? "No changes to apply. Notion's API can't make the skipped ones — edit them in Notion."
+            : "No changes. The data source already matches the file.",
+        );
+        return;
+      }
+
+      console.log(`Schema changes for "${currentTitle || "(Untitled)"}" (${datasourceId}):\n`);
+      printPlan(plan, currentTitle);
+
+      if (options.dryRun) {
+        console.log("Dry run — the schema was not changed.");
+        return;
+      }
+      if (!(await confirmOrExit("Apply these changes?", options.yes))) {
+        console.log("Cancelled — the schema was not changed.");
+        return;
+      }
+
+      const params: Record<string, unknown> = {};
+      if (plan.title !== undefined) params.title = [{ text: { content: plan.title } }];
+      if (Object.keys(plan.properties).length > 0) params.properties = plan.properties;
+      await notion.dataSources.update(datasourceId, params);
+      console.log("Schema updated.");
+      console.log(`\nTo record the ids of new properties: notion-cli datasource schema pull ${datasourceId} > ${shellQuote(file === "-" ? "schema.yaml" : file)}`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+const datasourceSchemaCommand = new Command("schema")
+  .description("Keep a data source's schema in a YAML file")
+  .addCommand(datasourceSchemaPullCommand)
+  .addCommand(datasourceSchemaApplyCommand);
+
 // -- datasource command group -------------------------------------------------
 
 export const datasourceCommand = new Command("datasource")
@@ -423,4 +1341,7 @@ export const datasourceCommand = new Command("datasource")
   .addCommand(datasourceQueryCommand)
   .addCommand(datasourceTemplatesCommand)
   .addCommand(datasourceCreateCommand)
-  .addCommand(datasourceUpdateCommand);
+  .addCommand(datasourceUpdateCommand)
+  .addCommand(datasourceUpdateEntriesCommand)
+  .addCommand(datasourceImportCommand)
+  .addCommand(datasourceSchemaCommand);
@@ -49,6 +49,12 @@ workspace, start from the roots and traverse down:
     $ notion-cli database get <database-id>
     Use the data source ID from the output:
     $ notion-cli datasource query <datasource-id>
+    Narrow and order entries with --where and --sort:
+    $ notion-cli datasource query <datasource-id> --where 'Status = "Done"' --sort Due:desc
+    Export them for a spreadsheet or jq (csv, tsv, json, ndjson, table):
+    $ notion-cli datasource query <datasource-id> --all --format csv > entries.csv
+    Or read them side by side as a table sized to the terminal:
+    $ notion-cli datasource query <datasource-id> --table --columns "Name,Status,Due"
 
   Step 4 — Read child pages and database entries:
     $ notion-cli page get <page-id>
@@ -61,12 +67,28 @@ Key points:
   • Databases have two layers — database (metadata) and data source (schema + entries)
   • IDs are in the output — every child shows its ID for navigation
 
+  To save a page as Markdown (annotations, links, lists, tables kept),
+  or as a standalone HTML file with Notion's colors:
+    $ notion-cli page export <page-id> -o page.md
+    $ notion-cli page export <page-id> --format html -o page.html
+
+  To save the whole tree to disk in one go (JSON + Markdown per page,
+  resumable if interrupted):
+    $ notion-cli workspace backup ./backup
+  and to recreate it later under another page:
+    $ notion-cli workspace restore ./backup --parent <page-id>
+
 WRITING CONTENT
 ---------------
 
   Create pages:       page create <parent-id> --title "My Page"
-  Update pages:       page update <id> --title "New" -s "Status:select:Done"
+  From a template:    page create <parent-id> --template standup --var date=2026-10-19
+  List templates:     template list
+  Templated entries:  page create <datasource-id> --data-source --template default
+  Update pages:       page update <id> --title "New" -s "Status=Done"
   Append blocks:      block append <page-id> "text" --type heading_2
+  Import Markdown:    page import <parent-id> ./doc.md
+  Append Markdown:    block append <page-id> --markdown ./notes.md
   Update blocks:      block update <block-id> "new text" --color blue
   Delete blocks:      block delete <block-id>
   Add comments:       comment add <page-id> "comment text"
@@ -74,12 +96,18 @@ WRITING CONTENT
   Upload files:       file upload ./file.pdf
   Move pages:         page move <id> --parent <new-parent-id>
   Archive pages:      page archive <id>
-  Create databases:   database create <parent-id> --title "Tracker"
+  Create databases:   database create <parent-id> --title "Tracker" -p "Status:status" --inline
   Manage schema:      datasource update <id> -p "Column:type"
+  Rename or retype:   datasource update <id> --rename-property "Old=New" --retype "Cost:number:dollar"
+  Schema as code:     datasource schema pull <id> > schema.yaml, then schema apply <id> schema.yaml
+  Bulk-edit entries:  datasource update-entries <id> -w 'Status = Done' -s Status=Archived
+  Import CSV:         datasource import <id> ./rows.csv --key Name
 
-  page update --set accepts "Name:type:value" properties:
-    rich_text, number, select, multi_select, date, checkbox,
-    url, email, phone_number
+  page update/create --set "Name=value" infers the type from the schema —
+  select/status options are checked, people match by name or email,
+  relations by page title, files by upload ID. The older
+  "Name:type:value" form supports rich_text, number, select,
+  multi_select, date, checkbox, url, email, phone_number.
 
   block append --type supports:
     paragraph, heading_1, heading_2, heading_3, callout, quote, divider,
@@ -105,12 +133,20 @@ Use --raw (-r) on most commands for full JSON output — only use this
 when you need fields not shown in the default view.
 
 When more results are available, pagination hints appear in the output
-with the --cursor value for the next page.
+with the --cursor value for the next page. List commands (search,
+datasource query/templates, block children, comment list, user list,
+file list) also accept --all to fetch every page in one run, and
+--max <n> to stop after n results, starting from --cursor when given
+and fetching --limit results per request. With --raw, all pages are
+combined into a single JSON list.
 
 Run "notion-cli <command> --help" for detailed usage and examples on
 any subcommand.
 
-  • Block fetching uses parallel API calls for speed
+  • Rate-limited (429) and transient 5xx responses are retried with
+    backoff; set NOTION_RETRY_MAX_ATTEMPTS to tune (1 disables retries)
+  • Block fetching uses parallel API calls, paced to Notion's ~3
+    requests/second limit (NOTION_REQUESTS_PER_SECOND, NOTION_MAX_CONCURRENCY)
   • Large pages (100+ blocks) may take 5–15 seconds
   • Data source queries are fast (single API call)
   • integration pages paginates internally (may take a few seconds)
@@ -8,8 +8,16 @@
 import { Command } from "commander";
 import { readFileSync, statSync } from "fs";
 import { basename } from "path";
-import { createNotionClient } from "../src/postman/notion-api/index.js";
-import { getBearerToken, formatDate, lookup as mimeLookup } from "../helpers.js";
+import { createNotionClient, collectAll, type FileUpload } from "../src/postman/notion-api/index.js";
+import {
+  getBearerToken,
+  formatDate,
+  lookup as mimeLookup,
+  exitWithError,
+  getClientOptions,
+  parseMaxOption,
+  toListResponse,
+} from "../helpers.js";
 
 // -- file upload --------------------------------------------------------------
 
@@ -36,7 +44,7 @@ Examples:
   )
   .action(async (filePath: string, options: { raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       const stat = statSync(filePath);
@@ -77,18 +85,30 @@ Examples:
       console.log(`  Status: ${completed.status}`);
       console.log(`  Created: ${formatDate(completed.created_time)}`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
 // -- file list ----------------------------------------------------------------
 
+/** Print one file upload as an indented block */
+function printFileUpload(file: FileUpload): void {
+  console.log(`  📎 ${file.filename || "(unnamed)"}`);
+  console.log(`     ID: ${file.id}`);
+  console.log(`     Content type: ${file.content_type || "unknown"}`);
+  console.log(`     Size: ${file.content_length ?? "unknown"} bytes`);
+  console.log(`     Status: ${file.status}`);
+  console.log(`     Created: ${formatDate(file.created_time)}`);
+  console.log();
+}
+
 const fileListCommand = new Command("list")
   .description("List file uploads")
   .option("-r, --raw", "output raw JSON instead of formatted text")
-  .option("-n, --limit <number>", "max results per page, 1-100", "20")
+  .option("-n, --limit <number>", "max results per page, 1-100 (default: 20)")
   .option("-c, --cursor <cursor>", "pagination cursor from a previous request")
+  .option("-a, --all", "fetch every page of file uploads")
+  .option("-m, --max <number>", "stop after this many file uploads (implies --all)")
   .addHelpText(
     "after",
     `
@@ -96,20 +116,43 @@ Details:
   Lists file uploads for the current integration. Shows each
   file's name, ID, size, status, and creation date.
 
+  --all follows the cursor until every upload has been listed; --max
+  caps the total. With --raw, all pages are combined into a single list
+  response.
+
 Examples:
   $ notion-cli file list
   $ notion-cli file list --limit 50
   $ notion-cli file list --raw
+  $ notion-cli file list --all
 `,
   )
-  .action(async (options: { raw?: boolean; limit: string; cursor?: string }) => {
+  .action(async (options: { raw?: boolean; limit?: string; cursor?: string; all?: boolean; max?: string }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
-    const pageSize = Math.min(parseInt(options.limit, 10) || 20, 100);
+    const notion = createNotionClient(bearerToken, getClientOptions());
+    const pageSize = options.limit ? Math.min(parseInt(options.limit, 10) || 20, 100) : undefined;
+    const maxItems = parseMaxOption(options.max);
 
     try {
+      if (options.all || maxItems !== undefined) {
+        const files = notion.paginate.fileUploads({ maxItems, pageSize, startCursor: options.cursor });
+
+        if (options.raw) {
+          console.log(JSON.stringify(toListResponse(await collectAll(files)), null, 2));
+          return;
+        }
+
+        let count = 0;
+        for await (const file of files) {
+          printFileUpload(file);
+          count++;
+        }
+        console.log(count === 0 ? "No file uploads found." : `Listed ${count} file upload(s).`);
+        return;
+      }
+
       const response = await notion.fileUploads.list({
-        page_size: pageSize,
+        page_size: pageSize ?? 20,
         start_cursor: options.cursor,
       });
 
@@ -126,22 +169,15 @@ Examples:
       console.log(`Found ${response.results.length} file upload(s):\n`);
 
       for (const file of response.results) {
-        console.log(`  📎 ${file.filename || "(unnamed)"}`);
-        console.log(`     ID: ${file.id}`);
-        console.log(`     Content type: ${file.content_type || "unknown"}`);
-        console.log(`     Size: ${file.content_length ?? "unknown"} bytes`);
-        console.log(`     Status: ${file.status}`);
-        console.log(`     Created: ${formatDate(file.created_time)}`);
-        console.log();
+        printFileUpload(file);
       }
 
       if (response.has_more && response.next_cursor) {
-        console.log(`📑 More results available. Use --cursor to get next page:`);
+        console.log(`📑 More results available. Use --cursor to get next page, or --all to fetch everything:`);
         console.log(`   notion-cli file list --cursor ${response.next_cursor}`);
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -165,7 +201,7 @@ Examples:
   )
   .action(async (fileId: string, options: { raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       const file = await notion.fileUploads.retrieve(fileId);
@@ -182,8 +218,7 @@ Examples:
       console.log(`  Status: ${file.status}`);
       console.log(`  Created: ${formatDate(file.created_time)}`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
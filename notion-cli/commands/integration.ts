@@ -4,8 +4,8 @@
  */
 
 import { Command } from "commander";
-import { createNotionClient, type NotionPage } from "../src/postman/notion-api/index.js";
-import { getBearerToken, getPageTitle, formatDate } from "../helpers.js";
+import { createNotionClient } from "../src/postman/notion-api/index.js";
+import { getBearerToken, getPageTitle, formatDate, exitWithError, getClientOptions, findRootPages } from "../helpers.js";
 
 // -- integration pages --------------------------------------------------------
 
@@ -41,51 +41,20 @@ Examples:
   )
   .action(async () => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     console.log("🔍 Finding root pages...\n");
 
     try {
-      const allPages: NotionPage[] = [];
-      let cursor: string | undefined;
-
-      // Paginate through all pages the integration can see
-      do {
-        const response = await notion.search({
-          filter: { value: "page", property: "object" },
-          start_cursor: cursor,
-          page_size: 100,
-        });
-
-        for (const result of response.results) {
-          if (result.object === "page") {
-            allPages.push(result as NotionPage);
-          }
-        }
-
-        cursor = response.has_more ? (response.next_cursor ?? undefined) : undefined;
-      } while (cursor);
-
-      // Build a set of all visible page IDs
-      const visibleIds = new Set(allPages.map((p) => p.id));
-
-      // A page is a root if its parent is the workspace, or its parent
-      // page isn't in the set of pages the integration can see.
-      const rootPages = allPages.filter((page) => {
-        if (page.parent.type === "workspace") return true;
-        if (page.parent.type === "page_id" && page.parent.page_id) return !visibleIds.has(page.parent.page_id);
-        // database/data source children are not roots — they live inside a visible database
-        if (page.parent.type === "database_id" || page.parent.type === "data_source_id") return false;
-        return false;
-      });
+      const { rootPages, scanned } = await findRootPages(notion);
 
       if (rootPages.length === 0) {
         console.log("No root pages found.");
-        console.log(`(Scanned ${allPages.length} total pages)`);
+        console.log(`(Scanned ${scanned} total pages)`);
         return;
       }
 
-      console.log(`Found ${rootPages.length} root page(s) (scanned ${allPages.length} total):\n`);
+      console.log(`Found ${rootPages.length} root page(s) (scanned ${scanned} total):\n`);
 
       for (const page of rootPages) {
         const title = getPageTitle(page);
@@ -101,8 +70,7 @@ Examples:
         console.log();
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
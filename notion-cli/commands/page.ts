@@ -1,11 +1,49 @@
 /**
  * page command group
- *   page get <id>  — fetch and display a page's content
+ *   page get <id>                    — fetch and display a page's content
+ *   page export <id>                 — export a page as Markdown or HTML
+ *   page import <parent-id> <file>   — create a page from Markdown
  */
 
 import { Command } from "commander";
-import { createNotionClient, type NotionBlock } from "../src/postman/notion-api/index.js";
-import { getBearerToken, getPageTitle, formatDate, formatPropertyValue, formatBlock } from "../helpers.js";
+import { writeFileSync } from "fs";
+import { basename, extname } from "path";
+import {
+  createNotionClient,
+  collectAll,
+  type CreatePageParams,
+  type NotionBlock,
+  type NotionClient,
+  type PageParent,
+  type PageTemplateSelection,
+  type BlockInput,
+  type RichTextInput,
+} from "../src/postman/notion-api/index.js";
+import {
+  getBearerToken,
+  getPageTitle,
+  formatDate,
+  formatPropertyValue,
+  formatBlock,
+  exitWithError,
+  getClientOptions,
+  fetchBlockTree,
+  appendBlockTree,
+  APPEND_CHUNK_SIZE,
+  readTextInput,
+  resolveUserMentions,
+} from "../helpers.js";
+import { renderPageMarkdown } from "../markdown.js";
+import { renderPageHtml } from "../html.js";
+import { markdownToBlocks } from "../markdown-import.js";
+import { loadTemplate, parseVars, renderTemplate, TemplateError, type PageTemplate } from "../templates.js";
+import {
+  fetchPropertySchema,
+  notionLookups,
+  PropertyInputError,
+  resolveAssignments,
+  type PropertySchemas,
+} from "../property-input.js";
 
 // -- page get -----------------------------------------------------------------
 
@@ -20,7 +58,7 @@ Details:
   Fetches a single page and displays:
     • Metadata – title, ID, parent, created/edited dates, URL
     • Properties – all page properties (useful for database entries)
-    • Content – recursively fetches all blocks (parallel for speed)
+    • Content – recursively fetches all blocks (parallel, rate-limited)
     • Children – lists child pages (📄) and child databases (🗃️)
 
   Does NOT traverse into child pages or databases; it stays within
@@ -37,33 +75,22 @@ Examples:
   )
   .action(async (pageId: string, options: { raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       // First fetch page metadata
       const page = await notion.pages.retrieve(pageId);
 
-      // Fetch blocks with parallel recursion for speed
+      // Fetch blocks with parallel recursion — the client's scheduler
+      // caps in-flight requests and paces them under Notion's rate limit
       const allBlocks: NotionBlock[] = [];
 
       async function fetchBlocksAtLevel(blockId: string, depth: number = 0): Promise<NotionBlock[]> {
         const blocks: NotionBlock[] = [];
-        let cursor: string | undefined;
-
-        do {
-          const response = await notion.blocks.retrieveChildren(blockId, {
-            start_cursor: cursor,
-            page_size: 100,
-          });
-
-          for (const block of response.results) {
-            (block as NotionBlock & { _depth: number })._depth = depth;
-            blocks.push(block);
-          }
-
-          cursor = response.has_more ? (response.next_cursor ?? undefined) : undefined;
-        } while (cursor);
-
+        for await (const block of notion.paginate.blockChildren(blockId)) {
+          (block as NotionBlock & { _depth: number })._depth = depth;
+          blocks.push(block);
+        }
         return blocks;
       }
 
@@ -92,6 +119,7 @@ Examples:
       }
 
       // Formatted output
+      await resolveUserMentions(notion, [page.properties, allBlocks]);
       console.log(`📄 Fetching page...\n`);
 
       const title = getPageTitle(page);
@@ -147,49 +175,476 @@ Examples:
 
       console.log("─".repeat(60));
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
+    }
+  });
+
+// -- page export --------------------------------------------------------------
+
+const EXPORT_FORMATS = ["markdown", "html"] as const;
+
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
+function normalizeExportFormat(input: string): ExportFormat {
+  const v = input.trim().toLowerCase();
+  if (v === "md") return "markdown";
+  if (v === "htm") return "html";
+  if ((EXPORT_FORMATS as readonly string[]).includes(v)) return v as ExportFormat;
+  console.error(`Error: unsupported --format "${input}". Expected: ${EXPORT_FORMATS.join(", ")}.`);
+  process.exit(1);
+}
+
+const pageExportCommand = new Command("export")
+  .description("Export a page's content as Markdown or HTML")
+  .argument("<page-id>", "Notion page ID")
+  .option("-f, --format <format>", "output format: markdown (md) or html", "markdown")
+  .option("-o, --output <file>", "write to a file instead of stdout")
+  .addHelpText(
+    "after",
+    `
+Details:
+  Fetches the page and all of its nested blocks, then renders them as
+  GitHub-flavored Markdown:
+    • Bold, italic, strikethrough, inline code, and links are kept
+      (underline becomes <u>…</u>)
+    • Bulleted, numbered, and to-do lists keep their nesting and numbering
+    • Tables are rebuilt from their rows; toggles become <details>
+    • Code blocks keep their language; callouts become blockquotes
+    • Columns are laid out one after another
+    • Mentions and child pages link back to Notion; user mentions
+      show as @Name and equations as $…$
+
+  The page title is written as a level-1 heading. Child pages and
+  databases are linked, not inlined.
+
+  --format html writes a single self-contained HTML file with an embedded
+  stylesheet: text and background colors from each block's color, callouts
+  with their icons, toggles as <details>, and tables with header rows and
+  columns. Block headings start at <h2> below the page title.
+
+Examples:
+  $ notion-cli page export <page-id>
+  $ notion-cli page export <page-id> --format md -o README.md
+  $ notion-cli page export <page-id> > docs/design.md
+  $ notion-cli page export <page-id> --format html -o site/design.html
+`,
+  )
+  .action(async (pageId: string, options: { format: string; output?: string }) => {
+    const format = normalizeExportFormat(options.format);
+    const bearerToken = getBearerToken();
+    const notion = createNotionClient(bearerToken, getClientOptions());
+
+    try {
+      const [page, blocks] = await Promise.all([
+        notion.pages.retrieve(pageId),
+        fetchBlockTree(notion, pageId),
+      ]);
+      await resolveUserMentions(notion, [page.properties, blocks]);
+
+      const rendered = format === "html" ? renderPageHtml(page, blocks) : renderPageMarkdown(page, blocks);
+
+      if (!options.output) {
+        process.stdout.write(rendered);
+        return;
+      }
+
+      writeFileSync(options.output, rendered);
+      console.log(`Exported "${getPageTitle(page)}" to ${options.output}`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+// -- page import --------------------------------------------------------------
+
+/** Plain text of a rich text array built by markdownToBlocks */
+function richTextContent(richText: RichTextInput[] | undefined): string {
+  return (richText ?? [])
+    .map((item) => (item.type === "text" ? item.text.content : item.type === "equation" ? item.equation.expression : ""))
+    .join("");
+}
+
+/** Count blocks in a tree, nested children included */
+function countBlocks(blocks: BlockInput[]): number {
+  return blocks.reduce((total, block) => {
+    const content = (block as Record<string, unknown>)[block.type] as { children?: BlockInput[] } | undefined;
+    const children = content?.children ?? [];
+    return total + 1 + countBlocks(children);
+  }, 0);
+}
+
+const pageImportCommand = new Command("import")
+  .description("Create a page from a Markdown file")
+  .argument("<parent-id>", "ID of the parent page")
+  .argument("<file>", "Markdown file to import (use - for stdin)")
+  .option("-t, --title <title>", "page title (default: the leading # heading, else the file name)")
+  .option("-r, --raw", "output raw JSON instead of formatted text")
+  .addHelpText(
+    "after",
+    `
+Details:
+  Converts CommonMark / GitHub-flavored Markdown into Notion blocks and
+  creates a new page with them under the parent page.
+
+  Supported: headings, paragraphs, bold/italic/strikethrough/inline code,
+  links, nested bulleted/numbered lists, task lists (- [ ] / - [x]),
+  fenced code (language kept), quotes, GitHub alerts (> [!NOTE]) as
+  callouts, tables, images (absolute URLs, as external files), dividers,
+  <details> toggles, and $…$ / $$…$$ equations.
+
+  If the document starts with a level-1 heading and --title isn't given,
+  that heading becomes the page title. Blocks are appended in batches of
+  100, with nested content added level by level.
+
+  Relative links and local image paths can't be stored in Notion and are
+  kept as plain text.
+
+Examples:
+  $ notion-cli page import <parent-page-id> ./README.md
+  $ notion-cli page import <parent-page-id> ./notes.md --title "Meeting notes"
+  $ cat doc.md | notion-cli page import <parent-page-id> -
+`,
+  )
+  .action(async (parentId: string, file: string, options: { title?: string; raw?: boolean }) => {
+    const markdown = await readTextInput(file);
+    const bearerToken = getBearerToken();
+    const notion = createNotionClient(bearerToken, getClientOptions());
+
+    const blocks = markdownToBlocks(markdown);
+    let title = options.title;
+    const heading = blocks[0];
+    if (!title && heading?.type === "heading_1") {
+      blocks.shift();
+      title = richTextContent(heading.heading_1.rich_text);
+    }
+    if (!title) {
+      title = file === "-" ? "Untitled" : basename(file, extname(file));
+    }
+
+    try {
+      const page = await notion.pages.create({
+        parent: { page_id: parentId },
+        properties: { title: [{ text: { content: title } }] },
+      });
+      const created = await appendBlockTree(notion, page.id, blocks);
+
+      if (options.raw) {
+        console.log(JSON.stringify({ page, blocks: created }, null, 2));
+        return;
+      }
+
+      console.log(`Page imported.`);
+      console.log(`  Title: ${getPageTitle(page)}`);
+      console.log(`  ID: ${page.id}`);
+      console.log(`  Blocks: ${countBlocks(blocks)}`);
+      console.log(`  URL: ${page.url}`);
+    } catch (error) {
+      exitWithError(error);
     }
   });
 
+// -- property values ----------------------------------------------------------
+
+/**
+ * Parse a "Name:type:value" property-set spec into a Notion property value object.
+ * Supported types: rich_text, number, select, multi_select, date, checkbox, url, email, phone_number
+ */
+function parsePropertyValue(spec: string): { name: string; value: unknown } {
+  const colonIdx = spec.indexOf(":");
+  if (colonIdx === -1) {
+    console.error(`Error: invalid property format "${spec}". Expected "Name:type:value".`);
+    process.exit(1);
+  }
+
+  const name = spec.slice(0, colonIdx).trim();
+  const rest = spec.slice(colonIdx + 1);
+  const secondColon = rest.indexOf(":");
+  if (secondColon === -1) {
+    console.error(`Error: invalid property format "${spec}". Expected "Name:type:value" (e.g. "Artist:rich_text:Radiohead").`);
+    process.exit(1);
+  }
+
+  const type = rest.slice(0, secondColon).trim().toLowerCase();
+  const rawValue = rest.slice(secondColon + 1);
+
+  switch (type) {
+    case "rich_text":
+      return { name, value: { rich_text: [{ text: { content: rawValue } }] } };
+    case "number":
+      return { name, value: { number: Number(rawValue) } };
+    case "select":
+      return { name, value: { select: { name: rawValue } } };
+    case "multi_select":
+      return { name, value: { multi_select: rawValue.split(",").map((v) => ({ name: v.trim() })) } };
+    case "date":
+      return { name, value: { date: { start: rawValue } } };
+    case "checkbox":
+      return { name, value: { checkbox: rawValue.toLowerCase() === "true" } };
+    case "url":
+      return { name, value: { url: rawValue } };
+    case "email":
+      return { name, value: { email: rawValue } };
+    case "phone_number":
+      return { name, value: { phone_number: rawValue } };
+    default:
+      console.error(`Error: unsupported property type "${type}" in "${spec}".`);
+      console.error(`Supported: rich_text, number, select, multi_select, date, checkbox, url, email, phone_number`);
+      process.exit(1);
+  }
+}
+
+/** Types the explicit "Name:type:value" form of --set supports */
+const TYPED_SET_TYPES = [
+  "rich_text", "number", "select", "multi_select", "date", "checkbox", "url", "email", "phone_number",
+];
+
+/**
+ * Build the properties for --set specs. "Name:type:value" specs are taken
+ * as written; "Name=value" specs are resolved against the schema of the
+ * page's data source, which is fetched only if one of them is present.
+ *
+ * @throws PropertyInputError for a "Name=value" spec that doesn't fit the schema
+ */
+async function setProperties(
+  notion: NotionClient,
+  parent: () => Promise<PageParent>,
+  specs: string[],
+): Promise<Record<string, unknown>> {
+  const properties: Record<string, unknown> = {};
+  const lookups = notionLookups(notion);
+  let schema: PropertySchemas | undefined;
+
+  for (const spec of specs) {
+    const typed = spec.match(/^[^=:]+:([a-z_]+):/);
+    if (typed && TYPED_SET_TYPES.includes(typed[1])) {
+      const { name, value } = parsePropertyValue(spec);
+      properties[name] = value;
+      continue;
+    }
+    schema ??= await fetchPropertySchema(notion, await parent());
+    Object.assign(properties, await resolveAssignments(schema, [spec], lookups));
+  }
+  return properties;
+}
+
 // -- page create --------------------------------------------------------------
 
+/** Turn a rendered template into pages.create params; --title wins over the template's title */
+function templateParams(template: PageTemplate, title: string | undefined): Omit<CreatePageParams, "parent"> {
+  const properties: Record<string, unknown> = { ...template.properties };
+  const pageTitle = title ?? template.title;
+  if (pageTitle !== undefined) {
+    properties.title = [{ text: { content: pageTitle } }];
+  }
+
+  const params: Omit<CreatePageParams, "parent"> = { properties };
+  if (template.children?.length) params.children = template.children;
+  if (typeof template.icon === "string") {
+    params.icon = { type: "emoji", emoji: template.icon };
+  } else if (template.icon) {
+    params.icon = template.icon;
+  }
+  if (typeof template.cover === "string") {
+    params.cover = { type: "external", external: { url: template.cover } };
+  } else if (template.cover) {
+    params.cover = template.cover;
+  }
+  return params;
+}
+
+/** How often, and for how long, to check whether Notion has applied a data source template */
+const TEMPLATE_POLL_INTERVAL_MS = 1000;
+const TEMPLATE_POLL_TIMEOUT_MS = 60_000;
+
+/**
+ * Notion applies data source templates after the page is created. Wait
+ * until the template shows up on the page: its content, or — for a
+ * template without blocks — the properties it fills in. Properties the
+ * command set itself don't count, and a template that neither has blocks
+ * nor fills in other properties has nothing to wait for.
+ *
+ * @returns false if the template hadn't appeared before the timeout
+ */
+async function waitForTemplate(
+  notion: NotionClient,
+  dataSourceId: string,
+  selection: PageTemplateSelection,
+  pageId: string,
+  setNames: string[],
+): Promise<boolean> {
+  const templateId = selection.type === "template_id"
+    ? selection.template_id
+    : (await collectAll(notion.paginate.dataSourceTemplates(dataSourceId))).find((t) => t.is_default)?.id;
+  if (!templateId) return true;
+
+  let appeared: () => Promise<boolean>;
+  const { results } = await notion.blocks.retrieveChildren(templateId, { page_size: 1 });
+  if (results.length > 0) {
+    appeared = async () => (await notion.blocks.retrieveChildren(pageId, { page_size: 1 })).results.length > 0;
+  } else {
+    const template = await notion.pages.retrieve(templateId);
+    const filled = Object.entries(template.properties)
+      .filter(([name, prop]) => prop.type !== "title" && !setNames.includes(name) && formatPropertyValue(prop) !== "(empty)")
+      .map(([name]) => name);
+    if (filled.length === 0) return true;
+    appeared = async () => {
+      const { properties } = await notion.pages.retrieve(pageId);
+      return filled.every((name) => properties[name] && formatPropertyValue(properties[name]) !== "(empty)");
+    };
+  }
+
+  const deadline = Date.now() + TEMPLATE_POLL_TIMEOUT_MS;
+  for (;;) {
+    if (await appeared()) return true;
+    if (Date.now() + TEMPLATE_POLL_INTERVAL_MS > deadline) return false;
+    await new Promise((resolve) => setTimeout(resolve, TEMPLATE_POLL_INTERVAL_MS));
+  }
+}
+
+interface PageCreateOptions {
+  title?: string;
+  database?: boolean;
+  dataSource?: boolean;
+  template?: string;
+  templateId?: string;
+  var?: string[];
+  set?: string[];
+  wait: boolean;
+  raw?: boolean;
+}
+
 const pageCreateCommand = new Command("create")
-  .description("Create a new page under a parent page or database")
-  .argument("<parent-id>", "ID of the parent page or database")
+  .description("Create a new page under a parent page, database, or data source")
+  .argument("<parent-id>", "ID of the parent page, database, or data source")
   .option("-t, --title <title>", "page title")
   .option("-d, --database", "parent is a database (default: parent is a page)")
+  .option("--data-source", "parent is a data source — create an entry, optionally from one of its templates")
+  .option("--template <file-or-name>", 'create the page from a JSON template (see: notion-cli template list), or "default" for the data source\'s default template')
+  .option("--template-id <id>", "create the entry from this data source template (see: notion-cli datasource templates)")
+  .option("--var <name=value...>", "fill in a {{placeholder}} in the template (repeatable)")
+  .option("-s, --set <spec...>", 'set property values — "Name=value" or "Name:type:value" (repeatable)')
+  .option("--no-wait", "don't wait for Notion to apply a data source template")
   .option("-r, --raw", "output raw JSON instead of formatted text")
   .addHelpText(
     "after",
     `
 Details:
   Creates a new page. By default, the parent is treated as a page.
-  Use --database if the parent is a database (properties must match
-  the database schema).
-
-  For simple pages under a parent page, --title is all you need.
+  Use --database if the parent is a database, or --data-source if it is
+  a data source (properties must match the schema).
+
+  For simple pages under a parent page, --title is all you need. --set
+  takes the same specs as page update — "Name=value", checked against
+  the parent's schema, or "Name:type:value".
+
+  --template takes a JSON file, or the name of one saved in
+  ~/.notion-cli/templates/ (standup → standup.json). A template can set:
+    title         the page title (--title overrides it)
+    icon          an emoji, or an icon object
+    cover         an external image URL, or a cover object
+    properties    property values as the API takes them
+    children      content blocks as the API takes them
+
+  Any string in the template may contain {{placeholders}}; give each a
+  value with --var name=value. The page and its content are created in a
+  single request (blocks past the first 100 are appended afterwards).
+
+  Data sources have templates of their own in Notion. With --data-source,
+  --template default applies the data source's default template and
+  --template-id <id> a specific one. Notion fills in the template after
+  the entry is created, so the command waits (up to a minute) for the
+  template's content — or, for a template without blocks, the properties
+  it fills in — to appear before printing the entry; --no-wait skips that.
 
 Examples:
   $ notion-cli page create <parent-page-id> --title "My New Page"
   $ notion-cli page create <parent-page-id> --title "My New Page" --raw
+  $ notion-cli page create <parent-page-id> --template ./standup.json --var date=2026-10-19 --var owner=@alice
+  $ notion-cli page create <database-id> --database --template bug-report --var title="Login fails"
+  $ notion-cli page create <datasource-id> --data-source --template default --title "Sprint 42"
+  $ notion-cli page create <datasource-id> --data-source --template-id <template-id> -s "Status=Planned"
 `,
   )
-  .action(async (parentId: string, options: { title?: string; database?: boolean; raw?: boolean }) => {
+  .action(async (parentId: string, options: PageCreateOptions) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
+
+    if (options.database && options.dataSource) {
+      console.error("Error: use either --database or --data-source, not both.");
+      process.exit(1);
+    }
+
+    let notionTemplate: PageTemplateSelection | undefined;
+    if (options.templateId || (options.dataSource && options.template === "default")) {
+      if (!options.dataSource) {
+        console.error("Error: --template-id applies a data source template. Use it with --data-source.");
+        process.exit(1);
+      }
+      if (options.templateId && options.template) {
+        console.error("Error: use either --template or --template-id, not both.");
+        process.exit(1);
+      }
+      notionTemplate = options.templateId
+        ? { type: "template_id", template_id: options.templateId }
+        : { type: "default" };
+    }
 
     const parent = options.database
       ? { database_id: parentId }
-      : { page_id: parentId };
-
-    const properties: Record<string, unknown> = {};
-    if (options.title) {
-      properties.title = [{ text: { content: options.title } }];
+      : options.dataSource
+        ? { data_source_id: parentId }
+        : { page_id: parentId };
+
+    let params: Omit<CreatePageParams, "parent"> = { properties: {} };
+    if (notionTemplate) {
+      params.template = notionTemplate;
+      if (options.title) params.properties.title = [{ text: { content: options.title } }];
+    } else if (options.template) {
+      try {
+        const { template } = loadTemplate(options.template);
+        params = templateParams(renderTemplate(template, parseVars(options.var ?? [])), options.title);
+      } catch (error) {
+        if (!(error instanceof TemplateError)) throw error;
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+    } else if (options.title) {
+      params.properties.title = [{ text: { content: options.title } }];
+    }
+    if (options.var && (notionTemplate || !options.template)) {
+      console.error("Error: --var fills in a template file. Use it with --template <file-or-name>.");
+      process.exit(1);
     }
 
+    // Notion takes at most 100 blocks with the page; the rest are appended
+    const children = params.children ?? [];
+    if (children.length > APPEND_CHUNK_SIZE) params.children = children.slice(0, APPEND_CHUNK_SIZE);
+
     try {
-      const page = await notion.pages.create({ parent, properties });
+      if (options.set) {
+        const pageParent: PageParent = options.database
+          ? { type: "database_id", database_id: parentId }
+          : options.dataSource
+            ? { type: "data_source_id", data_source_id: parentId }
+            : { type: "page_id", page_id: parentId };
+        Object.assign(params.properties, await setProperties(notion, async () => pageParent, options.set));
+      }
+
+      let page = await notion.pages.create({ parent, ...params });
+      if (children.length > APPEND_CHUNK_SIZE) {
+        await appendBlockTree(notion, page.id, children.slice(APPEND_CHUNK_SIZE));
+      }
+
+      let applied = false;
+      if (notionTemplate && options.wait) {
+        if (!options.raw) console.log("Waiting for Notion to apply the template...");
+        applied = await waitForTemplate(notion, parentId, notionTemplate, page.id, Object.keys(params.properties));
+        // Re-read the entry for the properties the template filled in
+        page = await notion.pages.retrieve(page.id);
+        if (!applied) {
+          console.error("Warning: the template's content hasn't appeared yet — Notion may still be applying it.");
+        }
+      }
 
       if (options.raw) {
         console.log(JSON.stringify(page, null, 2));
@@ -200,10 +655,21 @@ Examples:
       console.log(`Page created.`);
       console.log(`  Title: ${title}`);
       console.log(`  ID: ${page.id}`);
+      if (children.length > 0) {
+        console.log(`  Blocks: ${countBlocks(children)}`);
+      }
+      if (notionTemplate) {
+        const name = notionTemplate.type === "template_id" ? notionTemplate.template_id : "default";
+        const status = !options.wait ? "applying in the background" : applied ? "applied" : "still applying";
+        console.log(`  Template: ${name} (${status})`);
+      }
       console.log(`  URL: ${page.url}`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      if (error instanceof PropertyInputError) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+      exitWithError(error);
     }
   });
 
@@ -227,7 +693,7 @@ Examples:
   )
   .action(async (pageId: string, options: { raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       const page = await notion.pages.archive(pageId);
@@ -241,8 +707,7 @@ Examples:
       console.log(`  ID: ${page.id}`);
       console.log(`  Archived: ${page.archived}`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -273,7 +738,7 @@ Examples:
   )
   .action(async (pageId: string, propertyId: string, options: { raw?: boolean; cursor?: string }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       const result = await notion.pages.retrieveProperty(pageId, propertyId, {
@@ -317,66 +782,17 @@ Examples:
         }
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
 // -- page update --------------------------------------------------------------
 
-/**
- * Parse a "Name:type:value" property-set spec into a Notion property value object.
- * Supported types: rich_text, number, select, multi_select, date, checkbox, url, email, phone_number
- */
-function parsePropertyValue(spec: string): { name: string; value: unknown } {
-  const colonIdx = spec.indexOf(":");
-  if (colonIdx === -1) {
-    console.error(`Error: invalid property format "${spec}". Expected "Name:type:value".`);
-    process.exit(1);
-  }
-
-  const name = spec.slice(0, colonIdx).trim();
-  const rest = spec.slice(colonIdx + 1);
-  const secondColon = rest.indexOf(":");
-  if (secondColon === -1) {
-    console.error(`Error: invalid property format "${spec}". Expected "Name:type:value" (e.g. "Artist:rich_text:Radiohead").`);
-    process.exit(1);
-  }
-
-  const type = rest.slice(0, secondColon).trim().toLowerCase();
-  const rawValue = rest.slice(secondColon + 1);
-
-  switch (type) {
-    case "rich_text":
-      return { name, value: { rich_text: [{ text: { content: rawValue } }] } };
-    case "number":
-      return { name, value: { number: Number(rawValue) } };
-    case "select":
-      return { name, value: { select: { name: rawValue } } };
-    case "multi_select":
-      return { name, value: { multi_select: rawValue.split(",").map((v) => ({ name: v.trim() })) } };
-    case "date":
-      return { name, value: { date: { start: rawValue } } };
-    case "checkbox":
-      return { name, value: { checkbox: rawValue.toLowerCase() === "true" } };
-    case "url":
-      return { name, value: { url: rawValue } };
-    case "email":
-      return { name, value: { email: rawValue } };
-    case "phone_number":
-      return { name, value: { phone_number: rawValue } };
-    default:
-      console.error(`Error: unsupported property type "${type}" in "${spec}".`);
-      console.error(`Supported: rich_text, number, select, multi_select, date, checkbox, url, email, phone_number`);
-      process.exit(1);
-  }
-}
-
 const pageUpdateCommand = new Command("update")
   .description("Update a page's properties, icon, or cover")
   .argument("<page-id>", "the ID of the page to update")
   .option("-t, --title <title>", "set a new title")
-  .option("-s, --set <spec...>", 'set property values — format: "Name:type:value" (repeatable)')
+  .option("-s, --set <spec...>", 'set property values — "Name=value" or "Name:type:value" (repeatable)')
   .option("--icon <emoji>", "set page icon (emoji)")
   .option("--cover <url>", "set page cover image (external URL)")
   .option("-r, --raw", "output raw JSON instead of formatted text")
@@ -388,11 +804,22 @@ Details:
   title property, --set for other properties, --icon for the page emoji,
   and --cover for the cover image.
 
-  --set accepts "Name:type:value" where type is one of:
-    rich_text, number, select, multi_select, date,
-    checkbox, url, email, phone_number
-
-  For multi_select, separate values with commas:
+  --set "Name=value" looks the property up in the page's data source
+  schema and converts the value for its type:
+    Status=Done              select and status options (checked against
+                             the schema, with "did you mean")
+    Tags=Rock,Indie          multi_select, comma-separated
+    Owner=ada@example.com    people, by name or email (or user ID)
+    Project=Website Redesign relation, by the related page's title (or ID)
+    Due=2025-07-01..2025-07-03  date, or a start..end range
+    Spec=<file-upload-id>    files, from "file upload" (or a URL)
+  plus title, rich_text, number, checkbox, url, email, and phone_number.
+  An empty value (Status=) clears the property.
+
+  The explicit "Name:type:value" form skips the schema lookup. Its type
+  is one of rich_text, number, select, multi_select, date, checkbox,
+  url, email, phone_number — and, unlike Name=value, it can add new
+  select options:
     --set "Tags:multi_select:Rock,Indie,90s"
 
   --icon accepts a single emoji character. To remove, pass "none".
@@ -400,6 +827,8 @@ Details:
 
 Examples:
   $ notion-cli page update <page-id> --title "New Title"
+  $ notion-cli page update <page-id> --set "Status=In progress" --set "Owner=Ada Lovelace"
+  $ notion-cli page update <page-id> -s "Project=Website Redesign" -s "Due=2025-07-01"
   $ notion-cli page update <page-id> --set "Artist:rich_text:Radiohead"
   $ notion-cli page update <page-id> -s "Artist:rich_text:Radiohead" -s "Year:number:1997"
   $ notion-cli page update <page-id> --icon 🎸
@@ -410,23 +839,17 @@ Examples:
   )
   .action(async (pageId: string, options: { title?: string; set?: string[]; icon?: string; cover?: string; raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     const properties: Record<string, unknown> = {};
     if (options.title) {
       properties.title = [{ text: { content: options.title } }];
     }
-    if (options.set) {
-      for (const spec of options.set) {
-        const { name, value } = parsePropertyValue(spec);
-        properties[name] = value;
-      }
-    }
 
     // Build the update params
     const params: Record<string, unknown> = {};
 
-    if (Object.keys(properties).length > 0) {
+    if (options.title || options.set) {
       params.properties = properties;
     }
 
@@ -454,6 +877,11 @@ Examples:
     }
 
     try {
+      if (options.set) {
+        const parent = async () => (await notion.pages.retrieve(pageId)).parent;
+        Object.assign(properties, await setProperties(notion, parent, options.set));
+      }
+
       const page = await notion.pages.update(pageId, params);
 
       if (options.raw) {
@@ -475,8 +903,11 @@ Examples:
       }
       console.log(`  URL: ${page.url}`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      if (error instanceof PropertyInputError) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+      exitWithError(error);
     }
   });
 
@@ -501,7 +932,7 @@ Examples:
   )
   .action(async (pageId: string, options: { parent: string; raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       const page = await notion.pages.move(pageId, {
@@ -520,8 +951,7 @@ Examples:
       console.log(`  New parent: ${options.parent}`);
       console.log(`  URL: ${page.url}`);
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -530,6 +960,8 @@ Examples:
 export const pageCommand = new Command("page")
   .description("Read and manage Notion pages")
   .addCommand(pageGetCommand)
+  .addCommand(pageExportCommand)
+  .addCommand(pageImportCommand)
   .addCommand(pageCreateCommand)
   .addCommand(pageUpdateCommand)
   .addCommand(pageArchiveCommand)
@@ -3,8 +3,16 @@
  */
 
 import { Command } from "commander";
-import { createNotionClient, type NotionDatabase, type NotionPage } from "../src/postman/notion-api/index.js";
-import { getBearerToken, getPageTitle, formatDate } from "../helpers.js";
+import { createNotionClient, collectAll, type NotionDatabase, type NotionPage } from "../src/postman/notion-api/index.js";
+import {
+  getBearerToken,
+  getPageTitle,
+  formatDate,
+  exitWithError,
+  getClientOptions,
+  parseMaxOption,
+  toListResponse,
+} from "../helpers.js";
 
 type SearchFilterOption = "page" | "database" | "all";
 
@@ -57,14 +65,120 @@ function isDataSource(result: unknown): result is DataSourceResult {
   return (result as Record<string, unknown>)?.object === "data_source";
 }
 
+/** Print one search result (page, database, or data source) as an indented block */
+function printSearchResult(result: NotionPage | NotionDatabase): void {
+  if (isNotionPage(result)) {
+    const title = getPageTitle(result);
+    const lastEdited = formatDate(result.last_edited_time);
+    const created = formatDate(result.created_time);
+
+    // Determine parent type and ID
+    const parent = result.parent;
+    let parentInfo: string;
+    if (parent.type === "database_id") {
+      parentInfo = `database (ID: ${parent.database_id})`;
+    } else if (parent.type === "data_source_id") {
+      parentInfo = `data source (ID: ${parent.data_source_id})`;
+    } else if (parent.type === "page_id") {
+      parentInfo = `page (ID: ${parent.page_id})`;
+    } else {
+      parentInfo = "workspace (top-level)";
+    }
+
+    console.log(`  📄 ${title}`);
+    console.log(`     ID: ${result.id}`);
+    console.log(`     Parent: ${parentInfo}`);
+    console.log(`     Created: ${created}`);
+    console.log(`     Last edited: ${lastEdited}`);
+    console.log(`     Archived: ${result.archived}`);
+    console.log(`     URL: ${result.url}`);
+    console.log();
+    return;
+  }
+
+  if (isNotionDatabase(result)) {
+    const title = result.title.map((t) => t.plain_text).join("") || "(Untitled)";
+    const lastEdited = formatDate(result.last_edited_time);
+    const created = formatDate(result.created_time);
+
+    const parent = result.parent;
+    let parentInfo: string;
+    if (parent.type === "page_id") {
+      parentInfo = `page (ID: ${parent.page_id})`;
+    } else if (parent.type === "block_id") {
+      parentInfo = `block (ID: ${parent.block_id})`;
+    } else {
+      parentInfo = "workspace (top-level)";
+    }
+
+    console.log(`  🗃️ ${title}`);
+    console.log(`     ID: ${result.id}`);
+    console.log(`     Parent: ${parentInfo}`);
+    console.log(`     Created: ${created}`);
+    console.log(`     Last edited: ${lastEdited}`);
+    console.log(`     Archived: ${result.archived}`);
+    console.log(`     URL: ${result.url}`);
+    console.log();
+    return;
+  }
+
+  // Data source objects are returned when filtering for databases (2025-09-03 API)
+  const dsResult = result as unknown;
+  if (isDataSource(dsResult)) {
+    const title = dsResult.title?.map((t: { plain_text: string }) => t.plain_text).join("") || "(Untitled)";
+    const lastEdited = formatDate(dsResult.last_edited_time);
+    const created = formatDate(dsResult.created_time);
+
+    // Data sources have a parent (the database) and database_parent (the database's parent)
+    const dsParent = dsResult.parent as { type?: string; database_id?: string } | undefined;
+    const dbParent = dsResult.database_parent as { type?: string; page_id?: string } | undefined;
+    let parentInfo: string;
+    if (dsParent?.database_id) {
+      parentInfo = `database (ID: ${dsParent.database_id})`;
+    } else if (dbParent?.page_id) {
+      parentInfo = `page (ID: ${dbParent.page_id})`;
+    } else {
+      parentInfo = "workspace";
+    }
+
+    // Show schema summary if available
+    const propEntries = Object.entries(dsResult.properties || {});
+    const schemaInfo = propEntries.length > 0
+      ? propEntries.map(([name, p]) => `${name}: ${(p as { type: string }).type}`).join(", ")
+      : undefined;
+
+    console.log(`  🗃️ ${title}`);
+    console.log(`     ID: ${dsResult.id}`);
+    console.log(`     Parent: ${parentInfo}`);
+    console.log(`     Created: ${created}`);
+    console.log(`     Last edited: ${lastEdited}`);
+    if (dsResult.archived !== undefined) {
+      console.log(`     Archived: ${dsResult.archived}`);
+    }
+    if (dsResult.url) {
+      console.log(`     URL: ${dsResult.url}`);
+    }
+    if (schemaInfo) {
+      console.log(`     Schema: ${schemaInfo}`);
+    }
+    console.log();
+    return;
+  }
+
+  // Shouldn't happen, but keep output resilient if Notion adds new objects.
+  console.log(`  [Unknown object: ${(result as unknown as Record<string, unknown>).object || "?"}] ${(result as unknown as { id?: string }).id || ""}`);
+}
+
 export const searchCommand = new Command("search")
   .description("Search for pages and databases")
   .argument("[query]", "text to search for (omit to list all results)")
   .option("-c, --cursor <cursor>", "pagination cursor from a previous search")
-  .option("-n, --limit <number>", "max results per page, 1-100", "20")
+  .option("-n, --limit <number>", "max results per page, 1-100 (default: 20)")
   .option("-f, --filter <object>", "filter results by object type: page, database, or all", "page")
   .option("-d, --direction <direction>", "sort direction: ascending (asc) or descending (desc)")
   .option("--sort-by <timestamp>", "sort timestamp field (default: last_edited_time)", "last_edited_time")
+  .option("-a, --all", "fetch every page of results")
+  .option("-m, --max <number>", "stop after this many results (implies --all)")
   .option("-r, --raw", "output raw JSON instead of formatted text")
   .addHelpText(
     "after",
@@ -82,6 +196,11 @@ Details:
 
   Each result shows: title, ID, parent, dates, and URL.
 
+  By default one page of results is fetched. --all follows the cursor
+  until every result has been listed, printing each page as it arrives;
+  --max caps the total. With --raw, all pages are combined into a single
+  list response.
+
 Examples:
   $ notion-cli search                           # list all pages
   $ notion-cli search --filter database         # list databases
@@ -90,29 +209,64 @@ Examples:
   $ notion-cli search -n 5                      # limit to 5 results
   $ notion-cli search --direction ascending     # oldest edits first
   $ notion-cli search -d desc                   # newest edits first
+  $ notion-cli search --all                     # every page, all pages of results
+  $ notion-cli search --max 500 --raw           # first 500 pages as JSON
 `,
   )
   .action(
     async (
       query: string | undefined,
-      options: { cursor?: string; limit: string; filter?: string; direction?: string; sortBy: string; raw?: boolean },
+      options: {
+        cursor?: string;
+        limit?: string;
+        filter?: string;
+        direction?: string;
+        sortBy: string;
+        all?: boolean;
+        max?: string;
+        raw?: boolean;
+      },
     ) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
     const filterOption = normalizeFilterOption(options.filter);
     const sortDirection = normalizeDirectionOption(options.direction);
-    const pageSize = Math.min(parseInt(options.limit, 10) || 20, 100);
+    const pageSize = options.limit ? Math.min(parseInt(options.limit, 10) || 20, 100) : undefined;
+    const maxItems = parseMaxOption(options.max);
 
     const filterLabel =
       filterOption === "page" ? "pages" : filterOption === "database" ? "databases" : "pages and databases";
 
+    const searchParams = {
+      query: query || undefined,
+      ...(filterOption === "all" ? {} : { filter: { value: FILTER_API_VALUE[filterOption], property: "object" as const } }),
+      ...(sortDirection ? { sort: { direction: sortDirection, timestamp: options.sortBy } } : {}),
+    };
+
     try {
+      if (options.all || maxItems !== undefined) {
+        const results = notion.paginate.search(searchParams, { maxItems, pageSize, startCursor: options.cursor });
+
+        if (options.raw) {
+          console.log(JSON.stringify(toListResponse(await collectAll(results)), null, 2));
+          return;
+        }
+
+        console.log(query ? `🔍 Searching ${filterLabel} for "${query}"...\n` : `🔍 Listing ${filterLabel}...\n`);
+
+        let count = 0;
+        for await (const result of results) {
+          printSearchResult(result);
+          count++;
+        }
+        console.log(count === 0 ? `No ${filterLabel} found.` : `Listed ${count} result(s).`);
+        return;
+      }
+
       const response = await notion.search({
-        query: query || undefined,
-        ...(filterOption === "all" ? {} : { filter: { value: FILTER_API_VALUE[filterOption], property: "object" } }),
-        ...(sortDirection ? { sort: { direction: sortDirection, timestamp: options.sortBy } } : {}),
+        ...searchParams,
         start_cursor: options.cursor,
-        page_size: pageSize,
+        page_size: pageSize ?? 20,
       });
 
       if (options.raw) {
@@ -130,115 +284,15 @@ Examples:
       console.log(`Found ${response.results.length} result(s):\n`);
 
       for (const result of response.results) {
-        if (isNotionPage(result)) {
-          const title = getPageTitle(result);
-          const lastEdited = formatDate(result.last_edited_time);
-          const created = formatDate(result.created_time);
-
-          // Determine parent type and ID
-          const parent = result.parent;
-          let parentInfo: string;
-          if (parent.type === "database_id") {
-            parentInfo = `database (ID: ${parent.database_id})`;
-          } else if (parent.type === "data_source_id") {
-            parentInfo = `data source (ID: ${parent.data_source_id})`;
-          } else if (parent.type === "page_id") {
-            parentInfo = `page (ID: ${parent.page_id})`;
-          } else {
-            parentInfo = "workspace (top-level)";
-          }
-
-          console.log(`  📄 ${title}`);
-          console.log(`     ID: ${result.id}`);
-          console.log(`     Parent: ${parentInfo}`);
-          console.log(`     Created: ${created}`);
-          console.log(`     Last edited: ${lastEdited}`);
-          console.log(`     Archived: ${result.archived}`);
-          console.log(`     URL: ${result.url}`);
-          console.log();
-          continue;
-        }
-
-        if (isNotionDatabase(result)) {
-          const title = result.title.map((t) => t.plain_text).join("") || "(Untitled)";
-          const lastEdited = formatDate(result.last_edited_time);
-          const created = formatDate(result.created_time);
-
-          const parent = result.parent;
-          let parentInfo: string;
-          if (parent.type === "page_id") {
-            parentInfo = `page (ID: ${parent.page_id})`;
-          } else if (parent.type === "block_id") {
-            parentInfo = `block (ID: ${parent.block_id})`;
-          } else {
-            parentInfo = "workspace (top-level)";
-          }
-
-          console.log(`  🗃️ ${title}`);
-          console.log(`     ID: ${result.id}`);
-          console.log(`     Parent: ${parentInfo}`);
-          console.log(`     Created: ${created}`);
-          console.log(`     Last edited: ${lastEdited}`);
-          console.log(`     Archived: ${result.archived}`);
-          console.log(`     URL: ${result.url}`);
-          console.log();
-          continue;
-        }
-
-        // Data source objects are returned when filtering for databases (2025-09-03 API)
-        const dsResult = result as unknown;
-        if (isDataSource(dsResult)) {
-          const title = dsResult.title?.map((t: { plain_text: string }) => t.plain_text).join("") || "(Untitled)";
-          const lastEdited = formatDate(dsResult.last_edited_time);
-          const created = formatDate(dsResult.created_time);
-
-          // Data sources have a parent (the database) and database_parent (the database's parent)
-          const dsParent = dsResult.parent as { type?: string; database_id?: string } | undefined;
-          const dbParent = dsResult.database_parent as { type?: string; page_id?: string } | undefined;
-          let parentInfo: string;
-          if (dsParent?.database_id) {
-            parentInfo = `database (ID: ${dsParent.database_id})`;
-          } else if (dbParent?.page_id) {
-            parentInfo = `page (ID: ${dbParent.page_id})`;
-          } else {
-            parentInfo = "workspace";
-          }
-
-          // Show schema summary if available
-          const propEntries = Object.entries(dsResult.properties || {});
-          const schemaInfo = propEntries.length > 0
-            ? propEntries.map(([name, p]) => `${name}: ${(p as { type: string }).type}`).join(", ")
-            : undefined;
-
-          console.log(`  🗃️ ${title}`);
-          console.log(`     ID: ${dsResult.id}`);
-          console.log(`     Parent: ${parentInfo}`);
-          console.log(`     Created: ${created}`);
-          console.log(`     Last edited: ${lastEdited}`);
-          if (dsResult.archived !== undefined) {
-            console.log(`     Archived: ${dsResult.archived}`);
-          }
-          if (dsResult.url) {
-            console.log(`     URL: ${dsResult.url}`);
-          }
-          if (schemaInfo) {
-            console.log(`     Schema: ${schemaInfo}`);
-          }
-          console.log();
-          continue;
-        }
-
-        // Shouldn't happen, but keep output resilient if Notion adds new objects.
-        console.log(`  [Unknown object: ${(result as unknown as Record<string, unknown>).object || "?"}] ${(result as unknown as { id?: string }).id || ""}`);
+        printSearchResult(result);
       }
 
       if (response.has_more && response.next_cursor) {
-        console.log(`\n📑 More results available. Use --cursor to get next page:`);
+        console.log(`\n📑 More results available. Use --cursor to get next page, or --all to fetch everything:`);
         console.log(`   notion-cli search ${query ? `"${query}" ` : ""}--cursor ${response.next_cursor}`);
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   },
 );
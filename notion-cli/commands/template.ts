@@ -0,0 +1,63 @@
+/**
+ * template command group
+ *   template list  — show the page templates saved in ~/.notion-cli/templates/
+ */
+
+import { Command } from "commander";
+import { listTemplates, templateVariables, TEMPLATES_DIR } from "../templates.js";
+
+// -- template list ------------------------------------------------------------
+
+const templateListCommand = new Command("list")
+  .description("List the page templates saved in ~/.notion-cli/templates/")
+  .option("-r, --raw", "output raw JSON instead of formatted text")
+  .addHelpText(
+    "after",
+    `
+Details:
+  Lists every .json file in ~/.notion-cli/templates/ with its
+  description and the {{placeholders}} it needs. Pass the name to
+  "page create --template" and fill in each placeholder with --var.
+
+  A file that isn't a valid template is listed with the reason.
+
+Examples:
+  $ notion-cli template list
+  $ notion-cli template list --raw
+  $ notion-cli page create <parent-page-id> --template standup --var date=2026-10-19
+`,
+  )
+  .action((options: { raw?: boolean }) => {
+    const templates = listTemplates().map((file) =>
+      "template" in file ? { ...file, variables: templateVariables(file.template) } : file,
+    );
+
+    if (options.raw) {
+      console.log(JSON.stringify(templates, null, 2));
+      return;
+    }
+
+    if (templates.length === 0) {
+      console.log(`No templates found. Save page templates as JSON files in ${TEMPLATES_DIR}/`);
+      return;
+    }
+
+    console.log(`Templates in ${TEMPLATES_DIR} (${templates.length}):\n`);
+    for (const file of templates) {
+      if ("error" in file) {
+        console.log(`  ${file.name} — invalid: ${file.error}`);
+        continue;
+      }
+      const description = file.template.description ? ` — ${file.template.description}` : "";
+      console.log(`  ${file.name}${description}`);
+      if (file.variables.length > 0) {
+        console.log(`    Variables: ${file.variables.join(", ")}`);
+      }
+    }
+  });
+
+// -- template command group ---------------------------------------------------
+
+export const templateCommand = new Command("template")
+  .description("Manage local page templates for page create")
+  .addCommand(templateListCommand);
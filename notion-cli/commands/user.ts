@@ -4,8 +4,8 @@
  */
 
 import { Command } from "commander";
-import { createNotionClient } from "../src/postman/notion-api/index.js";
-import { getBearerToken } from "../helpers.js";
+import { createNotionClient, collectAll, type NotionUser } from "../src/postman/notion-api/index.js";
+import { getBearerToken, exitWithError, getClientOptions, parseMaxOption, toListResponse } from "../helpers.js";
 
 // -- user me ------------------------------------------------------------------
 
@@ -27,7 +27,7 @@ Examples:
   )
   .action(async (options: { raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       const user = await notion.users.me();
@@ -56,8 +56,7 @@ Examples:
         }
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -80,7 +79,7 @@ Examples:
   )
   .action(async (userId: string, options: { raw?: boolean }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
 
     try {
       const user = await notion.users.retrieve(userId);
@@ -112,37 +111,89 @@ Examples:
         }
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
 // -- user list ----------------------------------------------------------------
 
+/** Print one user as an indented block of the list output */
+function printUser(user: NotionUser): void {
+  const icon = user.type === "bot" ? "🤖" : "👤";
+  console.log(`  ${icon} ${user.name || "(unnamed)"}`);
+  console.log(`     ID: ${user.id}`);
+  console.log(`     Type: ${user.type}`);
+  if (user.type === "person" && user.person?.email) {
+    console.log(`     Email: ${user.person.email}`);
+  }
+  if (user.type === "bot" && user.bot) {
+    if (user.bot.workspace_name) {
+      console.log(`     Workspace: ${user.bot.workspace_name}`);
+    }
+    if (user.bot.owner) {
+      const owner = user.bot.owner;
+      if (owner.type === "workspace") {
+        console.log(`     Owner: workspace`);
+      } else if (owner.type === "user" && owner.user) {
+        const ownerName = owner.user.name || owner.user.id;
+        const ownerEmail = owner.user.person?.email;
+        console.log(`     Owner: ${ownerName}${ownerEmail ? ` (${ownerEmail})` : ""}`);
+      }
+    }
+  }
+  console.log();
+}
+
 const userListCommand = new Command("list")
   .description("List all users in the workspace")
   .option("-r, --raw", "output raw JSON instead of formatted text")
   .option("-c, --cursor <cursor>", "pagination cursor from a previous list")
   .option("-n, --limit <number>", "max results per page, 1-100", "100")
+  .option("-a, --all", "fetch every page of results")
+  .option("-m, --max <number>", "stop after this many results (implies --all)")
   .addHelpText(
     "after",
     `
 Details:
   Returns a paginated list of all users (people and bots) in the workspace.
 
+  By default one page is fetched. --all follows the cursor until every
+  user has been listed, printing each page as it arrives; --max caps the
+  total. With --raw, all pages are combined into a single list response.
+
 Examples:
   $ notion-cli user list
   $ notion-cli user list --raw
   $ notion-cli user list -n 10
   $ notion-cli user list --cursor <cursor>
+  $ notion-cli user list --all
+  $ notion-cli user list --max 250 --raw
 `,
   )
-  .action(async (options: { raw?: boolean; cursor?: string; limit: string }) => {
+  .action(async (options: { raw?: boolean; cursor?: string; limit: string; all?: boolean; max?: string }) => {
     const bearerToken = getBearerToken();
-    const notion = createNotionClient(bearerToken);
+    const notion = createNotionClient(bearerToken, getClientOptions());
     const pageSize = Math.min(parseInt(options.limit, 10) || 100, 100);
+    const maxItems = parseMaxOption(options.max);
 
     try {
+      if (options.all || maxItems !== undefined) {
+        const users = notion.paginate.users({ maxItems, pageSize, startCursor: options.cursor });
+
+        if (options.raw) {
+          console.log(JSON.stringify(toListResponse(await collectAll(users)), null, 2));
+          return;
+        }
+
+        let count = 0;
+        for await (const user of users) {
+          printUser(user);
+          count++;
+        }
+        console.log(count === 0 ? "No users found." : `Listed ${count} user(s).`);
+        return;
+      }
+
       const response = await notion.users.list({
         start_cursor: options.cursor,
         page_size: pageSize,
@@ -161,38 +212,15 @@ Examples:
       console.log(`Found ${response.results.length} user(s):\n`);
 
       for (const user of response.results) {
-        const icon = user.type === "bot" ? "🤖" : "👤";
-        console.log(`  ${icon} ${user.name || "(unnamed)"}`);
-        console.log(`     ID: ${user.id}`);
-        console.log(`     Type: ${user.type}`);
-        if (user.type === "person" && user.person?.email) {
-          console.log(`     Email: ${user.person.email}`);
-        }
-        if (user.type === "bot" && user.bot) {
-          if (user.bot.workspace_name) {
-            console.log(`     Workspace: ${user.bot.workspace_name}`);
-          }
-          if (user.bot.owner) {
-            const owner = user.bot.owner;
-            if (owner.type === "workspace") {
-              console.log(`     Owner: workspace`);
-            } else if (owner.type === "user" && owner.user) {
-              const ownerName = owner.user.name || owner.user.id;
-              const ownerEmail = owner.user.person?.email;
-              console.log(`     Owner: ${ownerName}${ownerEmail ? ` (${ownerEmail})` : ""}`);
-            }
-          }
-        }
-        console.log();
+        printUser(user);
       }
 
       if (response.has_more && response.next_cursor) {
-        console.log(`📑 More results available. Use --cursor to get next page:`);
+        console.log(`📑 More results available. Use --cursor to get next page, or --all to fetch everything:`);
         console.log(`   notion-cli user list --cursor ${response.next_cursor}`);
       }
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : error}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -0,0 +1,181 @@
+/**
+ * workspace command group
+ *   workspace backup <dir>                — snapshot every reachable page and database to disk
+ *   workspace restore <dir> --parent <id> — recreate a backup under a page
+ */
+
+import { Command } from "commander";
+import { resolve } from "path";
+import { createNotionClient } from "../src/postman/notion-api/index.js";
+import { getBearerToken, exitWithError, getClientOptions } from "../helpers.js";
+import { backupWorkspace, readManifest, MANIFEST_FILE, type BackupEvent } from "../backup.js";
+import { restoreWorkspace } from "../restore.js";
+
+// -- workspace backup ---------------------------------------------------------
+
+const ITEM_ICONS: Record<BackupEvent["type"], string> = {
+  page: "📄",
+  database: "🗃️",
+  data_source: "🗃️",
+};
+
+const workspaceBackupCommand = new Command("backup")
+  .description("Back up every page and database the integration can reach")
+  .argument("<dir>", "directory to write the backup to (created if missing)")
+  .option("--fresh", "ignore an existing manifest and fetch everything again")
+  .addHelpText(
+    "after",
+    `
+Details:
+  Starts from the integration's root pages (see "integration pages") and
+  walks the workspace recursively: child pages, child databases, their
+  data sources, and every data source entry. The directory tree on disk
+  mirrors the workspace hierarchy:
+
+    <dir>/manifest.json
+    <dir>/Roadmap-1a2b3c4d/page.json          page + nested block tree
+    <dir>/Roadmap-1a2b3c4d/page.md            Markdown rendering
+    <dir>/Roadmap-1a2b3c4d/Tasks-5e6f7a8b/database.json
+    <dir>/Roadmap-1a2b3c4d/Tasks-5e6f7a8b/Tasks-9c0d1e2f/data_source.json
+    <dir>/Roadmap-1a2b3c4d/Tasks-5e6f7a8b/Tasks-9c0d1e2f/<entry>/page.json
+
+  Each directory is the item's title plus the start of its ID.
+
+  Resuming:
+    ${MANIFEST_FILE} records every item as it is saved. Running the same
+    command again skips saved pages and databases (their children are
+    read from disk) and retries anything that failed, so an interrupted
+    backup picks up where it stopped. Data source entries are listed
+    again, so new entries are added. Use --fresh to fetch everything
+    again into the same directory.
+
+  Items the API can't read (such as linked databases) are recorded as
+  failed and the backup continues; the command exits 1 if any failed.
+
+Examples:
+  $ notion-cli workspace backup ./backup
+  $ notion-cli workspace backup ./backup --fresh
+`,
+  )
+  .action(async (dir: string, options: { fresh?: boolean }) => {
+    const bearerToken = getBearerToken();
+    const notion = createNotionClient(bearerToken, getClientOptions());
+    const root = resolve(dir);
+
+    console.log(`💾 Backing up workspace to ${root}...\n`);
+
+    try {
+      const summary = await backupWorkspace(notion, root, {
+        fresh: options.fresh,
+        onItem: (event) => {
+          if (event.status === "saved") console.log(`  ${ITEM_ICONS[event.type]} ${event.path}`);
+          if (event.status === "failed") console.error(`  ⚠️ ${event.path || event.id}: ${event.error}`);
+        },
+      });
+
+      console.log();
+      if (summary.resumed) {
+        console.log(`Resumed from ${MANIFEST_FILE}: ${summary.skipped} item(s) already saved.`);
+      }
+      console.log(`Saved ${summary.saved} item(s) to ${root}.`);
+      if (summary.failed > 0) {
+        console.error(`${summary.failed} item(s) failed — run the command again to retry them.`);
+        process.exit(1);
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+// -- workspace restore --------------------------------------------------------
+
+const workspaceRestoreCommand = new Command("restore")
+  .description("Recreate a backup directory under a page")
+  .argument("<dir>", "directory written by workspace backup")
+  .requiredOption("-p, --parent <page-id>", "page to restore the backup under")
+  .option("-r, --raw", "output the result (ID mapping and issues) as JSON")
+  .addHelpText(
+    "after",
+    `
+Details:
+  Recreates everything in a "workspace backup" directory as new content
+  under the --parent page. The backup's root pages become children of
+  that page and the rest keeps its original hierarchy:
+    • Pages with their title, icon, cover, and blocks
+    • Databases with their original schemas (one per data source), and
+      every data source entry with its property values
+    • Relations, rollups, and formulas, added once all data sources exist
+    • Page mentions, link-to-page blocks, and relation values, remapped
+      to the newly created pages
+
+  Child pages and databases are created before their parent's content
+  is appended, so they appear at the top of the parent page.
+
+  Not everything can be recreated through the API. These are skipped
+  (or approximated) and listed at the end:
+    • Notion-hosted files, images, icons, and covers (their URLs expire)
+    • Synced blocks — their content is restored, but not synced
+    • Block types the API can't create (e.g. link previews)
+    • Status properties — restored as selects with the same options
+    • Relations to data sources outside the backup
+
+  Items that failed during the backup are reported as missing.
+
+Examples:
+  $ notion-cli workspace restore ./backup --parent <page-id>
+  $ notion-cli workspace restore ./backup -p <page-id> --raw
+`,
+  )
+  .action(async (dir: string, options: { parent: string; raw?: boolean }) => {
+    const root = resolve(dir);
+    let manifest: ReturnType<typeof readManifest>;
+    try {
+      manifest = readManifest(root);
+    } catch (error) {
+      console.error(`Error: cannot read ${MANIFEST_FILE} in ${root}: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+    if (!manifest) {
+      console.error(`Error: no ${MANIFEST_FILE} in ${root}. Create a backup with "notion-cli workspace backup <dir>".`);
+      process.exit(1);
+    }
+
+    const bearerToken = getBearerToken();
+    const notion = createNotionClient(bearerToken, getClientOptions());
+
+    if (!options.raw) console.log(`♻️ Restoring ${root}...\n`);
+
+    try {
+      const summary = await restoreWorkspace(notion, root, manifest, options.parent, {
+        onItem: (event) => {
+          if (!options.raw) console.log(`  ${ITEM_ICONS[event.type]} ${event.path}`);
+        },
+      });
+
+      if (options.raw) {
+        console.log(JSON.stringify(summary, null, 2));
+        return;
+      }
+
+      console.log();
+      console.log(
+        `Restored ${summary.pages} page(s), ${summary.databases} database(s), ` +
+          `${summary.dataSources} data source(s), and ${summary.blocks} block(s).`,
+      );
+      if (summary.issues.length > 0) {
+        console.log(`\nNot fully restored (${summary.issues.length}):`);
+        for (const { path, message } of summary.issues) {
+          console.log(`  ⚠️ ${path}: ${message}`);
+        }
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+// -- workspace command group --------------------------------------------------
+
+export const workspaceCommand = new Command("workspace")
+  .description("Work with the whole workspace at once")
+  .addCommand(workspaceBackupCommand)
+  .addCommand(workspaceRestoreCommand);
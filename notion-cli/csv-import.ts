@@ -0,0 +1,394 @@
+/**
+ * CSV import for `datasource import`.
+ *
+ * Each row becomes a data source entry. Columns are matched to properties
+ * by header name (case-insensitively), or by --map "Column=Property"; a
+ * column mapped to nothing ("Column=") is skipped. Cells are converted by
+ * the property's type, with the spreadsheet forms CSV exports use:
+ *
+ *   number        1,234.50   $12   45%  (→ 0.45)
+ *   checkbox      true/false  yes/no  1/0  x  (empty is unchecked)
+ *   date          2025-07-01   2025-07-01..2025-07-03   Jul 1, 2025   7/1/2025
+ *   multi_select  "ui, infra"  or  "ui; infra"
+ *
+ * and otherwise as `--set Name=value` would: people by name or email,
+ * relations by title. Unknown select options are added by Notion.
+ *
+ * Every row is converted before anything is written, so a bad cell stops
+ * the import with its row and column instead of leaving it half done.
+ * With a key column, rows whose key matches an existing entry update it
+ * instead of creating a new one.
+ */
+
+import type {
+  DatabasePropertySchema,
+  NotionClient,
+  PropertyValue,
+} from "./src/postman/notion-api/index.js";
+import { plainText } from "./helpers.js";
+import {
+  closestMatch,
+  propertyValue,
+  PropertyInputError,
+  type PropertyLookups,
+  type PropertySchemas,
+} from "./property-input.js";
+
+/** A CSV file that can't be parsed or mapped onto the schema */
+export class CsvError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CsvError";
+  }
+}
+
+/** A CSV column and the property it fills */
+export interface ColumnMapping {
+  column: string;
+  /** Position of the column in each row */
+  index: number;
+  /** Property name, or null for a skipped column */
+  property: string | null;
+}
+
+/** Property types a new column can be created as */
+export type InferredType = "number" | "checkbox" | "date" | "rich_text";
+
+/** A converted row, ready to write */
+export interface ImportRow {
+  /** Spreadsheet row number — the header is row 1 */
+  row: number;
+  properties: Record<string, unknown>;
+  /** The existing entry this row updates (upserts with a key column) */
+  page_id?: string;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse CSV text (RFC 4180): quoted fields may hold commas, newlines, and
+ * "" for a quote. A byte order mark and blank lines are ignored; short
+ * rows are padded with empty cells.
+ */
+export function parseCsv(text: string, delimiter = ","): { header: string[]; rows: string[][] } {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== "") records.push(record);
+    record = [];
+    field = "";
+  };
+
+  for (; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += c;
+    }
+  }
+  if (quoted) throw new CsvError(`unterminated quoted field in row ${records.length + 1}`);
+  if (field !== "" || record.length > 0) endRecord();
+
+  if (records.length === 0) throw new CsvError("the file is empty — expected a header row");
+  const [header, ...rows] = records;
+  const trimmed = header.map((name) => name.trim());
+  rows.forEach((row, r) => {
+    if (row.length > trimmed.length) {
+      throw new CsvError(`row ${r + 2} has ${row.length} cells but the header has ${trimmed.length}`);
+    }
+    while (row.length < trimmed.length) row.push("");
+  });
+  return { header: trimmed, rows };
+}
+
+// ============================================================================
+// Columns
+// ============================================================================
+
+/**
+ * Match columns to properties: --map "Column=Property" overrides first,
+ * then a property with the column's name (case-insensitively).
+ *
+ * @returns The mapped columns, and those whose property doesn't exist yet
+ */
+export function mapColumns(
+  header: string[],
+  schema: PropertySchemas,
+  overrides: string[] = [],
+): { columns: ColumnMapping[]; missing: ColumnMapping[] } {
+  const targets = new Map<string, string | null>();
+  for (const spec of overrides) {
+    const eq = spec.indexOf("=");
+    const column = spec.slice(0, eq).trim();
+    if (eq <= 0) throw new CsvError(`invalid --map "${spec}". Expected "Column=Property" (or "Column=" to skip it).`);
+    if (!header.includes(column)) {
+      const suggestion = closestMatch(column, header);
+      throw new CsvError(
+        `--map names column "${column}", which isn't in the header.` +
+          (suggestion ? ` Did you mean "${suggestion}"?` : "") + ` Columns: ${header.join(", ")}`,
+      );
+    }
+    targets.set(column, spec.slice(eq + 1).trim() || null);
+  }
+
+  const names = Object.keys(schema);
+  const columns: ColumnMapping[] = [];
+  const missing: ColumnMapping[] = [];
+  header.forEach((column, index) => {
+    const target = targets.has(column) ? targets.get(column)! : column;
+    if (target === null || column === "") {
+      columns.push({ column, index, property: null });
+      return;
+    }
+    const folded = names.filter((name) => name.toLowerCase() === target.toLowerCase());
+    const property = names.includes(target) ? target : folded.length === 1 ? folded[0] : undefined;
+    if (property) columns.push({ column, index, property });
+    else missing.push({ column, index, property: target });
+  });
+
+  const seen = new Map<string, string>();
+  for (const { column, property } of columns) {
+    if (!property) continue;
+    if (seen.has(property)) {
+      throw new CsvError(`columns "${seen.get(property)}" and "${column}" both fill property "${property}"`);
+    }
+    seen.set(property, column);
+  }
+  return { columns, missing };
+}
+
+/** The property type a new column's values fit best, falling back to text */
+export function inferPropertyType(values: string[]): InferredType {
+  const filled = values.map((value) => value.trim()).filter(Boolean);
+  if (filled.length === 0) return "rich_text";
+  if (filled.every((value) => parseNumber(value) !== undefined)) return "number";
+  if (filled.every((value) => CHECKBOX_WORDS.has(value.toLowerCase()))) return "checkbox";
+  if (filled.every((value) => /^\d{4}-\d{2}-\d{2}/.test(value))) return "date";
+  return "rich_text";
+}
+
+// ============================================================================
+// Cells
+// ============================================================================
+
+const TRUE_WORDS = ["true", "yes", "y", "1", "x", "✓", "✔", "checked"];
+const FALSE_WORDS = ["false", "no", "n", "0", "unchecked"];
+const CHECKBOX_WORDS = new Set([...TRUE_WORDS, ...FALSE_WORDS]);
+
+/**
+ * A spreadsheet number: a decimal with an optional sign, currency symbol,
+ * thousands separators in groups of three, and percent sign. Lists like
+ * "1,2,3" and hex, octal, or binary forms aren't numbers.
+ */
+function parseNumber(raw: string): number | undefined {
+  const match = /^([-+]?)[$€£¥]?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?|\.\d+)(%?)$/.exec(raw.trim());
+  if (!match) return undefined;
+  const number = Number(match[1] + match[2].replace(/,/g, ""));
+  return match[3] ? number / 100 : number;
+}
+
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+
+/** YYYY-MM-DD, or undefined when the month has no such day */
+function isoDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return date.toISOString().slice(0, 10);
+}
+
+/** A month by its name or an abbreviation of at least three letters, 1-12 */
+function monthNumber(name: string): number {
+  const lower = name.toLowerCase();
+  return lower.length >= 3 ? MONTHS.findIndex((month) => month.startsWith(lower)) + 1 : 0;
+}
+
+/**
+ * An ISO date as-is; 7/1/2025 (month first), Jul 1, 2025, and 1 July 2025
+ * as YYYY-MM-DD. These are read by hand rather than with the JavaScript
+ * date parser, whose result depends on the machine's time zone. Anything
+ * else is left for propertyValue to reject.
+ */
+function normalizeDate(raw: string): string {
+  if (/\.\.|→/.test(raw)) return raw.split(/\s*(?:\.\.|→)\s*/).map(normalizeDate).join("..");
+  if (/^\d{4}-\d{2}-\d{2}/.test(raw)) return raw;
+  const numeric = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(raw);
+  if (numeric) return isoDate(Number(numeric[3]), Number(numeric[1]), Number(numeric[2])) ?? raw;
+  const monthFirst = /^([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/i.exec(raw);
+  if (monthFirst) return isoDate(Number(monthFirst[3]), monthNumber(monthFirst[1]), Number(monthFirst[2])) ?? raw;
+  const dayFirst = /^(\d{1,2})[\s-]+([a-z]+)\.?,?[\s-]+(\d{4})$/i.exec(raw);
+  if (dayFirst) return isoDate(Number(dayFirst[3]), monthNumber(dayFirst[2]), Number(dayFirst[1])) ?? raw;
+  return raw;
+}
+
+/**
+ * Convert one cell for its property.
+ *
+ * @throws PropertyInputError when the cell doesn't fit the property's type
+ */
+export async function cellValue(property: DatabasePropertySchema, raw: string, lookups: PropertyLookups): Promise<unknown> {
+  const value = raw.trim();
+  switch (property.type) {
+    case "number": {
+      const number = value ? parseNumber(value) : null;
+      if (number === undefined) {
+        throw new PropertyInputError(`number property "${property.name}" needs a number, got "${raw}"`);
+      }
+      return { number };
+    }
+    case "checkbox": {
+      const word = value.toLowerCase();
+      if (word && !CHECKBOX_WORDS.has(word)) {
+        throw new PropertyInputError(`checkbox property "${property.name}" needs true or false, got "${raw}"`);
+      }
+      return { checkbox: TRUE_WORDS.includes(word) };
+    }
+    case "date":
+      return propertyValue(property, normalizeDate(value), lookups);
+    case "multi_select":
+      return propertyValue(property, value.replace(/;/g, ","), lookups, { newOptions: true });
+    default:
+      return propertyValue(property, raw, lookups, { newOptions: true });
+  }
+}
+
+/**
+ * Convert every row. Conversion errors are collected rather than thrown,
+ * so they can all be reported before anything is written.
+ */
+export async function convertRows(
+  rows: string[][],
+  columns: ColumnMapping[],
+  schema: PropertySchemas,
+  lookups: PropertyLookups,
+): Promise<{ rows: ImportRow[]; errors: string[] }> {
+  const converted: ImportRow[] = [];
+  const errors: string[] = [];
+  for (const [r, cells] of rows.entries()) {
+    const row: ImportRow = { row: r + 2, properties: {} };
+    for (const { column, index, property } of columns) {
+      if (!property) continue;
+      try {
+        row.properties[property] = await cellValue(schema[property], cells[index], lookups);
+      } catch (error) {
+        if (!(error instanceof PropertyInputError)) throw error;
+        errors.push(`row ${row.row}, column "${column}": ${error.message}`);
+      }
+    }
+    converted.push(row);
+  }
+  return { rows: converted, errors };
+}
+
+// ============================================================================
+// Upserts
+// ============================================================================
+
+/** Property types that can identify an entry with --key */
+export const KEY_TYPES = ["title", "rich_text", "number", "url", "email", "phone_number", "select"];
+
+/** The text a key property is matched on */
+function keyText(prop: PropertyValue): string {
+  switch (prop.type) {
+    case "title":
+      return plainText(prop.title).trim();
+    case "rich_text":
+      return plainText(prop.rich_text).trim();
+    case "number":
+      return prop.number === null ? "" : String(prop.number);
+    case "select":
+      return prop.select?.name ?? "";
+    case "url":
+    case "email":
+    case "phone_number":
+      return (prop.type === "url" ? prop.url : prop.type === "email" ? prop.email : prop.phone_number) ?? "";
+    default:
+      return "";
+  }
+}
+
+/** A key cell in the form keyText gives the matching property */
+function cellKey(property: DatabasePropertySchema, raw: string): string {
+  if (property.type !== "number") return raw.trim();
+  const number = parseNumber(raw);
+  return number === undefined ? raw.trim() : String(number);
+}
+
+/**
+ * Point each row at the existing entry with the same key. Every entry in
+ * the data source is read once to build the index.
+ *
+ * @param keys - Each row's key cell, in row order
+ * @returns How many rows matched an entry, and the rows whose key matches
+ *   several entries or repeats an earlier row's key
+ */
+export async function matchExisting(
+  notion: NotionClient,
+  dataSourceId: string,
+  property: DatabasePropertySchema,
+  rows: ImportRow[],
+  keys: string[],
+): Promise<{ matched: number; errors: string[] }> {
+  const entries = new Map<string, string[]>();
+  for await (const page of notion.paginate.dataSourceQuery(dataSourceId)) {
+    const prop = page.properties[property.name];
+    const text = prop ? keyText(prop) : "";
+    if (!text) continue;
+    entries.set(text, [...(entries.get(text) ?? []), page.id]);
+  }
+
+  let matched = 0;
+  const errors: string[] = [];
+  const firstRows = new Map<string, number>();
+  for (const [i, row] of rows.entries()) {
+    const text = cellKey(property, keys[i]);
+    // Two rows with one key would create two entries, or race to update one
+    const first = text ? firstRows.get(text) : undefined;
+    if (first !== undefined) {
+      errors.push(`row ${row.row}: "${text}" is also the key of row ${first} — each row needs its own "${property.name}"`);
+      continue;
+    }
+    if (text) firstRows.set(text, row.row);
+    const ids = text ? entries.get(text) ?? [] : [];
+    if (ids.length > 1) {
+      errors.push(`row ${row.row}: "${text}" matches ${ids.length} entries by "${property.name}": ${ids.join(", ")}`);
+    } else if (ids.length === 1) {
+      row.page_id = ids[0];
+      matched++;
+    }
+  }
+  return { matched, errors };
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/** Create the row's entry, or update the entry it matched */
+export function writeRow(notion: NotionClient, dataSourceId: string, { properties, page_id }: ImportRow): Promise<unknown> {
+  return page_id
+    ? notion.pages.update(page_id, { properties })
+    : notion.pages.create({ parent: { data_source_id: dataSourceId }, properties });
+}
@@ -5,7 +5,30 @@
 import { readFileSync, writeFileSync, mkdirSync } from "fs";
 import { join, extname } from "path";
 import { homedir } from "os";
-import type { NotionPage, NotionBlock, PropertyValue } from "./src/postman/notion-api/index.js";
+import { createInterface } from "readline";
+import {
+  collectAll,
+  NotionApiError,
+  ValidationError,
+  UnauthorizedError,
+  RestrictedResourceError,
+  ObjectNotFoundError,
+  ConflictError,
+  RateLimitedError,
+  ServerError,
+  type NotionClient,
+  type NotionClientOptions,
+  type NotionPage,
+  type NotionBlock,
+  type BlockContentMap,
+  type BlockInput,
+  type DateValue,
+  type MediaBlockContent,
+  type Mention,
+  type PartialUser,
+  type PropertyValue,
+  type RichTextItem,
+} from "./src/postman/notion-api/index.js";
 
 // ============================================================================
 // MIME type lookup (no external dependency)
@@ -87,6 +110,560 @@ export function getBearerToken(): string {
   return token;
 }
 
+/**
+ * Read a text file given on the command line, or stdin when the path is "-".
+ * Exits with an error message if the file can't be read.
+ */
+export async function readTextInput(path: string): Promise<string> {
+  if (path === "-") {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString("utf-8");
+  }
+  try {
+    return readFileSync(path, "utf-8");
+  } catch (error) {
+    console.error(`Error: cannot read "${path}": ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/** Ask a yes/no question on the terminal; anything but y / yes is a no */
+export async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise<string>((resolve) => rl.question(`${question} [y/N] `, resolve));
+  rl.close();
+  return /^y(es)?$/i.test(answer.trim());
+}
+
+/** How runWrites names the items it reports on */
+export interface WriteReport<T> {
+  /** Names an item in its failure line, e.g. "row 4" */
+  label: (item: T) => string;
+  /** What one item is called in the failure count, e.g. "update" */
+  noun: string;
+  /** The line printed once every write has finished */
+  summary: (succeeded: T[]) => string;
+}
+
+/**
+ * Send one write per item. Requests are fanned out at once and paced by
+ * the client's scheduler, so its concurrency limit sets how many run in
+ * parallel. A failed write is printed as it happens rather than stopping
+ * the others, and a terminal shows a running count. Exits with an error
+ * after the summary if any write failed.
+ */
+export async function runWrites<T>(items: T[], write: (item: T) => Promise<unknown>, report: WriteReport<T>): Promise<void> {
+  let done = 0;
+  const succeeded: T[] = [];
+  await Promise.all(
+    items.map(async (item) => {
+      try {
+        await write(item);
+        succeeded.push(item);
+        if (process.stdout.isTTY) process.stdout.write(`\r  ${++done}/${items.length}`);
+      } catch (error) {
+        done++;
+        console.error(`  ✗ ${report.label(item)}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }),
+  );
+  if (process.stdout.isTTY) process.stdout.write("\n");
+
+  console.log(report.summary(succeeded));
+  const failed = items.length - succeeded.length;
+  if (failed > 0) {
+    console.error(`Error: ${failed} ${report.noun}${failed === 1 ? "" : "s"} failed (listed above).`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Read a numeric setting from the environment or config file.
+ * Returns undefined when unset; exits on a non-numeric value.
+ */
+function readNumberSetting(key: string): number | undefined {
+  const raw = process.env[key] || readConfig()[key];
+  if (!raw) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    console.error(`Error: ${key} must be a non-negative number (got "${raw}").`);
+    process.exit(1);
+  }
+  return value;
+}
+
+/**
+ * Build Notion client options from environment variables or the config file.
+ *
+ *   NOTION_RETRY_MAX_ATTEMPTS   total attempts per request (default 4, 1 disables retries)
+ *   NOTION_RETRY_BASE_DELAY_MS  base backoff delay (default 500)
+ *   NOTION_RETRY_MAX_DELAY_MS   longest single wait (default 60000)
+ *   NOTION_REQUESTS_PER_SECOND  average request rate (default 3)
+ *   NOTION_REQUEST_BURST        back-to-back requests before pacing (default 3)
+ *   NOTION_MAX_CONCURRENCY      requests in flight at once (default 3)
+ *   NOTION_API_BASE_URL         alternate API origin (e.g. a local stub server)
+ *
+ * Retries are reported on stderr so --raw output stays valid JSON.
+ */
+export function getClientOptions(): NotionClientOptions {
+  return {
+    retry: {
+      maxAttempts: readNumberSetting("NOTION_RETRY_MAX_ATTEMPTS"),
+      baseDelayMs: readNumberSetting("NOTION_RETRY_BASE_DELAY_MS"),
+      maxDelayMs: readNumberSetting("NOTION_RETRY_MAX_DELAY_MS"),
+    },
+    rateLimit: {
+      requestsPerSecond: readNumberSetting("NOTION_REQUESTS_PER_SECOND"),
+      burst: readNumberSetting("NOTION_REQUEST_BURST"),
+      maxConcurrent: readNumberSetting("NOTION_MAX_CONCURRENCY"),
+    },
+    baseUrl: process.env.NOTION_API_BASE_URL || readConfig().NOTION_API_BASE_URL || undefined,
+    onRetry: ({ status, attempt, delayMs }) => {
+      const reason = status === 429 ? "Rate limited" : `Notion returned ${status}`;
+      console.error(`⏳ ${reason} — retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt + 1})`);
+    },
+  };
+}
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+/**
+ * Process exit codes, so scripts and agents can branch on the failure
+ * kind without parsing stderr. Commander's own usage errors exit with 1.
+ */
+export const EXIT_CODES = {
+  GENERAL: 1,
+  VALIDATION: 2,
+  UNAUTHORIZED: 3,
+  RESTRICTED: 4,
+  NOT_FOUND: 5,
+  CONFLICT: 6,
+  RATE_LIMITED: 7,
+  SERVER: 8,
+} as const;
+
+/** Map an API error to its exit code and an actionable hint. */
+function describeApiError(error: NotionApiError): { exitCode: number; hint?: string } {
+  if (error instanceof ObjectNotFoundError) {
+    return {
+      exitCode: EXIT_CODES.NOT_FOUND,
+      hint: "Check the ID, and make sure the page is shared with your integration\n" +
+        "(open it in Notion → ••• menu → Add connections → select your integration).",
+    };
+  }
+  if (error instanceof UnauthorizedError) {
+    return {
+      exitCode: EXIT_CODES.UNAUTHORIZED,
+      hint: 'The token is invalid or revoked. Run "notion-cli auth-internal set" or "notion-cli auth-public login".',
+    };
+  }
+  if (error instanceof RestrictedResourceError) {
+    return {
+      exitCode: EXIT_CODES.RESTRICTED,
+      hint: "The integration lacks the capability for this operation. Enable it in the\n" +
+        "integration dashboard (e.g. \"Insert content\" or \"Read comments\").",
+    };
+  }
+  if (error instanceof RateLimitedError) {
+    const wait = error.retryAfter !== null ? ` Retry after ${error.retryAfter}s.` : "";
+    return { exitCode: EXIT_CODES.RATE_LIMITED, hint: `Notion rate limit reached (~3 requests/second).${wait}` };
+  }
+  if (error instanceof ValidationError) {
+    return {
+      exitCode: EXIT_CODES.VALIDATION,
+      hint: 'The request was rejected as invalid. Check property names and types with "datasource get <id>".',
+    };
+  }
+  if (error instanceof ConflictError) {
+    return { exitCode: EXIT_CODES.CONFLICT, hint: "Another edit conflicted with this one. Try again." };
+  }
+  if (error instanceof ServerError) {
+    return { exitCode: EXIT_CODES.SERVER, hint: "Notion is having trouble. Try again in a moment." };
+  }
+  return { exitCode: EXIT_CODES.GENERAL };
+}
+
+/**
+ * Print an error from a command's catch block and exit.
+ * Notion API errors get a distinct exit code, a hint, and the request ID.
+ */
+export function exitWithError(error: unknown): never {
+  console.error(`Error: ${error instanceof Error ? error.message : error}`);
+
+  if (error instanceof NotionApiError) {
+    const { exitCode, hint } = describeApiError(error);
+    if (hint) {
+      console.error(`Hint: ${hint}`);
+    }
+    if (error.requestId) {
+      console.error(`Request ID: ${error.requestId}`);
+    }
+    process.exit(exitCode);
+  }
+
+  process.exit(EXIT_CODES.GENERAL);
+}
+
+// ============================================================================
+// Rich Text
+// ============================================================================
+
+/** "start", or "start → end" for a range */
+export function formatDateRange(date: DateValue): string {
+  return date.end ? `${date.start} → ${date.end}` : date.start;
+}
+
+/**
+ * Display text for a mention: "@Name" for users, the date for date
+ * mentions, and Notion's own plain text (the title, for pages and
+ * databases) for everything else.
+ */
+export function mentionText(mention: Mention, plainText: string): string {
+  switch (mention.type) {
+    case "user":
+      if (mention.user.name) return `@${mention.user.name}`;
+      return plainText || `@${mention.user.id}`;
+    case "date":
+      return formatDateRange(mention.date);
+    default:
+      return plainText;
+  }
+}
+
+/** Rich text flattened for terminal output, with equations as $…$ */
+export function plainText(items: RichTextItem[]): string {
+  return items
+    .map((item) => {
+      if (item.type === "equation") return `$${item.equation.expression}$`;
+      if (item.type === "mention") return mentionText(item.mention, item.plain_text);
+      return item.plain_text;
+    })
+    .join("");
+}
+
+/** Resolved user names per client, so each user is looked up once */
+const userNames = new WeakMap<NotionClient, Map<string, Promise<string | null>>>();
+
+/**
+ * Fill in the names of mentioned users that Notion returned as bare IDs,
+ * so they render as "@Name". Walks any fetched value — pages, blocks,
+ * block trees — and looks each user up once per client. Users the
+ * integration can't see keep their ID.
+ */
+export async function resolveUserMentions(notion: NotionClient, value: unknown): Promise<void> {
+  const users: PartialUser[] = [];
+  const visit = (node: unknown): void => {
+    if (!node || typeof node !== "object") return;
+    const item = node as Partial<RichTextItem>;
+    if (item.type === "mention" && item.mention?.type === "user") {
+      if (!item.mention.user.name) users.push(item.mention.user);
+      return;
+    }
+    Object.values(node).forEach(visit);
+  };
+  visit(value);
+  if (users.length === 0) return;
+
+  let cache = userNames.get(notion);
+  if (!cache) userNames.set(notion, (cache = new Map()));
+
+  await Promise.all(
+    users.map(async (user) => {
+      let name = cache.get(user.id);
+      if (!name) {
+        name = notion.users.retrieve(user.id).then(
+          (found) => found.name,
+          (error) => {
+            if (error instanceof NotionApiError) return null;
+            throw error;
+          },
+        );
+        cache.set(user.id, name);
+      }
+      user.name = (await name) ?? user.name;
+    }),
+  );
+}
+
+// ============================================================================
+// Block Tree
+// ============================================================================
+
+/** A block together with its fetched descendants */
+export interface BlockNode {
+  block: NotionBlock;
+  children: BlockNode[];
+}
+
+/** The type-specific content of a block — `block[block.type]` */
+export function blockContent<B extends NotionBlock>(block: B): BlockContentMap[B["type"]] {
+  return (block as unknown as Record<string, BlockContentMap[B["type"]]>)[block.type];
+}
+
+/**
+ * Fetch every block under a page or block as a tree, in document order.
+ *
+ * Siblings are fetched in parallel — the client's scheduler keeps the
+ * request rate under Notion's limit. Child pages and databases are left
+ * as leaves; their content belongs to a different page. Synced block
+ * copies are expanded from their original.
+ */
+export async function fetchBlockTree(notion: NotionClient, blockId: string): Promise<BlockNode[]> {
+  const blocks: NotionBlock[] = [];
+  for await (const block of notion.paginate.blockChildren(blockId)) {
+    blocks.push(block);
+  }
+
+  return Promise.all(
+    blocks.map(async (block): Promise<BlockNode> => {
+      const isChildRef = block.type === "child_page" || block.type === "child_database";
+      if (!block.has_children || isChildRef) {
+        return { block, children: [] };
+      }
+      const sourceId = (block.type === "synced_block" && block.synced_block.synced_from?.block_id) || block.id;
+      return { block, children: await fetchBlockTree(notion, sourceId) };
+    })
+  );
+}
+
+/** Public notion.so URL for a page or database ID */
+export function notionUrl(id: string): string {
+  return `https://www.notion.so/${id.replace(/-/g, "")}`;
+}
+
+/** ID of the page, database, or data source a link_to_page block points to */
+export function linkTarget(link: BlockContentMap["link_to_page"]): string | undefined {
+  switch (link.type) {
+    case "page_id":
+      return link.page_id;
+    case "database_id":
+      return link.database_id;
+    case "data_source_id":
+      return link.data_source_id;
+  }
+}
+
+/** URL of a file-like block's content, whether hosted by Notion or external */
+export function fileUrl(content: MediaBlockContent): string {
+  if (content.type === "external") return content.external.url;
+  if (content.type === "file") return content.file.url;
+  return "";
+}
+
+/** Notion accepts at most this many blocks per append request */
+export const APPEND_CHUNK_SIZE = 100;
+
+/** Block types that must be created together with their children */
+const INLINE_CHILDREN_TYPES = new Set(["table", "column_list"]);
+
+/**
+ * Append a tree of new blocks under a parent, in order.
+ *
+ * Blocks are sent in chunks of 100. Nested `children` are stripped from
+ * each request and appended to the newly created block afterwards, so
+ * any depth works despite Notion's two-level limit per request. Tables
+ * and column lists keep their children inline, as Notion requires.
+ *
+ * @returns The created top-level blocks
+ */
+export async function appendBlockTree(
+  notion: NotionClient,
+  parentId: string,
+  blocks: BlockInput[]
+): Promise<NotionBlock[]> {
+  const created: NotionBlock[] = [];
+
+  for (let i = 0; i < blocks.length; i += APPEND_CHUNK_SIZE) {
+    const chunk = blocks.slice(i, i + APPEND_CHUNK_SIZE);
+    const deferred: BlockInput[][] = [];
+
+    const payload = chunk.map((block): BlockInput => {
+      const type = block.type;
+      const content = (block as Record<string, unknown>)[type] as { children?: BlockInput[] } | undefined;
+      const children = content?.children ?? [];
+      if (INLINE_CHILDREN_TYPES.has(type)) {
+        // Inline up to the limit; any further rows are appended to the created block
+        deferred.push(children.slice(APPEND_CHUNK_SIZE));
+        return children.length > APPEND_CHUNK_SIZE
+          ? ({ ...block, [type]: { ...content, children: children.slice(0, APPEND_CHUNK_SIZE) } } as BlockInput)
+          : block;
+      }
+      deferred.push(children);
+      if (!content?.children) return block;
+      const { children: _nested, ...rest } = content;
+      return { ...block, [type]: rest } as BlockInput;
+    });
+
+    const response = await notion.blocks.appendChildren(parentId, payload);
+    created.push(...response.results);
+
+    await Promise.all(
+      response.results.map((block, j) =>
+        deferred[j]?.length ? appendBlockTree(notion, block.id, deferred[j]) : undefined
+      )
+    );
+  }
+
+  return created;
+}
+
+// ============================================================================
+// Workspace Roots
+// ============================================================================
+
+/**
+ * Find the root pages visible to the integration: pages whose parent is
+ * the workspace, or a page the integration can't see. Paginates through
+ * every page via search, so the cost grows with the workspace.
+ *
+ * @returns The root pages and how many pages were scanned
+ */
+export async function findRootPages(notion: NotionClient): Promise<{ rootPages: NotionPage[]; scanned: number }> {
+  const allPages: NotionPage[] = [];
+
+  // Paginate through all pages the integration can see
+  for await (const result of notion.paginate.search({ filter: { value: "page", property: "object" } })) {
+    if (result.object === "page") {
+      allPages.push(result as NotionPage);
+    }
+  }
+
+  // Build a set of all visible page IDs
+  const visibleIds = new Set(allPages.map((p) => p.id));
+
+  // A page is a root if its parent is the workspace, or its parent
+  // page isn't in the set of pages the integration can see.
+  const rootPages = allPages.filter((page) => {
+    if (page.parent.type === "workspace") return true;
+    if (page.parent.type === "page_id" && page.parent.page_id) return !visibleIds.has(page.parent.page_id);
+    // database/data source children are not roots — they live inside a visible database
+    return false;
+  });
+
+  return { rootPages, scanned: allPages.length };
+}
+
+// ============================================================================
+// List Command Helpers
+// ============================================================================
+
+/**
+ * Parse the --max option shared by list commands.
+ * Returns undefined when unset; exits on anything but a positive integer.
+ */
+export function parseMaxOption(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const max = Number(value);
+  if (!Number.isInteger(max) || max < 1) {
+    console.error(`Error: invalid --max value "${value}". Expected a positive integer.`);
+    process.exit(1);
+  }
+  return max;
+}
+
+/**
+ * Wrap results gathered with --all in the same list shape a single page
+ * returns, so --raw consumers don't need to special-case --all.
+ */
+export function toListResponse<T>(results: T[]): { object: "list"; results: T[]; next_cursor: null; has_more: false } {
+  return { object: "list", results, next_cursor: null, has_more: false };
+}
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+/** Combining marks, joiners, and other characters that take no column */
+const ZERO_WIDTH = /^[\p{Mn}\p{Me}\p{Cf}]+$/u;
+
+/** Emoji and East Asian wide / fullwidth characters, which take two columns */
+const WIDE =
+  /[\p{Emoji_Presentation}\u{FE0F}\u{1100}-\u{115F}\u{2E80}-\u{303E}\u{3041}-\u{33FF}\u{3400}-\u{4DBF}\u{4E00}-\u{9FFF}\u{A000}-\u{A4CF}\u{AC00}-\u{D7A3}\u{F900}-\u{FAFF}\u{FE30}-\u{FE4F}\u{FF00}-\u{FF60}\u{FFE0}-\u{FFE6}\u{20000}-\u{3FFFD}]/u;
+
+function graphemeWidth(grapheme: string): number {
+  if (ZERO_WIDTH.test(grapheme)) return 0;
+  return WIDE.test(grapheme) ? 2 : 1;
+}
+
+/** The number of terminal columns a string takes up */
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const { segment } of graphemes.segment(text)) width += graphemeWidth(segment);
+  return width;
+}
+
+/** Cut a string to at most `width` terminal columns, ending with "…" when cut */
+export function truncateToWidth(text: string, width: number): string {
+  if (displayWidth(text) <= width) return text;
+  let cut = "";
+  let used = 0;
+  for (const { segment } of graphemes.segment(text)) {
+    const next = graphemeWidth(segment);
+    if (used + next > width - 1) break;
+    cut += segment;
+    used += next;
+  }
+  return `${cut}…`;
+}
+
+export interface TableOptions {
+  /** Cells wider than this are cut short (default 40) */
+  maxColumnWidth?: number;
+  /** Fit the table in this many terminal columns */
+  width?: number;
+}
+
+/** Columns never shrink below this to make room for others */
+const MIN_COLUMN_WIDTH = 6;
+
+/** Line breaks and tabs would break the layout, so a cell is shown on one line */
+function singleLine(text: string): string {
+  return text.replace(/\s*[\r\n\t]\s*/g, " ");
+}
+
+/**
+ * The width of each table column. With `width`, the widest columns give
+ * way first until the table fits; trailing columns that don't fit even
+ * then are left out, so the result can be shorter than the header.
+ */
+export function columnWidths(header: string[], rows: string[][], options: TableOptions = {}): number[] {
+  const { maxColumnWidth = 40, width } = options;
+  const widths = header.map((title, i) =>
+    Math.min(maxColumnWidth, Math.max(displayWidth(title), ...rows.map((row) => displayWidth(singleLine(row[i]))))),
+  );
+  if (width === undefined) return widths;
+
+  const tableWidth = (columns: number[]) => columns.reduce((sum, w) => sum + w, 0) + 2 * (columns.length - 1);
+  let kept = widths.length;
+  while (kept > 1 && tableWidth(widths.slice(0, kept).map((w) => Math.min(w, MIN_COLUMN_WIDTH))) > width) kept--;
+
+  const fitted = widths.slice(0, kept);
+  for (let excess = tableWidth(fitted) - width; excess > 0; excess--) {
+    const widest = Math.max(...fitted);
+    if (widest <= MIN_COLUMN_WIDTH) break;
+    fitted[fitted.indexOf(widest)]--;
+  }
+  return fitted;
+}
+
+/**
+ * Align rows into columns under a header and a rule. Cells wider than
+ * their column are cut short with "…"; emoji and CJK characters count
+ * as two columns.
+ */
+export function renderTable(header: string[], rows: string[][], options: TableOptions = {}): string {
+  const widths = columnWidths(header, rows, options);
+  const cell = (text: string, width: number) => {
+    const cut = truncateToWidth(singleLine(text), width);
+    return cut + " ".repeat(width - displayWidth(cut));
+  };
+  const line = (cells: string[]) => widths.map((width, i) => cell(cells[i], width)).join("  ").trimEnd();
+  return [line(header), line(widths.map((width) => "─".repeat(width))), ...rows.map(line)].join("\n");
+}
+
 // ============================================================================
 // OAuth Credential Helpers
 // ============================================================================
@@ -144,82 +721,109 @@ export function formatDate(isoDate: string): string {
 export function formatPropertyValue(prop: PropertyValue): string {
   switch (prop.type) {
     case "title":
-      return prop.title?.map((t) => t.plain_text).join("") || "(empty)";
-    case "rich_text": {
-      const rt = prop.rich_text as Array<{ plain_text: string }> | undefined;
-      return rt?.map((t) => t.plain_text).join("") || "(empty)";
-    }
+      return plainText(prop.title) || "(empty)";
+    case "rich_text":
+      return plainText(prop.rich_text) || "(empty)";
     case "number":
       return String(prop.number ?? "(empty)");
-    case "select": {
-      const sel = prop.select as { name: string } | null | undefined;
-      return sel?.name || "(empty)";
-    }
-    case "multi_select": {
-      const ms = prop.multi_select as Array<{ name: string }> | undefined;
-      return ms?.map((s) => s.name).join(", ") || "(empty)";
-    }
-    case "date": {
-      const d = prop.date as { start: string; end?: string } | null | undefined;
-      if (!d) return "(empty)";
-      return d.end ? `${d.start} → ${d.end}` : d.start;
-    }
+    case "select":
+      return prop.select?.name || "(empty)";
+    case "multi_select":
+      return prop.multi_select.map((s) => s.name).join(", ") || "(empty)";
+    case "date":
+      return prop.date ? formatDateRange(prop.date) : "(empty)";
     case "checkbox":
       return prop.checkbox ? "✓" : "✗";
     case "url":
-      return (prop.url as string) || "(empty)";
+      return prop.url || "(empty)";
     case "email":
-      return (prop.email as string) || "(empty)";
+      return prop.email || "(empty)";
     case "phone_number":
-      return (prop.phone_number as string) || "(empty)";
-    case "status": {
-      const status = prop.status as { name: string } | null | undefined;
-      return status?.name || "(empty)";
-    }
+      return prop.phone_number || "(empty)";
+    case "status":
+      return prop.status?.name || "(empty)";
     case "created_time":
-      return formatDate(prop.created_time as string);
+      return formatDate(prop.created_time);
     case "last_edited_time":
-      return formatDate(prop.last_edited_time as string);
+      return formatDate(prop.last_edited_time);
     case "created_by":
-    case "last_edited_by": {
-      const user = prop[prop.type] as { id: string } | undefined;
-      return user?.id || "(empty)";
-    }
-    case "relation": {
-      const rel = prop.relation as Array<{ id: string }> | undefined;
-      return rel?.map((r) => r.id).join(", ") || "(empty)";
-    }
-    case "rollup": {
-      const rollup = prop.rollup as { type: string } | undefined;
-      return `[rollup: ${rollup?.type || "unknown"}]`;
-    }
+      return prop.created_by?.id || "(empty)";
+    case "last_edited_by":
+      return prop.last_edited_by?.id || "(empty)";
+    case "people":
+      return prop.people.map((p) => p.name || p.id).join(", ") || "(empty)";
+    case "relation":
+      return prop.relation.map((r) => r.id).join(", ") || "(empty)";
+    case "rollup":
+      return `[rollup: ${prop.rollup?.type || "unknown"}]`;
     case "formula": {
-      const formula = prop.formula as { type: string; string?: string; number?: number } | undefined;
+      const formula = prop.formula;
       if (formula?.type === "string") return formula.string || "(empty)";
       if (formula?.type === "number") return String(formula.number ?? "(empty)");
       return `[formula: ${formula?.type || "unknown"}]`;
     }
-    case "files": {
-      const files = prop.files as Array<{ name: string }> | undefined;
-      return files?.map((f) => f.name).join(", ") || "(empty)";
+    case "files":
+      return prop.files.map((f) => f.name).join(", ") || "(empty)";
+    case "unique_id": {
+      const { prefix, number } = prop.unique_id;
+      if (number === null) return "(empty)";
+      return prefix ? `${prefix}-${number}` : String(number);
+    }
+    case "verification":
+      return prop.verification?.state || "(empty)";
+    case "button":
+      return "[button]";
+    default: {
+      // Property types newer than these typings
+      const unknown: never = prop;
+      return `[${(unknown as { type: string }).type}]`;
     }
-    default:
-      return `[${prop.type}]`;
   }
 }
 
+/** Page objects return at most this many items of a title, rich_text, people, or relation value */
+const PAGE_ITEM_LIMIT = 25;
+
+const LIST_TYPES = new Set<string>(["title", "rich_text", "people", "relation"]);
+
+/**
+ * Fill in the named properties that page objects cut short. A value at
+ * the item limit (or a relation with has_more) is fetched in full through
+ * the page property endpoint, so callers see every item rather than the
+ * first 25.
+ */
+export async function completeValues(notion: NotionClient, pages: NotionPage[], names: string[]): Promise<NotionPage[]> {
+  return Promise.all(
+    pages.map(async (page) => {
+      const properties = { ...page.properties };
+      await Promise.all(
+        names.map(async (name) => {
+          const prop = properties[name];
+          if (!prop || !LIST_TYPES.has(prop.type)) return;
+          const items = (prop as Record<string, unknown>)[prop.type] as unknown[];
+          if (items.length < PAGE_ITEM_LIMIT && !("has_more" in prop && prop.has_more)) return;
+          const full = await collectAll(notion.paginate.pageProperty(page.id, prop.id));
+          properties[name] = { ...prop, [prop.type]: full.map((item) => item[item.type]), has_more: false } as PropertyValue;
+        }),
+      );
+      return { ...page, properties };
+    }),
+  );
+}
+
 function extractRichText(block: NotionBlock): string {
-  const blockType = block.type;
-  const content = block[blockType] as { rich_text?: Array<{ plain_text: string }> } | undefined;
-  if (content?.rich_text) {
-    return content.rich_text.map((t) => t.plain_text).join("");
+  const content = blockContent(block);
+  if (content && "rich_text" in content) {
+    return plainText(content.rich_text);
   }
   return "";
 }
 
 export function formatBlock(block: NotionBlock, indent: string = ""): string {
   const text = extractRichText(block);
-  
+  // Kept for block types newer than the NotionBlock union
+  const type: string = block.type;
+
   switch (block.type) {
     case "paragraph":
       return text ? `${indent}${text}` : "";
@@ -233,36 +837,27 @@ export function formatBlock(block: NotionBlock, indent: string = ""): string {
       return `${indent}• ${text}`;
     case "numbered_list_item":
       return `${indent}1. ${text}`;
-    case "to_do": {
-      const todo = block.to_do as { checked?: boolean } | undefined;
-      const checkbox = todo?.checked ? "[x]" : "[ ]";
-      return `${indent}${checkbox} ${text}`;
-    }
+    case "to_do":
+      return `${indent}${block.to_do.checked ? "[x]" : "[ ]"} ${text}`;
     case "toggle":
       return `${indent}▸ ${text}`;
-    case "code": {
-      const code = block.code as { language?: string } | undefined;
-      const lang = code?.language || "";
-      return `${indent}\`\`\`${lang}\n${indent}${text}\n${indent}\`\`\``;
-    }
+    case "code":
+      return `${indent}\`\`\`${block.code.language || ""}\n${indent}${text}\n${indent}\`\`\``;
     case "quote":
       return `${indent}> ${text}`;
     case "callout": {
-      const callout = block.callout as { icon?: { emoji?: string } } | undefined;
-      const emoji = callout?.icon?.emoji || "💡";
+      const icon = block.callout.icon;
+      const emoji = icon?.type === "emoji" ? icon.emoji : "💡";
       return `${indent}${emoji} ${text}`;
     }
     case "divider":
       return `${indent}---`;
     case "child_page": {
-      const childPage = block.child_page as { title?: string } | undefined;
-      const edited = formatDate(block.last_edited_time as string);
-      return `${indent}📄 [Child Page: ${childPage?.title || "Untitled"}] (ID: ${block.id}, edited: ${edited})`;
-    }
-    case "child_database": {
-      const childDb = block.child_database as { title?: string } | undefined;
-      return `${indent}🗃️ [Child Database: ${childDb?.title || "Untitled"}] (ID: ${block.id})`;
+      const edited = formatDate(block.last_edited_time);
+      return `${indent}📄 [Child Page: ${block.child_page.title || "Untitled"}] (ID: ${block.id}, edited: ${edited})`;
     }
+    case "child_database":
+      return `${indent}🗃️ [Child Database: ${block.child_database.title || "Untitled"}] (ID: ${block.id})`;
     case "image":
       return `${indent}🖼️ [Image]`;
     case "video":
@@ -271,14 +866,10 @@ export function formatBlock(block: NotionBlock, indent: string = ""): string {
       return `${indent}📎 [File]`;
     case "pdf":
       return `${indent}📄 [PDF]`;
-    case "bookmark": {
-      const bookmark = block.bookmark as { url?: string } | undefined;
-      return `${indent}🔖 [Bookmark: ${bookmark?.url || ""}]`;
-    }
-    case "link_preview": {
-      const link = block.link_preview as { url?: string } | undefined;
-      return `${indent}🔗 [Link: ${link?.url || ""}]`;
-    }
+    case "bookmark":
+      return `${indent}🔖 [Bookmark: ${block.bookmark.url || ""}]`;
+    case "link_preview":
+      return `${indent}🔗 [Link: ${block.link_preview.url || ""}]`;
     case "table":
       return `${indent}📊 [Table]`;
     case "table_row":
@@ -294,6 +885,6 @@ export function formatBlock(block: NotionBlock, indent: string = ""): string {
     case "unsupported":
       return `${indent}[Unsupported block type]`;
     default:
-      return text ? `${indent}${text}` : `${indent}[${block.type}]`;
+      return text ? `${indent}${text}` : `${indent}[${type}]`;
   }
 }
@@ -0,0 +1,343 @@
+/**
+ * HTML rendering for Notion pages.
+ *
+ * Turns a fetched block tree (see fetchBlockTree in helpers.ts) into a
+ * single self-contained HTML document: semantic elements for each block,
+ * Notion's text and background colors as CSS classes, and an embedded
+ * stylesheet — no scripts, fonts, or other external assets.
+ */
+
+import type { Mention, NotionPage } from "./src/postman/notion-api/index.js";
+import { blockContent, getPageTitle, notionUrl, fileUrl, linkTarget, mentionText, type BlockNode } from "./helpers.js";
+
+/** A rich text run — text, mention, or equation */
+interface RichTextRun {
+  type: string;
+  plain_text: string;
+  href: string | null;
+  annotations?: {
+    bold?: boolean;
+    italic?: boolean;
+    strikethrough?: boolean;
+    underline?: boolean;
+    code?: boolean;
+    color?: string;
+  };
+  text?: { content: string; link: { url: string } | null };
+  equation?: { expression: string };
+  mention?: Mention;
+}
+
+/** Notion icon — an emoji, or an image hosted by Notion or externally */
+interface Icon {
+  type?: string;
+  emoji?: string;
+  external?: { url: string };
+  file?: { url: string };
+}
+
+const LIST_TAGS: Record<string, string> = {
+  bulleted_list_item: "ul",
+  numbered_list_item: "ol",
+  to_do: "ul",
+};
+
+/** Notion's color palette, as [text, background] pairs */
+const COLORS: Record<string, [string, string]> = {
+  gray: ["#787774", "#f1f1ef"],
+  brown: ["#9f6b53", "#f4eeee"],
+  orange: ["#d9730d", "#fbecdd"],
+  yellow: ["#cb912f", "#fbf3db"],
+  green: ["#448361", "#edf3ec"],
+  blue: ["#337ea9", "#e7f3f8"],
+  purple: ["#9065b0", "#f6f3f9"],
+  pink: ["#c14c8a", "#faf1f5"],
+  red: ["#d44c47", "#fdebec"],
+};
+
+const STYLESHEET = `
+body { margin: 0; color: #37352f; background: #fff; font: 16px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; }
+.page { max-width: 720px; margin: 0 auto; padding: 48px 24px; }
+.page-icon { font-size: 48px; line-height: 1; }
+.page-icon img { width: 48px; height: 48px; }
+h1, h2, h3, h4 { line-height: 1.3; margin: 1.6em 0 0.4em; }
+.page-title { margin-top: 0.4em; font-size: 2.4em; }
+p { margin: 0.5em 0; }
+a { color: inherit; text-decoration: underline; text-decoration-color: #a5a29a; }
+code { font-family: SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.875em; background: #f1f1ef; color: #eb5757; border-radius: 4px; padding: 0.1em 0.3em; }
+pre { background: #f7f6f3; border-radius: 4px; padding: 16px; overflow-x: auto; }
+pre code { background: none; color: inherit; padding: 0; }
+blockquote { margin: 0.5em 0; padding-left: 16px; border-left: 3px solid currentColor; }
+hr { border: none; border-top: 1px solid #e9e9e7; margin: 1.5em 0; }
+ul, ol { padding-left: 1.6em; }
+.to-do { list-style: none; padding-left: 0.2em; }
+.to-do input { margin-right: 0.5em; }
+.checked > .to-do-text { text-decoration: line-through; opacity: 0.6; }
+.indented { padding-left: 1.6em; }
+details { margin: 0.5em 0; }
+details > :not(summary) { margin-left: 1.6em; }
+summary { cursor: pointer; }
+summary > h2, summary > h3, summary > h4 { display: inline; }
+.callout { display: flex; gap: 10px; margin: 0.5em 0; padding: 16px; border-radius: 4px; background: #f1f1ef; }
+.callout-icon { flex-shrink: 0; }
+.callout-icon img { width: 1.4em; height: 1.4em; }
+.callout-body > :first-child { margin-top: 0; }
+.callout-body > :last-child { margin-bottom: 0; }
+figure { margin: 1em 0; }
+figure img { max-width: 100%; }
+figcaption { color: #787774; font-size: 0.875em; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #e9e9e7; padding: 6px 10px; text-align: left; vertical-align: top; }
+thead th, tbody th { background: #f7f6f3; }
+.columns { display: flex; gap: 24px; }
+.column { flex: 1; min-width: 0; }
+.bookmark { display: block; border: 1px solid #e9e9e7; border-radius: 4px; padding: 12px 16px; margin: 0.5em 0; }
+.equation { text-align: center; }
+${Object.entries(COLORS)
+  .map(([name, [fg, bg]]) => `.color-${name} { color: ${fg}; }\n.bg-${name} { background: ${bg}; }`)
+  .join("\n")}
+`.trimStart();
+
+// ============================================================================
+// Rich text
+// ============================================================================
+
+/** Escape text for use in HTML content and attribute values */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * CSS class for a Notion color: "red" → "color-red",
+ * "red_background" → "bg-red", "default" → "".
+ */
+function colorClass(color: unknown): string {
+  if (typeof color !== "string" || color === "default") return "";
+  const [name, background] = color.split("_");
+  if (!(name in COLORS)) return "";
+  return background === "background" ? `bg-${name}` : `color-${name}`;
+}
+
+/** ` class="…"` attribute for the given classes, or "" when there are none */
+function classAttr(...classes: string[]): string {
+  const names = classes.filter(Boolean).join(" ");
+  return names ? ` class="${names}"` : "";
+}
+
+/** Render one run; newlines inside a run become <br> */
+function renderRun(run: RichTextRun): string {
+  if (run.type === "equation" && run.equation) {
+    return `<code class="equation">${escapeHtml(run.equation.expression)}</code>`;
+  }
+
+  const a = run.annotations ?? {};
+  const text = run.mention ? mentionText(run.mention, run.plain_text) : run.plain_text;
+  let out = escapeHtml(text).replace(/\n/g, "<br>");
+  if (a.code) out = `<code>${out}</code>`;
+  if (a.bold) out = `<strong>${out}</strong>`;
+  if (a.italic) out = `<em>${out}</em>`;
+  if (a.strikethrough) out = `<s>${out}</s>`;
+  if (a.underline) out = `<u>${out}</u>`;
+  const color = colorClass(a.color);
+  if (color) out = `<span class="${color}">${out}</span>`;
+
+  const url = run.text?.link?.url ?? run.href;
+  if (url) out = `<a href="${escapeHtml(url)}">${out}</a>`;
+  return out;
+}
+
+/** Render a rich text array as inline HTML */
+export function renderRichTextHtml(items: ReadonlyArray<{ plain_text: string }> | undefined): string {
+  return (items ?? []).map((item) => renderRun(item as RichTextRun)).join("");
+}
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+/** Render an icon as an emoji or an <img>; "" when there is none */
+function renderIcon(icon: Icon | null | undefined): string {
+  if (!icon) return "";
+  if (icon.type === "emoji" && icon.emoji) return escapeHtml(icon.emoji);
+  const url = icon.external?.url ?? icon.file?.url;
+  return url ? `<img src="${escapeHtml(url)}" alt="">` : "";
+}
+
+/** Render a table block from its table_row children */
+function renderTable(node: BlockNode): string {
+  const table = node.block.type === "table" ? node.block.table : undefined;
+  const rows = node.children.flatMap(({ block }) => (block.type === "table_row" ? [block.table_row.cells] : []));
+
+  const row = (cells: Array<Array<{ plain_text: string }>>, header: boolean) =>
+    `<tr>${cells
+      .map((cell, i) => {
+        const content = renderRichTextHtml(cell);
+        if (header) return `<th scope="col">${content}</th>`;
+        if (i === 0 && table?.has_row_header) return `<th scope="row">${content}</th>`;
+        return `<td>${content}</td>`;
+      })
+      .join("")}</tr>`;
+
+  const head = table?.has_column_header && rows.length > 0 ? `<thead>${row(rows.shift()!, true)}</thead>` : "";
+  return `<table>${head}<tbody>${rows.map((cells) => row(cells, false)).join("")}</tbody></table>`;
+}
+
+/** Render a single block (and its children); returns "" for blocks with no output */
+function renderBlock(node: BlockNode): string {
+  const { block } = node;
+  // Fields several block types share; the rest is read from the narrowed block
+  const content = (blockContent(block) ?? {}) as {
+    rich_text?: Array<{ plain_text: string }>;
+    caption?: Array<{ plain_text: string }>;
+    color?: string;
+  };
+  const text = renderRichTextHtml(content.rich_text);
+  const color = colorClass(content.color);
+  const children = () => renderBlocksHtml(node.children);
+  const caption = content.caption?.length ? `<figcaption>${renderRichTextHtml(content.caption)}</figcaption>` : "";
+
+  switch (block.type) {
+    case "paragraph": {
+      const paragraph = `<p${classAttr(color)}>${text}</p>`;
+      // Indented content under a paragraph is shown indented below it
+      return node.children.length > 0 ? `${paragraph}\n<div class="indented">\n${children()}\n</div>` : paragraph;
+    }
+    case "heading_1":
+    case "heading_2":
+    case "heading_3": {
+      // The page title is the only <h1>; block headings start at <h2>
+      const tag = `h${Number(block.type.slice(-1)) + 1}`;
+      const heading = `<${tag}${classAttr(color)}>${text}</${tag}>`;
+      if (!blockContent(block).is_toggleable) return heading;
+      return `<details>\n<summary>${heading}</summary>\n${children()}\n</details>`;
+    }
+    case "bulleted_list_item":
+    case "numbered_list_item":
+      return `<li${classAttr(color)}>${text}${node.children.length > 0 ? `\n${children()}\n` : ""}</li>`;
+    case "to_do": {
+      const checked = block.to_do.checked === true;
+      const box = `<input type="checkbox" disabled${checked ? " checked" : ""}>`;
+      const item = `${box}<span class="to-do-text">${text}</span>`;
+      return `<li${classAttr(checked ? "checked" : "", color)}>${item}${node.children.length > 0 ? `\n${children()}\n` : ""}</li>`;
+    }
+    case "toggle":
+      return `<details${classAttr(color)}>\n<summary>${text}</summary>\n${children()}\n</details>`;
+    case "quote":
+      return `<blockquote${classAttr(color)}>\n<p>${text}</p>${node.children.length > 0 ? `\n${children()}` : ""}\n</blockquote>`;
+    case "callout": {
+      const icon = renderIcon(block.callout.icon as Icon | null);
+      const iconHtml = icon ? `<span class="callout-icon">${icon}</span>` : "";
+      const body = `<p>${text}</p>${node.children.length > 0 ? `\n${children()}` : ""}`;
+      return `<aside${classAttr("callout", color)}>${iconHtml}<div class="callout-body">\n${body}\n</div></aside>`;
+    }
+    case "code": {
+      const code = escapeHtml((content.rich_text ?? []).map((t) => t.plain_text).join(""));
+      const language = block.code.language ?? "plain text";
+      const pre = `<pre><code data-language="${escapeHtml(language)}">${code}</code></pre>`;
+      return caption ? `<figure>${pre}${caption}</figure>` : pre;
+    }
+    case "equation":
+      return `<div class="equation"><code>${escapeHtml(block.equation.expression ?? "")}</code></div>`;
+    case "divider":
+      return "<hr>";
+    case "image": {
+      const alt = (content.caption ?? []).map((t) => t.plain_text).join("");
+      return `<figure><img src="${escapeHtml(fileUrl(block.image))}" alt="${escapeHtml(alt)}">${caption}</figure>`;
+    }
+    case "video":
+    case "audio":
+    case "file":
+    case "pdf": {
+      const media = blockContent(block);
+      const label = renderRichTextHtml(media.caption) || escapeHtml(media.name || block.type);
+      return `<p><a href="${escapeHtml(fileUrl(media))}">${label}</a></p>`;
+    }
+    case "bookmark":
+    case "embed":
+    case "link_preview": {
+      const url = blockContent(block).url ?? "";
+      const label = renderRichTextHtml(content.caption) || escapeHtml(url);
+      return `<a class="bookmark" href="${escapeHtml(url)}">${label}</a>`;
+    }
+    case "child_page":
+    case "child_database": {
+      const title = escapeHtml(blockContent(block).title || "Untitled");
+      return `<p><a href="${notionUrl(block.id)}">${title}</a></p>`;
+    }
+    case "link_to_page": {
+      const target = linkTarget(block.link_to_page);
+      return target ? `<p><a href="${notionUrl(target)}">${notionUrl(target)}</a></p>` : "";
+    }
+    case "table":
+      return renderTable(node);
+    case "column_list":
+      return `<div class="columns">\n${node.children
+        .map((column) => `<div class="column">\n${renderBlocksHtml(column.children)}\n</div>`)
+        .join("\n")}\n</div>`;
+    case "column":
+    case "synced_block":
+      return children();
+    case "table_of_contents":
+    case "breadcrumb":
+    case "table_row":
+      return "";
+    default:
+      if (text) return `<p>${text}</p>`;
+      return `<!-- unsupported block: ${escapeHtml(node.block.type)} -->`;
+  }
+}
+
+/**
+ * Render sibling blocks. Consecutive list items of the same kind are
+ * wrapped in one <ul>/<ol>, so numbered items count up within each run.
+ */
+export function renderBlocksHtml(nodes: BlockNode[]): string {
+  const out: string[] = [];
+  let openList: string | undefined;
+
+  for (const node of nodes) {
+    const type = node.block.type;
+    if (openList && openList !== type) {
+      out.push(`</${LIST_TAGS[openList]}>`);
+      openList = undefined;
+    }
+    if (!openList && LIST_TAGS[type]) {
+      out.push(type === "to_do" ? `<ul class="to-do">` : `<${LIST_TAGS[type]}>`);
+      openList = type;
+    }
+    const rendered = renderBlock(node);
+    if (rendered) out.push(rendered);
+  }
+  if (openList) out.push(`</${LIST_TAGS[openList]}>`);
+  return out.join("\n");
+}
+
+/** Render a whole page as a standalone HTML document with an embedded stylesheet */
+export function renderPageHtml(page: NotionPage, blocks: BlockNode[]): string {
+  const title = getPageTitle(page);
+  const icon = renderIcon(page.icon as Icon | null);
+  const header = [
+    icon ? `<div class="page-icon">${icon}</div>` : "",
+    `<h1 class="page-title">${escapeHtml(title)}</h1>`,
+  ].filter(Boolean).join("\n");
+  const body = renderBlocksHtml(blocks);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+${STYLESHEET}</style>
+</head>
+<body>
+<article class="page">
+<header>
+${header}
+</header>
+${body ? `${body}\n` : ""}</article>
+</body>
+</html>
+`;
+}
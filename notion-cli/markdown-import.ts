@@ -0,0 +1,644 @@
+/**
+ * Markdown import for Notion pages.
+ *
+ * Parses CommonMark with the common GitHub extensions (tables, task
+ * lists, strikethrough, autolinks) into Notion block objects ready for
+ * the append block children endpoint. Nested content is placed in each
+ * block's `children`; appendBlockTree in helpers.ts takes care of the
+ * 100-block and nesting-depth limits when sending them.
+ *
+ * Also reads back what `page export` writes: <details> toggles,
+ * <u>underline</u>, and $…$ / $$…$$ equations.
+ */
+
+import type { BlockInput, BlockInputMap, BlockInputOf, RichTextInput } from "./src/postman/notion-api/index.js";
+
+/** Notion rejects rich text items longer than this */
+const MAX_TEXT_LENGTH = 2000;
+
+/** Code block languages Notion accepts */
+const NOTION_LANGUAGES = new Set([
+  "abap", "agda", "arduino", "ascii art", "assembly", "bash", "basic", "bnf", "c", "c#", "c++",
+  "clojure", "coffeescript", "coq", "css", "dart", "dhall", "diff", "docker", "ebnf", "elixir",
+  "elm", "erlang", "f#", "flow", "fortran", "gherkin", "glsl", "go", "graphql", "groovy",
+  "haskell", "hcl", "html", "idris", "java", "javascript", "json", "julia", "kotlin", "latex",
+  "less", "lisp", "livescript", "llvm ir", "lua", "makefile", "markdown", "markup", "matlab",
+  "mathematica", "mermaid", "nix", "notion formula", "objective-c", "ocaml", "pascal", "perl",
+  "php", "plain text", "powershell", "prolog", "protobuf", "purescript", "python", "r", "racket",
+  "reason", "ruby", "rust", "sass", "scala", "scheme", "scss", "shell", "smalltalk", "solidity",
+  "sql", "swift", "toml", "typescript", "vb.net", "verilog", "vhdl", "visual basic",
+  "webassembly", "xml", "yaml", "java/c/c++/c#",
+]);
+
+/** Common fence info strings that differ from Notion's language names */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript", jsx: "javascript", mjs: "javascript", cjs: "javascript",
+  ts: "typescript", tsx: "typescript",
+  py: "python", rb: "ruby", rs: "rust", kt: "kotlin", golang: "go",
+  sh: "shell", zsh: "shell", console: "shell", ps1: "powershell",
+  yml: "yaml", md: "markdown", tex: "latex", dockerfile: "docker", make: "makefile",
+  cpp: "c++", cxx: "c++", cs: "c#", csharp: "c#", fsharp: "f#",
+  objc: "objective-c", objectivec: "objective-c", vbnet: "vb.net", vb: "visual basic",
+  proto: "protobuf", wasm: "webassembly", svg: "xml", text: "plain text", txt: "plain text",
+};
+
+/** GitHub alert markers (> [!NOTE]) and the callout icon each becomes */
+const ALERT_ICONS: Record<string, string> = {
+  NOTE: "ℹ️", TIP: "💡", IMPORTANT: "❗", WARNING: "⚠️", CAUTION: "🛑",
+};
+
+// ============================================================================
+// Inline content → rich text
+// ============================================================================
+
+interface InlineStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  underline?: boolean;
+  code?: boolean;
+  link?: string;
+}
+
+const ANNOTATION_KEYS = ["bold", "italic", "strikethrough", "underline", "code"] as const;
+
+/** Only absolute links are accepted by Notion; relative ones become plain text */
+function safeUrl(url: string): string | undefined {
+  return /^(https?:|mailto:)/i.test(url) ? url : undefined;
+}
+
+function annotationsOf(style: InlineStyle): RichTextInput["annotations"] {
+  const annotations: NonNullable<RichTextInput["annotations"]> = {};
+  for (const key of ANNOTATION_KEYS) {
+    if (style[key]) annotations[key] = true;
+  }
+  return Object.keys(annotations).length > 0 ? annotations : undefined;
+}
+
+/** Append text, merging with the previous item when the style matches */
+function pushText(out: RichTextInput[], content: string, style: InlineStyle): void {
+  const annotations = annotationsOf(style);
+  const last = out[out.length - 1];
+  if (
+    last?.type === "text" &&
+    last.text!.link?.url === style.link &&
+    JSON.stringify(last.annotations) === JSON.stringify(annotations) &&
+    last.text!.content.length + content.length <= MAX_TEXT_LENGTH
+  ) {
+    last.text!.content += content;
+    return;
+  }
+
+  for (let i = 0; i < content.length; i += MAX_TEXT_LENGTH) {
+    out.push({
+      type: "text",
+      text: { content: content.slice(i, i + MAX_TEXT_LENGTH), ...(style.link ? { link: { url: style.link } } : {}) },
+      ...(annotations ? { annotations } : {}),
+    });
+  }
+}
+
+/** Find the backtick run that closes a code span, or -1 */
+function findCodeClose(src: string, from: number, length: number): number {
+  const pattern = new RegExp(`(?<!\`)\`{${length}}(?!\`)`, "g");
+  pattern.lastIndex = from;
+  return pattern.exec(src)?.index ?? -1;
+}
+
+/** Find the closing emphasis delimiter, skipping code spans; -1 if none */
+function findEmphasisClose(src: string, from: number, delim: string): number {
+  for (let j = from + 1; j < src.length; j++) {
+    if (src[j] === "\\") {
+      j++;
+      continue;
+    }
+    if (src[j] === "`") {
+      const run = src.slice(j).match(/^`+/)![0];
+      const close = findCodeClose(src, j + run.length, run.length);
+      if (close !== -1) j = close + run.length - 1;
+      continue;
+    }
+    if (!src.startsWith(delim, j) || /\s/.test(src[j - 1])) continue;
+    if (delim === "_" && /[\p{L}\p{N}]/u.test(src[j + 1] ?? "")) continue;
+    if (delim === "*" && (src[j + 1] === "*" || src[j - 1] === "*")) continue;
+    // For ***both***, close bold on the last two asterisks so the italic stays inside
+    if (delim === "**" && src[j + 2] === "*") j++;
+    return j;
+  }
+  return -1;
+}
+
+/** Match [text](url "title") starting at a "[" — returns undefined if it isn't a link */
+function matchLink(src: string, start: number): { text: string; url: string; end: number } | undefined {
+  let depth = 0;
+  let close = -1;
+  for (let j = start; j < src.length; j++) {
+    if (src[j] === "\\") {
+      j++;
+    } else if (src[j] === "[") {
+      depth++;
+    } else if (src[j] === "]" && --depth === 0) {
+      close = j;
+      break;
+    }
+  }
+  if (close === -1 || src[close + 1] !== "(") return undefined;
+
+  const dest = src.slice(close + 2).match(/^\s*(?:<([^<>\n]*)>|((?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*))(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/);
+  if (!dest) return undefined;
+  return {
+    text: src.slice(start + 1, close),
+    url: (dest[1] ?? dest[2]).replace(/\\(.)/g, "$1"),
+    end: close + 2 + dest[0].length,
+  };
+}
+
+/**
+ * Parse inline Markdown into rich text items.
+ *
+ * @param src - Inline Markdown (a paragraph, heading, or table cell)
+ */
+export function parseInline(src: string, style: InlineStyle = {}, out: RichTextInput[] = []): RichTextInput[] {
+  let buffer = "";
+  const flush = () => {
+    if (buffer) pushText(out, buffer, style);
+    buffer = "";
+  };
+
+  for (let i = 0; i < src.length; ) {
+    const ch = src[i];
+    const rest = src.slice(i);
+
+    if (ch === "\\" && /[!-/:-@[-`{-~]/.test(src[i + 1] ?? "")) {
+      buffer += src[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === "`") {
+      const run = rest.match(/^`+/)![0];
+      const close = findCodeClose(src, i + run.length, run.length);
+      if (close === -1) {
+        buffer += run;
+        i += run.length;
+        continue;
+      }
+      flush();
+      let code = src.slice(i + run.length, close).replace(/\n/g, " ");
+      if (code.length > 2 && code.startsWith(" ") && code.endsWith(" ") && code.trim()) code = code.slice(1, -1);
+      pushText(out, code, { ...style, code: true });
+      i = close + run.length;
+      continue;
+    }
+
+    if (ch === "$") {
+      const math = rest.match(/^\$(?![\s$])((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/);
+      if (math) {
+        flush();
+        const annotations = annotationsOf(style);
+        out.push({ type: "equation", equation: { expression: math[1] }, ...(annotations ? { annotations } : {}) });
+        i += math[0].length;
+        continue;
+      }
+    }
+
+    if (ch === "[" || (ch === "!" && src[i + 1] === "[")) {
+      const image = ch === "!";
+      const link = matchLink(src, image ? i + 1 : i);
+      if (link) {
+        flush();
+        const url = safeUrl(link.url);
+        const linked = url ? { ...style, link: url } : style;
+        // Inline images have no rich text form — keep them as a link
+        parseInline(link.text || (image ? link.url : ""), linked, out);
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === "<") {
+      const auto = rest.match(/^<((?:https?|mailto):[^\s<>]+)>/i);
+      if (auto) {
+        flush();
+        pushText(out, auto[1], { ...style, link: auto[1] });
+        i += auto[0].length;
+        continue;
+      }
+      const underline = rest.match(/^<u>([\s\S]*?)<\/u>/);
+      if (underline) {
+        flush();
+        parseInline(underline[1], { ...style, underline: true }, out);
+        i += underline[0].length;
+        continue;
+      }
+      const br = rest.match(/^<br\s*\/?>/i);
+      if (br) {
+        buffer += "\n";
+        i += br[0].length;
+        continue;
+      }
+    }
+
+    const delim = rest.match(/^(\*\*|__|~~|\*|_)/)?.[1];
+    if (delim && !/\s/.test(src[i + delim.length] ?? " ")) {
+      const intraword = delim[0] === "_" && /[\p{L}\p{N}]/u.test(src[i - 1] ?? "");
+      const close = intraword ? -1 : findEmphasisClose(src, i + delim.length, delim);
+      if (close !== -1) {
+        flush();
+        const key = delim === "~~" ? "strikethrough" : delim.length === 2 ? "bold" : "italic";
+        parseInline(src.slice(i + delim.length, close), { ...style, [key]: true }, out);
+        i = close + delim.length;
+        continue;
+      }
+    }
+
+    if (ch === "h" && !style.link && /[\s(]|^$/.test(src[i - 1] ?? "")) {
+      const url = rest.match(/^https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]]/);
+      if (url) {
+        flush();
+        pushText(out, url[0], { ...style, link: url[0] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return out;
+}
+
+// ============================================================================
+// Block structure
+// ============================================================================
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])( +|\t|$)/;
+const TABLE_DELIMITER = /^ {0,3}\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const DETAILS_OPEN = /^ {0,3}<details\b[^>]*>/i;
+const MATH_FENCE = /^ {0,3}\$\$/;
+
+interface ListMarker {
+  indent: number;
+  ordered: boolean;
+  /** Column where the item's content starts */
+  contentIndent: number;
+  content: string;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === "";
+}
+
+function leadingSpaces(line: string): number {
+  return line.match(/^ */)![0].length;
+}
+
+function matchListItem(line: string): ListMarker | undefined {
+  const m = line.match(LIST_ITEM);
+  if (!m) return undefined;
+  const markerEnd = m[1].length + m[2].length;
+  const gap = m[3].length;
+  // A blank item or one followed by 5+ spaces (indented code) starts content one column after the marker
+  const contentIndent = gap === 0 || gap > 4 ? markerEnd + 1 : markerEnd + gap;
+  return {
+    indent: m[1].length,
+    ordered: /\d/.test(m[2]),
+    contentIndent,
+    content: line.slice(Math.min(contentIndent, line.length)),
+  };
+}
+
+/** Does this line start a block other than a paragraph (ending the paragraph before it)? */
+function startsBlock(line: string): boolean {
+  return (
+    FENCE.test(line) ||
+    ATX_HEADING.test(line) ||
+    THEMATIC_BREAK.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    DETAILS_OPEN.test(line) ||
+    MATH_FENCE.test(line) ||
+    (matchListItem(line)?.content.trim() ?? "") !== ""
+  );
+}
+
+/** Split a table row on unescaped pipes, dropping the optional outer pipes */
+function splitRow(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  const row = line.trim().replace(/^\|/, "");
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === "\\" && row[i + 1] === "|") {
+      cell += "\\|";
+      i++;
+    } else if (row[i] === "|") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += row[i];
+    }
+  }
+  if (cell.trim() || !row.endsWith("|")) cells.push(cell.trim());
+  return cells;
+}
+
+/** Block types whose content is a line of rich text */
+type RichTextBlockType = {
+  [T in keyof BlockInputMap]: BlockInputMap[T] extends { rich_text: RichTextInput[] } ? T : never;
+}[keyof BlockInputMap];
+
+function richTextBlock<T extends RichTextBlockType>(
+  type: T,
+  richText: RichTextInput[],
+  extra: Partial<BlockInputMap[T]> = {},
+): BlockInput {
+  return { object: "block", type, [type]: { rich_text: richText, ...extra } } as BlockInput;
+}
+
+function codeLanguage(info: string): string {
+  const lang = info.toLowerCase();
+  const resolved = LANGUAGE_ALIASES[lang] ?? lang;
+  return NOTION_LANGUAGES.has(resolved) ? resolved : "plain text";
+}
+
+/** Rich text for code: plain content split into 2000-character items */
+function plainRichText(content: string): RichTextInput[] {
+  const out: RichTextInput[] = [];
+  pushText(out, content, {});
+  return out;
+}
+
+/**
+ * Split parsed content into the rich text of a container block (its
+ * leading paragraph) and the blocks that become its children.
+ */
+function leadAndChildren(blocks: BlockInput[]): { richText: RichTextInput[]; children: BlockInput[] } {
+  const first = blocks[0];
+  if (first?.type === "paragraph") {
+    const { paragraph } = first;
+    return { richText: paragraph.rich_text, children: [...(paragraph.children ?? []), ...blocks.slice(1)] };
+  }
+  return { richText: [], children: blocks };
+}
+
+function withChildren(block: BlockInput, children: BlockInput[]): BlockInput {
+  if (children.length === 0) return block;
+  const type = block.type;
+  return { ...block, [type]: { ...((block as Record<string, unknown>)[type] as object), children } } as BlockInput;
+}
+
+/** Parse a list starting at lines[start]; returns the items and the next line index */
+function parseList(lines: string[], start: number): { blocks: BlockInput[]; next: number } {
+  const ordered = matchListItem(lines[start])!.ordered;
+  const blocks: BlockInput[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const marker = matchListItem(lines[i]);
+    if (!marker || marker.ordered !== ordered) break;
+
+    const itemLines = [marker.content];
+    let afterBlank = false;
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        itemLines.push("");
+        afterBlank = true;
+        i++;
+        continue;
+      }
+      const indent = leadingSpaces(line);
+      // Nested content, including sublists indented less than the content column
+      if (indent >= marker.contentIndent || (indent > marker.indent && matchListItem(line))) {
+        itemLines.push(line.slice(Math.min(indent, marker.contentIndent)));
+        afterBlank = false;
+        i++;
+        continue;
+      }
+      // Lazy continuation of the item's paragraph
+      if (!afterBlank && !startsBlock(line) && itemLines[itemLines.length - 1] !== "") {
+        itemLines.push(line.trim());
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    const task = !ordered && itemLines[0].match(/^\[([ xX])\](?:\s+|$)/);
+    if (task) itemLines[0] = itemLines[0].slice(task[0].length);
+
+    const { richText, children } = leadAndChildren(parseBlocks(itemLines));
+    const item = task
+      ? richTextBlock("to_do", richText, { checked: task[1] !== " " })
+      : richTextBlock(ordered ? "numbered_list_item" : "bulleted_list_item", richText);
+    blocks.push(withChildren(item, children));
+  }
+
+  return { blocks, next: i };
+}
+
+/** Parse a sequence of lines into blocks */
+function parseBlocks(lines: string[]): BlockInput[] {
+  const blocks: BlockInput[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // Fenced code
+    const fence = line.match(FENCE);
+    if (fence) {
+      const [, indent, marker, info] = fence;
+      const closing = new RegExp(`^ {0,3}${marker[0] === "`" ? "`" : "~"}{${marker.length},}\\s*$`);
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !closing.test(lines[i])) {
+        code.push(lines[i].replace(new RegExp(`^ {0,${indent.length}}`), ""));
+        i++;
+      }
+      i++;
+      blocks.push(richTextBlock("code", plainRichText(code.join("\n")), { language: codeLanguage(info) }));
+      continue;
+    }
+
+    // Block equation: $$ … $$
+    if (MATH_FENCE.test(line)) {
+      const oneLine = line.trim().match(/^\$\$(.+)\$\$$/);
+      let expression: string;
+      if (oneLine) {
+        expression = oneLine[1].trim();
+        i++;
+      } else {
+        const body: string[] = [line.trim().slice(2)];
+        i++;
+        while (i < lines.length && !/\$\$\s*$/.test(lines[i])) body.push(lines[i++]);
+        if (i < lines.length) body.push(lines[i++].replace(/\$\$\s*$/, ""));
+        expression = body.join("\n").trim();
+      }
+      blocks.push({ object: "block", type: "equation", equation: { expression } });
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      blocks.push(richTextBlock(`heading_${level}`, parseInline(heading[2] ?? "")));
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      blocks.push({ object: "block", type: "divider", divider: {} });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const inner: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (BLOCKQUOTE.test(lines[i]) || !startsBlock(lines[i]))) {
+        inner.push(lines[i].replace(BLOCKQUOTE, ""));
+        i++;
+      }
+      const alert = inner[0]?.trim().match(/^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]$/i);
+      if (alert) inner.shift();
+      const { richText, children } = leadAndChildren(parseBlocks(inner));
+      const block = alert
+        ? richTextBlock("callout", richText, { icon: { type: "emoji", emoji: ALERT_ICONS[alert[1].toUpperCase()] } })
+        : richTextBlock("quote", richText);
+      blocks.push(withChildren(block, children));
+      continue;
+    }
+
+    // Toggle: <details><summary>…</summary> … </details>
+    if (DETAILS_OPEN.test(line)) {
+      const body: string[] = [];
+      let depth = 0;
+      for (; i < lines.length; i++) {
+        depth += (lines[i].match(/<details\b/gi) ?? []).length;
+        depth -= (lines[i].match(/<\/details>/gi) ?? []).length;
+        body.push(lines[i]);
+        if (depth <= 0) {
+          i++;
+          break;
+        }
+      }
+      const html = body.join("\n").replace(DETAILS_OPEN, "").replace(/<\/details>\s*$/i, "");
+      const summary = html.match(/^\s*<summary>([\s\S]*?)<\/summary>/i);
+      const content = summary ? html.slice(summary[0].length) : html;
+      const toggle = richTextBlock("toggle", parseInline(summary?.[1].trim() ?? ""));
+      blocks.push(withChildren(toggle, parseBlocks(content.split("\n"))));
+      continue;
+    }
+
+    if (matchListItem(line)) {
+      const list = parseList(lines, i);
+      blocks.push(...list.blocks);
+      i = list.next;
+      continue;
+    }
+
+    // GFM table: header row, delimiter row, body rows
+    if (line.includes("|") && TABLE_DELIMITER.test(lines[i + 1] ?? "") && lines[i + 1].includes("-")) {
+      const header = splitRow(line);
+      const rows = [header];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes("|") && !startsBlock(lines[i])) {
+        rows.push(splitRow(lines[i]));
+        i++;
+      }
+      const width = Math.max(...rows.map((row) => row.length));
+      const children = rows.map((row): BlockInputOf<"table_row"> => ({
+        object: "block",
+        type: "table_row",
+        table_row: { cells: Array.from({ length: width }, (_, c) => parseInline(row[c] ?? "")) },
+      }));
+      blocks.push({
+        object: "block",
+        type: "table",
+        table: { table_width: width, has_column_header: true, has_row_header: false, children },
+      });
+      continue;
+    }
+
+    // Paragraph (possibly a setext heading)
+    const paragraph: string[] = [line];
+    i++;
+    let setext: 1 | 2 | undefined;
+    while (i < lines.length && !isBlank(lines[i])) {
+      if (/^ {0,3}=+\s*$/.test(lines[i])) setext = 1;
+      else if (/^ {0,3}-+\s*$/.test(lines[i])) setext = 2;
+      if (setext) {
+        i++;
+        break;
+      }
+      if (startsBlock(lines[i]) || (lines[i].includes("|") && TABLE_DELIMITER.test(lines[i + 1] ?? ""))) break;
+      paragraph.push(lines[i]);
+      i++;
+    }
+
+    // Soft line breaks become spaces; hard breaks (two trailing spaces or a backslash) stay newlines
+    const text = paragraph
+      .map((l, n) => {
+        if (n === paragraph.length - 1) return l.trim();
+        if (/ {2,}$/.test(l)) return `${l.trim()}\n`;
+        if (/\\$/.test(l.trimEnd())) return `${l.trim().slice(0, -1)}\n`;
+        return `${l.trim()} `;
+      })
+      .join("");
+
+    if (setext) {
+      blocks.push(richTextBlock(`heading_${setext}`, parseInline(text)));
+      continue;
+    }
+
+    // A paragraph that is only an image becomes an image block
+    const image = text.match(/^!\[([^\]]*)\]\(\s*<?([^\s<>)]+)>?(?:\s+"[^"]*")?\s*\)$/);
+    if (image && safeUrl(image[2])) {
+      blocks.push({
+        object: "block",
+        type: "image",
+        image: {
+          type: "external",
+          external: { url: image[2] },
+          caption: image[1] ? parseInline(image[1]) : [],
+        },
+      });
+      continue;
+    }
+
+    blocks.push(richTextBlock("paragraph", parseInline(text)));
+  }
+
+  return blocks;
+}
+
+/**
+ * Convert a Markdown document into Notion block objects.
+ *
+ * Nested list items, quote contents, and toggle bodies are returned in
+ * each block's `children`. Headings deeper than ### become heading_3,
+ * unknown code languages become "plain text", and relative links are
+ * kept as plain text (Notion only accepts absolute URLs).
+ *
+ * @param markdown - CommonMark/GFM source
+ */
+export function markdownToBlocks(markdown: string): BlockInput[] {
+  const lines = markdown
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    // Expand leading tabs so indentation can be compared in columns
+    .map((line) => line.replace(/^\t+/, (tabs) => "    ".repeat(tabs.length)));
+  return parseBlocks(lines);
+}
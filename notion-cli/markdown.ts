@@ -0,0 +1,269 @@
+/**
+ * Markdown rendering for Notion pages.
+ *
+ * Turns a fetched block tree (see fetchBlockTree in helpers.ts) into
+ * GitHub-flavored Markdown. Unlike formatBlock, which flattens everything
+ * to plain text for terminal output, this keeps rich-text annotations and
+ * links, numbers and nests lists, builds tables from their table_row
+ * children, and falls back to inline HTML where Markdown has no
+ * equivalent (toggles, underline).
+ */
+
+import type { Mention, NotionPage } from "./src/postman/notion-api/index.js";
+import { blockContent, getPageTitle, notionUrl, fileUrl, linkTarget, mentionText, type BlockNode } from "./helpers.js";
+
+/** A rich text run — text, mention, or equation */
+interface RichTextRun {
+  type: string;
+  plain_text: string;
+  href: string | null;
+  annotations?: {
+    bold?: boolean;
+    italic?: boolean;
+    strikethrough?: boolean;
+    underline?: boolean;
+    code?: boolean;
+  };
+  text?: { content: string; link: { url: string } | null };
+  equation?: { expression: string };
+  mention?: Mention;
+}
+
+/** Notion language names that differ from common fence info strings */
+const CODE_LANGUAGES: Record<string, string> = {
+  "plain text": "",
+  "c++": "cpp",
+  "c#": "csharp",
+  "f#": "fsharp",
+  "objective-c": "objectivec",
+  "vb.net": "vbnet",
+  "visual basic": "vb",
+  "java/c/c++/c#": "",
+};
+
+const LIST_TYPES = new Set(["bulleted_list_item", "numbered_list_item", "to_do"]);
+
+// ============================================================================
+// Rich text
+// ============================================================================
+
+/** Backslash-escape characters that Markdown would otherwise interpret */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>~|]/g, "\\$&");
+}
+
+/** Escape a leading marker that would turn a paragraph into a heading or list */
+function escapeLineStart(text: string): string {
+  return text.replace(/^(#{1,6}(?=\s)|[-+](?=\s)|\d+(?=[.)]\s))/, (marker) =>
+    /^\d/.test(marker) ? `${marker}\\` : `\\${marker}`,
+  );
+}
+
+/** Percent-encode characters that would end a Markdown link destination early */
+function markdownUrl(url: string): string {
+  return url.replace(/[()\s<>]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`);
+}
+
+/** Wrap inline code in enough backticks to contain any backticks inside it */
+function inlineCode(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longest + 1);
+  const pad = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${fence}${pad}${text}${pad}${fence}`;
+}
+
+/**
+ * Render one run. Emphasis markers must hug non-space characters, so
+ * surrounding whitespace is moved outside them.
+ */
+function renderRun(run: RichTextRun): string {
+  if (run.type === "equation" && run.equation) {
+    return `$${run.equation.expression}$`;
+  }
+
+  const text = run.mention ? mentionText(run.mention, run.plain_text) : run.plain_text;
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  const [, lead, core, trail] = match;
+  if (!core) return text;
+
+  const a = run.annotations ?? {};
+  let out = a.code ? inlineCode(core) : escapeMarkdown(core);
+  if (a.bold) out = `**${out}**`;
+  if (a.italic) out = `_${out}_`;
+  if (a.strikethrough) out = `~~${out}~~`;
+  if (a.underline) out = `<u>${out}</u>`;
+
+  const url = run.text?.link?.url ?? run.href;
+  if (url) out = `[${out}](${markdownUrl(url)})`;
+
+  return `${lead}${out}${trail}`;
+}
+
+/** Render a rich text array as inline Markdown */
+export function renderRichText(items: ReadonlyArray<{ plain_text: string }> | undefined): string {
+  return (items ?? []).map((item) => renderRun(item as RichTextRun)).join("");
+}
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+/** Prefix every non-empty line (indentation for nested list content) */
+function indentLines(text: string, prefix: string): string {
+  return text.split("\n").map((line) => (line ? prefix + line : line)).join("\n");
+}
+
+/** Prefix every line with "> ", keeping blank lines inside the quote */
+function quoteLines(text: string): string {
+  return text.split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n");
+}
+
+/** Fenced code block whose fence is longer than any backtick run inside */
+function codeFence(code: string, language: string): string {
+  const longest = Math.max(2, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longest + 1);
+  return `${fence}${language}\n${code}\n${fence}`;
+}
+
+/** Render a table block from its table_row children */
+function renderTable(node: BlockNode): string {
+  const table = node.block.type === "table" ? node.block.table : undefined;
+  const rows = node.children.flatMap(({ block }) =>
+    block.type === "table_row" ? [block.table_row.cells.map((cell) => renderRichText(cell).replace(/\n/g, "<br>"))] : [],
+  );
+  const width = Math.max(table?.table_width ?? 0, ...rows.map((row) => row.length), 1);
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+
+  // GFM tables need a header row — use an empty one when Notion has none
+  const header = table?.has_column_header && rows.length > 0 ? rows.shift()! : [];
+  return [line(header), line(Array(width).fill("---")), ...rows.map(line)].join("\n");
+}
+
+/** Render a single block (and its children); returns "" for blocks with no output */
+function renderBlock(node: BlockNode, listNumber: number): string {
+  const { block } = node;
+  // Fields several block types share; the rest is read from the narrowed block
+  const content = (blockContent(block) ?? {}) as {
+    rich_text?: Array<{ plain_text: string }>;
+    caption?: Array<{ plain_text: string }>;
+  };
+  const text = renderRichText(content.rich_text);
+  const children = () => renderBlocks(node.children);
+
+  switch (block.type) {
+    case "paragraph":
+      // Indented content under a paragraph has no Markdown form — keep it in sequence
+      return [escapeLineStart(text), node.children.length > 0 ? children() : ""].filter(Boolean).join("\n\n");
+    case "heading_1":
+    case "heading_2":
+    case "heading_3": {
+      const heading = `${"#".repeat(Number(block.type.slice(-1)))} ${text}`;
+      // Toggleable headings keep their children directly below
+      return node.children.length > 0 ? `${heading}\n\n${children()}` : heading;
+    }
+    case "bulleted_list_item":
+    case "numbered_list_item":
+    case "to_do": {
+      let marker = block.type === "numbered_list_item" ? `${listNumber}.` : "-";
+      if (block.type === "to_do") marker += block.to_do.checked ? " [x]" : " [ ]";
+      const item = `${marker} ${text}`;
+      if (node.children.length === 0) return item;
+      const indent = " ".repeat(block.type === "numbered_list_item" ? marker.length + 1 : 2);
+      return `${item}\n${indentLines(children(), indent)}`;
+    }
+    case "toggle": {
+      const body = node.children.length > 0 ? `\n\n${children()}\n` : "";
+      return `<details>\n<summary>${text}</summary>${body}\n</details>`;
+    }
+    case "quote":
+      return quoteLines([text, node.children.length > 0 ? children() : ""].filter(Boolean).join("\n\n"));
+    case "callout": {
+      const icon = block.callout.icon;
+      const emoji = icon?.type === "emoji" && icon.emoji ? `${icon.emoji} ` : "";
+      return quoteLines([`${emoji}${text}`, node.children.length > 0 ? children() : ""].filter(Boolean).join("\n\n"));
+    }
+    case "code": {
+      const code = (content.rich_text ?? []).map((t) => t.plain_text).join("");
+      const language = block.code.language ?? "";
+      const fence = codeFence(code, CODE_LANGUAGES[language] ?? language);
+      const caption = renderRichText(content.caption);
+      return caption ? `${fence}\n\n_${caption}_` : fence;
+    }
+    case "equation":
+      return `$$\n${block.equation.expression ?? ""}\n$$`;
+    case "divider":
+      return "---";
+    case "image": {
+      const alt = (content.caption ?? []).map((t) => t.plain_text).join("") || "image";
+      return `![${escapeMarkdown(alt)}](${markdownUrl(fileUrl(block.image))})`;
+    }
+    case "video":
+    case "audio":
+    case "file":
+    case "pdf": {
+      const media = blockContent(block);
+      const label = renderRichText(media.caption) || escapeMarkdown(media.name || block.type);
+      return `[${label}](${markdownUrl(fileUrl(media))})`;
+    }
+    case "bookmark":
+    case "embed":
+    case "link_preview": {
+      const url = blockContent(block).url ?? "";
+      return `[${renderRichText(content.caption) || escapeMarkdown(url)}](${markdownUrl(url)})`;
+    }
+    case "child_page":
+    case "child_database":
+      return `[${escapeMarkdown(blockContent(block).title || "Untitled")}](${notionUrl(block.id)})`;
+    case "link_to_page": {
+      const target = linkTarget(block.link_to_page);
+      return target ? `[${notionUrl(target)}](${notionUrl(target)})` : "";
+    }
+    case "table":
+      return renderTable(node);
+    case "column_list":
+      // Markdown has no columns — lay them out one after another
+      return node.children.map((column) => renderBlocks(column.children)).filter(Boolean).join("\n\n");
+    case "column":
+    case "synced_block":
+      return children();
+    case "table_of_contents":
+    case "breadcrumb":
+    case "table_row":
+      return "";
+    default:
+      if (text) return text;
+      return `<!-- unsupported block: ${node.block.type} -->`;
+  }
+}
+
+/**
+ * Render sibling blocks. List items are joined with single newlines so
+ * consecutive items form one list; everything else is separated by a
+ * blank line. Numbered items count up within each run.
+ */
+export function renderBlocks(nodes: BlockNode[]): string {
+  let out = "";
+  let previousType: string | undefined;
+  let listNumber = 0;
+
+  for (const node of nodes) {
+    const type = node.block.type;
+    listNumber = type === "numbered_list_item" && previousType === type ? listNumber + 1 : 1;
+    const rendered = renderBlock(node, listNumber);
+    const tight = LIST_TYPES.has(type) && previousType !== undefined && LIST_TYPES.has(previousType);
+    previousType = type;
+    if (!rendered) continue;
+
+    if (out) out += tight ? "\n" : "\n\n";
+    out += rendered;
+  }
+  return out;
+}
+
+/** Render a whole page: its title as a level-1 heading, then its content */
+export function renderPageMarkdown(page: NotionPage, blocks: BlockNode[]): string {
+  const title = `# ${escapeMarkdown(getPageTitle(page))}`;
+  const body = renderBlocks(blocks);
+  return body ? `${title}\n\n${body}\n` : `${title}\n`;
+}
@@ -0,0 +1,427 @@
+/**
+ * Schema-aware property values for `--set Name=value`.
+ *
+ * Instead of spelling out each property's type ("Status:select:Done"),
+ * --set Name=value looks the property up in the parent data source's
+ * schema and builds the value its type needs:
+ *
+ *   Status=Done            select/status, checked against the options
+ *   Tags=ui,infra          multi_select
+ *   Owner=ada@example.com  people, by name or email
+ *   Project=Website        relation, by the related page's title
+ *   Due=2025-07-01         date (start..end for a range)
+ *   Spec=<file-upload-id>  files, from `file upload` (or an external URL)
+ *
+ * Names, options, and users are matched case-insensitively; a near miss
+ * is reported with a "did you mean" suggestion before any write is made.
+ */
+
+import type {
+  DatabasePropertySchema,
+  FileUpload,
+  NotionClient,
+  NotionPage,
+  NotionUser,
+  PageParent,
+  PropertyValue,
+  RichTextItem,
+} from "./src/postman/notion-api/index.js";
+import { getPageTitle } from "./helpers.js";
+
+/** A --set value that doesn't fit the property's type or the schema */
+export class PropertyInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PropertyInputError";
+  }
+}
+
+export type PropertySchemas = Record<string, DatabasePropertySchema>;
+
+/** Property types Notion computes — they can't be set */
+const READ_ONLY_TYPES = new Set([
+  "formula", "rollup", "created_time", "created_by", "last_edited_time", "last_edited_by",
+  "unique_id", "verification", "button",
+]);
+
+const UUID = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+
+/** The schema of a page that isn't in a data source: just its title */
+const PAGE_SCHEMA: PropertySchemas = { title: { id: "title", name: "title", type: "title", title: {} } };
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+/** The API calls values may need, behind an interface so tests can fake them */
+export interface PropertyLookups {
+  /** Every user in the workspace, for people values */
+  users(): Promise<NotionUser[]>;
+  /** Pages in a data source whose title is exactly `title` */
+  pagesByTitle(dataSourceId: string, title: string): Promise<NotionPage[]>;
+  /** A file upload, to check it finished uploading */
+  fileUpload(id: string): Promise<FileUpload>;
+}
+
+/** Lookups against the API, each fetched at most once per run */
+export function notionLookups(notion: NotionClient): PropertyLookups {
+  let users: Promise<NotionUser[]> | undefined;
+  const titleProperties = new Map<string, Promise<string>>();
+
+  return {
+    users: () => {
+      if (!users) {
+        users = (async () => {
+          const all: NotionUser[] = [];
+          for await (const user of notion.paginate.users()) all.push(user);
+          return all;
+        })();
+      }
+      return users;
+    },
+    pagesByTitle: async (dataSourceId, title) => {
+      let property = titleProperties.get(dataSourceId);
+      if (!property) {
+        property = notion.dataSources.retrieve(dataSourceId).then((dataSource) => {
+          const titleSchema = Object.values(dataSource.properties).find((p) => p.type === "title");
+          return titleSchema?.name ?? "title";
+        });
+        titleProperties.set(dataSourceId, property);
+      }
+      const response = await notion.dataSources.query(dataSourceId, {
+        filter: { property: await property, title: { equals: title } },
+        page_size: 10,
+      });
+      return response.results;
+    },
+    fileUpload: (id) => notion.fileUploads.retrieve(id),
+  };
+}
+
+/**
+ * The property schema that governs a page's values: its data source's
+ * schema, or just the title for pages outside one.
+ */
+export async function fetchPropertySchema(notion: NotionClient, parent: PageParent): Promise<PropertySchemas> {
+  if (parent.type === "data_source_id" && parent.data_source_id) {
+    return (await notion.dataSources.retrieve(parent.data_source_id)).properties;
+  }
+  if (parent.type === "database_id" && parent.database_id) {
+    const database = await notion.databases.retrieve(parent.database_id);
+    const dataSourceId = database.data_sources?.[0]?.id;
+    return dataSourceId ? (await notion.dataSources.retrieve(dataSourceId)).properties : database.properties;
+  }
+  return PAGE_SCHEMA;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/** Edit distance between two strings, for "did you mean" suggestions */
+function distance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** The candidate closest to `input`, if it's close enough to be a likely typo */
+export function closestMatch(input: string, candidates: string[]): string | undefined {
+  const needle = input.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(needle.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const d = distance(needle, candidate.toLowerCase());
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+/** ' Did you mean "x"?' when there is a close candidate, else "" */
+function didYouMean(input: string, candidates: string[]): string {
+  const match = closestMatch(input, candidates);
+  return match ? ` Did you mean "${match}"?` : "";
+}
+
+/** Exact match first, then a unique case-insensitive one */
+function findByName<T>(items: T[], name: string, key: (item: T) => string): T | undefined {
+  const exact = items.find((item) => key(item) === name);
+  if (exact) return exact;
+  const folded = items.filter((item) => key(item).toLowerCase() === name.toLowerCase());
+  return folded.length === 1 ? folded[0] : undefined;
+}
+
+/** Find a property by name, suggesting the closest one when there's no match */
+export function findProperty(schema: PropertySchemas, name: string): DatabasePropertySchema {
+  const property = findByName(Object.values(schema), name, (p) => p.name);
+  if (property) return property;
+  const names = Object.values(schema).map((p) => p.name);
+  throw new PropertyInputError(`unknown property "${name}".${didYouMean(name, names)} Available: ${names.join(", ")}`);
+}
+
+// ============================================================================
+// Values
+// ============================================================================
+
+/** Comma-separated items, trimmed, without empties */
+function splitList(raw: string): string[] {
+  return raw.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+/** Notion's limit on the text of one rich text item */
+const TEXT_CHUNK_SIZE = 2000;
+
+/** Plain text as rich text items, split to fit the API's per-item limit */
+function textItems(raw: string): unknown[] {
+  const items: unknown[] = [];
+  for (let i = 0; i < raw.length; i += TEXT_CHUNK_SIZE) {
+    items.push({ type: "text", text: { content: raw.slice(i, i + TEXT_CHUNK_SIZE) } });
+  }
+  return items;
+}
+
+function matchOption(property: DatabasePropertySchema, raw: string, newOptions = false): { name: string } {
+  const config = property[property.type] as { options?: Array<{ name: string }> } | undefined;
+  const options = config?.options ?? [];
+  const option = findByName(options, raw, (o) => o.name);
+  if (option) return { name: option.name };
+  // Notion adds unknown select options itself; status options must already exist
+  if (newOptions && property.type !== "status") return { name: raw };
+  const names = options.map((o) => o.name);
+  throw new PropertyInputError(
+    `"${raw}" is not an option of ${property.type} property "${property.name}".${didYouMean(raw, names)}` +
+      (names.length > 0 ? ` Options: ${names.join(", ")}` : " It has no options yet."),
+  );
+}
+
+function parseDate(property: DatabasePropertySchema, raw: string): { start: string; end: string | null } {
+  const [start, end] = raw.split(/\s*(?:\.\.|→)\s*/);
+  for (const date of [start, end]) {
+    if (date !== undefined && !/^\d{4}-\d{2}-\d{2}/.test(date)) {
+      throw new PropertyInputError(
+        `date property "${property.name}" needs a date like 2025-01-31 (or start..end), got "${raw}"`,
+      );
+    }
+  }
+  return { start, end: end ?? null };
+}
+
+async function resolvePerson(property: DatabasePropertySchema, raw: string, lookups: PropertyLookups): Promise<string> {
+  if (UUID.test(raw)) return raw;
+  const users = await lookups.users();
+  const byEmail = users.find((u) => u.person?.email?.toLowerCase() === raw.toLowerCase());
+  const user = byEmail ?? findByName(users.filter((u) => u.name), raw, (u) => u.name!);
+  if (user) return user.id;
+  const names = users.flatMap((u) => (u.name ? [u.name] : []));
+  throw new PropertyInputError(`no user named "${raw}" for people property "${property.name}".${didYouMean(raw, names)}`);
+}
+
+async function resolveRelation(property: DatabasePropertySchema, raw: string, lookups: PropertyLookups): Promise<string> {
+  if (UUID.test(raw)) return raw;
+  const relation = property.relation as { data_source_id?: string } | undefined;
+  if (!relation?.data_source_id) {
+    throw new PropertyInputError(`relation property "${property.name}" doesn't name its data source — pass page IDs`);
+  }
+  const pages = await lookups.pagesByTitle(relation.data_source_id, raw);
+  if (pages.length === 1) return pages[0].id;
+  if (pages.length === 0) {
+    throw new PropertyInputError(`no page titled "${raw}" in the data source related by "${property.name}"`);
+  }
+  const ids = pages.map((page) => `${getPageTitle(page)} (${page.id})`).join(", ");
+  throw new PropertyInputError(`"${raw}" matches ${pages.length} pages for "${property.name}" — pass one ID: ${ids}`);
+}
+
+async function resolveFile(property: DatabasePropertySchema, raw: string, lookups: PropertyLookups): Promise<unknown> {
+  if (/^https?:\/\//i.test(raw)) {
+    const name = decodeURIComponent(new URL(raw).pathname.split("/").pop() || raw);
+    return { name, type: "external", external: { url: raw } };
+  }
+  if (!UUID.test(raw)) {
+    throw new PropertyInputError(`files property "${property.name}" needs a file upload ID or a URL, got "${raw}"`);
+  }
+  const upload = await lookups.fileUpload(raw);
+  if (upload.status !== "uploaded") {
+    throw new PropertyInputError(`file upload ${raw} is ${upload.status}, not uploaded`);
+  }
+  return { name: upload.filename ?? raw, type: "file_upload", file_upload: { id: raw } };
+}
+
+/** How strictly values are checked against the schema */
+export interface PropertyValueOptions {
+  /** Accept select and multi_select values that aren't options yet — Notion adds them */
+  newOptions?: boolean;
+}
+
+/**
+ * Build the API value for one property from the text after "=". An empty
+ * value clears the property.
+ */
+export async function propertyValue(
+  property: DatabasePropertySchema,
+  raw: string,
+  lookups: PropertyLookups,
+  options: PropertyValueOptions = {},
+): Promise<unknown> {
+  const value = raw.trim();
+  const type = property.type;
+  if (READ_ONLY_TYPES.has(type)) {
+    throw new PropertyInputError(`${type} property "${property.name}" is computed by Notion and can't be set`);
+  }
+
+  switch (type) {
+    case "title":
+    case "rich_text":
+      return { [type]: value ? textItems(raw) : [] };
+    case "number": {
+      if (!value) return { number: null };
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        throw new PropertyInputError(`number property "${property.name}" needs a number, got "${raw}"`);
+      }
+      return { number };
+    }
+    case "checkbox": {
+      const word = value.toLowerCase();
+      if (!["true", "false", "yes", "no"].includes(word)) {
+        throw new PropertyInputError(`checkbox property "${property.name}" needs true or false, got "${raw}"`);
+      }
+      return { checkbox: word === "true" || word === "yes" };
+    }
+    case "select":
+    case "status":
+      return { [type]: value ? matchOption(property, value, options.newOptions) : null };
+    case "multi_select":
+      return { multi_select: splitList(value).map((item) => matchOption(property, item, options.newOptions)) };
+    case "date":
+      return { date: value ? parseDate(property, value) : null };
+    case "url":
+    case "email":
+    case "phone_number":
+      return { [type]: value || null };
+    case "people": {
+      const ids = await Promise.all(splitList(value).map((item) => resolvePerson(property, item, lookups)));
+      return { people: ids.map((id) => ({ object: "user", id })) };
+    }
+    case "relation": {
+      const ids = await Promise.all(splitList(value).map((item) => resolveRelation(property, item, lookups)));
+      return { relation: ids.map((id) => ({ id })) };
+    }
+    case "files":
+      return { files: await Promise.all(splitList(value).map((item) => resolveFile(property, item, lookups))) };
+    default:
+      throw new PropertyInputError(`${type} property "${property.name}" can't be set with Name=value`);
+  }
+}
+
+/**
+ * Split a "Name=value" spec. The name ends at the first "=", so values
+ * may contain "=" and ":".
+ */
+export function parseAssignment(spec: string): { name: string; raw: string } {
+  const eq = spec.indexOf("=");
+  if (eq <= 0) {
+    throw new PropertyInputError(`invalid --set "${spec}". Expected "Name=value" or "Name:type:value".`);
+  }
+  return { name: spec.slice(0, eq).trim(), raw: spec.slice(eq + 1) };
+}
+
+/**
+ * Resolve "Name=value" specs against a schema into the `properties`
+ * object for a create or update request, keyed by property name.
+ *
+ * @throws PropertyInputError for the first spec that doesn't fit
+ */
+export async function resolveAssignments(
+  schema: PropertySchemas,
+  specs: string[],
+  lookups: PropertyLookups,
+): Promise<Record<string, unknown>> {
+  const properties: Record<string, unknown> = {};
+  for (const spec of specs) {
+    const { name, raw } = parseAssignment(spec);
+    const property = findProperty(schema, name);
+    properties[property.name] = await propertyValue(property, raw, lookups);
+  }
+  return properties;
+}
+
+// ============================================================================
+// Round trips
+// ============================================================================
+
+/**
+ * The input that sets a property back to a value read from a page, for
+ * undoing an update. Returns undefined for types Notion computes.
+ * Notion-hosted files are left out — see unrestorableReason.
+ */
+export function writableValue(prop: PropertyValue): unknown {
+  switch (prop.type) {
+    case "title":
+    case "rich_text": {
+      const items = (prop.type === "title" ? prop.title : prop.rich_text) as RichTextItem[];
+      return { [prop.type]: items.map(({ plain_text: _text, href: _href, ...item }) => item) };
+    }
+    case "select":
+      return { select: prop.select && { name: prop.select.name } };
+    case "status":
+      return { status: prop.status && { name: prop.status.name } };
+    case "multi_select":
+      return { multi_select: prop.multi_select.map(({ name }) => ({ name })) };
+    case "date":
+      return { date: prop.date };
+    case "people":
+      return { people: prop.people.map(({ id }) => ({ object: "user", id })) };
+    case "relation":
+      return { relation: prop.relation.map(({ id }) => ({ id })) };
+    case "files":
+      return { files: prop.files.filter((file) => file.type !== "file") };
+    case "number":
+      return { number: prop.number };
+    case "checkbox":
+      return { checkbox: prop.checkbox };
+    case "url":
+      return { url: prop.url };
+    case "email":
+      return { email: prop.email };
+    case "phone_number":
+      return { phone_number: prop.phone_number };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Why writableValue can't fully restore a value read from a page, or
+ * undefined when it can. Notion-hosted files come back with signed URLs
+ * that expire, and updates reject them, so they can't be attached again.
+ */
+export function unrestorableReason(prop: PropertyValue): string | undefined {
+  if (prop.type !== "files") return undefined;
+  const hosted = prop.files.filter((file) => file.type === "file").length;
+  return hosted > 0 ? `${hosted} Notion-hosted file${hosted === 1 ? "" : "s"} can't be attached again` : undefined;
+}
+
+/**
+ * The value a page reads back after an update with `input` (as built by
+ * propertyValue), so it can be shown with formatPropertyValue. People are
+ * named from `users` when they're known.
+ */
+export function readBackValue(property: DatabasePropertySchema, input: unknown, users: NotionUser[] = []): PropertyValue {
+  let value = (input as Record<string, unknown>)[property.type];
+  if (property.type === "title" || property.type === "rich_text") {
+    value = (value as Array<{ text: { content: string } }>).map((item) => ({ ...item, plain_text: item.text.content }));
+  }
+  if (property.type === "people") {
+    value = (value as Array<{ id: string }>).map((user) => ({ ...user, name: users.find((u) => u.id === user.id)?.name }));
+  }
+  return { id: property.id, type: property.type, [property.type]: value } as PropertyValue;
+}
@@ -0,0 +1,337 @@
+/**
+ * Property schema edits for `datasource update`.
+ *
+ * New properties are written as "Name:type", with settings after a
+ * second colon for the types that take them:
+ *
+ *   Genre:select:Rock,Pop        select / multi_select with options
+ *   Price:number:dollar          number with a format
+ *   Total:formula:prop("Price") * 2
+ *   Project:relation:<data-source-id>        one-way relation
+ *   Project:relation:<data-source-id>:dual   relation shown on both sides
+ *   Cost:rollup:Project:Budget:sum           relation, property, function
+ *   ID:unique_id:TASK            auto-numbered TASK-1, TASK-2, …
+ *
+ * Renames, type changes, and option edits are checked against the
+ * current schema, so a typo is reported before anything is sent.
+ * Schema files (schema-sync.ts) name the same settings as fields and
+ * build the schema objects with propertyConfig.
+ */
+
+import type { DatabasePropertySchema } from "./src/postman/notion-api/index.js";
+import { closestMatch, type PropertySchemas } from "./property-input.js";
+
+/** A property spec or schema edit that can't be applied */
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaError";
+  }
+}
+
+/** Property types that can be added or changed to */
+export const PROPERTY_TYPES = [
+  "rich_text", "number", "select", "multi_select", "date",
+  "checkbox", "url", "email", "phone_number", "status",
+  "people", "files", "created_time", "created_by",
+  "last_edited_time", "last_edited_by",
+  "formula", "relation", "rollup", "unique_id",
+];
+
+export const OPTION_COLORS = [
+  "default", "gray", "brown", "orange", "yellow", "green", "blue", "purple", "pink", "red",
+];
+
+export const NUMBER_FORMATS = [
+  "number", "number_with_commas", "percent", "dollar", "australian_dollar", "canadian_dollar",
+  "singapore_dollar", "euro", "pound", "yen", "ruble", "rupee", "won", "yuan", "real", "lira",
+  "rupiah", "franc", "hong_kong_dollar", "new_zealand_dollar", "krona", "norwegian_krone",
+  "mexican_peso", "rand", "new_taiwan_dollar", "danish_krone", "zloty", "baht", "forint",
+  "koruna", "shekel", "chilean_peso", "philippine_peso", "dirham", "colombian_peso", "riyal",
+  "ringgit", "leu", "argentine_peso", "uruguayan_peso", "peruvian_sol",
+];
+
+export const ROLLUP_FUNCTIONS = [
+  "show_original", "show_unique", "count", "count_values", "unique", "empty", "not_empty",
+  "percent_empty", "percent_not_empty", "sum", "average", "median", "min", "max", "range",
+  "earliest_date", "latest_date", "date_range", "checked", "unchecked", "percent_checked",
+  "percent_unchecked", "count_per_group", "percent_per_group",
+];
+
+/** Property types whose options --add-option and --remove-option edit */
+const OPTION_TYPES = ["select", "multi_select"];
+
+/** `value` when it's one of `allowed`, else an error naming the choices */
+function oneOf(value: string, allowed: string[], what: string, where: string): string {
+  const folded = value.toLowerCase();
+  if (allowed.includes(folded)) return folded;
+  const suggestion = closestMatch(value, allowed);
+  throw new SchemaError(
+    `unknown ${what} "${value}" in ${where}.${suggestion ? ` Did you mean "${suggestion}"?` : ""} Valid: ${allowed.join(", ")}`,
+  );
+}
+
+export interface SelectOption {
+  id?: string;
+  name: string;
+  color?: string;
+}
+
+/** The settings of a property beyond its type, named as in schema files */
+export interface PropertySettings {
+  /** select, multi_select, status */
+  options?: SelectOption[];
+  /** number */
+  format?: string;
+  /** formula */
+  expression?: string;
+  /** relation: the related data source, and whether it shows on both sides */
+  data_source_id?: string;
+  dual?: boolean;
+  /** rollup: the relation, the related property, and how it's aggregated */
+  relation?: string;
+  property?: string;
+  function?: string;
+  /** unique_id */
+  prefix?: string | null;
+}
+
+/** The settings each type takes; other types take none */
+export const TYPE_SETTINGS: Record<string, Array<keyof PropertySettings>> = {
+  select: ["options"],
+  multi_select: ["options"],
+  status: ["options"],
+  number: ["format"],
+  formula: ["expression"],
+  relation: ["data_source_id", "dual"],
+  rollup: ["relation", "property", "function"],
+  unique_id: ["prefix"],
+};
+
+/**
+ * The schema object Notion expects for a property type and its settings.
+ * `where` names the property in error messages.
+ */
+export function propertyConfig(type: string, settings: PropertySettings, where: string): Record<string, unknown> {
+  const missing = (what: string) => new SchemaError(`${where} needs ${what}.`);
+  switch (type) {
+    case "select":
+    case "multi_select": {
+      // Existing options keep their id, so Notion doesn't replace them
+      const options = (settings.options ?? []).map(({ id, name, color }) => ({
+        ...(id && { id }),
+        name,
+        ...(color && { color: oneOf(color, OPTION_COLORS, "color", where) }),
+      }));
+      return { [type]: options.length > 0 ? { options } : {} };
+    }
+    case "number":
+      return { number: settings.format ? { format: oneOf(settings.format, NUMBER_FORMATS, "number format", where) } : {} };
+    case "formula":
+      if (!settings.expression) throw missing("an expression");
+      return { formula: { expression: settings.expression } };
+    case "relation": {
+      if (!settings.data_source_id) throw missing("the data source ID to relate to");
+      const relationType = settings.dual ? "dual_property" : "single_property";
+      return { relation: { data_source_id: settings.data_source_id, type: relationType, [relationType]: {} } };
+    }
+    case "rollup":
+      if (!settings.relation || !settings.property || !settings.function) {
+        throw missing("a relation, a property, and a function");
+      }
+      return {
+        rollup: {
+          relation_property_name: settings.relation,
+          rollup_property_name: settings.property,
+          function: oneOf(settings.function, ROLLUP_FUNCTIONS, "rollup function", where),
+        },
+      };
+    case "unique_id":
+      return { unique_id: { prefix: settings.prefix || null } };
+    default:
+      // Status options can't be set through the API; Notion creates the default ones
+      return { [type]: {} };
+  }
+}
+
+/** The settings written after a spec's second colon */
+function specSettings(type: string, settings: string, spec: string): PropertySettings {
+  const parts = settings ? settings.split(":").map((part) => part.trim()) : [];
+  switch (type) {
+    case "select":
+    case "multi_select":
+      return { options: settings.split(",").map((o) => o.trim()).filter(Boolean).map((name) => ({ name })) };
+    case "number":
+      return { format: settings };
+    case "formula":
+      if (!settings.trim()) {
+        throw new SchemaError(`formula "${spec}" needs an expression, e.g. "Total:formula:prop(\"Price\") * 2".`);
+      }
+      return { expression: settings.trim() };
+    case "relation": {
+      const [dataSourceId, kind = "single"] = parts;
+      if (!dataSourceId || parts.length > 2) {
+        throw new SchemaError(`relation "${spec}" needs a data source ID, e.g. "Project:relation:<data-source-id>[:dual]".`);
+      }
+      return { data_source_id: dataSourceId, dual: oneOf(kind, ["single", "dual"], "relation kind", `"${spec}"`) === "dual" };
+    }
+    case "rollup": {
+      if (parts.length !== 3 || parts.some((part) => !part)) {
+        throw new SchemaError(
+          `rollup "${spec}" needs a relation, a property, and a function, e.g. "Cost:rollup:Project:Budget:sum".`,
+        );
+      }
+      const [relation, property, fn] = parts;
+      return { relation, property, function: fn };
+    }
+    case "unique_id":
+      return { prefix: settings.trim() || null };
+    default:
+      if (settings) throw new SchemaError(`${type} properties take no settings, got "${spec}".`);
+      return {};
+  }
+}
+
+/**
+ * Parse a "Name:type[:settings]" spec into a property name and the
+ * schema object Notion expects for it.
+ *
+ * @param types - The types allowed; a new data source may also name its title property
+ */
+export function parsePropertySpec(
+  spec: string,
+  types: string[] = PROPERTY_TYPES,
+): { name: string; schema: Record<string, unknown> } {
+  const [rawName, rawType, ...rest] = spec.split(":");
+  if (rawType === undefined) {
+    throw new SchemaError(`invalid property format "${spec}". Expected "Name:type" (e.g. "Artist:rich_text").`);
+  }
+
+  const name = rawName.trim();
+  if (!name) throw new SchemaError(`property name cannot be empty in "${spec}".`);
+
+  const type = oneOf(rawType.trim(), types, "property type", `"${spec}"`);
+  return { name, schema: propertyConfig(type, specSettings(type, rest.join(":"), spec), `"${spec}"`) };
+}
+
+// ============================================================================
+// Edits to existing properties
+// ============================================================================
+
+/** The flags that change existing properties */
+export interface SchemaEdits {
+  /** "Old=New" */
+  rename?: string[];
+  /** "Name:type[:settings]" */
+  retype?: string[];
+  /** "Name:Option[:color]" */
+  addOption?: string[];
+  /** "Name:Option" */
+  removeOption?: string[];
+}
+
+/** Find a property by name, suggesting the closest one when there's no match */
+function existingProperty(schema: PropertySchemas, name: string): DatabasePropertySchema {
+  const properties = Object.values(schema);
+  const exact = properties.find((p) => p.name === name);
+  if (exact) return exact;
+  const folded = properties.filter((p) => p.name.toLowerCase() === name.toLowerCase());
+  if (folded.length === 1) return folded[0];
+  const names = properties.map((p) => p.name);
+  const suggestion = closestMatch(name, names);
+  throw new SchemaError(
+    `unknown property "${name}".${suggestion ? ` Did you mean "${suggestion}"?` : ""} Available: ${names.join(", ")}`,
+  );
+}
+
+/** Split "Name:Option[:color]", allowing colons inside the option name */
+function parseOptionSpec(spec: string, withColor: boolean): { property: string; option: string; color?: string } {
+  const parts = spec.split(":");
+  let color: string | undefined;
+  if (withColor && parts.length >= 3 && OPTION_COLORS.includes(parts[parts.length - 1].trim().toLowerCase())) {
+    color = parts.pop()!.trim().toLowerCase();
+  }
+  const [property, ...option] = parts;
+  if (!property?.trim() || !option.join(":").trim()) {
+    const format = withColor ? `"Name:Option" or "Name:Option:color"` : `"Name:Option"`;
+    throw new SchemaError(`invalid option format "${spec}". Expected ${format}.`);
+  }
+  return { property: property.trim(), option: option.join(":").trim(), color };
+}
+
+/**
+ * The `properties` of a data source update that applies renames, type
+ * changes, and option edits to `schema`. Properties are keyed by their
+ * current name, and each gets one object combining all of its edits.
+ */
+export function schemaChanges(schema: PropertySchemas, edits: SchemaEdits): Record<string, Record<string, unknown>> {
+  const changes: Record<string, Record<string, unknown>> = {};
+  const change = (name: string) => (changes[name] ??= {});
+
+  for (const spec of edits.rename ?? []) {
+    const separator = spec.indexOf("=");
+    const newName = spec.slice(separator + 1).trim();
+    if (separator < 1 || !newName) {
+      throw new SchemaError(`invalid rename "${spec}". Expected "Old=New".`);
+    }
+    const property = existingProperty(schema, spec.slice(0, separator).trim());
+    const taken = Object.values(schema).find((p) => p.name === newName && p !== property);
+    if (taken) throw new SchemaError(`can't rename "${property.name}" to "${newName}": a property with that name exists.`);
+    change(property.name).name = newName;
+  }
+
+  for (const spec of edits.retype ?? []) {
+    const { name, schema: typeChange } = parsePropertySpec(spec);
+    const property = existingProperty(schema, name);
+    if (property.type === "title") throw new SchemaError(`the title property "${property.name}" can't change type.`);
+    Object.assign(change(property.name), typeChange);
+  }
+
+  // Notion replaces the whole option list, so edits start from the current options
+  const options = new Map<string, SelectOption[]>();
+  const optionsOf = (spec: string, name: string) => {
+    const property = existingProperty(schema, name);
+    if (property.type === "status") {
+      throw new SchemaError(`Notion's API can't change the options of status property "${property.name}" — edit them in Notion.`);
+    }
+    if (!OPTION_TYPES.includes(property.type)) {
+      throw new SchemaError(`"${property.name}" is a ${property.type} property; options belong to select and multi_select properties.`);
+    }
+    if (changes[property.name] && Object.keys(changes[property.name]).some((key) => key !== "name")) {
+      throw new SchemaError(`can't change the type and the options of "${property.name}" in one update (from "${spec}").`);
+    }
+    if (!options.has(property.name)) {
+      const config = property[property.type] as { options?: SelectOption[] } | undefined;
+      options.set(property.name, (config?.options ?? []).map(({ id, name, color }) => ({ id, name, color })));
+    }
+    return { property, list: options.get(property.name)! };
+  };
+
+  for (const spec of edits.addOption ?? []) {
+    const { property: name, option, color } = parseOptionSpec(spec, true);
+    const { property, list } = optionsOf(spec, name);
+    if (list.some((o) => o.name.toLowerCase() === option.toLowerCase())) {
+      throw new SchemaError(`"${property.name}" already has an option "${option}".`);
+    }
+    list.push(color ? { name: option, color } : { name: option });
+  }
+
+  for (const spec of edits.removeOption ?? []) {
+    const { property: name, option } = parseOptionSpec(spec, false);
+    const { property, list } = optionsOf(spec, name);
+    const index = list.findIndex((o) => o.name.toLowerCase() === option.toLowerCase());
+    if (index === -1) {
+      const names = list.map((o) => o.name);
+      const suggestion = closestMatch(option, names);
+      throw new SchemaError(
+        `"${option}" is not an option of "${property.name}".${suggestion ? ` Did you mean "${suggestion}"?` : ""} Options: ${names.join(", ") || "(none)"}`,
+      );
+    }
+    list.splice(index, 1);
+  }
+
+  for (const [name, list] of options) {
+    change(name)[existingProperty(schema, name).type] = { options: list };
+  }
+  return changes;
+}
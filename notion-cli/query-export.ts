@@ -0,0 +1,235 @@
+/**
+ * Flat exports of data source entries for `datasource query --format`.
+ *
+ * Each entry becomes one record with a plain value per column, so the
+ * output loads straight into a spreadsheet or a jq pipeline:
+ *
+ *   title, rich_text       plain text
+ *   number, checkbox       number, true / false
+ *   select, status         option name
+ *   multi_select           option names ("ui, infra" in CSV)
+ *   date                   ISO 8601; a range is "start/end"
+ *   people, created_by     email, falling back to the name, then the ID
+ *   relation               page IDs, or titles with --resolve-relations
+ *   files                  URLs
+ *   formula, rollup        the computed value
+ *
+ * JSON and NDJSON keep numbers, booleans, lists, and null; CSV, TSV, and
+ * the table join lists with ", " and leave empty values blank.
+ */
+
+import {
+  NotionApiError,
+  type DateValue,
+  type NotionClient,
+  type NotionPage,
+  type PartialUser,
+  type PropertyValue,
+  type RollupArrayItem,
+} from "./src/postman/notion-api/index.js";
+import { getPageTitle, plainText } from "./helpers.js";
+import { closestMatch, type PropertySchemas } from "./property-input.js";
+
+/** A --columns value that names no property or page field */
+export class ColumnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ColumnError";
+  }
+}
+
+export const EXPORT_FORMATS = ["csv", "tsv", "json", "ndjson", "table"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** One exported value */
+export type CellValue = string | number | boolean | null | CellValue[];
+
+/** Page fields that can be exported alongside the properties */
+export const PAGE_COLUMNS = ["id", "url", "created_time", "last_edited_time"] as const;
+
+// ============================================================================
+// Values
+// ============================================================================
+
+function dateValue(date: DateValue | null): string | null {
+  if (!date) return null;
+  return date.end ? `${date.start}/${date.end}` : date.start;
+}
+
+function userValue(user: PartialUser): string {
+  return user.person?.email || user.name || user.id;
+}
+
+/** Empty lists become null, so they read as blank in every format */
+function list(values: CellValue[]): CellValue {
+  return values.length > 0 ? values : null;
+}
+
+/**
+ * The exported value of a property.
+ *
+ * @param relationTitles - Related page titles by ID; relations without one export their ID
+ */
+export function serializeValue(prop: PropertyValue | RollupArrayItem, relationTitles?: Map<string, string>): CellValue {
+  switch (prop.type) {
+    case "title":
+      return plainText(prop.title) || null;
+    case "rich_text":
+      return plainText(prop.rich_text) || null;
+    case "number":
+      return prop.number;
+    case "checkbox":
+      return prop.checkbox;
+    case "select":
+      return prop.select?.name ?? null;
+    case "status":
+      return prop.status?.name ?? null;
+    case "multi_select":
+      return list(prop.multi_select.map((option) => option.name));
+    case "date":
+      return dateValue(prop.date);
+    case "url":
+      return prop.url;
+    case "email":
+      return prop.email;
+    case "phone_number":
+      return prop.phone_number;
+    case "people":
+      return list(prop.people.map(userValue));
+    case "created_by":
+      return userValue(prop.created_by);
+    case "last_edited_by":
+      return userValue(prop.last_edited_by);
+    case "created_time":
+      return prop.created_time;
+    case "last_edited_time":
+      return prop.last_edited_time;
+    case "relation":
+      return list(prop.relation.map(({ id }) => relationTitles?.get(id) ?? id));
+    case "files":
+      return list(prop.files.map((file) => (file.type === "external" ? file.external.url : file.file.url)));
+    case "unique_id": {
+      const { prefix, number } = prop.unique_id;
+      if (number === null) return null;
+      return prefix ? `${prefix}-${number}` : number;
+    }
+    case "formula": {
+      const formula = prop.formula;
+      if (formula.type === "date") return dateValue(formula.date);
+      return formula.type === "string" ? formula.string : formula.type === "number" ? formula.number : formula.boolean;
+    }
+    case "rollup": {
+      const rollup = prop.rollup;
+      if (rollup.type === "number") return rollup.number;
+      if (rollup.type === "date") return dateValue(rollup.date);
+      if (rollup.type === "array") return list(rollup.array.map((item) => serializeValue(item, relationTitles)));
+      return null;
+    }
+    case "verification":
+      return prop.verification?.state ?? null;
+    case "button":
+      return null;
+    default:
+      // Property types newer than these typings
+      return null;
+  }
+}
+
+/** A value as one CSV or table cell */
+export function cellText(value: CellValue): string {
+  if (value === null) return "";
+  if (Array.isArray(value)) return value.map(cellText).filter(Boolean).join(", ");
+  return String(value);
+}
+
+// ============================================================================
+// Columns
+// ============================================================================
+
+/**
+ * The columns to export. Without a --columns list: the title, then the
+ * other properties in schema order. A list is comma-separated and may
+ * also name id, url, created_time, and last_edited_time — a property of
+ * the same name wins.
+ */
+export function resolveColumns(schema: PropertySchemas, spec?: string): string[] {
+  const properties = Object.values(schema);
+  if (!spec) {
+    return [...properties.filter((p) => p.type === "title"), ...properties.filter((p) => p.type !== "title")]
+      .map((p) => p.name);
+  }
+
+  const names = properties.map((p) => p.name);
+  return spec.split(",").map((item) => item.trim()).filter(Boolean).map((name) => {
+    if (schema[name]) return name;
+    const folded = names.filter((n) => n.toLowerCase() === name.toLowerCase());
+    if (folded.length === 1) return folded[0];
+    if ((PAGE_COLUMNS as readonly string[]).includes(name)) return name;
+    const candidates = [...names, ...PAGE_COLUMNS];
+    const suggestion = closestMatch(name, candidates);
+    throw new ColumnError(
+      `unknown column "${name}".${suggestion ? ` Did you mean "${suggestion}"?` : ""} Available: ${candidates.join(", ")}`,
+    );
+  });
+}
+
+/** One entry as a record of column → value */
+export function entryRecord(page: NotionPage, columns: string[], relationTitles?: Map<string, string>): Record<string, CellValue> {
+  const record: Record<string, CellValue> = {};
+  for (const column of columns) {
+    const prop = page.properties[column];
+    if (prop) {
+      record[column] = serializeValue(prop, relationTitles);
+    } else if ((PAGE_COLUMNS as readonly string[]).includes(column)) {
+      record[column] = page[column as (typeof PAGE_COLUMNS)[number]];
+    } else {
+      record[column] = null;
+    }
+  }
+  return record;
+}
+
+/**
+ * Fetch the titles of the pages that the exported relation columns point
+ * to, adding them to `titles`. Pages the integration can't read keep
+ * their ID.
+ */
+export async function fetchRelationTitles(
+  notion: NotionClient,
+  pages: NotionPage[],
+  columns: string[],
+  titles: Map<string, string>,
+): Promise<void> {
+  const ids = new Set<string>();
+  for (const page of pages) {
+    for (const column of columns) {
+      const prop = page.properties[column];
+      if (prop?.type === "relation") prop.relation.forEach(({ id }) => titles.has(id) || ids.add(id));
+    }
+  }
+  await Promise.all(
+    [...ids].map(async (id) => {
+      try {
+        titles.set(id, getPageTitle(await notion.pages.retrieve(id)));
+      } catch (error) {
+        if (!(error instanceof NotionApiError)) throw error;
+      }
+    }),
+  );
+}
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+/** Quote a cell when it holds the delimiter, a quote, a line break, or edge spaces */
+function csvCell(text: string, delimiter: string): string {
+  const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One CSV or TSV line, without the line break */
+export function csvLine(cells: string[], delimiter: string): string {
+  return cells.map((cell) => csvCell(cell, delimiter)).join(delimiter);
+}
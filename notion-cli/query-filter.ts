@@ -0,0 +1,418 @@
+/**
+ * Filter and sort compilation for `datasource query`.
+ *
+ * --where takes a small expression language and compiles it, against the
+ * data source schema, into Notion's filter JSON:
+ *
+ *   Status = "Done" and Priority >= 2 and Tags contains "infra"
+ *   (Owner is empty or Due < 2025-07-01) and [In Review] = false
+ *   last_edited_time < 90 days ago
+ *
+ * Each comparison is checked against its property's type, so a typo in a
+ * property name or an operator the type doesn't support is reported before
+ * any request is made. --sort specs ("Due:desc") are resolved the same way.
+ */
+
+import type { DatabasePropertySchema, QueryFilter, QuerySort } from "./src/postman/notion-api/index.js";
+
+/** A --where or --sort value that doesn't fit the schema or the grammar */
+export class FilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FilterError";
+  }
+}
+
+export type PropertySchemas = Record<string, DatabasePropertySchema>;
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+interface Token {
+  kind: "string" | "number" | "word" | "op" | "name" | "(" | ")";
+  value: string;
+  /** 1-based column, for error messages */
+  column: number;
+}
+
+const COMPARISON_SYMBOLS = [">=", "<=", "!=", "==", "=", ">", "<"];
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const c = input[i];
+    const column = i + 1;
+
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === "(" || c === ")") {
+      tokens.push({ kind: c, value: c, column });
+      i++;
+    } else if (c === '"' || c === "'") {
+      // Quoted string with backslash escapes
+      let value = "";
+      i++;
+      while (i < input.length && input[i] !== c) {
+        if (input[i] === "\\" && i + 1 < input.length) i++;
+        value += input[i++];
+      }
+      if (i >= input.length) throw new FilterError(`unterminated string starting at column ${column}`);
+      i++;
+      tokens.push({ kind: "string", value, column });
+    } else if (c === "[") {
+      // [Property Name] — for names with spaces or symbols
+      const end = input.indexOf("]", i);
+      if (end === -1) throw new FilterError(`unterminated [property name] starting at column ${column}`);
+      tokens.push({ kind: "name", value: input.slice(i + 1, end), column });
+      i = end + 1;
+    } else {
+      const symbol = COMPARISON_SYMBOLS.find((s) => input.startsWith(s, i));
+      if (symbol) {
+        tokens.push({ kind: "op", value: symbol === "==" ? "=" : symbol, column });
+        i += symbol.length;
+        continue;
+      }
+      const rest = input.slice(i);
+      // Unquoted ISO dates are strings, not arithmetic
+      const date = rest.match(/^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?(?![\w-])/);
+      const number = rest.match(/^-?\d+(\.\d+)?(?![\w.-])/);
+      const word = rest.match(/^[^\s()"'[\]=!<>]+/);
+      if (date) tokens.push({ kind: "string", value: date[0], column });
+      else if (number) tokens.push({ kind: "number", value: number[0], column });
+      else if (word) tokens.push({ kind: "word", value: word[0], column });
+      else throw new FilterError(`unexpected "${c}" at column ${column}`);
+      i += (date ?? number ?? word)![0].length;
+    }
+  }
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+type Operator =
+  | "=" | "!=" | ">" | ">=" | "<" | "<="
+  | "contains" | "not contains" | "starts with" | "ends with" | "is empty" | "is not empty";
+
+type Expression =
+  | { kind: "and" | "or"; items: Expression[] }
+  | { kind: "comparison"; property: Token; operator: Operator; value?: Token };
+
+/** Multi-word operators, longest first so "is not empty" wins over "is empty" */
+const WORD_OPERATORS: Array<[string[], Operator]> = [
+  [["is", "not", "empty"], "is not empty"],
+  [["is", "empty"], "is empty"],
+  [["not", "contains"], "not contains"],
+  [["does", "not", "contain"], "not contains"],
+  [["contains"], "contains"],
+  [["starts", "with"], "starts with"],
+  [["ends", "with"], "ends with"],
+];
+
+const KEYWORDS = new Set(["and", "or"]);
+
+const RELATIVE_UNIT = /^(day|week|month|year)s?$/i;
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+  parse(): Expression {
+    if (this.tokens.length === 0) throw new FilterError("--where expression is empty");
+    const expression = this.parseOr();
+    const extra = this.peek();
+    if (extra) throw new FilterError(`expected "and" or "or" before "${extra.value}" at column ${extra.column}`);
+    return expression;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private isWord(token: Token | undefined, word: string): boolean {
+    return token?.kind === "word" && token.value.toLowerCase() === word;
+  }
+
+  private parseOr(): Expression {
+    return this.parseJoined("or", () => this.parseAnd());
+  }
+
+  private parseAnd(): Expression {
+    return this.parseJoined("and", () => this.parseTerm());
+  }
+
+  /** One or more operands joined by a keyword; nested joins of the same kind are flattened */
+  private parseJoined(kind: "and" | "or", operand: () => Expression): Expression {
+    const items = [operand()];
+    while (this.isWord(this.peek(), kind)) {
+      this.pos++;
+      items.push(operand());
+    }
+    if (items.length === 1) return items[0];
+    return { kind, items: items.flatMap((item) => (item.kind === kind ? item.items : [item])) };
+  }
+
+  private parseTerm(): Expression {
+    const token = this.peek();
+    if (!token) throw new FilterError(`expected a property name at the end of "${this.source.trim()}"`);
+
+    if (token.kind === "(") {
+      this.pos++;
+      const inner = this.parseOr();
+      const close = this.peek();
+      if (close?.kind !== ")") {
+        throw new FilterError(`missing ")" for "(" at column ${token.column}`);
+      }
+      this.pos++;
+      return inner;
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    const property = this.peek()!;
+    const isName = property.kind === "name" || property.kind === "string" ||
+      (property.kind === "word" && !KEYWORDS.has(property.value.toLowerCase()));
+    if (!isName) {
+      throw new FilterError(`expected a property name at column ${property.column}, got "${property.value}"`);
+    }
+    this.pos++;
+
+    const operator = this.parseOperator(property);
+    if (operator === "is empty" || operator === "is not empty") {
+      return { kind: "comparison", property, operator };
+    }
+
+    const value = this.peek();
+    if (!value || value.kind === "(" || value.kind === ")" || value.kind === "op") {
+      throw new FilterError(`expected a value after "${property.value} ${operator}"`);
+    }
+    this.pos++;
+    return { kind: "comparison", property, operator, value: this.parseRelativeDate(value) };
+  }
+
+  /** "90 days ago" and "2 weeks from now" are one value */
+  private parseRelativeDate(value: Token): Token {
+    const unit = this.peek();
+    if (value.kind !== "number" || unit?.kind !== "word" || !RELATIVE_UNIT.test(unit.value)) return value;
+    const direction = this.isWord(this.peek(1), "ago") ? ["ago"]
+      : this.isWord(this.peek(1), "from") && this.isWord(this.peek(2), "now") ? ["from", "now"]
+      : [];
+    if (direction.length === 0) return value;
+    this.pos += 1 + direction.length;
+    return { kind: "word", value: [value.value, unit.value.toLowerCase(), ...direction].join(" "), column: value.column };
+  }
+
+  private parseOperator(property: Token): Operator {
+    const token = this.peek();
+    if (token?.kind === "op") {
+      this.pos++;
+      return token.value as Operator;
+    }
+    for (const [words, operator] of WORD_OPERATORS) {
+      if (words.every((word, i) => this.isWord(this.peek(i), word))) {
+        this.pos += words.length;
+        return operator;
+      }
+    }
+    const found = token ? `"${token.value}"` : "the end of the expression";
+    throw new FilterError(
+      `expected an operator after "${property.value}", got ${found}. ` +
+        `Operators: =, !=, >, >=, <, <=, contains, not contains, starts with, ends with, is empty, is not empty`,
+    );
+  }
+}
+
+// ============================================================================
+// Compiler
+// ============================================================================
+
+/** How a property type is filtered: the condition key, operator → Notion condition, and value type */
+interface TypeRule {
+  key: string;
+  operators: Partial<Record<Operator, string>>;
+  value: "string" | "number" | "boolean" | "date" | "none";
+  /** created_time / last_edited_time use a timestamp filter instead of a property filter */
+  timestamp?: boolean;
+}
+
+const EMPTY_OPERATORS = { "is empty": "is_empty", "is not empty": "is_not_empty" } as const;
+const TEXT_OPERATORS = {
+  "=": "equals", "!=": "does_not_equal", contains: "contains", "not contains": "does_not_contain",
+  "starts with": "starts_with", "ends with": "ends_with", ...EMPTY_OPERATORS,
+};
+const NUMBER_OPERATORS = {
+  "=": "equals", "!=": "does_not_equal", ">": "greater_than", ">=": "greater_than_or_equal_to",
+  "<": "less_than", "<=": "less_than_or_equal_to",
+};
+const DATE_OPERATORS = {
+  "=": "equals", "<": "before", ">": "after", "<=": "on_or_before", ">=": "on_or_after", ...EMPTY_OPERATORS,
+};
+const MEMBER_OPERATORS = { contains: "contains", "not contains": "does_not_contain", ...EMPTY_OPERATORS };
+
+const TYPE_RULES: Record<string, TypeRule> = {
+  title: { key: "title", operators: TEXT_OPERATORS, value: "string" },
+  rich_text: { key: "rich_text", operators: TEXT_OPERATORS, value: "string" },
+  url: { key: "url", operators: TEXT_OPERATORS, value: "string" },
+  email: { key: "email", operators: TEXT_OPERATORS, value: "string" },
+  phone_number: { key: "phone_number", operators: TEXT_OPERATORS, value: "string" },
+  number: { key: "number", operators: { ...NUMBER_OPERATORS, ...EMPTY_OPERATORS }, value: "number" },
+  unique_id: { key: "unique_id", operators: NUMBER_OPERATORS, value: "number" },
+  checkbox: { key: "checkbox", operators: { "=": "equals", "!=": "does_not_equal" }, value: "boolean" },
+  select: { key: "select", operators: { "=": "equals", "!=": "does_not_equal", ...EMPTY_OPERATORS }, value: "string" },
+  status: { key: "status", operators: { "=": "equals", "!=": "does_not_equal", ...EMPTY_OPERATORS }, value: "string" },
+  multi_select: { key: "multi_select", operators: MEMBER_OPERATORS, value: "string" },
+  date: { key: "date", operators: DATE_OPERATORS, value: "date" },
+  created_time: { key: "created_time", operators: DATE_OPERATORS, value: "date", timestamp: true },
+  last_edited_time: { key: "last_edited_time", operators: DATE_OPERATORS, value: "date", timestamp: true },
+  people: { key: "people", operators: MEMBER_OPERATORS, value: "string" },
+  created_by: { key: "people", operators: MEMBER_OPERATORS, value: "string" },
+  last_edited_by: { key: "people", operators: MEMBER_OPERATORS, value: "string" },
+  relation: { key: "relation", operators: MEMBER_OPERATORS, value: "string" },
+  files: { key: "files", operators: EMPTY_OPERATORS, value: "none" },
+};
+
+/**
+ * Find a property by name: exact match first, then a unique
+ * case-insensitive match. Throws with the list of names when nothing fits.
+ */
+export function resolveProperty(schema: PropertySchemas, name: string): DatabasePropertySchema {
+  if (schema[name]) return schema[name];
+  const matches = Object.keys(schema).filter((key) => key.toLowerCase() === name.toLowerCase());
+  if (matches.length === 1) return schema[matches[0]];
+  const available = Object.keys(schema).map((key) => (/[\s()[\]"']/.test(key) ? `[${key}]` : key));
+  throw new FilterError(`unknown property "${name}". Available: ${available.join(", ")}`);
+}
+
+const RELATIVE_DATES = new Set(["today", "tomorrow", "yesterday"]);
+
+/**
+ * Resolve "today", "yesterday", "tomorrow", or "<n> <unit>s ago|from now"
+ * to a date (UTC). Returns undefined for anything else.
+ */
+function relativeDate(value: string): string | undefined {
+  const date = new Date();
+  const match = value.match(/^(\d+) (day|week|month|year)s? (ago|from now)$/);
+  if (!match && !RELATIVE_DATES.has(value)) return undefined;
+
+  const offset = match ? Number(match[1]) * (match[3] === "ago" ? -1 : 1) : { yesterday: -1, today: 0, tomorrow: 1 }[value]!;
+  const unit = match?.[2] ?? "day";
+  if (unit === "day") date.setUTCDate(date.getUTCDate() + offset);
+  if (unit === "week") date.setUTCDate(date.getUTCDate() + offset * 7);
+  if (unit === "month") date.setUTCMonth(date.getUTCMonth() + offset);
+  if (unit === "year") date.setUTCFullYear(date.getUTCFullYear() + offset);
+  return date.toISOString().slice(0, 10);
+}
+
+function compileValue(rule: TypeRule, property: DatabasePropertySchema, value: Token): unknown {
+  const describe = `${property.type} property "${property.name}"`;
+  switch (rule.value) {
+    case "number":
+      if (value.kind !== "number") throw new FilterError(`${describe} needs a number, got "${value.value}"`);
+      return Number(value.value);
+    case "boolean": {
+      const word = value.value.toLowerCase();
+      if (value.kind !== "word" || (word !== "true" && word !== "false")) {
+        throw new FilterError(`${describe} needs true or false, got "${value.value}"`);
+      }
+      return word === "true";
+    }
+    case "date": {
+      if (/^\d{4}-\d{2}-\d{2}/.test(value.value)) return value.value;
+      const relative = value.kind === "word" && relativeDate(value.value.toLowerCase());
+      if (!relative) {
+        throw new FilterError(
+          `${describe} needs a date like 2025-01-31, an ISO 8601 timestamp, or a relative date like "90 days ago", got "${value.value}"`,
+        );
+      }
+      return relative;
+    }
+    default:
+      return value.value;
+  }
+}
+
+/** created_time / last_edited_time filter the page timestamps when no property has that name */
+function comparedProperty(schema: PropertySchemas, name: string): DatabasePropertySchema {
+  const isTimestamp = name === "created_time" || name === "last_edited_time";
+  if (isTimestamp && !schema[name]) return { id: name, name, type: name, [name]: {} };
+  return resolveProperty(schema, name);
+}
+
+function compileComparison(schema: PropertySchemas, expression: Extract<Expression, { kind: "comparison" }>): QueryFilter {
+  const property = comparedProperty(schema, expression.property.value);
+  const rule = TYPE_RULES[property.type];
+  if (!rule) {
+    throw new FilterError(
+      `${property.type} property "${property.name}" can't be used in --where; use --filter-json instead`,
+    );
+  }
+
+  const condition = rule.operators[expression.operator];
+  if (!condition) {
+    const supported = Object.keys(rule.operators).join(", ");
+    throw new FilterError(
+      `operator "${expression.operator}" doesn't work with ${property.type} property "${property.name}". Use one of: ${supported}`,
+    );
+  }
+
+  const value = expression.value ? compileValue(rule, property, expression.value) : true;
+  // TYPE_RULES only pairs each type key with conditions the API accepts for it
+  if (rule.timestamp) {
+    return { timestamp: property.type, [rule.key]: { [condition]: value } } as QueryFilter;
+  }
+  return { property: property.name, [rule.key]: { [condition]: value } } as QueryFilter;
+}
+
+function compile(schema: PropertySchemas, expression: Expression): QueryFilter {
+  if (expression.kind === "comparison") return compileComparison(schema, expression);
+  const items = expression.items.map((item) => compile(schema, item));
+  return expression.kind === "and" ? { and: items } : { or: items };
+}
+
+/** Compile a --where expression into a Notion data source filter */
+export function compileWhere(input: string, schema: PropertySchemas): QueryFilter {
+  return compile(schema, new Parser(tokenize(input), input).parse());
+}
+
+// ============================================================================
+// Sorts
+// ============================================================================
+
+const DIRECTIONS: Record<string, "ascending" | "descending"> = {
+  asc: "ascending",
+  ascending: "ascending",
+  desc: "descending",
+  descending: "descending",
+};
+
+/**
+ * Compile --sort specs ("Due:desc", "Name") into Notion sorts. Each spec
+ * may hold several comma-separated sorts; the direction defaults to
+ * ascending. created_time / last_edited_time sort by the page timestamps
+ * when no property has that name.
+ */
+export function compileSorts(specs: string[], schema: PropertySchemas): QuerySort[] {
+  return specs
+    .flatMap((spec) => spec.split(","))
+    .map((spec) => spec.trim())
+    .filter(Boolean)
+    .map((spec): QuerySort => {
+      const colon = spec.lastIndexOf(":");
+      const suffix = colon === -1 ? "" : spec.slice(colon + 1).trim().toLowerCase();
+      const direction = DIRECTIONS[suffix];
+      if (colon !== -1 && !direction) {
+        throw new FilterError(`invalid sort direction "${spec.slice(colon + 1)}" in "${spec}". Use asc or desc`);
+      }
+      const name = (direction ? spec.slice(0, colon) : spec).trim();
+
+      const isTimestamp = name === "created_time" || name === "last_edited_time";
+      if (isTimestamp && !schema[name]) return { timestamp: name, direction: direction ?? "ascending" };
+      return { property: resolveProperty(schema, name).name, direction: direction ?? "ascending" };
+    });
+}
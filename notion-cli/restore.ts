@@ -0,0 +1,522 @@
+/**
+ * Workspace restore.
+ *
+ * Recreates a directory written by backupWorkspace (see backup.ts) under a
+ * target page. Runs in phases so that every reference can be remapped to
+ * the newly created IDs:
+ *
+ *   1. Structure — pages, databases (with their original schemas), data
+ *      sources, and data source entries, parents before children
+ *   2. Schema — relation, rollup, and formula properties, which may point
+ *      at data sources created later in phase 1
+ *   3. Content — each page's blocks, with page mentions and link_to_page
+ *      targets remapped
+ *   4. Relations — relation values on entries
+ *
+ * Anything the API can't recreate is skipped and reported rather than
+ * stopping the restore.
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import type {
+  BlockInput,
+  CreatableBlockType,
+  DatabasePropertySchema,
+  NotionClient,
+  NotionDatabase,
+  PropertyValue,
+} from "./src/postman/notion-api/index.js";
+import { appendBlockTree, blockContent, type BlockNode } from "./helpers.js";
+import type { BackupItem, BackupItemType, BackupManifest, PageBackup } from "./backup.js";
+
+/** Something that was not recreated, or not recreated faithfully */
+export interface RestoreIssue {
+  path: string;
+  message: string;
+}
+
+/** Reported once per page, database, or data source as it is created */
+export interface RestoreEvent {
+  type: BackupItemType;
+  path: string;
+}
+
+export interface RestoreOptions {
+  onItem?: (event: RestoreEvent) => void;
+}
+
+export interface RestoreSummary {
+  pages: number;
+  databases: number;
+  dataSources: number;
+  blocks: number;
+  issues: RestoreIssue[];
+  /** Original ID → new ID for every restored page, database, and data source */
+  ids: Record<string, string>;
+}
+
+/** A rich text run as it appears in a backup — text, mention, or equation */
+interface RichTextRun {
+  type: string;
+  plain_text: string;
+  href: string | null;
+  annotations?: unknown;
+  text?: { content: string; link: { url: string } | null };
+  equation?: { expression: string };
+  mention?: { type: string; [key: string]: unknown };
+}
+
+/** Icon, cover, or file-like block content — hosted by Notion or external */
+interface FileSource {
+  type?: string;
+  name?: string;
+  emoji?: string;
+  external?: { url: string };
+}
+
+/** Block types the API can create */
+const CREATABLE_BLOCKS = new Set<string>([
+  "paragraph", "heading_1", "heading_2", "heading_3", "bulleted_list_item", "numbered_list_item",
+  "to_do", "toggle", "quote", "callout", "code", "equation", "divider", "table_of_contents",
+  "breadcrumb", "bookmark", "embed", "image", "video", "audio", "file", "pdf", "table",
+  "table_row", "column_list", "column", "link_to_page",
+]);
+
+function isCreatable(type: string): type is CreatableBlockType {
+  return CREATABLE_BLOCKS.has(type);
+}
+
+const FILE_BLOCKS = new Set(["image", "video", "audio", "file", "pdf"]);
+
+/** Schema properties that can reference other properties or data sources — added in phase 2 */
+const DEFERRED_PROPERTIES = ["relation", "rollup", "formula"];
+
+/** Schema property types created with an empty configuration */
+const EMPTY_CONFIG_PROPERTIES = new Set([
+  "title", "rich_text", "date", "people", "files", "checkbox", "url", "email", "phone_number",
+  "created_time", "created_by", "last_edited_time", "last_edited_by",
+]);
+
+/** Load a JSON file from the backup */
+function readBackupFile<T>(dir: string, path: string, file: string): T {
+  return JSON.parse(readFileSync(join(dir, path, file), "utf-8")) as T;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Recreate a backup under `parentPageId`. Root pages of the backup become
+ * children of that page; everything else keeps its place in the hierarchy.
+ */
+export async function restoreWorkspace(
+  notion: NotionClient,
+  dir: string,
+  manifest: BackupManifest,
+  parentPageId: string,
+  options: RestoreOptions = {}
+): Promise<RestoreSummary> {
+  const summary: RestoreSummary = { pages: 0, databases: 0, dataSources: 0, blocks: 0, issues: [], ids: {} };
+  const ids = new Map<string, string>();
+  const issue = (path: string, message: string) => summary.issues.push({ path, message });
+
+  // Items grouped by parent, in backup order (which is document order)
+  const childrenOf = new Map<string | null, Array<[string, BackupItem]>>();
+  for (const [id, item] of Object.entries(manifest.items)) {
+    const siblings = childrenOf.get(item.parent_id) ?? [];
+    siblings.push([id, item]);
+    childrenOf.set(item.parent_id, siblings);
+  }
+
+  const pagesToFill: Array<{ id: string; path: string; blocks: BlockNode[] }> = [];
+  const deferredSchema: Array<{ id: string; path: string; name: string; schema: DatabasePropertySchema }> = [];
+  const pendingRelations: Array<{ id: string; path: string; name: string; targets: string[] }> = [];
+
+  // ==========================================================================
+  // Conversions from backed-up (read) shapes to create (write) shapes
+  // ==========================================================================
+
+  const richText = (items: RichTextRun[] | undefined): unknown[] =>
+    (items ?? []).map((run) => {
+      const { annotations } = run;
+      if (run.type === "text" && run.text) {
+        return { type: "text", text: { content: run.text.content, link: run.text.link }, annotations };
+      }
+      if (run.type === "equation" && run.equation) {
+        return { type: "equation", equation: run.equation, annotations };
+      }
+      const mention = run.mention;
+      if (mention?.type === "page" || mention?.type === "database") {
+        const target = ids.get((mention[mention.type] as { id: string }).id);
+        if (target) return { type: "mention", mention: { type: mention.type, [mention.type]: { id: target } }, annotations };
+      }
+      if (mention?.type === "user" || mention?.type === "date") {
+        return { type: "mention", mention: { type: mention.type, [mention.type]: mention[mention.type] }, annotations };
+      }
+      // Anything else (or a mention of a page outside the backup) keeps its text and link
+      const link = run.href ? { url: run.href } : null;
+      return { type: "text", text: { content: run.plain_text, link }, annotations };
+    });
+
+  /** Emoji and external icons/covers carry over; Notion-hosted files have expiring URLs */
+  const fileSource = (source: FileSource | null | undefined, path: string, what: string): FileSource | undefined => {
+    if (!source) return undefined;
+    if (source.type === "emoji" || source.type === "external") return source;
+    issue(path, `${what} is a Notion-hosted file and was not restored`);
+    return undefined;
+  };
+
+  const schemaConfig = (name: string, schema: DatabasePropertySchema, path: string): Record<string, unknown> | undefined => {
+    const config = (schema[schema.type] ?? {}) as Record<string, unknown>;
+    const options = (config.options as Array<{ name: string; color?: string }> | undefined) ?? [];
+    const withDescription = (value: Record<string, unknown>) =>
+      schema.description ? { ...value, description: schema.description } : value;
+
+    switch (schema.type) {
+      case "select":
+      case "multi_select":
+        return withDescription({ [schema.type]: { options: options.map((o) => ({ name: o.name, color: o.color })) } });
+      case "status":
+        // The API can't define status groups — keep the options as a select
+        issue(path, `status property "${name}" was restored as a select`);
+        return withDescription({ select: { options: options.map((o) => ({ name: o.name, color: o.color })) } });
+      case "number":
+        return withDescription({ number: { format: config.format ?? "number" } });
+      case "unique_id":
+        return withDescription({ unique_id: { prefix: config.prefix ?? null } });
+      default:
+        if (EMPTY_CONFIG_PROPERTIES.has(schema.type)) return withDescription({ [schema.type]: {} });
+        issue(path, `${schema.type} property "${name}" can't be created through the API`);
+        return undefined;
+    }
+  };
+
+  /** Schema without relations, rollups, and formulas — those are queued for phase 2 */
+  const baseSchema = (dataSourceId: string, properties: Record<string, DatabasePropertySchema>, path: string) => {
+    const base: Record<string, unknown> = {};
+    for (const [name, schema] of Object.entries(properties)) {
+      if (DEFERRED_PROPERTIES.includes(schema.type)) {
+        deferredSchema.push({ id: dataSourceId, path, name, schema });
+        continue;
+      }
+      const config = schemaConfig(name, schema, path);
+      if (config) base[name] = config;
+    }
+    return base;
+  };
+
+  /** Writable values for an entry's properties; relations are queued for phase 4 */
+  const propertyValues = (pageId: string, properties: Record<string, PropertyValue>, path: string) => {
+    const values: Record<string, unknown> = {};
+    for (const [name, prop] of Object.entries(properties)) {
+      switch (prop.type) {
+        case "title":
+          values[name] = { title: richText(prop.title) };
+          break;
+        case "rich_text":
+          values[name] = { rich_text: richText(prop.rich_text) };
+          break;
+        case "select":
+        case "status": {
+          // Status properties are restored as selects (see schemaConfig)
+          const option = prop.type === "select" ? prop.select : prop.status;
+          values[name] = { select: option ? { name: option.name } : null };
+          break;
+        }
+        case "multi_select":
+          values[name] = { multi_select: prop.multi_select.map((o) => ({ name: o.name })) };
+          break;
+        case "people":
+          values[name] = { people: prop.people.map((p) => ({ id: p.id })) };
+          break;
+        case "files": {
+          const external = prop.files.filter((f) => f.type === "external");
+          if (external.length < prop.files.length) {
+            issue(path, `Notion-hosted files in "${name}" were not restored`);
+          }
+          values[name] = { files: external.map((f) => ({ name: f.name, type: "external", external: f.external })) };
+          break;
+        }
+        case "relation": {
+          const targets = prop.relation.map((r) => r.id);
+          if (targets.length > 0) pendingRelations.push({ id: pageId, path, name, targets });
+          break;
+        }
+        case "number":
+          values[name] = { number: prop.number };
+          break;
+        case "checkbox":
+          values[name] = { checkbox: prop.checkbox };
+          break;
+        case "url":
+          values[name] = { url: prop.url };
+          break;
+        case "email":
+          values[name] = { email: prop.email };
+          break;
+        case "phone_number":
+          values[name] = { phone_number: prop.phone_number };
+          break;
+        case "date":
+          values[name] = { date: prop.date };
+          break;
+        case "formula":
+        case "rollup":
+        case "created_time":
+        case "created_by":
+        case "last_edited_time":
+        case "last_edited_by":
+        case "unique_id":
+        case "button":
+        case "verification":
+          // Computed by Notion — never written
+          break;
+        default: {
+          // Newer property types than these typings are skipped too
+          const unknown: never = prop;
+          issue(path, `"${name}" has an unsupported property type ${(unknown as { type: string }).type}`);
+        }
+      }
+    }
+    return values;
+  };
+
+  /** Convert a backed-up block tree into blocks for appendBlockTree */
+  const blockInputs = (nodes: BlockNode[], path: string): BlockInput[] =>
+    nodes.flatMap((node): BlockInput[] => {
+      const { type } = node.block;
+      const content: Record<string, unknown> = { ...blockContent(node.block) };
+
+      // Restored separately in phase 1
+      if (type === "child_page" || type === "child_database") return [];
+      if (type === "synced_block") {
+        issue(path, "synced block content was restored without syncing");
+        return blockInputs(node.children, path);
+      }
+      if (!isCreatable(type)) {
+        issue(path, `${type} block can't be created through the API`);
+        return [];
+      }
+      if (FILE_BLOCKS.has(type) && content.type !== "external") {
+        issue(path, `Notion-hosted ${type} was not restored`);
+        return [];
+      }
+
+      if (content.rich_text) content.rich_text = richText(content.rich_text as RichTextRun[]);
+      if (content.caption) content.caption = richText(content.caption as RichTextRun[]);
+      if (content.cells) content.cells = (content.cells as RichTextRun[][]).map(richText);
+      if (content.icon) content.icon = fileSource(content.icon as FileSource, path, "callout icon");
+      if (type === "link_to_page") {
+        const key = content.type as string;
+        content[key] = ids.get(content[key] as string) ?? content[key];
+      }
+
+      const children = blockInputs(node.children, path);
+      if (children.length > 0) content.children = children;
+      // The read shape, converted field by field above, is the create shape for creatable types
+      return [{ type, [type]: content } as unknown as BlockInput];
+    });
+
+  const countBlocks = (blocks: BlockInput[]): number =>
+    blocks.reduce((sum, block) => {
+      const children = ((block as Record<string, unknown>)[block.type] as { children?: BlockInput[] }).children;
+      return sum + 1 + (children ? countBlocks(children) : 0);
+    }, 0);
+
+  // ==========================================================================
+  // Phase 1 — structure
+  // ==========================================================================
+
+  const created = (oldId: string, newId: string, type: BackupItemType, path: string) => {
+    ids.set(oldId, newId);
+    summary.ids[oldId] = newId;
+    if (type === "page") summary.pages++;
+    else if (type === "database") summary.databases++;
+    else summary.dataSources++;
+    options.onItem?.({ type, path });
+  };
+
+  /** Restore an item and everything under it; returns quietly after reporting a failure */
+  async function restoreItem(
+    id: string,
+    item: BackupItem,
+    parent: { page_id: string } | { data_source_id: string }
+  ): Promise<void> {
+    if (item.status !== "done") {
+      issue(item.path, `not in the backup (${item.error ?? "backup failed"})`);
+      return;
+    }
+
+    try {
+      if (item.type === "page") {
+        await restorePage(id, item, parent);
+      } else if (item.type === "database" && "page_id" in parent) {
+        await restoreDatabase(id, item, parent.page_id);
+      }
+    } catch (error) {
+      issue(item.path, `could not be created: ${errorMessage(error)}`);
+    }
+  }
+
+  async function restorePage(id: string, item: BackupItem, parent: { page_id: string } | { data_source_id: string }) {
+    const backup = readBackupFile<PageBackup>(dir, item.path, "page.json");
+    const titleProp = Object.values(backup.page.properties).find((p) => p.type === "title");
+    const properties =
+      "data_source_id" in parent
+        ? propertyValues(id, backup.page.properties, item.path)
+        : { title: { title: richText(titleProp?.title as RichTextRun[] | undefined) } };
+
+    const page = await notion.pages.create({
+      parent,
+      properties,
+      icon: fileSource(backup.page.icon as FileSource | null, item.path, "icon"),
+      cover: fileSource(backup.page.cover as FileSource | null, item.path, "cover"),
+    });
+    created(id, page.id, "page", item.path);
+    pagesToFill.push({ id: page.id, path: item.path, blocks: backup.blocks });
+
+    for (const [childId, child] of childrenOf.get(id) ?? []) {
+      await restoreItem(childId, child, { page_id: page.id });
+    }
+  }
+
+  async function restoreDatabase(id: string, item: BackupItem, parentPageId: string) {
+    const database = readBackupFile<NotionDatabase & { is_inline?: boolean }>(dir, item.path, "database.json");
+    const sources = (childrenOf.get(id) ?? []).filter(([, child]) => child.type === "data_source");
+    const restorable = sources.filter(([, source]) => {
+      if (source.status === "done") return true;
+      issue(source.path, `not in the backup (${source.error ?? "backup failed"})`);
+      return false;
+    });
+    if (restorable.length === 0) {
+      issue(item.path, "database has no backed-up data sources and was not restored");
+      return;
+    }
+
+    // The first data source is created with the database; any others are added to it
+    const schemas = restorable.map(([sourceId, source]) => {
+      const dataSource = readBackupFile<NotionDatabase>(dir, source.path, "data_source.json");
+      return { sourceId, source, dataSource, properties: baseSchema(sourceId, dataSource.properties, source.path) };
+    });
+
+    const [first, ...rest] = schemas;
+    let newDatabase = await notion.databases.create({
+      parent: { type: "page_id", page_id: parentPageId },
+      title: richText(database.title) as Array<{ text: { content: string } }>,
+      initial_data_source: { properties: first.properties },
+      icon: fileSource(database.icon as FileSource | null, item.path, "icon"),
+      is_inline: database.is_inline,
+    });
+    created(id, newDatabase.id, "database", item.path);
+    if (!newDatabase.data_sources?.length) newDatabase = await notion.databases.retrieve(newDatabase.id);
+    created(first.sourceId, newDatabase.data_sources![0].id, "data_source", first.source.path);
+
+    for (const other of rest) {
+      const dataSource = await notion.dataSources.create({
+        parent: { type: "database_id", database_id: newDatabase.id },
+        title: richText(other.dataSource.title) as Array<{ text: { content: string } }>,
+        properties: other.properties,
+      });
+      created(other.sourceId, dataSource.id, "data_source", other.source.path);
+    }
+
+    for (const { sourceId } of schemas) {
+      for (const [entryId, entry] of childrenOf.get(sourceId) ?? []) {
+        await restoreItem(entryId, entry, { data_source_id: ids.get(sourceId)! });
+      }
+    }
+  }
+
+  for (const [id, item] of childrenOf.get(null) ?? []) {
+    await restoreItem(id, item, { page_id: parentPageId });
+  }
+
+  // ==========================================================================
+  // Phase 2 — relations, rollups, and formulas in the schema
+  // ==========================================================================
+
+  // Relations first: rollups depend on them, and formulas may use either
+  deferredSchema.sort((a, b) => DEFERRED_PROPERTIES.indexOf(a.schema.type) - DEFERRED_PROPERTIES.indexOf(b.schema.type));
+  // A two-way relation creates its counterpart on the other data source
+  const createdBySync = new Set<string>();
+
+  for (const { id, path, name, schema } of deferredSchema) {
+    const dataSourceId = ids.get(id);
+    if (!dataSourceId || createdBySync.has(`${id}:${name}`)) continue;
+
+    let config: Record<string, unknown>;
+    if (schema.type === "relation") {
+      const relation = schema.relation as {
+        data_source_id: string;
+        type: string;
+        dual_property?: { synced_property_name?: string };
+      };
+      const target = ids.get(relation.data_source_id);
+      if (!target) {
+        issue(path, `relation "${name}" points outside the backup and was not restored`);
+        continue;
+      }
+      const synced = relation.dual_property?.synced_property_name;
+      if (relation.type === "dual_property" && synced) {
+        createdBySync.add(`${relation.data_source_id}:${synced}`);
+        config = { relation: { data_source_id: target, type: "dual_property", dual_property: { synced_property_name: synced } } };
+      } else {
+        config = { relation: { data_source_id: target, type: "single_property", single_property: {} } };
+      }
+    } else if (schema.type === "rollup") {
+      const rollup = schema.rollup as { relation_property_name: string; rollup_property_name: string; function: string };
+      config = {
+        rollup: {
+          relation_property_name: rollup.relation_property_name,
+          rollup_property_name: rollup.rollup_property_name,
+          function: rollup.function,
+        },
+      };
+    } else {
+      config = { formula: { expression: (schema.formula as { expression: string }).expression } };
+    }
+
+    try {
+      await notion.dataSources.update(dataSourceId, { properties: { [name]: config } });
+    } catch (error) {
+      issue(path, `${schema.type} property "${name}" could not be created: ${errorMessage(error)}`);
+    }
+  }
+
+  // ==========================================================================
+  // Phase 3 — page content
+  // ==========================================================================
+
+  for (const { id, path, blocks } of pagesToFill) {
+    const inputs = blockInputs(blocks, path);
+    if (inputs.length === 0) continue;
+    try {
+      await appendBlockTree(notion, id, inputs);
+      summary.blocks += countBlocks(inputs);
+    } catch (error) {
+      issue(path, `content could not be restored: ${errorMessage(error)}`);
+    }
+  }
+
+  // ==========================================================================
+  // Phase 4 — relation values
+  // ==========================================================================
+
+  for (const { id, path, name, targets } of pendingRelations) {
+    const pageId = ids.get(id)!;
+    const mapped = targets.map((target) => ids.get(target)).filter((target): target is string => target !== undefined);
+    if (mapped.length < targets.length) {
+      issue(path, `${targets.length - mapped.length} related page(s) in "${name}" are outside the backup`);
+    }
+    if (mapped.length === 0) continue;
+    try {
+      await notion.pages.update(pageId, { properties: { [name]: { relation: mapped.map((target) => ({ id: target })) } } });
+    } catch (error) {
+      issue(path, `relation "${name}" could not be set: ${errorMessage(error)}`);
+    }
+  }
+
+  return summary;
+}
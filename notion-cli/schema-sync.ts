@@ -0,0 +1,376 @@
+/**
+ * Schema files for `datasource schema pull` and `datasource schema apply`.
+ *
+ * A schema file describes a data source's properties in YAML, so it can
+ * live in git next to the code that depends on it:
+ *
+ *   data_source: 2f1c…
+ *   title: Tasks
+ *   properties:
+ *     Name:
+ *       type: title
+ *       id: title
+ *     Status:
+ *       type: select
+ *       options:
+ *         - name: Done
+ *           color: green
+ *       id: "%3AUPp"
+ *
+ * Applying a file diffs it against the live schema and plans the update
+ * that makes them match. Properties are matched by id, then by name, so
+ * a property whose name changed in the file is renamed rather than
+ * removed and re-added (which would delete its values). Properties
+ * without an id are new; live properties missing from the file are
+ * removed.
+ */
+
+import type { DatabasePropertySchema, NotionDatabase } from "./src/postman/notion-api/index.js";
+import { plainText } from "./helpers.js";
+import {
+  propertyConfig,
+  PROPERTY_TYPES,
+  SchemaError,
+  TYPE_SETTINGS,
+  type PropertySettings,
+  type SelectOption,
+} from "./property-schema.js";
+import { parseYaml, stringifyYaml, YamlError, type YamlValue } from "./yaml.js";
+
+/** One property in a schema file: its type, settings, and (once pulled) its id */
+export interface PropertyDefinition extends PropertySettings {
+  type: string;
+  id?: string;
+}
+
+export interface SchemaDocument {
+  /** The data source the file was pulled from */
+  data_source?: string;
+  title?: string;
+  properties: Record<string, PropertyDefinition>;
+}
+
+// ============================================================================
+// Pull
+// ============================================================================
+
+/** A live property as a schema file definition */
+export function propertyDefinition(property: DatabasePropertySchema): PropertyDefinition {
+  const config = (property[property.type] ?? {}) as Record<string, unknown>;
+  const definition: PropertyDefinition = { type: property.type };
+  switch (property.type) {
+    case "select":
+    case "multi_select":
+    case "status":
+      definition.options = ((config.options ?? []) as SelectOption[]).map(({ name, color }) => ({ name, color }));
+      break;
+    case "number":
+      if (config.format) definition.format = config.format as string;
+      break;
+    case "formula":
+      definition.expression = config.expression as string;
+      break;
+    case "relation":
+      definition.data_source_id = config.data_source_id as string;
+      definition.dual = config.type === "dual_property";
+      break;
+    case "rollup":
+      definition.relation = config.relation_property_name as string;
+      definition.property = config.rollup_property_name as string;
+      definition.function = config.function as string;
+      break;
+    case "unique_id":
+      definition.prefix = (config.prefix as string | null) ?? null;
+      break;
+  }
+  definition.id = property.id;
+  return definition;
+}
+
+/** The schema file for a data source, with a header saying how to apply it */
+export function pullSchema(dataSourceId: string, dataSource: NotionDatabase): string {
+  const document: SchemaDocument = {
+    data_source: dataSourceId,
+    title: plainText(dataSource.title),
+    properties: Object.fromEntries(
+      Object.values(dataSource.properties).map((property) => [property.name, propertyDefinition(property)]),
+    ),
+  };
+  const header = [
+    `# Schema of the Notion data source "${document.title || "(Untitled)"}".`,
+    `# Edit it, then preview and apply the changes with:`,
+    `#   notion-cli datasource schema apply ${dataSourceId} <this-file>`,
+    `# Keep each property's id so renames are recognized; new properties need none.`,
+  ];
+  return `${header.join("\n")}\n${stringifyYaml(document as unknown as { [key: string]: YamlValue })}`;
+}
+
+// ============================================================================
+// Reading a file
+// ============================================================================
+
+const isMapping = (value: YamlValue | undefined): value is { [key: string]: YamlValue } =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function readOptions(name: string, value: YamlValue): SelectOption[] {
+  if (!Array.isArray(value)) throw new SchemaError(`property "${name}": options must be a list.`);
+  return value.map((option) => {
+    // "- Done" is short for "- name: Done"
+    if (typeof option === "string" || typeof option === "number") return { name: String(option) };
+    if (isMapping(option) && option.name !== undefined && option.name !== null) {
+      const unknown = Object.keys(option).filter((key) => key !== "name" && key !== "color");
+      if (unknown.length > 0) throw new SchemaError(`property "${name}": unknown option setting "${unknown[0]}".`);
+      return option.color ? { name: String(option.name), color: String(option.color) } : { name: String(option.name) };
+    }
+    throw new SchemaError(`property "${name}": each option needs a name.`);
+  });
+}
+
+function readDefinition(name: string, value: YamlValue): PropertyDefinition {
+  if (!isMapping(value) || typeof value.type !== "string") {
+    throw new SchemaError(`property "${name}" needs a type, e.g. "type: rich_text".`);
+  }
+  const { type, id, ...settings } = value;
+  const allowed = TYPE_SETTINGS[type] ?? [];
+  const definition: PropertyDefinition = { type };
+  if (id !== undefined && id !== null) definition.id = String(id);
+
+  for (const [key, setting] of Object.entries(settings)) {
+    if (!allowed.includes(key as keyof PropertySettings)) {
+      const valid = allowed.length > 0 ? ` ${type} properties take: ${allowed.join(", ")}` : ` ${type} properties take no settings.`;
+      throw new SchemaError(`property "${name}": unknown setting "${key}".${valid}`);
+    }
+    if (setting === null) continue;
+    if (key === "options") definition.options = readOptions(name, setting);
+    else if (key === "dual") definition.dual = setting === true;
+    else definition[key as "format"] = String(setting);
+  }
+  return definition;
+}
+
+/** Parse a schema file: YAML, or JSON when it starts with "{" */
+function parseSchemaFile(text: string): YamlValue {
+  if (text.trimStart().startsWith("{")) {
+    try {
+      return JSON.parse(text) as YamlValue;
+    } catch (error) {
+      throw new SchemaError(`not a valid schema file: ${(error as Error).message}`);
+    }
+  }
+  try {
+    return parseYaml(text);
+  } catch (error) {
+    if (!(error instanceof YamlError)) throw error;
+    throw new SchemaError(`not a valid schema file: ${error.message}`);
+  }
+}
+
+/** Check a parsed schema file */
+function schemaDocument(parsed: YamlValue): SchemaDocument {
+  if (!isMapping(parsed) || !isMapping(parsed.properties)) {
+    throw new SchemaError(`a schema file needs a "properties" mapping — start from "datasource schema pull".`);
+  }
+  return {
+    data_source: parsed.data_source ? String(parsed.data_source) : undefined,
+    title: typeof parsed.title === "string" ? parsed.title : undefined,
+    properties: Object.fromEntries(
+      Object.entries(parsed.properties).map(([name, value]) => [name, readDefinition(name, value)]),
+    ),
+  };
+}
+
+/** Parse and check a schema file */
+export function readSchemaDocument(text: string): SchemaDocument {
+  return schemaDocument(parseSchemaFile(text));
+}
+
+/**
+ * The properties of a new data source from a schema file. Besides the
+ * format "schema pull" writes, this takes Notion's own schema object
+ * ({"Status": {"status": {}}}), which is sent as it is. IDs are ignored.
+ */
+export function initialProperties(text: string): Record<string, unknown> {
+  const parsed = parseSchemaFile(text);
+  if (!isMapping(parsed)) throw new SchemaError("a schema file must be a mapping of properties.");
+  const properties = isMapping(parsed.properties) ? parsed.properties : parsed;
+  const typed = properties === parsed.properties && Object.values(properties).every((p) => isMapping(p) && "type" in p);
+  if (!typed) return properties;
+
+  const document = schemaDocument(parsed);
+  const titles = Object.entries(document.properties).filter(([, definition]) => definition.type === "title");
+  if (titles.length > 1) {
+    throw new SchemaError(`a data source has exactly one title property, but the file has ${titles.map(([name]) => `"${name}"`).join(", ")}.`);
+  }
+  return Object.fromEntries(
+    Object.entries(document.properties).map(([name, definition]) => {
+      if (definition.type !== "title" && !PROPERTY_TYPES.includes(definition.type)) {
+        throw new SchemaError(`property "${name}" has an unknown type "${definition.type}". Types: ${PROPERTY_TYPES.join(", ")}`);
+      }
+      return [name, propertyConfig(definition.type, definition, `property "${name}"`)];
+    }),
+  );
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/** One line of a plan */
+export interface SchemaChange {
+  action: "add" | "rename" | "retype" | "options" | "remove";
+  /** The property's current name, or its name in the file when it's new */
+  name: string;
+  /** What changes, for display */
+  detail: string;
+}
+
+export interface SchemaPlan {
+  /** The new title, when it changes */
+  title?: string;
+  changes: SchemaChange[];
+  /** Differences Notion's API can't apply */
+  skipped: string[];
+  /** The `properties` of the data source update */
+  properties: Record<string, Record<string, unknown> | null>;
+}
+
+/** What Notion uses for a setting the file leaves out */
+const DEFAULT_SETTINGS: Partial<Record<keyof PropertySettings, unknown>> = { format: "number", dual: false };
+
+/**
+ * The settings of a definition, as compared between the file and the
+ * live schema. Settings at their default are left out, so a file without
+ * them matches the live schema.
+ */
+function settingsSummary(definition: PropertyDefinition): string {
+  const keys = (TYPE_SETTINGS[definition.type] ?? []).filter((key) => key !== "options");
+  return keys
+    .map((key) => [key, definition[key]] as const)
+    .filter(([key, value]) => value !== undefined && value !== null && value !== "" && value !== DEFAULT_SETTINGS[key])
+    .map(([key, value]) => (key === "dual" ? "dual" : `${key} ${value}`))
+    .join(", ");
+}
+
+function describe(definition: PropertyDefinition): string {
+  const settings = settingsSummary(definition);
+  const options = definition.options?.length ? `options ${definition.options.map((o) => o.name).join(", ")}` : "";
+  const details = [settings, options].filter(Boolean).join("; ");
+  return details ? `${definition.type} (${details})` : definition.type;
+}
+
+/** Data source IDs compare without dashes or case */
+const sameId = (a: string, b: string) => a.replace(/-/g, "").toLowerCase() === b.replace(/-/g, "").toLowerCase();
+
+/**
+ * Plan the update that turns the live schema into the file's. IDs in a
+ * file pulled from another data source are ignored, so a schema can be
+ * copied to a new data source by name.
+ */
+export function planSchema(dataSourceId: string, live: NotionDatabase, document: SchemaDocument): SchemaPlan {
+  const plan: SchemaPlan = { changes: [], skipped: [], properties: {} };
+  const useIds = !document.data_source || sameId(document.data_source, dataSourceId);
+  const current = Object.values(live.properties);
+  const matched = new Set<DatabasePropertySchema>();
+  const change = (name: string) => (plan.properties[name] ??= {}) as Record<string, unknown>;
+
+  const liveTitle = plainText(live.title);
+  if (document.title !== undefined && document.title !== liveTitle) plan.title = document.title;
+
+  // Match by id first, so a renamed property isn't mistaken for a new one, then by name
+  const pairs = new Map<string, DatabasePropertySchema>();
+  const entries = Object.entries(document.properties);
+  for (const [name, definition] of entries) {
+    const property = useIds && definition.id ? current.find((p) => p.id === definition.id) : undefined;
+    if (!property) continue;
+    if (matched.has(property)) {
+      throw new SchemaError(`properties in the file share the id "${definition.id}" of "${property.name}".`);
+    }
+    pairs.set(name, property);
+    matched.add(property);
+  }
+  for (const [name] of entries) {
+    const property = pairs.has(name) ? undefined : current.find((p) => p.name === name && !matched.has(p));
+    if (!property) continue;
+    pairs.set(name, property);
+    matched.add(property);
+  }
+
+  const additions: Array<[string, PropertyDefinition]> = [];
+  for (const [name, definition] of entries) {
+    const property = pairs.get(name);
+    if (!property) {
+      additions.push([name, definition]);
+      continue;
+    }
+
+    const where = `property "${name}"`;
+    if (property.name !== name) {
+      change(property.name).name = name;
+      plan.changes.push({ action: "rename", name: property.name, detail: `${property.name} → ${name}` });
+    }
+
+    const before = propertyDefinition(property);
+    if (before.type !== definition.type || settingsSummary(before) !== settingsSummary(definition)) {
+      if (property.type === "title") throw new SchemaError(`the title property "${property.name}" can't change type.`);
+      if (!PROPERTY_TYPES.includes(definition.type)) {
+        throw new SchemaError(`${where} can't change to type "${definition.type}". Types: ${PROPERTY_TYPES.join(", ")}`);
+      }
+      Object.assign(change(property.name), propertyConfig(definition.type, definition, where));
+      plan.changes.push({ action: "retype", name, detail: `${describe({ ...before, options: [] })} → ${describe(definition)}` });
+      continue;
+    }
+
+    const names = (options: SelectOption[] | undefined) => (options ?? []).map((o) => o.name);
+    const added = names(definition.options).filter((o) => !names(before.options).includes(o));
+    const removed = names(before.options).filter((o) => !names(definition.options).includes(o));
+    const recolored = (definition.options ?? []).flatMap((option) => {
+      const kept = before.options?.find((o) => o.name === option.name);
+      return kept?.color && option.color && kept.color !== option.color ? [`"${option.name}" (${kept.color} → ${option.color})`] : [];
+    });
+    if (recolored.length > 0) {
+      plan.skipped.push(`color of ${recolored.join(", ")} in "${name}" — Notion's API can't change the color of an existing option`);
+    }
+    if (added.length === 0 && removed.length === 0) continue;
+    if (property.type === "status") {
+      plan.skipped.push(`options of status property "${name}" — Notion's API can't change them`);
+      continue;
+    }
+    // Kept options keep their id; Notion drops options missing from the list
+    const existing = ((property[property.type] as { options?: SelectOption[] }).options ?? []);
+    const options = (definition.options ?? []).map((option) => {
+      const kept = existing.find((o) => o.name === option.name);
+      return kept ? { id: kept.id, name: kept.name, color: kept.color } : option;
+    });
+    Object.assign(change(property.name), propertyConfig(property.type, { options }, where));
+    const detail = [...added.map((o) => `+${o}`), ...removed.map((o) => `−${o}`)].join(" ");
+    plan.changes.push({ action: "options", name, detail: `options ${detail}` });
+  }
+
+  for (const [name, definition] of additions) {
+    if (definition.type === "title") throw new SchemaError(`property "${name}": a data source has exactly one title property.`);
+    if (!PROPERTY_TYPES.includes(definition.type)) {
+      throw new SchemaError(`property "${name}" has an unknown type "${definition.type}". Types: ${PROPERTY_TYPES.join(", ")}`);
+    }
+    // Changes to existing properties are keyed by their current name
+    if (name in plan.properties) {
+      throw new SchemaError(
+        `can't add "${name}" while renaming the property now called "${name}" — apply the rename first, then add the new property.`,
+      );
+    }
+    if (definition.type === "status" && definition.options?.length) {
+      plan.skipped.push(`options of new status property "${name}" — Notion creates the default ones`);
+    }
+    plan.properties[name] = propertyConfig(definition.type, definition, `property "${name}"`);
+    plan.changes.push({ action: "add", name, detail: describe(definition) });
+  }
+
+  for (const property of current) {
+    if (matched.has(property)) continue;
+    if (property.type === "title") {
+      throw new SchemaError(`the file has no title property; keep "${property.name}" (type: title) in it.`);
+    }
+    plan.properties[property.name] = null;
+    plan.changes.push({ action: "remove", name: property.name, detail: property.type });
+  }
+  return plan;
+}
@@ -9,7 +9,9 @@
  * Request modified at: 2023-09-04T19:06:11.000Z
  */
 
-import type { AppendBlockChildrenResponse, NotionError } from "../../shared/types.js";
+import type { AppendBlockChildrenResponse, BlockInput } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Append child blocks to a parent block or page.
@@ -18,23 +20,25 @@ import type { AppendBlockChildrenResponse, NotionError } from "../../shared/type
  * Returns the newly created first-level children blocks.
  *
  * @param blockId - The ID of the parent block or page
- * @param children - Array of block objects to append
+ * @param children - Blocks to append (at most 100, nested two levels deep)
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns A list response containing the appended blocks
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/patch-block-children
  */
 export async function appendBlockChildren(
   blockId: string,
-  children: unknown[],
+  children: BlockInput[],
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<AppendBlockChildrenResponse> {
   const url = `https://api.notion.com/v1/blocks/${encodeURIComponent(blockId)}/children`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "PATCH",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -48,6 +52,5 @@ export async function appendBlockChildren(
     return (await response.json()) as AppendBlockChildrenResponse;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
@@ -9,7 +9,9 @@
  * Request modified at: 2022-02-24T23:00:56.000Z
  */
 
-import type { NotionBlock, NotionError } from "../../shared/types.js";
+import type { NotionBlock } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Delete (archive) a block.
@@ -20,19 +22,21 @@ import type { NotionBlock, NotionError } from "../../shared/types.js";
  * @param blockId - The ID of the block to delete
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The deleted block object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/delete-a-block
  */
 export async function deleteBlock(
   blockId: string,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionBlock> {
   const url = `https://api.notion.com/v1/blocks/${encodeURIComponent(blockId)}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "DELETE",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -44,6 +48,5 @@ export async function deleteBlock(
     return (await response.json()) as NotionBlock;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
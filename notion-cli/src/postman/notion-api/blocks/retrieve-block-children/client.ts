@@ -12,8 +12,9 @@
 import type {
   RetrieveBlockChildrenParams,
   RetrieveBlockChildrenResponse,
-  NotionError,
 } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Retrieve the children blocks of a block or page.
@@ -25,8 +26,9 @@ import type {
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
  * @param params - Optional pagination parameters
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The list of child blocks
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/get-block-children
  */
@@ -34,7 +36,8 @@ export async function retrieveBlockChildren(
   blockId: string,
   bearerToken: string,
   notionVersion: string,
-  params: RetrieveBlockChildrenParams = {}
+  params: RetrieveBlockChildrenParams = {},
+  transport: Transport = fetch
 ): Promise<RetrieveBlockChildrenResponse> {
   const queryParams = new URLSearchParams();
   if (params.page_size) {
@@ -47,7 +50,7 @@ export async function retrieveBlockChildren(
   const queryString = queryParams.toString();
   const url = `https://api.notion.com/v1/blocks/${encodeURIComponent(blockId)}/children${queryString ? `?${queryString}` : ""}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -59,6 +62,5 @@ export async function retrieveBlockChildren(
     return (await response.json()) as RetrieveBlockChildrenResponse;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
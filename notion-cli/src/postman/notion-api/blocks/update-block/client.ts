@@ -9,7 +9,9 @@
  * Request modified at: 2022-03-02T05:38:38.000Z
  */
 
-import type { NotionBlock, NotionError } from "../../shared/types.js";
+import type { NotionBlock } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Update a block's content.
@@ -24,8 +26,9 @@ import type { NotionBlock, NotionError } from "../../shared/types.js";
  * @param params - Block content to update (varies by block type)
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The updated block object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/update-a-block
  */
@@ -33,11 +36,12 @@ export async function updateBlock(
   blockId: string,
   params: Record<string, unknown>,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionBlock> {
   const url = `https://api.notion.com/v1/blocks/${encodeURIComponent(blockId)}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "PATCH",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -51,6 +55,5 @@ export async function updateBlock(
     return (await response.json()) as NotionBlock;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
@@ -9,7 +9,9 @@
  * Request modified at: 2022-07-20T17:24:32.000Z
  */
 
-import type { NotionComment, NotionError } from "../../shared/types.js";
+import type { NotionComment } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 type RichTextItem = { text: { content: string; link?: { url: string } | null } };
 
@@ -38,17 +40,19 @@ export interface CreateCommentParams {
  * @param params - Comment creation parameters (page comment or discussion reply)
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The created comment object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/create-a-comment
  */
 export async function createComment(
   params: CreateCommentParams,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionComment> {
-  const response = await fetch("https://api.notion.com/v1/comments", {
+  const response = await transport("https://api.notion.com/v1/comments", {
     method: "POST",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -62,6 +66,5 @@ export async function createComment(
     return (await response.json()) as NotionComment;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
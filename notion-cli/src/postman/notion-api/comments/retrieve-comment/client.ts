@@ -9,7 +9,9 @@
  * Request modified at: 2026-02-02T22:36:03.000Z
  */
 
-import type { NotionComment, NotionError } from "../../shared/types.js";
+import type { NotionComment } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Retrieve a single comment by ID.
@@ -17,19 +19,21 @@ import type { NotionComment, NotionError } from "../../shared/types.js";
  * @param commentId - The ID of the comment to retrieve
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The comment object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/retrieve-a-comment
  */
 export async function retrieveComment(
   commentId: string,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionComment> {
   const url = `https://api.notion.com/v1/comments/${encodeURIComponent(commentId)}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -41,6 +45,5 @@ export async function retrieveComment(
     return (await response.json()) as NotionComment;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
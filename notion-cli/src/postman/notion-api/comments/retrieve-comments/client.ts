@@ -9,7 +9,9 @@
  * Request modified at: 2022-07-20T17:24:31.000Z
  */
 
-import type { RetrieveCommentsParams, RetrieveCommentsResponse, NotionError } from "../../shared/types.js";
+import type { RetrieveCommentsParams, RetrieveCommentsResponse } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Retrieve comments for a block or page.
@@ -21,8 +23,9 @@ import type { RetrieveCommentsParams, RetrieveCommentsResponse, NotionError } fr
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
  * @param params - Optional pagination parameters
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns Paginated list of comments
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/retrieve-a-comment
  */
@@ -30,7 +33,8 @@ export async function retrieveComments(
   blockId: string,
   bearerToken: string,
   notionVersion: string,
-  params?: RetrieveCommentsParams
+  params?: RetrieveCommentsParams,
+  transport: Transport = fetch
 ): Promise<RetrieveCommentsResponse> {
   const url = new URL("https://api.notion.com/v1/comments");
   url.searchParams.set("block_id", blockId);
@@ -44,7 +48,7 @@ export async function retrieveComments(
     url.searchParams.set("page_size", "100");
   }
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -56,6 +60,5 @@ export async function retrieveComments(
     return (await response.json()) as RetrieveCommentsResponse;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
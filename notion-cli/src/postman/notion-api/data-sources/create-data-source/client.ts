@@ -12,8 +12,9 @@
 import type {
   CreateDataSourceParams,
   NotionDatabase,
-  NotionError,
 } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Create a new data source in a database.
@@ -23,19 +24,21 @@ import type {
  * @param params - Data source creation parameters (parent, title, properties)
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The created data source object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/create-a-data-source
  */
 export async function createDataSource(
   params: CreateDataSourceParams,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionDatabase> {
   const url = "https://api.notion.com/v1/data_sources";
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -49,6 +52,5 @@ export async function createDataSource(
     return (await response.json()) as NotionDatabase;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
@@ -9,7 +9,8 @@
  * Request modified at: 2026-02-02T22:36:03.000Z
  */
 
-import type { NotionError } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /** A data source template */
 export interface DataSourceTemplate {
@@ -42,8 +43,9 @@ export interface ListDataSourceTemplatesParams {
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
  * @param params - Optional filter and pagination parameters
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns List of available templates
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/list-data-source-templates
  */
@@ -51,7 +53,8 @@ export async function listDataSourceTemplates(
   dataSourceId: string,
   bearerToken: string,
   notionVersion: string,
-  params: ListDataSourceTemplatesParams = {}
+  params: ListDataSourceTemplatesParams = {},
+  transport: Transport = fetch
 ): Promise<ListDataSourceTemplatesResponse> {
   const queryParams = new URLSearchParams();
   if (params.name) queryParams.set("name", params.name);
@@ -61,7 +64,7 @@ export async function listDataSourceTemplates(
   const qs = queryParams.toString();
   const url = `https://api.notion.com/v1/data_sources/${encodeURIComponent(dataSourceId)}/templates${qs ? `?${qs}` : ""}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -73,6 +76,5 @@ export async function listDataSourceTemplates(
     return (await response.json()) as ListDataSourceTemplatesResponse;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
@@ -12,8 +12,9 @@
 import type {
   QueryDataSourceParams,
   QueryDataSourceResponse,
-  NotionError,
 } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Query a data source.
@@ -29,8 +30,9 @@ import type {
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
  * @param params - Optional filter, sort, and pagination parameters
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns Paginated list of pages in the data source
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/post-data-source-query
  */
@@ -38,11 +40,12 @@ export async function queryDataSource(
   dataSourceId: string,
   bearerToken: string,
   notionVersion: string,
-  params: QueryDataSourceParams = {}
+  params: QueryDataSourceParams = {},
+  transport: Transport = fetch
 ): Promise<QueryDataSourceResponse> {
   const url = `https://api.notion.com/v1/data_sources/${encodeURIComponent(dataSourceId)}/query`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -56,6 +59,5 @@ export async function queryDataSource(
     return (await response.json()) as QueryDataSourceResponse;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
@@ -9,7 +9,9 @@
  * Request modified at: 2026-02-02T22:36:03.000Z
  */
 
-import type { NotionDatabase, NotionError } from "../../shared/types.js";
+import type { NotionDatabase } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Retrieve a data source by ID.
@@ -21,19 +23,21 @@ import type { NotionDatabase, NotionError } from "../../shared/types.js";
  * @param dataSourceId - The ID of the data source to retrieve
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The data source object with schema
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/retrieve-a-data-source
  */
 export async function retrieveDataSource(
   dataSourceId: string,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionDatabase> {
   const url = `https://api.notion.com/v1/data_sources/${encodeURIComponent(dataSourceId)}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -45,6 +49,5 @@ export async function retrieveDataSource(
     return (await response.json()) as NotionDatabase;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
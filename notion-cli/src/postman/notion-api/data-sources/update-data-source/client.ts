@@ -12,8 +12,9 @@
 import type {
   UpdateDataSourceParams,
   NotionDatabase,
-  NotionError,
 } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Update a data source.
@@ -24,8 +25,9 @@ import type {
  * @param params - Properties to update (title, properties schema)
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The updated data source object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/update-a-data-source
  */
@@ -33,11 +35,12 @@ export async function updateDataSource(
   dataSourceId: string,
   params: UpdateDataSourceParams,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionDatabase> {
   const url = `https://api.notion.com/v1/data_sources/${encodeURIComponent(dataSourceId)}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "PATCH",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -51,6 +54,5 @@ export async function updateDataSource(
     return (await response.json()) as NotionDatabase;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
@@ -9,7 +9,9 @@
  * Request modified at: 2022-03-02T05:38:33.000Z
  */
 
-import type { CreateDatabaseParams, NotionDatabase, NotionError } from "../../shared/types.js";
+import type { CreateDatabaseParams, NotionDatabase } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Create a database as a child of a page.
@@ -20,17 +22,19 @@ import type { CreateDatabaseParams, NotionDatabase, NotionError } from "../../sh
  * @param params - Database creation parameters (parent, title, properties)
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The created database object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/create-a-database
  */
 export async function createDatabase(
   params: CreateDatabaseParams,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionDatabase> {
-  const response = await fetch("https://api.notion.com/v1/databases", {
+  const response = await transport("https://api.notion.com/v1/databases", {
     method: "POST",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -44,6 +48,5 @@ export async function createDatabase(
     return (await response.json()) as NotionDatabase;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
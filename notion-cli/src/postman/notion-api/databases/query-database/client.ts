@@ -14,8 +14,9 @@
 import type {
   QueryDatabaseParams,
   QueryDatabaseResponse,
-  NotionError,
 } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Query a database.
@@ -27,8 +28,9 @@ import type {
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
  * @param params - Optional filter, sort, and pagination parameters
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns Paginated list of pages in the database
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/post-database-query
  */
@@ -36,11 +38,12 @@ export async function queryDatabase(
   databaseId: string,
   bearerToken: string,
   notionVersion: string,
-  params: QueryDatabaseParams = {}
+  params: QueryDatabaseParams = {},
+  transport: Transport = fetch
 ): Promise<QueryDatabaseResponse> {
   const url = `https://api.notion.com/v1/databases/${encodeURIComponent(databaseId)}/query`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -54,6 +57,5 @@ export async function queryDatabase(
     return (await response.json()) as QueryDatabaseResponse;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
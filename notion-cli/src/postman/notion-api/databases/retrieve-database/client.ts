@@ -9,7 +9,9 @@
  * Request modified at: 2022-03-02T05:38:32.000Z
  */
 
-import type { NotionDatabase, NotionError } from "../../shared/types.js";
+import type { NotionDatabase } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Retrieve a database by ID.
@@ -20,19 +22,21 @@ import type { NotionDatabase, NotionError } from "../../shared/types.js";
  * @param databaseId - The ID of the database to retrieve
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The database object with schema
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/retrieve-a-database
  */
 export async function retrieveDatabase(
   databaseId: string,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionDatabase> {
   const url = `https://api.notion.com/v1/databases/${encodeURIComponent(databaseId)}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -44,6 +48,5 @@ export async function retrieveDatabase(
     return (await response.json()) as NotionDatabase;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
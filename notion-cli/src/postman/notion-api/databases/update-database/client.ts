@@ -9,7 +9,9 @@
  * Request modified at: 2023-09-04T19:04:51.000Z
  */
 
-import type { UpdateDatabaseParams, NotionDatabase, NotionError } from "../../shared/types.js";
+import type { UpdateDatabaseParams, NotionDatabase } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Update a database's title, description, or properties.
@@ -21,8 +23,9 @@ import type { UpdateDatabaseParams, NotionDatabase, NotionError } from "../../sh
  * @param params - Fields to update (title, description, properties)
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The updated database object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/update-a-database
  */
@@ -30,11 +33,12 @@ export async function updateDatabase(
   databaseId: string,
   params: UpdateDatabaseParams,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionDatabase> {
   const url = `https://api.notion.com/v1/databases/${encodeURIComponent(databaseId)}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "PATCH",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -48,6 +52,5 @@ export async function updateDatabase(
     return (await response.json()) as NotionDatabase;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
@@ -9,7 +9,8 @@
  * Request modified at: 2026-02-02T22:34:48.000Z
  */
 
-import type { NotionError } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /** Parameters for creating a file upload */
 export interface CreateFileUploadParams {
@@ -49,19 +50,21 @@ export interface FileUpload {
  * @param params - File upload parameters (mode, filename, content_type)
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The created file upload object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/create-a-file-upload
  */
 export async function createFileUpload(
   params: CreateFileUploadParams,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<FileUpload> {
   const url = "https://api.notion.com/v1/file_uploads";
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -75,6 +78,5 @@ export async function createFileUpload(
     return (await response.json()) as FileUpload;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
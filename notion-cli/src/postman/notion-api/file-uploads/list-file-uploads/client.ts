@@ -9,7 +9,8 @@
  * Request modified at: 2026-02-02T22:34:48.000Z
  */
 
-import type { NotionError } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 import type { FileUpload } from "../create-file-upload/client.js";
 
 /** Response from list file uploads endpoint */
@@ -36,13 +37,15 @@ export interface ListFileUploadsParams {
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
  * @param params - Optional pagination parameters
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns Paginated list of file uploads
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  */
 export async function listFileUploads(
   bearerToken: string,
   notionVersion: string,
-  params: ListFileUploadsParams = {}
+  params: ListFileUploadsParams = {},
+  transport: Transport = fetch
 ): Promise<ListFileUploadsResponse> {
   const queryParams = new URLSearchParams();
   if (params.start_cursor) queryParams.set("start_cursor", params.start_cursor);
@@ -51,7 +54,7 @@ export async function listFileUploads(
   const qs = queryParams.toString();
   const url = `https://api.notion.com/v1/file_uploads${qs ? `?${qs}` : ""}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -63,6 +66,5 @@ export async function listFileUploads(
     return (await response.json()) as ListFileUploadsResponse;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
@@ -9,7 +9,8 @@
  * Request modified at: 2026-02-02T22:37:45.000Z
  */
 
-import type { NotionError } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 import type { FileUpload } from "../create-file-upload/client.js";
 
 /**
@@ -18,17 +19,19 @@ import type { FileUpload } from "../create-file-upload/client.js";
  * @param fileUploadId - The ID of the file upload to retrieve
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The file upload object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  */
 export async function retrieveFileUpload(
   fileUploadId: string,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<FileUpload> {
   const url = `https://api.notion.com/v1/file_uploads/${encodeURIComponent(fileUploadId)}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -40,6 +43,5 @@ export async function retrieveFileUpload(
     return (await response.json()) as FileUpload;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
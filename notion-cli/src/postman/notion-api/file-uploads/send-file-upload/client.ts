@@ -9,7 +9,8 @@
  * Request modified at: 2026-02-02T22:37:45.000Z
  */
 
-import type { NotionError } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 import type { FileUpload } from "../create-file-upload/client.js";
 
 /**
@@ -25,8 +26,9 @@ import type { FileUpload } from "../create-file-upload/client.js";
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
  * @param partNumber - Optional part number for multi-part uploads
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The updated file upload object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/send-a-file-upload
  */
@@ -36,7 +38,8 @@ export async function sendFileUpload(
   filename: string,
   bearerToken: string,
   notionVersion: string,
-  partNumber?: number
+  partNumber?: number,
+  transport: Transport = fetch
 ): Promise<FileUpload> {
   const url = `https://api.notion.com/v1/file_uploads/${encodeURIComponent(fileUploadId)}/send`;
 
@@ -46,7 +49,7 @@ export async function sendFileUpload(
     formData.append("part_number", String(partNumber));
   }
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -60,6 +63,5 @@ export async function sendFileUpload(
     return (await response.json()) as FileUpload;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
@@ -13,6 +13,18 @@
  *   const children = await notion.blocks.retrieveChildren(id);
  *   const hits = await notion.search();
  *
+ *   // Walk every page of a list endpoint without handling cursors
+ *   for await (const entry of notion.paginate.dataSourceQuery(dataSourceId)) { ... }
+ *
+ *   // Typed query filters and sorts
+ *   await notion.dataSources.query(dataSourceId, {
+ *     filter: filter.and(filter.status("Status").equals("Done"), filter.number("Priority").greaterThan(2)),
+ *     sorts: [sort.property("Due").descending()],
+ *   });
+ *
+ * Failed requests throw a NotionApiError subclass (ObjectNotFoundError,
+ * RateLimitedError, ...) carrying the status, Notion error code, and request ID.
+ *
  * The bearer token and collection-level variables like the Notion API
  * version are provided at instantiation — callers only need to supply
  * resource IDs and optional request parameters.
@@ -54,6 +66,9 @@ import { oauthToken as _oauthToken } from "./oauth/token/client.js";
 import { oauthRevoke as _oauthRevoke } from "./oauth/revoke/client.js";
 import { oauthIntrospect as _oauthIntrospect } from "./oauth/introspect/client.js";
 import { variables } from "./shared/variables.js";
+import { createTransport, type TransportOptions } from "./shared/transport.js";
+import { createScheduler, type SchedulerOptions } from "./shared/scheduler.js";
+import { iteratePaginated, type PaginateOptions } from "./shared/pagination.js";
 
 import type {
   NotionComment,
@@ -63,6 +78,7 @@ import type {
   RetrieveBlockChildrenParams,
   RetrieveBlockChildrenResponse,
   AppendBlockChildrenResponse,
+  BlockInput,
   QueryDatabaseParams,
   QueryDatabaseResponse,
   QueryDataSourceParams,
@@ -80,12 +96,13 @@ import type {
   NotionPage,
   NotionUser,
   PagePropertyItemResponse,
+  PropertyItem,
   SearchParams,
   SearchResponse,
 } from "./shared/types.js";
 
 import type { CreateCommentParams } from "./comments/create-comment/client.js";
-import type { ListDataSourceTemplatesResponse, ListDataSourceTemplatesParams } from "./data-sources/list-data-source-templates/client.js";
+import type { ListDataSourceTemplatesResponse, ListDataSourceTemplatesParams, DataSourceTemplate } from "./data-sources/list-data-source-templates/client.js";
 import type { CreateFileUploadParams, FileUpload } from "./file-uploads/create-file-upload/client.js";
 import type { ListFileUploadsParams, ListFileUploadsResponse } from "./file-uploads/list-file-uploads/client.js";
 import type { OAuthTokenParams, OAuthTokenResponse } from "./oauth/token/client.js";
@@ -93,134 +110,241 @@ import type { OAuthIntrospectResponse } from "./oauth/introspect/client.js";
 
 const { NOTION_VERSION } = variables.collection;
 
+/** Options for createNotionClient */
+export interface NotionClientOptions extends TransportOptions {
+  /** Rate and concurrency limits for the client's own scheduler (ignored when `scheduler` is given) */
+  rateLimit?: SchedulerOptions;
+}
+
 /**
  * Create a Notion API client bound to the given bearer token.
  *
  * Collection-level variables (like the API version) are read from
  * shared/variables.ts and injected into every request automatically.
+ * Requests go through a shared transport that paces them with a
+ * token-bucket scheduler (~3 requests/second, a few in flight at once)
+ * and retries rate-limited (429) and transient gateway (502/503/504)
+ * responses. Pass the same `scheduler` to several clients to share limits.
  *
  * @param bearerToken - Notion API bearer token (integration secret)
+ * @param options - Retry policy, rate limits, base URL override, and fetch implementation
  */
-export function createNotionClient(bearerToken: string) {
+export function createNotionClient(bearerToken: string, options: NotionClientOptions = {}) {
+  const scheduler = options.scheduler ?? createScheduler(options.rateLimit);
+  const transport = createTransport({ ...options, scheduler });
+
   return {
     comments: {
       list: (
         blockId: string,
         params?: RetrieveCommentsParams
       ): Promise<RetrieveCommentsResponse> =>
-        _retrieveComments(blockId, bearerToken, NOTION_VERSION, params),
+        _retrieveComments(blockId, bearerToken, NOTION_VERSION, params, transport),
       retrieve: (commentId: string): Promise<NotionComment> =>
-        _retrieveComment(commentId, bearerToken, NOTION_VERSION),
+        _retrieveComment(commentId, bearerToken, NOTION_VERSION, transport),
       create: (params: CreateCommentParams): Promise<NotionComment> =>
-        _createComment(params, bearerToken, NOTION_VERSION),
+        _createComment(params, bearerToken, NOTION_VERSION, transport),
     },
     blocks: {
       retrieve: (blockId: string): Promise<NotionBlock> =>
-        _retrieveBlock(blockId, bearerToken, NOTION_VERSION),
+        _retrieveBlock(blockId, bearerToken, NOTION_VERSION, transport),
       retrieveChildren: (
         blockId: string,
         params?: RetrieveBlockChildrenParams
       ): Promise<RetrieveBlockChildrenResponse> =>
-        _retrieveBlockChildren(blockId, bearerToken, NOTION_VERSION, params),
+        _retrieveBlockChildren(blockId, bearerToken, NOTION_VERSION, params, transport),
       appendChildren: (
         blockId: string,
-        children: unknown[]
+        children: BlockInput[]
       ): Promise<AppendBlockChildrenResponse> =>
-        _appendBlockChildren(blockId, children, bearerToken, NOTION_VERSION),
+        _appendBlockChildren(blockId, children, bearerToken, NOTION_VERSION, transport),
       update: (
         blockId: string,
         params: Record<string, unknown>
       ): Promise<NotionBlock> =>
-        _updateBlock(blockId, params, bearerToken, NOTION_VERSION),
+        _updateBlock(blockId, params, bearerToken, NOTION_VERSION, transport),
       delete: (blockId: string): Promise<NotionBlock> =>
-        _deleteBlock(blockId, bearerToken, NOTION_VERSION),
+        _deleteBlock(blockId, bearerToken, NOTION_VERSION, transport),
     },
     databases: {
       retrieve: (databaseId: string): Promise<NotionDatabase> =>
-        _retrieveDatabase(databaseId, bearerToken, NOTION_VERSION),
+        _retrieveDatabase(databaseId, bearerToken, NOTION_VERSION, transport),
       /** @deprecated Use dataSources.query() instead — database query is removed in API 2025-09-03 */
       query: (
         databaseId: string,
         params?: QueryDatabaseParams
       ): Promise<QueryDatabaseResponse> =>
-        _queryDatabase(databaseId, bearerToken, NOTION_VERSION, params),
+        _queryDatabase(databaseId, bearerToken, NOTION_VERSION, params, transport),
       create: (params: CreateDatabaseParams): Promise<NotionDatabase> =>
-        _createDatabase(params, bearerToken, NOTION_VERSION),
+        _createDatabase(params, bearerToken, NOTION_VERSION, transport),
       update: (
         databaseId: string,
         params: UpdateDatabaseParams
       ): Promise<NotionDatabase> =>
-        _updateDatabase(databaseId, params, bearerToken, NOTION_VERSION),
+        _updateDatabase(databaseId, params, bearerToken, NOTION_VERSION, transport),
     },
     dataSources: {
       retrieve: (dataSourceId: string): Promise<NotionDatabase> =>
-        _retrieveDataSource(dataSourceId, bearerToken, NOTION_VERSION),
+        _retrieveDataSource(dataSourceId, bearerToken, NOTION_VERSION, transport),
       query: (
         dataSourceId: string,
         params?: QueryDataSourceParams
       ): Promise<QueryDataSourceResponse> =>
-        _queryDataSource(dataSourceId, bearerToken, NOTION_VERSION, params),
+        _queryDataSource(dataSourceId, bearerToken, NOTION_VERSION, params, transport),
       create: (params: CreateDataSourceParams): Promise<NotionDatabase> =>
-        _createDataSource(params, bearerToken, NOTION_VERSION),
+        _createDataSource(params, bearerToken, NOTION_VERSION, transport),
       update: (
         dataSourceId: string,
         params: UpdateDataSourceParams
       ): Promise<NotionDatabase> =>
-        _updateDataSource(dataSourceId, params, bearerToken, NOTION_VERSION),
+        _updateDataSource(dataSourceId, params, bearerToken, NOTION_VERSION, transport),
       listTemplates: (dataSourceId: string, params?: ListDataSourceTemplatesParams): Promise<ListDataSourceTemplatesResponse> =>
-        _listDataSourceTemplates(dataSourceId, bearerToken, NOTION_VERSION, params),
+        _listDataSourceTemplates(dataSourceId, bearerToken, NOTION_VERSION, params, transport),
     },
     pages: {
       create: (params: CreatePageParams): Promise<NotionPage> =>
-        _createPage(params, bearerToken, NOTION_VERSION),
+        _createPage(params, bearerToken, NOTION_VERSION, transport),
       update: (pageId: string, params: UpdatePageParams): Promise<NotionPage> =>
-        _updatePageProperties(pageId, params, bearerToken, NOTION_VERSION),
+        _updatePageProperties(pageId, params, bearerToken, NOTION_VERSION, transport),
       archive: (pageId: string): Promise<NotionPage> =>
-        _archivePage(pageId, bearerToken, NOTION_VERSION),
+        _archivePage(pageId, bearerToken, NOTION_VERSION, transport),
       retrieve: (pageId: string): Promise<NotionPage> =>
-        _retrievePage(pageId, bearerToken, NOTION_VERSION),
+        _retrievePage(pageId, bearerToken, NOTION_VERSION, transport),
       retrieveProperty: (
         pageId: string,
         propertyId: string,
         params?: { start_cursor?: string; page_size?: number }
       ): Promise<PagePropertyItemResponse> =>
-        _retrievePageProperty(pageId, propertyId, bearerToken, NOTION_VERSION, params),
+        _retrievePageProperty(pageId, propertyId, bearerToken, NOTION_VERSION, params, transport),
       move: (pageId: string, params: MovePageParams): Promise<NotionPage> =>
-        _movePage(pageId, params, bearerToken, NOTION_VERSION),
+        _movePage(pageId, params, bearerToken, NOTION_VERSION, transport),
     },
     search: (params?: SearchParams): Promise<SearchResponse> =>
-      _search(bearerToken, NOTION_VERSION, params),
+      _search(bearerToken, NOTION_VERSION, params, transport),
     users: {
       me: (): Promise<NotionUser> =>
-        _retrieveBotUser(bearerToken, NOTION_VERSION),
+        _retrieveBotUser(bearerToken, NOTION_VERSION, transport),
       retrieve: (userId: string): Promise<NotionUser> =>
-        _retrieveUser(userId, bearerToken, NOTION_VERSION),
+        _retrieveUser(userId, bearerToken, NOTION_VERSION, transport),
       list: (params?: ListUsersParams): Promise<ListUsersResponse> =>
-        _listUsers(bearerToken, NOTION_VERSION, params),
+        _listUsers(bearerToken, NOTION_VERSION, params, transport),
     },
     fileUploads: {
       create: (params: CreateFileUploadParams): Promise<FileUpload> =>
-        _createFileUpload(params, bearerToken, NOTION_VERSION),
+        _createFileUpload(params, bearerToken, NOTION_VERSION, transport),
       send: (fileUploadId: string, file: Blob, filename: string, partNumber?: number): Promise<FileUpload> =>
-        _sendFileUpload(fileUploadId, file, filename, bearerToken, NOTION_VERSION, partNumber),
+        _sendFileUpload(fileUploadId, file, filename, bearerToken, NOTION_VERSION, partNumber, transport),
       complete: (fileUploadId: string): Promise<FileUpload> =>
-        _completeFileUpload(fileUploadId, bearerToken, NOTION_VERSION),
+        _completeFileUpload(fileUploadId, bearerToken, NOTION_VERSION, transport),
       retrieve: (fileUploadId: string): Promise<FileUpload> =>
-        _retrieveFileUpload(fileUploadId, bearerToken, NOTION_VERSION),
+        _retrieveFileUpload(fileUploadId, bearerToken, NOTION_VERSION, transport),
       list: (params?: ListFileUploadsParams): Promise<ListFileUploadsResponse> =>
-        _listFileUploads(bearerToken, NOTION_VERSION, params),
+        _listFileUploads(bearerToken, NOTION_VERSION, params, transport),
+    },
+    /**
+     * Async iterators over every item of each list endpoint. Cursors are
+     * followed automatically; pass { maxItems } to stop early. Pagination
+     * params (start_cursor, page_size) are managed by the iterator.
+     */
+    paginate: {
+      search: (
+        params?: Omit<SearchParams, "start_cursor" | "page_size">,
+        options?: PaginateOptions
+      ): AsyncGenerator<NotionPage | NotionDatabase, void, undefined> =>
+        iteratePaginated(
+          (start_cursor, page_size) =>
+            _search(bearerToken, NOTION_VERSION, { ...params, start_cursor, page_size }, transport),
+          options
+        ),
+      dataSourceQuery: (
+        dataSourceId: string,
+        params?: Omit<QueryDataSourceParams, "start_cursor" | "page_size">,
+        options?: PaginateOptions
+      ): AsyncGenerator<NotionPage, void, undefined> =>
+        iteratePaginated(
+          (start_cursor, page_size) =>
+            _queryDataSource(dataSourceId, bearerToken, NOTION_VERSION, { ...params, start_cursor, page_size }, transport),
+          options
+        ),
+      blockChildren: (
+        blockId: string,
+        options?: PaginateOptions
+      ): AsyncGenerator<NotionBlock, void, undefined> =>
+        iteratePaginated(
+          (start_cursor, page_size) =>
+            _retrieveBlockChildren(blockId, bearerToken, NOTION_VERSION, { start_cursor, page_size }, transport),
+          options
+        ),
+      users: (options?: PaginateOptions): AsyncGenerator<NotionUser, void, undefined> =>
+        iteratePaginated(
+          (start_cursor, page_size) =>
+            _listUsers(bearerToken, NOTION_VERSION, { start_cursor, page_size }, transport),
+          options
+        ),
+      comments: (
+        blockId: string,
+        options?: PaginateOptions
+      ): AsyncGenerator<NotionComment, void, undefined> =>
+        iteratePaginated(
+          (start_cursor, page_size) =>
+            _retrieveComments(blockId, bearerToken, NOTION_VERSION, { start_cursor, page_size }, transport),
+          options
+        ),
+      fileUploads: (options?: PaginateOptions): AsyncGenerator<FileUpload, void, undefined> =>
+        iteratePaginated(
+          (start_cursor, page_size) =>
+            _listFileUploads(bearerToken, NOTION_VERSION, { start_cursor, page_size }, transport),
+          options
+        ),
+      pageProperty: (
+        pageId: string,
+        propertyId: string,
+        options?: PaginateOptions
+      ): AsyncGenerator<PropertyItem, void, undefined> =>
+        iteratePaginated(
+          async (start_cursor, page_size) => {
+            // Single-value properties come back as one property_item
+            const response = await _retrievePageProperty(
+              pageId, propertyId, bearerToken, NOTION_VERSION, { start_cursor, page_size }, transport
+            );
+            return {
+              results: response.results ?? [response as PropertyItem],
+              next_cursor: response.next_cursor ?? null,
+              has_more: response.has_more ?? false,
+            };
+          },
+          options
+        ),
+      dataSourceTemplates: (
+        dataSourceId: string,
+        params?: Omit<ListDataSourceTemplatesParams, "start_cursor" | "page_size">,
+        options?: PaginateOptions
+      ): AsyncGenerator<DataSourceTemplate, void, undefined> =>
+        iteratePaginated(
+          async (start_cursor, page_size) => {
+            // Templates come back under "templates" rather than "results"
+            const response = await _listDataSourceTemplates(
+              dataSourceId, bearerToken, NOTION_VERSION, { ...params, start_cursor, page_size }, transport
+            );
+            return { ...response, results: response.templates };
+          },
+          options
+        ),
     },
     oauth: {
       token: (params: OAuthTokenParams, clientId: string, clientSecret: string): Promise<OAuthTokenResponse> =>
-        _oauthToken(params, clientId, clientSecret),
+        _oauthToken(params, clientId, clientSecret, transport),
       revoke: (token: string, clientId: string, clientSecret: string): Promise<void> =>
-        _oauthRevoke(token, clientId, clientSecret),
+        _oauthRevoke(token, clientId, clientSecret, transport),
       introspect: (token: string, clientId: string, clientSecret: string): Promise<OAuthIntrospectResponse> =>
-        _oauthIntrospect(token, clientId, clientSecret),
+        _oauthIntrospect(token, clientId, clientSecret, transport),
     },
   } as const;
 }
 
+/** The client object returned by createNotionClient */
+export type NotionClient = ReturnType<typeof createNotionClient>;
+
 // Re-export all types for convenient access
 export type {
   // Core objects
@@ -235,15 +359,51 @@ export type {
   PageParent,
   RichTextAnnotations,
   RichTextItem,
+  Mention,
+  TemplateMention,
+  NotionBlockOf,
+  BlockType,
+  BlockBase,
+  BlockContentMap,
+  TextBlockContent,
+  HeadingBlockContent,
+  MediaBlockContent,
+  NotionColor,
+  NotionIcon,
+  FileObject,
+  // Block creation
+  BlockInput,
+  BlockInputOf,
+  BlockInputMap,
+  CreatableBlockType,
+  TextBlockInput,
+  MediaBlockInput,
+  RichTextInput,
+  MentionInput,
+  IconInput,
   PropertyValue,
+  PropertyValueType,
+  PropertyValueOf,
+  PropertyValueMap,
+  PartialUser,
+  SelectOptionValue,
+  DateValue,
+  FileValue,
+  FormulaValue,
+  RollupValue,
+  RollupArrayItem,
+  UniqueIdValue,
+  VerificationValue,
   DatabasePropertySchema,
   DatabaseParent,
   DataSourceReference,
   // Page params/responses
   CreatePageParams,
+  PageTemplateSelection,
   UpdatePageParams,
   MovePageParams,
   PagePropertyItemResponse,
+  PropertyItem,
   // Database params
   CreateDatabaseParams,
   UpdateDatabaseParams,
@@ -262,6 +422,29 @@ export type {
   SearchParams,
   SearchFilter,
   SearchSort,
+  // Query filters and sorts
+  QueryFilter,
+  PropertyFilter,
+  TimestampFilter,
+  CompoundFilter,
+  QuerySort,
+  SortDirection,
+  TextFilterCondition,
+  NumberFilterCondition,
+  UniqueIdFilterCondition,
+  CheckboxFilterCondition,
+  SelectFilterCondition,
+  StatusFilterCondition,
+  MultiSelectFilterCondition,
+  DateFilterCondition,
+  DateFilterValue,
+  RelativeDate,
+  PeopleFilterCondition,
+  RelationFilterCondition,
+  FilesFilterCondition,
+  FormulaFilterCondition,
+  RollupFilterCondition,
+  RollupItemFilterCondition,
   // Response types
   RetrieveCommentsResponse,
   RetrieveBlockChildrenResponse,
@@ -291,5 +474,33 @@ export type { OAuthIntrospectResponse } from "./oauth/introspect/client.js";
 // Re-export comment types
 export type { CreateCommentParams } from "./comments/create-comment/client.js";
 
+// Re-export error classes
+export {
+  NotionApiError,
+  ValidationError,
+  UnauthorizedError,
+  RestrictedResourceError,
+  ObjectNotFoundError,
+  ConflictError,
+  RateLimitedError,
+  ServerError,
+  notionErrorFromResponse,
+} from "./shared/errors.js";
+
+// Re-export transport types and defaults
+export type { Transport, TransportOptions, RetryOptions, RetryEvent } from "./shared/transport.js";
+export { createTransport, NOTION_API_BASE_URL, RETRYABLE_STATUSES } from "./shared/transport.js";
+
+// Re-export scheduler types and factory
+export type { RequestScheduler, SchedulerOptions } from "./shared/scheduler.js";
+export { createScheduler } from "./shared/scheduler.js";
+
+// Re-export pagination helpers
+export type { PaginatedList, PaginateOptions } from "./shared/pagination.js";
+export { iteratePaginated, collectAll, MAX_PAGE_SIZE } from "./shared/pagination.js";
+
+// Re-export query filter and sort builders
+export { filter, sort } from "./shared/filters.js";
+
 // Re-export collection variables
 export { variables } from "./shared/variables.js";
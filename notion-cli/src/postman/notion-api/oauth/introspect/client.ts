@@ -9,7 +9,8 @@
  * Request modified at: 2026-02-02T22:34:48.000Z
  */
 
-import type { NotionError } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /** Response from the OAuth introspect endpoint */
 export interface OAuthIntrospectResponse {
@@ -32,18 +33,20 @@ export interface OAuthIntrospectResponse {
  * @param token - The token to introspect
  * @param clientId - OAuth client ID
  * @param clientSecret - OAuth client secret
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns Token metadata including active status
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  */
 export async function oauthIntrospect(
   token: string,
   clientId: string,
-  clientSecret: string
+  clientSecret: string,
+  transport: Transport = fetch
 ): Promise<OAuthIntrospectResponse> {
   const url = "https://api.notion.com/v1/oauth/introspect";
   const credentials = btoa(`${clientId}:${clientSecret}`);
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "POST",
     headers: {
       Authorization: `Basic ${credentials}`,
@@ -56,6 +59,5 @@ export async function oauthIntrospect(
     return (await response.json()) as OAuthIntrospectResponse;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
@@ -9,7 +9,8 @@
  * Request modified at: 2026-02-02T22:34:48.000Z
  */
 
-import type { NotionError } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Revoke an access token or refresh token.
@@ -19,17 +20,19 @@ import type { NotionError } from "../../shared/types.js";
  * @param token - The token to revoke
  * @param clientId - OAuth client ID
  * @param clientSecret - OAuth client secret
- * @throws Error if the request fails
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
+ * @throws NotionApiError if the request fails
  */
 export async function oauthRevoke(
   token: string,
   clientId: string,
-  clientSecret: string
+  clientSecret: string,
+  transport: Transport = fetch
 ): Promise<void> {
   const url = "https://api.notion.com/v1/oauth/revoke";
   const credentials = btoa(`${clientId}:${clientSecret}`);
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "POST",
     headers: {
       Authorization: `Basic ${credentials}`,
@@ -39,7 +42,6 @@ export async function oauthRevoke(
   });
 
   if (!response.ok) {
-    const error = (await response.json()) as NotionError;
-    throw new Error(`Notion API error (${response.status}): ${error.message}`);
+    throw await notionErrorFromResponse(response);
   }
 }
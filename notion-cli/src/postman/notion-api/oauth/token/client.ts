@@ -9,7 +9,8 @@
  * Request modified at: 2026-02-02T22:34:48.000Z
  */
 
-import type { NotionError } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /** Parameters for the OAuth token exchange */
 export interface OAuthTokenParams {
@@ -42,18 +43,20 @@ export interface OAuthTokenResponse {
  * @param params - Token exchange parameters (grant_type, code, redirect_uri)
  * @param clientId - OAuth client ID
  * @param clientSecret - OAuth client secret
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The OAuth token response with access_token
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  */
 export async function oauthToken(
   params: OAuthTokenParams,
   clientId: string,
-  clientSecret: string
+  clientSecret: string,
+  transport: Transport = fetch
 ): Promise<OAuthTokenResponse> {
   const url = "https://api.notion.com/v1/oauth/token";
   const credentials = btoa(`${clientId}:${clientSecret}`);
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "POST",
     headers: {
       Authorization: `Basic ${credentials}`,
@@ -66,6 +69,5 @@ export async function oauthToken(
     return (await response.json()) as OAuthTokenResponse;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
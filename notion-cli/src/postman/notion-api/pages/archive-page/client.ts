@@ -10,7 +10,9 @@
  * Request modified at: 2023-09-05T16:35:20.000Z
  */
 
-import type { NotionPage, NotionError } from "../../shared/types.js";
+import type { NotionPage } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Archive (soft-delete) a page.
@@ -21,19 +23,21 @@ import type { NotionPage, NotionError } from "../../shared/types.js";
  * @param pageId - The ID of the page to archive
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The archived page object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/archive-a-page
  */
 export async function archivePage(
   pageId: string,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionPage> {
   const url = `https://api.notion.com/v1/pages/${encodeURIComponent(pageId)}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "PATCH",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -47,6 +51,5 @@ export async function archivePage(
     return (await response.json()) as NotionPage;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
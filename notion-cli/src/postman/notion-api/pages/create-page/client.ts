@@ -9,7 +9,9 @@
  * Request modified at: 2023-09-04T19:05:19.000Z
  */
 
-import type { CreatePageParams, NotionPage, NotionError } from "../../shared/types.js";
+import type { CreatePageParams, NotionPage } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Create a new page in Notion.
@@ -20,17 +22,19 @@ import type { CreatePageParams, NotionPage, NotionError } from "../../shared/typ
  * @param params - Page creation parameters (parent, properties, optional children)
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The created page object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/post-page
  */
 export async function createPage(
   params: CreatePageParams,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionPage> {
-  const response = await fetch("https://api.notion.com/v1/pages/", {
+  const response = await transport("https://api.notion.com/v1/pages/", {
     method: "POST",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -44,6 +48,5 @@ export async function createPage(
     return (await response.json()) as NotionPage;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
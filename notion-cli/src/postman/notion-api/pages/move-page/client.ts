@@ -12,8 +12,9 @@
 import type {
   MovePageParams,
   NotionPage,
-  NotionError,
 } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Move a page to a new parent page or database.
@@ -22,8 +23,9 @@ import type {
  * @param params - The new parent specification
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The updated page object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/move-a-page
  */
@@ -31,11 +33,12 @@ export async function movePage(
   pageId: string,
   params: MovePageParams,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionPage> {
   const url = `https://api.notion.com/v1/pages/${encodeURIComponent(pageId)}/move`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -49,6 +52,5 @@ export async function movePage(
     return (await response.json()) as NotionPage;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
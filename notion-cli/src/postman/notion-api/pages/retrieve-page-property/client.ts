@@ -9,7 +9,9 @@
  * Request modified at: 2023-09-05T16:45:46.000Z
  */
 
-import type { PagePropertyItemResponse, NotionError } from "../../shared/types.js";
+import type { PagePropertyItemResponse } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Retrieve a page property item by page ID and property ID.
@@ -23,8 +25,9 @@ import type { PagePropertyItemResponse, NotionError } from "../../shared/types.j
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
  * @param params - Optional pagination parameters
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The property item (or paginated list of property items)
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/retrieve-a-page-property
  */
@@ -33,7 +36,8 @@ export async function retrievePageProperty(
   propertyId: string,
   bearerToken: string,
   notionVersion: string,
-  params?: { start_cursor?: string; page_size?: number }
+  params?: { start_cursor?: string; page_size?: number },
+  transport: Transport = fetch
 ): Promise<PagePropertyItemResponse> {
   const url = new URL(
     `https://api.notion.com/v1/pages/${encodeURIComponent(pageId)}/properties/${encodeURIComponent(propertyId)}`
@@ -46,7 +50,7 @@ export async function retrievePageProperty(
     url.searchParams.set("page_size", String(params.page_size));
   }
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -58,6 +62,5 @@ export async function retrievePageProperty(
     return (await response.json()) as PagePropertyItemResponse;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
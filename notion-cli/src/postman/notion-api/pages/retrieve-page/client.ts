@@ -9,7 +9,9 @@
  * Request modified at: 2023-09-04T19:08:43.000Z
  */
 
-import type { NotionPage, NotionError } from "../../shared/types.js";
+import type { NotionPage } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Retrieve a page by ID.
@@ -20,19 +22,21 @@ import type { NotionPage, NotionError } from "../../shared/types.js";
  * @param pageId - The ID of the page to retrieve
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The page object with properties
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/retrieve-a-page
  */
 export async function retrievePage(
   pageId: string,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionPage> {
   const url = `https://api.notion.com/v1/pages/${encodeURIComponent(pageId)}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -44,6 +48,5 @@ export async function retrievePage(
     return (await response.json()) as NotionPage;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
@@ -9,7 +9,9 @@
  * Request modified at: 2023-09-04T19:08:43.000Z
  */
 
-import type { UpdatePageParams, NotionPage, NotionError } from "../../shared/types.js";
+import type { UpdatePageParams, NotionPage } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Update a page's properties.
@@ -22,8 +24,9 @@ import type { UpdatePageParams, NotionPage, NotionError } from "../../shared/typ
  * @param params - Properties and/or metadata to update
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The updated page object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/patch-page
  */
@@ -31,11 +34,12 @@ export async function updatePageProperties(
   pageId: string,
   params: UpdatePageParams,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionPage> {
   const url = `https://api.notion.com/v1/pages/${encodeURIComponent(pageId)}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "PATCH",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -49,6 +53,5 @@ export async function updatePageProperties(
     return (await response.json()) as NotionPage;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
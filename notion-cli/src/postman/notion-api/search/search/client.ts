@@ -12,8 +12,9 @@
 import type {
   SearchParams,
   SearchResponse,
-  NotionError,
 } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Search all pages and databases the integration has access to.
@@ -24,19 +25,21 @@ import type {
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
  * @param params - Optional search parameters including query, filter, and pagination
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The search results containing pages and databases
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/post-search
  */
 export async function search(
   bearerToken: string,
   notionVersion: string,
-  params: SearchParams = {}
+  params: SearchParams = {},
+  transport: Transport = fetch
 ): Promise<SearchResponse> {
   const url = "https://api.notion.com/v1/search";
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -50,6 +53,5 @@ export async function search(
     return (await response.json()) as SearchResponse;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
@@ -0,0 +1,138 @@
+/**
+ * Shared error handling for Notion API clients.
+ * Every endpoint returns the same error response shape:
+ *   { "object": "error", "status": 404, "code": "object_not_found", "message": "...", "request_id": "..." }
+ *
+ * @see https://developers.notion.com/reference/status-codes
+ */
+
+import type { NotionError } from "./types.js";
+
+/** Base error thrown by every Notion API client on a non-2xx response. */
+export class NotionApiError extends Error {
+  /** HTTP status code */
+  readonly status: number;
+  /** Notion error code, e.g. "object_not_found" or "rate_limited" */
+  readonly code: string;
+  /** Notion request ID — include it when contacting Notion support */
+  readonly requestId: string | null;
+  /** Seconds to wait before retrying, from the Retry-After header */
+  readonly retryAfter: number | null;
+  /** The parsed response body (or raw text if it wasn't JSON) */
+  readonly body: unknown;
+
+  constructor(
+    status: number,
+    code: string,
+    message: string,
+    options: { requestId?: string | null; retryAfter?: number | null; body?: unknown } = {}
+  ) {
+    super(`Notion API error (${status}): ${message}`);
+    this.name = new.target.name;
+    this.status = status;
+    this.code = code;
+    this.requestId = options.requestId ?? null;
+    this.retryAfter = options.retryAfter ?? null;
+    this.body = options.body;
+  }
+}
+
+/** 400 — The request body, URL, or parameters are invalid. */
+export class ValidationError extends NotionApiError {}
+
+/** 401 — The bearer token is missing or invalid. */
+export class UnauthorizedError extends NotionApiError {}
+
+/** 403 — The token doesn't have the capability for this operation. */
+export class RestrictedResourceError extends NotionApiError {}
+
+/** 404 — The resource doesn't exist or isn't shared with the integration. */
+export class ObjectNotFoundError extends NotionApiError {}
+
+/** 409 — The transaction conflicted with another write. */
+export class ConflictError extends NotionApiError {}
+
+/** 429 — The integration exceeded Notion's request rate limit. */
+export class RateLimitedError extends NotionApiError {}
+
+/** 5xx — Notion had an internal error or is temporarily unavailable. */
+export class ServerError extends NotionApiError {}
+
+const CODE_MAP: Record<string, typeof NotionApiError> = {
+  invalid_json: ValidationError,
+  invalid_request_url: ValidationError,
+  invalid_request: ValidationError,
+  invalid_grant: ValidationError,
+  validation_error: ValidationError,
+  missing_version: ValidationError,
+  unauthorized: UnauthorizedError,
+  restricted_resource: RestrictedResourceError,
+  object_not_found: ObjectNotFoundError,
+  conflict_error: ConflictError,
+  rate_limited: RateLimitedError,
+  internal_server_error: ServerError,
+  bad_gateway: ServerError,
+  service_unavailable: ServerError,
+  database_connection_unavailable: ServerError,
+  gateway_timeout: ServerError,
+};
+
+const STATUS_MAP: Record<number, typeof NotionApiError> = {
+  400: ValidationError,
+  401: UnauthorizedError,
+  403: RestrictedResourceError,
+  404: ObjectNotFoundError,
+  409: ConflictError,
+  429: RateLimitedError,
+};
+
+/**
+ * Parse the Retry-After header into seconds. Notion sends an integer
+ * number of seconds, but the HTTP-date form is accepted too.
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Build a typed error from a non-2xx Notion API response.
+ *
+ * The subclass is chosen by the Notion error code first and the HTTP
+ * status second, so unknown codes still map to a sensible class.
+ * Bodies that aren't JSON (e.g. a proxy's HTML error page) are kept as text.
+ *
+ * @param response - The failed fetch response
+ * @returns A NotionApiError subclass — callers should `throw` it
+ */
+export async function notionErrorFromResponse(response: Response): Promise<NotionApiError> {
+  const text = await response.text();
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not JSON — keep the raw text as the body
+  }
+
+  // OAuth endpoints return { error, error_description } instead of { code, message }
+  const parsed = (typeof body === "object" && body !== null ? body : {}) as Partial<NotionError> & {
+    error?: string;
+    error_description?: string;
+  };
+  const code = parsed.code ?? parsed.error ?? "unknown";
+  const message =
+    parsed.message ?? parsed.error_description ?? parsed.error ?? (text || response.statusText || "Unknown error");
+
+  const ErrorClass =
+    CODE_MAP[code] ?? STATUS_MAP[response.status] ?? (response.status >= 500 ? ServerError : NotionApiError);
+
+  return new ErrorClass(response.status, code, message, {
+    requestId: parsed.request_id ?? response.headers.get("x-notion-request-id"),
+    retryAfter: parseRetryAfter(response.headers.get("retry-after")),
+    body,
+  });
+}
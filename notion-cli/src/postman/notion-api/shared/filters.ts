@@ -0,0 +1,203 @@
+/**
+ * Fluent builders for data source query filters and sorts.
+ *
+ * Every builder returns plain filter objects typed by the unions in
+ * types.ts, so a condition the property type doesn't support (say,
+ * `greaterThan` on a select) fails at compile time:
+ *
+ *   import { filter, sort } from "./src/postman/notion-api/index.js";
+ *
+ *   await notion.dataSources.query(dataSourceId, {
+ *     filter: filter.and(
+ *       filter.status("Status").equals("Done"),
+ *       filter.number("Priority").greaterThanOrEqualTo(2),
+ *       filter.or(filter.people("Owner").isEmpty(), filter.date("Due").before("today")),
+ *     ),
+ *     sorts: [sort.property("Due").descending(), sort.createdTime().ascending()],
+ *   });
+ *
+ * @see https://developers.notion.com/reference/filter-data-source-entries
+ * @see https://developers.notion.com/reference/sort-data-source-entries
+ */
+
+import type {
+  CheckboxFilterCondition,
+  DateFilterCondition,
+  DateFilterValue,
+  FilesFilterCondition,
+  MultiSelectFilterCondition,
+  NumberFilterCondition,
+  PeopleFilterCondition,
+  PropertyFilter,
+  QueryFilter,
+  QuerySort,
+  RelationFilterCondition,
+  RollupItemFilterCondition,
+  SelectFilterCondition,
+  SortDirection,
+  StatusFilterCondition,
+  TextFilterCondition,
+  TimestampFilter,
+  UniqueIdFilterCondition,
+} from "./types.js";
+
+// ============================================================================
+// Conditions
+// ============================================================================
+
+// Each factory takes `wrap`, which places the condition in its filter —
+// under the property's type key, a formula result key, or a timestamp.
+
+function emptyConditions<R>(wrap: (condition: { is_empty: true } | { is_not_empty: true }) => R) {
+  return {
+    isEmpty: () => wrap({ is_empty: true }),
+    isNotEmpty: () => wrap({ is_not_empty: true }),
+  };
+}
+
+function textConditions<R>(wrap: (condition: TextFilterCondition) => R) {
+  return {
+    equals: (value: string) => wrap({ equals: value }),
+    doesNotEqual: (value: string) => wrap({ does_not_equal: value }),
+    contains: (value: string) => wrap({ contains: value }),
+    doesNotContain: (value: string) => wrap({ does_not_contain: value }),
+    startsWith: (value: string) => wrap({ starts_with: value }),
+    endsWith: (value: string) => wrap({ ends_with: value }),
+    ...emptyConditions(wrap),
+  };
+}
+
+function comparisonConditions<R>(wrap: (condition: UniqueIdFilterCondition) => R) {
+  return {
+    equals: (value: number) => wrap({ equals: value }),
+    doesNotEqual: (value: number) => wrap({ does_not_equal: value }),
+    greaterThan: (value: number) => wrap({ greater_than: value }),
+    lessThan: (value: number) => wrap({ less_than: value }),
+    greaterThanOrEqualTo: (value: number) => wrap({ greater_than_or_equal_to: value }),
+    lessThanOrEqualTo: (value: number) => wrap({ less_than_or_equal_to: value }),
+  };
+}
+
+function numberConditions<R>(wrap: (condition: NumberFilterCondition) => R) {
+  return { ...comparisonConditions(wrap), ...emptyConditions(wrap) };
+}
+
+function checkboxConditions<R>(wrap: (condition: CheckboxFilterCondition) => R) {
+  return {
+    equals: (value: boolean) => wrap({ equals: value }),
+    doesNotEqual: (value: boolean) => wrap({ does_not_equal: value }),
+  };
+}
+
+function selectConditions<R>(wrap: (condition: SelectFilterCondition) => R) {
+  return {
+    equals: (option: string) => wrap({ equals: option }),
+    doesNotEqual: (option: string) => wrap({ does_not_equal: option }),
+    ...emptyConditions(wrap),
+  };
+}
+
+/** contains / does_not_contain — multi_select options, user IDs, or page IDs */
+function memberConditions<R>(wrap: (condition: MultiSelectFilterCondition) => R) {
+  return {
+    contains: (value: string) => wrap({ contains: value }),
+    doesNotContain: (value: string) => wrap({ does_not_contain: value }),
+    ...emptyConditions(wrap),
+  };
+}
+
+function dateConditions<R>(wrap: (condition: DateFilterCondition) => R) {
+  return {
+    equals: (date: DateFilterValue) => wrap({ equals: date }),
+    before: (date: DateFilterValue) => wrap({ before: date }),
+    after: (date: DateFilterValue) => wrap({ after: date }),
+    onOrBefore: (date: DateFilterValue) => wrap({ on_or_before: date }),
+    onOrAfter: (date: DateFilterValue) => wrap({ on_or_after: date }),
+    thisWeek: () => wrap({ this_week: {} }),
+    pastWeek: () => wrap({ past_week: {} }),
+    pastMonth: () => wrap({ past_month: {} }),
+    pastYear: () => wrap({ past_year: {} }),
+    nextWeek: () => wrap({ next_week: {} }),
+    nextMonth: () => wrap({ next_month: {} }),
+    nextYear: () => wrap({ next_year: {} }),
+    ...emptyConditions(wrap),
+  };
+}
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+/** Builders for every property filter, timestamp filter, and and/or group */
+export const filter = {
+  title: (property: string) => textConditions((title): PropertyFilter => ({ property, title })),
+  richText: (property: string) => textConditions((rich_text): PropertyFilter => ({ property, rich_text })),
+  url: (property: string) => textConditions((url): PropertyFilter => ({ property, url })),
+  email: (property: string) => textConditions((email): PropertyFilter => ({ property, email })),
+  phoneNumber: (property: string) => textConditions((phone_number): PropertyFilter => ({ property, phone_number })),
+  number: (property: string) => numberConditions((number): PropertyFilter => ({ property, number })),
+  uniqueId: (property: string) => comparisonConditions((unique_id): PropertyFilter => ({ property, unique_id })),
+  checkbox: (property: string) => checkboxConditions((checkbox): PropertyFilter => ({ property, checkbox })),
+  select: (property: string) => selectConditions((select): PropertyFilter => ({ property, select })),
+  status: (property: string) =>
+    selectConditions((status: StatusFilterCondition): PropertyFilter => ({ property, status })),
+  multiSelect: (property: string) => memberConditions((multi_select): PropertyFilter => ({ property, multi_select })),
+  date: (property: string) => dateConditions((date): PropertyFilter => ({ property, date })),
+  /** people, created_by, and last_edited_by properties, matched by user ID */
+  people: (property: string) =>
+    memberConditions((people: PeopleFilterCondition): PropertyFilter => ({ property, people })),
+  /** Matched by related page ID */
+  relation: (property: string) =>
+    memberConditions((relation: RelationFilterCondition): PropertyFilter => ({ property, relation })),
+  files: (property: string) =>
+    emptyConditions((files: FilesFilterCondition): PropertyFilter => ({ property, files })),
+
+  /** Formula properties — pick the builder matching the formula's result type */
+  formula: (property: string) => ({
+    string: () => textConditions((string): PropertyFilter => ({ property, formula: { string } })),
+    number: () => numberConditions((number): PropertyFilter => ({ property, formula: { number } })),
+    checkbox: () => checkboxConditions((checkbox): PropertyFilter => ({ property, formula: { checkbox } })),
+    date: () => dateConditions((date): PropertyFilter => ({ property, formula: { date } })),
+  }),
+
+  /**
+   * Rollup properties. Array rollups match when any, every, or none of the
+   * rolled-up values meet the condition, e.g.
+   * `filter.rollup("Tasks").any({ status: { equals: "Done" } })`.
+   */
+  rollup: (property: string) => ({
+    any: (condition: RollupItemFilterCondition): PropertyFilter => ({ property, rollup: { any: condition } }),
+    every: (condition: RollupItemFilterCondition): PropertyFilter => ({ property, rollup: { every: condition } }),
+    none: (condition: RollupItemFilterCondition): PropertyFilter => ({ property, rollup: { none: condition } }),
+    number: () => numberConditions((number): PropertyFilter => ({ property, rollup: { number } })),
+    date: () => dateConditions((date): PropertyFilter => ({ property, rollup: { date } })),
+  }),
+
+  /** When the entry was created — no created_time property needed */
+  createdTime: () =>
+    dateConditions((created_time): TimestampFilter => ({ timestamp: "created_time", created_time })),
+  /** When the entry was last edited — no last_edited_time property needed */
+  lastEditedTime: () =>
+    dateConditions((last_edited_time): TimestampFilter => ({ timestamp: "last_edited_time", last_edited_time })),
+
+  and: (...filters: QueryFilter[]): QueryFilter => ({ and: filters }),
+  or: (...filters: QueryFilter[]): QueryFilter => ({ or: filters }),
+};
+
+// ============================================================================
+// Sorts
+// ============================================================================
+
+function directions(make: (direction: SortDirection) => QuerySort) {
+  return {
+    ascending: () => make("ascending"),
+    descending: () => make("descending"),
+  };
+}
+
+/** Builders for query sorts; pass several to `sorts`, most significant first */
+export const sort = {
+  property: (property: string) => directions((direction) => ({ property, direction })),
+  createdTime: () => directions((direction) => ({ timestamp: "created_time", direction })),
+  lastEditedTime: () => directions((direction) => ({ timestamp: "last_edited_time", direction })),
+};
@@ -0,0 +1,81 @@
+/**
+ * Cursor pagination helpers for Notion list endpoints.
+ *
+ * Notion list responses share one shape — a page of results plus
+ * `has_more` and `next_cursor`. These helpers walk the cursor chain so
+ * callers can `for await` over every item instead of hand-rolling the
+ * `do { ... } while (cursor)` loop.
+ *
+ * @see https://developers.notion.com/reference/intro#pagination
+ */
+
+/** One page of a paginated Notion list response */
+export interface PaginatedList<T> {
+  results: T[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+/** Options for walking a paginated list */
+export interface PaginateOptions {
+  /** Stop after this many items (default: no cap) */
+  maxItems?: number;
+  /** Items requested per page, 1-100 (default 100) */
+  pageSize?: number;
+  /** Cursor from an earlier response to resume from (default: the first page) */
+  startCursor?: string;
+}
+
+/** Notion's maximum page_size for every list endpoint */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Iterate every item of a paginated list, fetching pages lazily.
+ *
+ * When maxItems is set, the last request asks only for the items still
+ * needed, and iteration stops as soon as the cap is reached.
+ *
+ * @param fetchPage - Fetches one page given a cursor and page size
+ * @param options - Item cap, page size, and starting cursor
+ */
+export async function* iteratePaginated<T>(
+  fetchPage: (startCursor: string | undefined, pageSize: number) => Promise<PaginatedList<T>>,
+  options: PaginateOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const pageSize = Math.min(Math.max(1, options.pageSize ?? MAX_PAGE_SIZE), MAX_PAGE_SIZE);
+  let remaining = options.maxItems ?? Infinity;
+  let cursor = options.startCursor;
+
+  while (remaining > 0) {
+    const response = await fetchPage(cursor, Math.min(pageSize, remaining));
+
+    for (const item of response.results) {
+      yield item;
+      if (--remaining <= 0) return;
+    }
+
+    if (!response.has_more || !response.next_cursor) return;
+    cursor = response.next_cursor;
+  }
+}
+
+/**
+ * Collect an async iterable into an array, optionally capped at maxItems.
+ *
+ * @param items - Any async iterable, e.g. from notion.paginate.*
+ * @param options - Item cap
+ */
+export async function collectAll<T>(
+  items: AsyncIterable<T>,
+  options: Pick<PaginateOptions, "maxItems"> = {}
+): Promise<T[]> {
+  const max = options.maxItems ?? Infinity;
+  const collected: T[] = [];
+  if (max <= 0) return collected;
+
+  for await (const item of items) {
+    collected.push(item);
+    if (collected.length >= max) break;
+  }
+  return collected;
+}
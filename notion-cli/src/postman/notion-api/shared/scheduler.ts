@@ -0,0 +1,109 @@
+/**
+ * Request scheduler for Notion API clients.
+ *
+ * Notion allows an average of three requests per second per integration.
+ * The scheduler paces requests with a token bucket (a steady refill rate
+ * plus a small burst allowance) and caps how many are in flight at once,
+ * so callers can fan out freely — e.g. Promise.all over block children —
+ * without tripping 429s. A 429 with Retry-After pauses the whole bucket.
+ *
+ * @see https://developers.notion.com/reference/request-limits
+ */
+
+/** Options for pacing requests */
+export interface SchedulerOptions {
+  /** Average request rate — 0 or Infinity disables pacing (default 3) */
+  requestsPerSecond?: number;
+  /** Requests that may start back-to-back before pacing kicks in (default 3) */
+  burst?: number;
+  /** Maximum requests in flight at once (default 3) */
+  maxConcurrent?: number;
+}
+
+/** Queues tasks so they start within the rate and concurrency limits */
+export interface RequestScheduler {
+  /** Run a task once a rate token and a concurrency slot are available */
+  schedule<T>(task: () => Promise<T>): Promise<T>;
+  /** Hold back all queued tasks for the given time (e.g. from Retry-After) */
+  pause(ms: number): void;
+}
+
+const DEFAULT_SCHEDULER: Required<SchedulerOptions> = {
+  requestsPerSecond: 3,
+  burst: 3,
+  maxConcurrent: 3,
+};
+
+/**
+ * Create a token-bucket scheduler.
+ *
+ * Share one scheduler between clients that use the same integration
+ * token — the rate limit applies per integration, not per client.
+ *
+ * @param options - Rate, burst, and concurrency limits
+ */
+export function createScheduler(options: SchedulerOptions = {}): RequestScheduler {
+  const rate = options.requestsPerSecond ?? DEFAULT_SCHEDULER.requestsPerSecond;
+  const unpaced = !Number.isFinite(rate) || rate <= 0;
+  const burst = Math.max(1, options.burst ?? DEFAULT_SCHEDULER.burst);
+  const maxConcurrent = Math.max(1, options.maxConcurrent ?? DEFAULT_SCHEDULER.maxConcurrent);
+
+  const queue: Array<() => void> = [];
+  let tokens = burst;
+  let lastRefill = Date.now();
+  let active = 0;
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function refill(now: number): void {
+    tokens = Math.min(burst, tokens + ((now - lastRefill) / 1000) * rate);
+    lastRefill = now;
+  }
+
+  function wakeAfter(ms: number): void {
+    if (timer) return;
+    timer = setTimeout(() => {
+      timer = null;
+      drain();
+    }, ms);
+  }
+
+  function drain(): void {
+    while (queue.length > 0 && active < maxConcurrent) {
+      const now = Date.now();
+      if (now < pausedUntil) {
+        wakeAfter(pausedUntil - now);
+        return;
+      }
+      if (!unpaced) {
+        refill(now);
+        if (tokens < 1) {
+          wakeAfter(Math.ceil(((1 - tokens) / rate) * 1000));
+          return;
+        }
+        tokens -= 1;
+      }
+      active++;
+      queue.shift()!();
+    }
+  }
+
+  return {
+    schedule<T>(task: () => Promise<T>): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        queue.push(() => {
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              active--;
+              drain();
+            });
+        });
+        drain();
+      });
+    },
+    pause(ms: number): void {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+  };
+}
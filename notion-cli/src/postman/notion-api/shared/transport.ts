@@ -0,0 +1,131 @@
+/**
+ * Shared HTTP transport for Notion API clients.
+ *
+ * Every generated client takes an optional `transport` argument with the
+ * same signature as `fetch`. createNotionClient passes one built here, which
+ * paces requests through a shared scheduler and retries rate-limited and
+ * transient gateway failures with jittered exponential backoff, honouring
+ * Notion's Retry-After header.
+ *
+ * @see https://developers.notion.com/reference/request-limits
+ */
+
+import type { RequestScheduler } from "./scheduler.js";
+
+/** A fetch-compatible function used by the generated clients */
+export type Transport = (url: string | URL, init: RequestInit) => Promise<Response>;
+
+/** Default Notion API origin — every generated client builds URLs against it */
+export const NOTION_API_BASE_URL = "https://api.notion.com";
+
+/** Status codes that are safe to retry: rate limits and transient gateway errors */
+export const RETRYABLE_STATUSES: readonly number[] = [429, 502, 503, 504];
+
+/** Retry policy for rate-limited and transient failures */
+export interface RetryOptions {
+  /** Total attempts per request, including the first (default 4; 1 disables retries) */
+  maxAttempts?: number;
+  /** Base delay for exponential backoff in milliseconds (default 500) */
+  baseDelayMs?: number;
+  /** Upper bound on a single wait in milliseconds, Retry-After included (default 60000) */
+  maxDelayMs?: number;
+}
+
+/** Details passed to the onRetry callback before each wait */
+export interface RetryEvent {
+  url: string;
+  status: number;
+  /** The attempt that just failed (1-based) */
+  attempt: number;
+  delayMs: number;
+}
+
+/** Options for building a transport */
+export interface TransportOptions {
+  /** Retry policy (defaults apply when omitted) */
+  retry?: RetryOptions;
+  /** Replace the https://api.notion.com origin, e.g. with a local stub server */
+  baseUrl?: string;
+  /** Underlying fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Paces every attempt, retries included (unpaced when omitted) */
+  scheduler?: RequestScheduler;
+  /** Called before each retry wait */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 60_000,
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Compute the wait before the next attempt. A Retry-After header wins;
+ * otherwise use "full jitter" backoff: a random delay between 0 and
+ * baseDelayMs * 2^(attempt - 1), so concurrent callers spread out.
+ */
+function retryDelay(response: Response, attempt: number, retry: Required<RetryOptions>): number {
+  const header = response.headers.get("retry-after");
+  if (header) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return Math.min(Math.max(0, seconds * 1000), retry.maxDelayMs);
+    }
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) {
+      return Math.min(Math.max(0, date - Date.now()), retry.maxDelayMs);
+    }
+  }
+  const ceiling = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Build a transport that retries 429/502/503/504 responses.
+ *
+ * The final response is returned as-is, so a request that is still
+ * failing after maxAttempts surfaces as the usual typed NotionApiError.
+ *
+ * @param options - Retry policy, base URL override, and fetch implementation
+ */
+export function createTransport(options: TransportOptions = {}): Transport {
+  const retry: Required<RetryOptions> = {
+    maxAttempts: Math.max(1, Math.floor(options.retry?.maxAttempts ?? DEFAULT_RETRY.maxAttempts)),
+    baseDelayMs: options.retry?.baseDelayMs ?? DEFAULT_RETRY.baseDelayMs,
+    maxDelayMs: options.retry?.maxDelayMs ?? DEFAULT_RETRY.maxDelayMs,
+  };
+  const baseFetch = options.fetch ?? fetch;
+  const baseUrl = options.baseUrl?.replace(/\/+$/, "");
+
+  return async (url, init) => {
+    const href = String(url);
+    const target = baseUrl && href.startsWith(NOTION_API_BASE_URL)
+      ? baseUrl + href.slice(NOTION_API_BASE_URL.length)
+      : href;
+
+    for (let attempt = 1; ; attempt++) {
+      const response = options.scheduler
+        ? await options.scheduler.schedule(() => baseFetch(target, init))
+        : await baseFetch(target, init);
+
+      if (!RETRYABLE_STATUSES.includes(response.status) || attempt >= retry.maxAttempts) {
+        return response;
+      }
+
+      const delayMs = retryDelay(response, attempt, retry);
+      // A 429 means the whole integration is over its limit — hold back every queued request
+      if (response.status === 429) {
+        options.scheduler?.pause(delayMs);
+      }
+      options.onRetry?.({ url: target, status: response.status, attempt, delayMs });
+      // Release the connection before waiting — the body of a retried response is never read
+      await response.body?.cancel();
+      await sleep(delayMs);
+    }
+  };
+}
@@ -56,26 +56,138 @@ export interface RichTextAnnotations {
   color: string;
 }
 
-/** Rich text item */
-export interface RichTextItem {
-  type: "text";
-  text: {
-    content: string;
-    link: { url: string } | null;
-  };
+/** A template button's placeholder — filled in when the template is used */
+export type TemplateMention =
+  | { type: "template_mention_date"; template_mention_date: "today" | "now" }
+  | { type: "template_mention_user"; template_mention_user: "me" };
+
+/** What an @-mention points to */
+export type Mention =
+  | { type: "user"; user: PartialUser }
+  | { type: "page"; page: { id: string } }
+  | { type: "database"; database: { id: string } }
+  | { type: "date"; date: DateValue }
+  | { type: "link_preview"; link_preview: { url: string } }
+  | { type: "template_mention"; template_mention: TemplateMention };
+
+/**
+ * Rich text item — a run of text, an @-mention, or an inline equation.
+ * `plain_text` is Notion's own rendering of each: the page title for a
+ * page mention, "@Name" for a user, the expression for an equation.
+ */
+export type RichTextItem = {
   annotations: RichTextAnnotations;
   plain_text: string;
   href: string | null;
-}
+} & (
+  | { type: "text"; text: { content: string; link: { url: string } | null } }
+  | { type: "mention"; mention: Mention }
+  | { type: "equation"; equation: { expression: string } }
+);
 
-/** Page property value - we check type at runtime */
-export interface PropertyValue {
+/** User as it appears in property values — sometimes only the ID is filled in */
+export type PartialUser = UserReference & Partial<Omit<NotionUser, "object" | "id">>;
+
+/** A select, multi_select, or status option */
+export interface SelectOptionValue {
   id: string;
-  type: string;
-  title?: RichTextItem[];
-  [key: string]: unknown;
+  name: string;
+  color: string;
+}
+
+/** Date or date range; `start` and `end` are ISO 8601 dates or date-times */
+export interface DateValue {
+  start: string;
+  end: string | null;
+  time_zone: string | null;
 }
 
+/** A file hosted by Notion (its URL expires) or an external URL */
+export type FileObject =
+  | { type: "file"; file: { url: string; expiry_time: string } }
+  | { type: "external"; external: { url: string } };
+
+/** A file in a files property */
+export type FileValue = { name: string } & FileObject;
+
+/** Formula result, keyed by its type */
+export type FormulaValue =
+  | { type: "string"; string: string | null }
+  | { type: "number"; number: number | null }
+  | { type: "boolean"; boolean: boolean | null }
+  | { type: "date"; date: DateValue | null };
+
+/** A property value inside a rollup array (no property ID) */
+export type RollupArrayItem = PropertyValue extends infer V ? (V extends unknown ? Omit<V, "id"> : never) : never;
+
+/** Rollup result, keyed by its type; `function` is the rollup's aggregation */
+export type RollupValue = { function: string } & (
+  | { type: "number"; number: number | null }
+  | { type: "date"; date: DateValue | null }
+  | { type: "array"; array: RollupArrayItem[] }
+  | { type: "incomplete"; incomplete: Record<string, never> }
+  | { type: "unsupported"; unsupported: Record<string, never> }
+);
+
+/** ID number with the property's optional prefix ("TASK-42") */
+export interface UniqueIdValue {
+  prefix: string | null;
+  number: number | null;
+}
+
+/** Page verification (wiki pages) */
+export interface VerificationValue {
+  state: "verified" | "unverified" | "expired";
+  verified_by: PartialUser | null;
+  date: DateValue | null;
+}
+
+/** The value stored under each property type's key */
+export interface PropertyValueMap {
+  title: RichTextItem[];
+  rich_text: RichTextItem[];
+  number: number | null;
+  select: SelectOptionValue | null;
+  multi_select: SelectOptionValue[];
+  status: SelectOptionValue | null;
+  date: DateValue | null;
+  people: PartialUser[];
+  files: FileValue[];
+  checkbox: boolean;
+  url: string | null;
+  email: string | null;
+  phone_number: string | null;
+  formula: FormulaValue;
+  /** Related pages; long relations are truncated — see `has_more` */
+  relation: Array<{ id: string }>;
+  rollup: RollupValue;
+  created_time: string;
+  created_by: PartialUser;
+  last_edited_time: string;
+  last_edited_by: PartialUser;
+  unique_id: UniqueIdValue;
+  verification: VerificationValue | null;
+  button: Record<string, never>;
+}
+
+export type PropertyValueType = keyof PropertyValueMap;
+
+/**
+ * Page property value, discriminated by `type`. The value sits under the
+ * key named by the type:
+ *
+ *   if (prop.type === "select") prop.select?.name;
+ *
+ * Switch on `type` for exhaustiveness checking.
+ */
+export type PropertyValue = {
+  [T in PropertyValueType]: { id: string; type: T } & Record<T, PropertyValueMap[T]> &
+    (T extends "relation" ? { has_more?: boolean } : unknown);
+}[PropertyValueType];
+
+/** The property value variant for one type, e.g. PropertyValueOf<"select"> */
+export type PropertyValueOf<T extends PropertyValueType> = Extract<PropertyValue, { type: T }>;
+
 /** A Notion page object */
 export interface NotionPage {
   object: "page";
@@ -99,6 +211,7 @@ export interface NotionError {
   status: number;
   code: string;
   message: string;
+  request_id?: string;
 }
 
 // ============================================================================
@@ -202,14 +315,29 @@ export interface RetrieveCommentsResponse {
 // Pages API types
 // ============================================================================
 
+/**
+ * A data source template to create the page from. Notion applies it
+ * after the page is created, so the content appears a moment later.
+ */
+export type PageTemplateSelection =
+  | { type: "none" }
+  | { type: "default" }
+  | { type: "template_id"; template_id: string };
+
 /** Parameters for creating a page */
 export interface CreatePageParams {
-  /** Parent page or database */
-  parent: { page_id: string } | { database_id: string };
+  /** Parent page, database, or data source */
+  parent: { page_id: string } | { database_id: string } | { data_source_id: string };
   /** Page properties (must match database schema if parent is a database) */
   properties: Record<string, unknown>;
-  /** Optional child blocks to add as page content */
-  children?: unknown[];
+  /** Optional child blocks to add as page content (at most 100; not with a template) */
+  children?: BlockInput[];
+  /** Data source template to apply — the parent must be a data source */
+  template?: PageTemplateSelection;
+  /** Page icon */
+  icon?: unknown;
+  /** Page cover */
+  cover?: unknown;
 }
 
 /** Parameters for updating page properties */
@@ -224,6 +352,16 @@ export interface UpdatePageParams {
   cover?: unknown;
 }
 
+/**
+ * One item of a paginated property value: a single rich text item,
+ * person, or related page, keyed by its type.
+ */
+export interface PropertyItem {
+  object: "property_item";
+  type: string;
+  [key: string]: unknown;
+}
+
 /**
  * Response from the retrieve page property endpoint.
  *
@@ -235,7 +373,7 @@ export interface PagePropertyItemResponse {
   object: "property_item" | "list";
   type: string;
   /** Present when object is "list" */
-  results?: Array<{ object: "property_item"; type: string; [key: string]: unknown }>;
+  results?: PropertyItem[];
   next_cursor?: string | null;
   has_more?: boolean;
   /** Property value — varies by type */
@@ -246,8 +384,81 @@ export interface PagePropertyItemResponse {
 // Blocks API types
 // ============================================================================
 
-/** A Notion block object */
-export interface NotionBlock {
+/** Text and background colors for rich text and blocks */
+export type NotionColor =
+  | "default" | "gray" | "brown" | "orange" | "yellow" | "green" | "blue" | "purple" | "pink" | "red"
+  | "gray_background" | "brown_background" | "orange_background" | "yellow_background" | "green_background"
+  | "blue_background" | "purple_background" | "pink_background" | "red_background";
+
+/** Page or callout icon */
+export type NotionIcon =
+  | { type: "emoji"; emoji: string }
+  | { type: "custom_emoji"; custom_emoji: { id: string; name?: string; url?: string } }
+  | FileObject;
+
+/** Content of blocks that hold a line of rich text */
+export interface TextBlockContent {
+  rich_text: RichTextItem[];
+  color: NotionColor;
+}
+
+/** Content of heading blocks; toggleable headings hold children */
+export interface HeadingBlockContent extends TextBlockContent {
+  is_toggleable: boolean;
+}
+
+/** Content of image, video, file, pdf, and audio blocks */
+export type MediaBlockContent = { caption: RichTextItem[]; name?: string } & (
+  | FileObject
+  | { type: "file_upload"; file_upload: { id: string } }
+);
+
+/** The content stored under each block type's key */
+export interface BlockContentMap {
+  paragraph: TextBlockContent;
+  heading_1: HeadingBlockContent;
+  heading_2: HeadingBlockContent;
+  heading_3: HeadingBlockContent;
+  bulleted_list_item: TextBlockContent;
+  numbered_list_item: TextBlockContent;
+  to_do: TextBlockContent & { checked: boolean };
+  toggle: TextBlockContent;
+  quote: TextBlockContent;
+  callout: TextBlockContent & { icon: NotionIcon | null };
+  code: { rich_text: RichTextItem[]; caption: RichTextItem[]; language: string };
+  equation: { expression: string };
+  divider: Record<string, never>;
+  image: MediaBlockContent;
+  video: MediaBlockContent;
+  file: MediaBlockContent;
+  pdf: MediaBlockContent;
+  audio: MediaBlockContent;
+  bookmark: { url: string; caption: RichTextItem[] };
+  embed: { url: string; caption: RichTextItem[] };
+  link_preview: { url: string };
+  link_to_page:
+    | { type: "page_id"; page_id: string }
+    | { type: "database_id"; database_id: string }
+    | { type: "data_source_id"; data_source_id: string };
+  table: { table_width: number; has_column_header: boolean; has_row_header: boolean };
+  table_row: { cells: RichTextItem[][] };
+  column_list: Record<string, never>;
+  column: { width_ratio?: number };
+  /** synced_from is null on the original block and points to it on copies */
+  synced_block: { synced_from: { type: "block_id"; block_id: string } | null };
+  template: { rich_text: RichTextItem[] };
+  breadcrumb: Record<string, never>;
+  table_of_contents: { color: NotionColor };
+  child_page: { title: string };
+  child_database: { title: string };
+  /** Block types the API can't return content for */
+  unsupported: Record<string, never>;
+}
+
+export type BlockType = keyof BlockContentMap;
+
+/** Fields every block has, whatever its type */
+export interface BlockBase {
   object: "block";
   id: string;
   parent: {
@@ -262,11 +473,109 @@ export interface NotionBlock {
   last_edited_by: UserReference;
   has_children: boolean;
   archived: boolean;
-  type: string;
-  // Block content varies by type - using index signature
-  [key: string]: unknown;
+  in_trash?: boolean;
 }
 
+/**
+ * A Notion block object, discriminated by `type`. The block's content
+ * sits under the key named by the type:
+ *
+ *   if (block.type === "to_do") block.to_do.checked;
+ */
+export type NotionBlock = {
+  [T in BlockType]: BlockBase & { type: T } & Record<T, BlockContentMap[T]>;
+}[BlockType];
+
+/** The block variant for one type, e.g. NotionBlockOf<"code"> */
+export type NotionBlockOf<T extends BlockType> = Extract<NotionBlock, { type: T }>;
+
+// -- Block creation -----------------------------------------------------------
+
+/** A mention as sent in a request */
+export type MentionInput =
+  | { type?: "page"; page: { id: string } }
+  | { type?: "database"; database: { id: string } }
+  | { type?: "user"; user: { id: string } }
+  | { type?: "date"; date: { start: string; end?: string | null } };
+
+/** A rich text item as sent in a request */
+export type RichTextInput = {
+  annotations?: Partial<Omit<RichTextAnnotations, "color">> & { color?: NotionColor };
+} & (
+  | { type: "text"; text: { content: string; link?: { url: string } | null } }
+  | { type: "equation"; equation: { expression: string } }
+  | { type: "mention"; mention: MentionInput }
+);
+
+/** Icon as sent in a request */
+export type IconInput =
+  | { type: "emoji"; emoji: string }
+  | { type: "external"; external: { url: string } }
+  | { type: "file_upload"; file_upload: { id: string } };
+
+/** Content of rich text blocks as sent in a request */
+export interface TextBlockInput {
+  rich_text: RichTextInput[];
+  color?: NotionColor;
+  children?: BlockInput[];
+}
+
+/** Content of image, video, file, pdf, and audio blocks as sent in a request */
+export type MediaBlockInput = { caption?: RichTextInput[]; name?: string } & (
+  | { type?: "external"; external: { url: string } }
+  | { type?: "file_upload"; file_upload: { id: string } }
+);
+
+/**
+ * The content sent under each creatable block type's key. Child pages
+ * and databases are created through the pages and databases endpoints,
+ * and link previews can't be created at all.
+ */
+export interface BlockInputMap {
+  paragraph: TextBlockInput;
+  heading_1: TextBlockInput & { is_toggleable?: boolean };
+  heading_2: TextBlockInput & { is_toggleable?: boolean };
+  heading_3: TextBlockInput & { is_toggleable?: boolean };
+  bulleted_list_item: TextBlockInput;
+  numbered_list_item: TextBlockInput;
+  to_do: TextBlockInput & { checked?: boolean };
+  toggle: TextBlockInput;
+  quote: TextBlockInput;
+  callout: TextBlockInput & { icon?: IconInput };
+  code: { rich_text: RichTextInput[]; language: string; caption?: RichTextInput[] };
+  equation: { expression: string };
+  divider: Record<string, never>;
+  image: MediaBlockInput;
+  video: MediaBlockInput;
+  file: MediaBlockInput;
+  pdf: MediaBlockInput;
+  audio: MediaBlockInput;
+  bookmark: { url: string; caption?: RichTextInput[] };
+  embed: { url: string; caption?: RichTextInput[] };
+  link_to_page: { type: "page_id"; page_id: string } | { type: "database_id"; database_id: string };
+  /** Rows must be sent with the table */
+  table: { table_width: number; has_column_header?: boolean; has_row_header?: boolean; children: BlockInputOf<"table_row">[] };
+  table_row: { cells: RichTextInput[][] };
+  /** Columns must be sent with the column list, each with at least one child */
+  column_list: { children: BlockInputOf<"column">[] };
+  column: { children: BlockInput[]; width_ratio?: number };
+  /** A new original synced block; copies point to an existing one with synced_from */
+  synced_block: { synced_from: null; children?: BlockInput[] } | { synced_from: { block_id: string } };
+  template: TextBlockInput;
+  breadcrumb: Record<string, never>;
+  table_of_contents: { color?: NotionColor };
+}
+
+export type CreatableBlockType = keyof BlockInputMap;
+
+/** A block as sent to the append block children endpoint */
+export type BlockInput = {
+  [T in CreatableBlockType]: { object?: "block"; type: T } & Record<T, BlockInputMap[T]>;
+}[CreatableBlockType];
+
+/** The block input variant for one type, e.g. BlockInputOf<"to_do"> */
+export type BlockInputOf<T extends CreatableBlockType> = Extract<BlockInput, { type: T }>;
+
 /** Response from append block children endpoint */
 export interface AppendBlockChildrenResponse {
   object: "list";
@@ -295,6 +604,179 @@ export interface RetrieveBlockChildrenResponse {
   block: Record<string, never>;
 }
 
+// ============================================================================
+// Query filter and sort types
+// ============================================================================
+//
+// Each condition is an object with exactly one operator key, e.g.
+// { equals: "Done" } or { is_empty: true }. Property filters pair a
+// property name with the condition under its type's key:
+//
+//   { property: "Status", status: { equals: "Done" } }
+//
+// @see https://developers.notion.com/reference/filter-data-source-entries
+
+/** Condition for title, rich_text, url, email, and phone_number properties */
+export type TextFilterCondition =
+  | { equals: string }
+  | { does_not_equal: string }
+  | { contains: string }
+  | { does_not_contain: string }
+  | { starts_with: string }
+  | { ends_with: string }
+  | { is_empty: true }
+  | { is_not_empty: true };
+
+/** Condition for number properties */
+export type NumberFilterCondition =
+  | { equals: number }
+  | { does_not_equal: number }
+  | { greater_than: number }
+  | { less_than: number }
+  | { greater_than_or_equal_to: number }
+  | { less_than_or_equal_to: number }
+  | { is_empty: true }
+  | { is_not_empty: true };
+
+/** Condition for unique_id properties (the number part of "TASK-42") */
+export type UniqueIdFilterCondition =
+  | { equals: number }
+  | { does_not_equal: number }
+  | { greater_than: number }
+  | { less_than: number }
+  | { greater_than_or_equal_to: number }
+  | { less_than_or_equal_to: number };
+
+/** Condition for checkbox properties */
+export type CheckboxFilterCondition = { equals: boolean } | { does_not_equal: boolean };
+
+/** Condition for select and status properties (matched by option name) */
+export type SelectFilterCondition =
+  | { equals: string }
+  | { does_not_equal: string }
+  | { is_empty: true }
+  | { is_not_empty: true };
+
+/** Condition for status properties */
+export type StatusFilterCondition = SelectFilterCondition;
+
+/** Condition for multi_select properties (matched by option name) */
+export type MultiSelectFilterCondition =
+  | { contains: string }
+  | { does_not_contain: string }
+  | { is_empty: true }
+  | { is_not_empty: true };
+
+/** Relative date values accepted wherever a date condition takes a date */
+export type RelativeDate =
+  | "today"
+  | "tomorrow"
+  | "yesterday"
+  | "one_week_ago"
+  | "one_week_from_now"
+  | "one_month_ago"
+  | "one_month_from_now";
+
+/** An ISO 8601 date or date-time, or a relative date */
+export type DateFilterValue = RelativeDate | (string & {});
+
+/** Condition for date, created_time, and last_edited_time properties */
+export type DateFilterCondition =
+  | { equals: DateFilterValue }
+  | { before: DateFilterValue }
+  | { after: DateFilterValue }
+  | { on_or_before: DateFilterValue }
+  | { on_or_after: DateFilterValue }
+  | { this_week: Record<string, never> }
+  | { past_week: Record<string, never> }
+  | { past_month: Record<string, never> }
+  | { past_year: Record<string, never> }
+  | { next_week: Record<string, never> }
+  | { next_month: Record<string, never> }
+  | { next_year: Record<string, never> }
+  | { is_empty: true }
+  | { is_not_empty: true };
+
+/** Condition for people, created_by, and last_edited_by properties (matched by user ID) */
+export type PeopleFilterCondition =
+  | { contains: string }
+  | { does_not_contain: string }
+  | { is_empty: true }
+  | { is_not_empty: true };
+
+/** Condition for relation properties (matched by page ID) */
+export type RelationFilterCondition = PeopleFilterCondition;
+
+/** Condition for files properties */
+export type FilesFilterCondition = { is_empty: true } | { is_not_empty: true };
+
+/** Condition for formula properties, keyed by the formula's result type */
+export type FormulaFilterCondition =
+  | { string: TextFilterCondition }
+  | { number: NumberFilterCondition }
+  | { checkbox: CheckboxFilterCondition }
+  | { date: DateFilterCondition };
+
+/** Condition on each value of an array rollup, keyed by the rolled-up property type */
+export type RollupItemFilterCondition =
+  | { rich_text: TextFilterCondition }
+  | { number: NumberFilterCondition }
+  | { checkbox: CheckboxFilterCondition }
+  | { select: SelectFilterCondition }
+  | { multi_select: MultiSelectFilterCondition }
+  | { status: StatusFilterCondition }
+  | { date: DateFilterCondition }
+  | { people: PeopleFilterCondition }
+  | { files: FilesFilterCondition }
+  | { relation: RelationFilterCondition };
+
+/** Condition for rollup properties: any/every/none for array rollups, number or date otherwise */
+export type RollupFilterCondition =
+  | { any: RollupItemFilterCondition }
+  | { every: RollupItemFilterCondition }
+  | { none: RollupItemFilterCondition }
+  | { number: NumberFilterCondition }
+  | { date: DateFilterCondition };
+
+/** Filter on one property, by name or ID */
+export type PropertyFilter = { property: string } & (
+  | { title: TextFilterCondition }
+  | { rich_text: TextFilterCondition }
+  | { url: TextFilterCondition }
+  | { email: TextFilterCondition }
+  | { phone_number: TextFilterCondition }
+  | { number: NumberFilterCondition }
+  | { unique_id: UniqueIdFilterCondition }
+  | { checkbox: CheckboxFilterCondition }
+  | { select: SelectFilterCondition }
+  | { multi_select: MultiSelectFilterCondition }
+  | { status: StatusFilterCondition }
+  | { date: DateFilterCondition }
+  | { people: PeopleFilterCondition }
+  | { files: FilesFilterCondition }
+  | { relation: RelationFilterCondition }
+  | { formula: FormulaFilterCondition }
+  | { rollup: RollupFilterCondition }
+);
+
+/** Filter on an entry's created or last edited time, without needing a property */
+export type TimestampFilter =
+  | { timestamp: "created_time"; created_time: DateFilterCondition }
+  | { timestamp: "last_edited_time"; last_edited_time: DateFilterCondition };
+
+/** Filters combined with "and" or "or" (the API allows two levels of nesting) */
+export type CompoundFilter = { and: QueryFilter[] } | { or: QueryFilter[] };
+
+/** A data source (or database) query filter */
+export type QueryFilter = PropertyFilter | TimestampFilter | CompoundFilter;
+
+export type SortDirection = "ascending" | "descending";
+
+/** Sort by a property value, or by an entry's created or last edited time */
+export type QuerySort =
+  | { property: string; direction: SortDirection }
+  | { timestamp: "created_time" | "last_edited_time"; direction: SortDirection };
+
 // ============================================================================
 // Databases API types
 // ============================================================================
@@ -346,8 +828,17 @@ export interface CreateDatabaseParams {
   parent: { type: "page_id"; page_id: string };
   /** Database title */
   title?: Array<{ text: { content: string } }>;
-  /** Database property schema definitions */
-  properties: Record<string, unknown>;
+  /**
+   * Database property schema definitions (before 2025-09-03; the schema
+   * now belongs to the initial data source)
+   */
+  properties?: Record<string, unknown>;
+  /** The database's first data source, with its property schema */
+  initial_data_source?: { properties: Record<string, unknown> };
+  /** Database icon */
+  icon?: unknown;
+  /** Show the database inline in its parent page (default: full page) */
+  is_inline?: boolean;
 }
 
 /** Parameters for updating a database */
@@ -363,9 +854,9 @@ export interface UpdateDatabaseParams {
 /** Parameters for querying a database */
 export interface QueryDatabaseParams {
   /** Filter to apply to the query */
-  filter?: unknown;
-  /** Sorts to apply to the query */
-  sorts?: unknown[];
+  filter?: QueryFilter;
+  /** Sorts to apply to the query, most significant first */
+  sorts?: QuerySort[];
   /** Cursor for pagination */
   start_cursor?: string;
   /** Number of results per page (max 100) */
@@ -387,9 +878,9 @@ export interface QueryDatabaseResponse {
 /** Parameters for querying a data source */
 export interface QueryDataSourceParams {
   /** Filter to apply to the query */
-  filter?: unknown;
-  /** Sorts to apply to the query */
-  sorts?: unknown[];
+  filter?: QueryFilter;
+  /** Sorts to apply to the query, most significant first */
+  sorts?: QuerySort[];
   /** Cursor for pagination */
   start_cursor?: string;
   /** Number of results per page (max 100) */
@@ -9,7 +9,9 @@
  * Request modified at: 2022-03-02T05:38:37.000Z
  */
 
-import type { ListUsersParams, ListUsersResponse, NotionError } from "../../shared/types.js";
+import type { ListUsersParams, ListUsersResponse } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Returns a paginated list of user objects for the workspace.
@@ -17,15 +19,17 @@ import type { ListUsersParams, ListUsersResponse, NotionError } from "../../shar
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
  * @param params - Optional pagination parameters
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns Paginated list of user objects
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/get-users
  */
 export async function listUsers(
   bearerToken: string,
   notionVersion: string,
-  params?: ListUsersParams
+  params?: ListUsersParams,
+  transport: Transport = fetch
 ): Promise<ListUsersResponse> {
   const url = new URL("https://api.notion.com/v1/users");
 
@@ -36,7 +40,7 @@ export async function listUsers(
     url.searchParams.set("page_size", String(params.page_size));
   }
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -48,6 +52,5 @@ export async function listUsers(
     return (await response.json()) as ListUsersResponse;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
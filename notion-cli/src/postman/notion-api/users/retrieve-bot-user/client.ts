@@ -9,7 +9,9 @@
  * Request modified at: 2024-01-29T18:38:30.000Z
  */
 
-import type { NotionUser, NotionError } from "../../shared/types.js";
+import type { NotionUser } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Retrieve the bot user associated with the current API token.
@@ -20,18 +22,20 @@ import type { NotionUser, NotionError } from "../../shared/types.js";
  *
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The bot user object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/get-self
  */
 export async function retrieveBotUser(
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionUser> {
   const url = "https://api.notion.com/v1/users/me";
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -43,6 +47,5 @@ export async function retrieveBotUser(
     return (await response.json()) as NotionUser;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
@@ -9,7 +9,9 @@
  * Request modified at: 2026-02-02T22:04:41.000Z
  */
 
-import type { NotionUser, NotionError } from "../../shared/types.js";
+import type { NotionUser } from "../../shared/types.js";
+import { notionErrorFromResponse } from "../../shared/errors.js";
+import type { Transport } from "../../shared/transport.js";
 
 /**
  * Retrieve a user object using the ID specified.
@@ -19,19 +21,21 @@ import type { NotionUser, NotionError } from "../../shared/types.js";
  * @param userId - The ID of the user to retrieve
  * @param bearerToken - Notion API bearer token (integration secret)
  * @param notionVersion - Notion API version
+ * @param transport - Fetch-compatible transport (defaults to the global fetch)
  * @returns The user object
- * @throws Error if the request fails
+ * @throws NotionApiError if the request fails
  *
  * @see https://developers.notion.com/reference/get-user
  */
 export async function retrieveUser(
   userId: string,
   bearerToken: string,
-  notionVersion: string
+  notionVersion: string,
+  transport: Transport = fetch
 ): Promise<NotionUser> {
   const url = `https://api.notion.com/v1/users/${encodeURIComponent(userId)}`;
 
-  const response = await fetch(url, {
+  const response = await transport(url, {
     method: "GET",
     headers: {
       Authorization: `Bearer ${bearerToken}`,
@@ -43,6 +47,5 @@ export async function retrieveUser(
     return (await response.json()) as NotionUser;
   }
 
-  const error = (await response.json()) as NotionError;
-  throw new Error(`Notion API error (${response.status}): ${error.message}`);
+  throw await notionErrorFromResponse(response);
 }
@@ -0,0 +1,202 @@
+/**
+ * Local page templates for `page create --template`.
+ *
+ * A template is a JSON file describing a page — its title, icon, cover,
+ * properties, and content blocks — with {{placeholders}} anywhere in its
+ * strings:
+ *
+ *   {
+ *     "description": "Daily standup notes",
+ *     "title": "Standup {{date}}",
+ *     "icon": "🗓️",
+ *     "children": [
+ *       { "type": "heading_2", "heading_2": { "rich_text": [{ "type": "text", "text": { "content": "Owner: {{owner}}" } }] } }
+ *     ]
+ *   }
+ *
+ * Templates are referenced by path, or by name from ~/.notion-cli/templates/
+ * (standup → ~/.notion-cli/templates/standup.json). --var values fill in
+ * the placeholders before the page is created in a single request.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { basename, join } from "path";
+import type { BlockInput, IconInput } from "./src/postman/notion-api/index.js";
+import { CONFIG_DIR } from "./helpers.js";
+
+/** A template that can't be found, parsed, or filled in */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+export const TEMPLATES_DIR = join(CONFIG_DIR, "templates");
+
+/** The contents of a template file */
+export interface PageTemplate {
+  /** Shown by `template list` */
+  description?: string;
+  /** Page title — a shortcut for the title property */
+  title?: string;
+  /** An emoji, or an icon object as the API takes it */
+  icon?: string | IconInput;
+  /** An external image URL, or a cover object as the API takes it */
+  cover?: string | { type: "external"; external: { url: string } };
+  /** Property values as the API takes them, keyed by property name */
+  properties?: Record<string, unknown>;
+  /** Content blocks, created with the page */
+  children?: BlockInput[];
+}
+
+/** A template file found on disk */
+export interface TemplateFile {
+  name: string;
+  path: string;
+  template: PageTemplate;
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+// ============================================================================
+// Variables
+// ============================================================================
+
+/** Parse --var "name=value" specs; the value may itself contain "=" */
+export function parseVars(specs: string[]): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const spec of specs) {
+    const eq = spec.indexOf("=");
+    const name = eq === -1 ? "" : spec.slice(0, eq).trim();
+    if (!/^[A-Za-z_][\w-]*$/.test(name)) {
+      throw new TemplateError(`invalid --var "${spec}". Expected name=value.`);
+    }
+    vars[name] = spec.slice(eq + 1);
+  }
+  return vars;
+}
+
+/** Every placeholder name used in a template, in order of first use */
+export function templateVariables(template: PageTemplate): string[] {
+  const names = new Set<string>();
+  const visit = (value: unknown): void => {
+    if (typeof value === "string") {
+      for (const match of value.matchAll(PLACEHOLDER)) names.add(match[1]);
+    } else if (value && typeof value === "object") {
+      for (const [key, child] of Object.entries(value)) {
+        visit(key);
+        visit(child);
+      }
+    }
+  };
+  visit(template);
+  return [...names];
+}
+
+/**
+ * Replace every {{placeholder}} in the template's strings, including
+ * property names. Values are inserted as plain text, so quotes and
+ * backslashes in them need no escaping.
+ *
+ * @throws TemplateError naming the placeholders without a value
+ */
+export function renderTemplate(template: PageTemplate, vars: Record<string, string>): PageTemplate {
+  const missing = templateVariables(template).filter((name) => !(name in vars));
+  if (missing.length > 0) {
+    const flags = missing.map((name) => `--var ${name}=…`).join(" ");
+    throw new TemplateError(`missing template variable${missing.length === 1 ? "" : "s"}: ${flags}`);
+  }
+
+  const fill = (text: string) => text.replace(PLACEHOLDER, (_, name: string) => vars[name]);
+  const render = (value: unknown): unknown => {
+    if (typeof value === "string") return fill(value);
+    if (Array.isArray(value)) return value.map(render);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([key, child]) => [fill(key), render(child)]));
+    }
+    return value;
+  };
+  return render(template) as PageTemplate;
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+function parseTemplate(path: string): PageTemplate {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new TemplateError(`cannot read template "${path}": ${(error as Error).message}`);
+  }
+
+  const isObject = (value: unknown) => !!value && typeof value === "object" && !Array.isArray(value);
+  if (!isObject(parsed)) {
+    throw new TemplateError(`template "${path}" must be a JSON object`);
+  }
+  const template = parsed as Record<string, unknown>;
+  const invalid = (field: string, expected: string) =>
+    new TemplateError(`template "${path}": "${field}" must be ${expected}`);
+
+  for (const field of ["description", "title"]) {
+    if (template[field] !== undefined && typeof template[field] !== "string") throw invalid(field, "a string");
+  }
+  for (const field of ["icon", "cover"]) {
+    const value = template[field];
+    if (value !== undefined && typeof value !== "string" && !isObject(value)) {
+      throw invalid(field, "a string or an object");
+    }
+  }
+  if (template.properties !== undefined && !isObject(template.properties)) {
+    throw invalid("properties", "an object");
+  }
+  if (template.children !== undefined && !Array.isArray(template.children)) {
+    throw invalid("children", "an array of blocks");
+  }
+  return template as PageTemplate;
+}
+
+/** Names of the templates saved in ~/.notion-cli/templates/, sorted */
+function savedTemplateNames(): string[] {
+  if (!existsSync(TEMPLATES_DIR)) return [];
+  return readdirSync(TEMPLATES_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => basename(file, ".json"))
+    .sort();
+}
+
+/**
+ * Every saved template. A file that doesn't parse is listed with its
+ * error instead of failing the whole listing.
+ */
+export function listTemplates(): Array<TemplateFile | { name: string; path: string; error: string }> {
+  return savedTemplateNames().map((name) => {
+    const path = join(TEMPLATES_DIR, `${name}.json`);
+    try {
+      return { name, path, template: parseTemplate(path) };
+    } catch (error) {
+      return { name, path, error: (error as Error).message };
+    }
+  });
+}
+
+/**
+ * Load a template by path, or by name from ~/.notion-cli/templates/.
+ * An existing file wins over a saved template of the same name.
+ */
+export function loadTemplate(nameOrPath: string): TemplateFile {
+  if (existsSync(nameOrPath)) {
+    return { name: basename(nameOrPath, ".json"), path: nameOrPath, template: parseTemplate(nameOrPath) };
+  }
+
+  const saved = join(TEMPLATES_DIR, `${nameOrPath}.json`);
+  if (!nameOrPath.includes("/") && existsSync(saved)) {
+    return { name: nameOrPath, path: saved, template: parseTemplate(saved) };
+  }
+
+  const names = savedTemplateNames();
+  const available = names.length > 0 ? ` Available: ${names.join(", ")}` : "";
+  throw new TemplateError(`no template file or saved template named "${nameOrPath}".${available}`);
+}
@@ -5,6 +5,9 @@
 
 import { describe, it, before, after } from "node:test";
 import assert from "node:assert/strict";
+import { writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
   requireToken, createCli, extractJson,
   setupTestPage, teardownTestPage, type TestContext,
@@ -279,6 +282,22 @@ describe("block", () => {
     }
   });
 
+  it("block append --markdown appends nested blocks", async () => {
+    const file = join(tmpdir(), `notion-cli-append-${process.pid}.md`);
+    writeFileSync(file, "## From Markdown\n\n- parent\n  - child\n");
+    try {
+      const { stdout, exitCode } = await cli("block", "append", ctx!.testPageId, "--markdown", file);
+      assert.equal(exitCode, 0, "should exit 0");
+      assert.ok(stdout.includes("Appended 2 block(s) from Markdown"), stdout);
+
+      const exported = await cli("page", "export", ctx!.testPageId);
+      assert.ok(exported.stdout.includes("## From Markdown"), "heading should round-trip");
+      assert.ok(exported.stdout.includes("- parent\n  - child"), "nesting should round-trip");
+    } finally {
+      rmSync(file, { force: true });
+    }
+  });
+
   // -- block append error cases -----------------------------------------------
 
   it("block append rejects invalid --type", async () => {
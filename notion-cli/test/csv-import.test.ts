@@ -0,0 +1,201 @@
+/**
+ * Tests for `datasource import`: parses CSV and converts cells in-process,
+ * then imports files against a local stub server — no Notion token
+ * needed.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { NotionPage } from "../src/postman/notion-api/index.js";
+import { cellValue, CsvError, inferPropertyType, mapColumns, parseCsv } from "../csv-import.js";
+import type { PropertyLookups, PropertySchemas } from "../property-input.js";
+import { options, property, startStubServer, type StubServer } from "./helpers.js";
+
+const schema: PropertySchemas = Object.fromEntries(
+  [
+    property("Name", "title"),
+    property("Status", "status", options("Not started", "Done")),
+    property("Team", "select", options("Web")),
+    property("Tags", "multi_select", options("ui")),
+    property("Estimate", "number"),
+    property("Due", "date"),
+    property("Shipped", "checkbox"),
+  ].map((p) => [p.name, p]),
+);
+
+const lookups: PropertyLookups = {
+  users: async () => [],
+  pagesByTitle: async () => [],
+  fileUpload: async () => {
+    throw new Error("no uploads in these tests");
+  },
+};
+
+describe("csv parsing and conversion", () => {
+  it("parses quoted fields, escaped quotes, line breaks, and a BOM", () => {
+    const { header, rows } = parseCsv('\uFEFFName,Notes\r\n"Fix, login","Say ""hi""\nthen leave"\r\n\r\nShort\n');
+    assert.deepEqual(header, ["Name", "Notes"]);
+    assert.deepEqual(rows, [["Fix, login", 'Say "hi"\nthen leave'], ["Short", ""]]);
+    assert.deepEqual(parseCsv("a\tb\n1\t2", "\t").rows, [["1", "2"]]);
+    assert.throws(() => parseCsv("a,b\n1,2,3"), /row 2 has 3 cells but the header has 2/);
+    assert.throws(() => parseCsv('a\n"open'), CsvError);
+  });
+
+  it("maps columns by name, --map overrides, and reports missing properties", () => {
+    const { columns, missing } = mapColumns(["name", "Owner Team", "Internal", "Points"], schema, ["Owner Team=Team", "Internal="]);
+    assert.deepEqual(columns, [
+      { column: "name", index: 0, property: "Name" },
+      { column: "Owner Team", index: 1, property: "Team" },
+      { column: "Internal", index: 2, property: null },
+    ]);
+    assert.deepEqual(missing, [{ column: "Points", index: 3, property: "Points" }]);
+    assert.throws(() => mapColumns(["Name"], schema, ["Nmae=Name"]), /isn't in the header. Did you mean "Name"\?/);
+    assert.throws(() => mapColumns(["Name", "Title"], schema, ["Title=Name"]), /columns "Name" and "Title" both fill property "Name"/);
+  });
+
+  it("infers types for new columns", () => {
+    assert.equal(inferPropertyType(["1,200", "", "3.5"]), "number");
+    assert.equal(inferPropertyType(["yes", "no", "x"]), "checkbox");
+    assert.equal(inferPropertyType(["2025-07-01", "2025-07-02T10:00"]), "date");
+    assert.equal(inferPropertyType(["1", "maybe"]), "rich_text");
+    assert.equal(inferPropertyType(["1,2,3", "4"]), "rich_text");
+    assert.equal(inferPropertyType(["0x1F", "0b11", "0o17"]), "rich_text");
+  });
+
+  it("converts cells in the forms spreadsheets export", async () => {
+    const convert = (name: string, raw: string) => cellValue(schema[name], raw, lookups);
+    assert.deepEqual(await convert("Estimate", "$1,234.50"), { number: 1234.5 });
+    assert.deepEqual(await convert("Estimate", "45%"), { number: 0.45 });
+    assert.deepEqual(await convert("Estimate", "-$12"), { number: -12 });
+    await assert.rejects(convert("Estimate", "12,34"), /needs a number, got "12,34"/);
+    await assert.rejects(convert("Estimate", "0x1F"), /needs a number, got "0x1F"/);
+    assert.deepEqual(await convert("Estimate", ""), { number: null });
+    assert.deepEqual(await convert("Shipped", "x"), { checkbox: true });
+    assert.deepEqual(await convert("Shipped", ""), { checkbox: false });
+    assert.deepEqual(await convert("Due", "Jul 1, 2025"), { date: { start: "2025-07-01", end: null } });
+    assert.deepEqual(await convert("Tags", "UI; infra"), { multi_select: [{ name: "ui" }, { name: "infra" }] });
+    assert.deepEqual(await convert("Team", "Platform"), { select: { name: "Platform" } });
+    await assert.rejects(convert("Status", "Blocked"), /"Blocked" is not an option of status property "Status"/);
+    await assert.rejects(convert("Shipped", "maybe"), /needs true or false, got "maybe"/);
+  });
+
+  it("reads dates the same way in every time zone", async () => {
+    const convert = async (raw: string) => ((await cellValue(schema.Due, raw, lookups)) as { date: unknown }).date;
+    const zone = process.env.TZ;
+    try {
+      for (const tz of ["America/New_York", "Pacific/Kiritimati", "UTC"]) {
+        process.env.TZ = tz;
+        assert.deepEqual(await convert("7/1/2025"), { start: "2025-07-01", end: null }, tz);
+        assert.deepEqual(await convert("1 July 2025"), { start: "2025-07-01", end: null }, tz);
+        assert.deepEqual(await convert("Dec 31 2025..Jan 2, 2026"), { start: "2025-12-31", end: "2026-01-02" }, tz);
+      }
+    } finally {
+      if (zone === undefined) delete process.env.TZ;
+      else process.env.TZ = zone;
+    }
+    await assert.rejects(convert("2025"), /needs a date like 2025-01-31/);
+    await assert.rejects(convert("2/30/2025"), /needs a date like 2025-01-31/);
+  });
+});
+
+describe("datasource import", () => {
+  let server: StubServer;
+  let cli: StubServer["cli"];
+  const testDir = mkdtempSync(join(tmpdir(), "notion-cli-import-test-"));
+  const csvFile = join(testDir, "tasks.csv");
+  const schemaUpdates: Array<Record<string, unknown>> = [];
+  const writes: Array<{ method: string; path: string; body: Record<string, unknown> }> = [];
+
+  const existing = {
+    object: "page",
+    id: "t1",
+    properties: { Name: { id: "title", type: "title", title: [{ plain_text: "Fix login" }] } },
+  } as unknown as NotionPage;
+
+  before(async () => {
+    server = await startStubServer(({ method, path, body }) => {
+      if (path.endsWith("/query")) {
+        return { object: "list", results: [existing], has_more: false, next_cursor: null };
+      }
+      if (path.startsWith("/v1/data_sources/")) {
+        if (method === "PATCH") schemaUpdates.push(body);
+        return { object: "data_source", id: "tasks", title: [], properties: schema };
+      }
+      writes.push({ method, path, body });
+      return { ...existing, id: method === "POST" ? "new" : "t1" };
+    });
+    cli = server.cli;
+  });
+
+  after(() => {
+    server.close();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("updates rows that match the key, creates the rest, and adds missing properties", async () => {
+    writeFileSync(csvFile, "Task,Estimate,Points\nFix login,2,5\nNew page,1,\n");
+    const { exitCode, stdout, stderr } = await cli(
+      "datasource", "import", "tasks", csvFile, "--map", "Task=Name", "--key", "Task", "--create-properties",
+    );
+    assert.equal(exitCode, 0, stderr);
+    assert.deepEqual(schemaUpdates, [{ properties: { Points: { number: {} } } }]);
+    assert.deepEqual(writes.find((w) => w.method === "PATCH"), {
+      method: "PATCH",
+      path: "/v1/pages/t1",
+      body: {
+        properties: {
+          Name: { title: [{ type: "text", text: { content: "Fix login" } }] },
+          Estimate: { number: 2 },
+          Points: { number: 5 },
+        },
+      },
+    });
+    assert.deepEqual(writes.find((w) => w.method === "POST")?.body, {
+      parent: { data_source_id: "tasks" },
+      properties: {
+        Name: { title: [{ type: "text", text: { content: "New page" } }] },
+        Estimate: { number: 1 },
+        Points: { number: null },
+      },
+    });
+    assert.ok(stdout.includes("Points → Points (number, new)"), stdout);
+    assert.ok(stdout.includes("Will create 1 entry and update 1."), stdout);
+    assert.ok(stdout.includes("Created 1 entry, updated 1."), stdout);
+  });
+
+  it("lists every bad cell and writes nothing", async () => {
+    writes.length = 0;
+    writeFileSync(csvFile, "Name,Estimate,Shipped\nA,lots,yes\nB,2,maybe\n");
+    const { exitCode, stderr } = await cli("datasource", "import", "tasks", csvFile);
+    assert.equal(exitCode, 1);
+    assert.ok(stderr.includes("nothing was imported — 2 problems found"), stderr);
+    assert.ok(stderr.includes(`row 2, column "Estimate": number property "Estimate" needs a number, got "lots"`), stderr);
+    assert.ok(stderr.includes(`row 3, column "Shipped"`), stderr);
+    assert.equal(writes.length, 0);
+  });
+
+  it("reports rows that share a key and writes nothing", async () => {
+    writes.length = 0;
+    writeFileSync(csvFile, "Name,Estimate\nFix login,1\nNew page,2\nfix login,3\nNew page,4\n");
+    const { exitCode, stderr } = await cli("datasource", "import", "tasks", csvFile, "--key", "Name");
+    assert.equal(exitCode, 1);
+    assert.ok(stderr.includes("nothing was imported — 1 problem found"), stderr);
+    assert.ok(stderr.includes(`row 5: "New page" is also the key of row 3 — each row needs its own "Name"`), stderr);
+    assert.equal(writes.length, 0);
+  });
+
+  it("suggests a --map for unknown columns and writes nothing on --dry-run", async () => {
+    writeFileSync(csvFile, "Name,Estimat\nA,1\n");
+    const unknown = await cli("datasource", "import", "tasks", csvFile);
+    assert.equal(unknown.exitCode, 1);
+    assert.ok(unknown.stderr.includes(`use --map "Estimat=Estimate"`), unknown.stderr);
+
+    const dryRun = await cli("datasource", "import", "tasks", csvFile, "--create-properties", "--dry-run");
+    assert.equal(dryRun.exitCode, 0, dryRun.stderr);
+    assert.ok(dryRun.stdout.includes("Would add properties: Estimat"), dryRun.stdout);
+    assert.equal(writes.length, 0);
+  });
+});
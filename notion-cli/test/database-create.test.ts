@@ -0,0 +1,87 @@
+/**
+ * Tests for `database create` with an initial schema: sends the create
+ * request to a local stub server and checks its body — no Notion token
+ * needed. The full lifecycle against Notion is in database.test.ts.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { startStubServer, type StubServer } from "./helpers.js";
+
+describe("database create", () => {
+  let server: StubServer;
+  let cli: StubServer["cli"];
+  const testDir = mkdtempSync(join(tmpdir(), "notion-cli-database-create-test-"));
+  const creates: Array<Record<string, unknown>> = [];
+
+  before(async () => {
+    server = await startStubServer(({ body }) => {
+      creates.push(body);
+      return {
+        object: "database",
+        id: "db",
+        title: [{ plain_text: "Tasks" }],
+        url: "https://www.notion.so/db",
+        properties: {},
+        data_sources: [{ id: "ds-new", name: "Tasks" }],
+      };
+    });
+    cli = server.cli;
+  });
+
+  after(() => {
+    server.close();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("creates the database with its schema, icon, and inline flag in one request", async () => {
+    const { exitCode, stdout, stderr } = await cli(
+      "database", "create", "parent", "--title", "Tasks",
+      "-p", "Status:status", "-p", "Owner:people", "-p", "Due:date", "--inline", "--icon", "📋",
+    );
+    assert.equal(exitCode, 0, stderr);
+    assert.deepEqual(creates, [
+      {
+        parent: { type: "page_id", page_id: "parent" },
+        title: [{ text: { content: "Tasks" } }],
+        initial_data_source: {
+          properties: { Name: { title: {} }, Status: { status: {} }, Owner: { people: {} }, Due: { date: {} } },
+        },
+        icon: { type: "emoji", emoji: "📋" },
+        is_inline: true,
+      },
+    ]);
+    assert.ok(stdout.includes("Properties (4): Name, Status, Owner, Due"), stdout);
+    assert.ok(stdout.includes("Data source: ds-new"), stdout);
+  });
+
+  it("names the title property \"Name 2\" when -p takes \"Name\"", async () => {
+    creates.length = 0;
+    const { exitCode, stderr } = await cli("database", "create", "parent", "-p", "Name:rich_text");
+    assert.equal(exitCode, 0, stderr);
+    assert.deepEqual((creates[0].initial_data_source as Record<string, unknown>).properties, {
+      "Name 2": { title: {} },
+      Name: { rich_text: {} },
+    });
+  });
+
+  it("reads a pulled schema file, with -p naming the title", async () => {
+    creates.length = 0;
+    const schemaFile = join(testDir, "schema.yaml");
+    writeFileSync(schemaFile, "properties:\n  Name:\n    type: title\n    id: title\n  Cost:\n    type: number\n    format: euro\n");
+    const { exitCode, stderr } = await cli("database", "create", "parent", "--schema-file", schemaFile, "-p", "Points:number");
+    assert.equal(exitCode, 0, stderr);
+    assert.deepEqual((creates[0].initial_data_source as Record<string, unknown>).properties, {
+      Name: { title: {} },
+      Cost: { number: { format: "euro" } },
+      Points: { number: {} },
+    });
+
+    const twoTitles = await cli("database", "create", "parent", "--schema-file", schemaFile, "-p", "Task:title");
+    assert.equal(twoTitles.exitCode, 1);
+    assert.ok(twoTitles.stderr.includes(`a database has one title property, but got "Name", "Task"`), twoTitles.stderr);
+  });
+});
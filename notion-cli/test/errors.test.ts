@@ -0,0 +1,169 @@
+/**
+ * Tests for notionErrorFromResponse and the CLI's exit codes.
+ * Builds responses in memory or serves them from a local stub server —
+ * no Notion token needed.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import {
+  notionErrorFromResponse,
+  NotionApiError,
+  ValidationError,
+  UnauthorizedError,
+  RestrictedResourceError,
+  ObjectNotFoundError,
+  ConflictError,
+  RateLimitedError,
+  ServerError,
+} from "../src/postman/notion-api/index.js";
+import { EXIT_CODES } from "../helpers.js";
+import { startStubServer, type StubServer } from "./helpers.js";
+
+function errorResponse(status: number, body: unknown, headers?: Record<string, string>): Response {
+  const text = typeof body === "string" ? body : JSON.stringify(body);
+  return new Response(text, { status, headers });
+}
+
+describe("notionErrorFromResponse", () => {
+  it("picks the class by Notion error code before the HTTP status", async () => {
+    const error = await notionErrorFromResponse(
+      errorResponse(400, { object: "error", status: 400, code: "object_not_found", message: "Could not find page", request_id: "req-1" }),
+    );
+    assert.ok(error instanceof ObjectNotFoundError);
+    assert.equal(error.status, 400);
+    assert.equal(error.code, "object_not_found");
+    assert.equal(error.message, "Notion API error (400): Could not find page");
+    assert.equal(error.requestId, "req-1");
+  });
+
+  it("falls back to the HTTP status for an unknown code", async () => {
+    const cases: Array<[number, typeof NotionApiError]> = [
+      [400, ValidationError],
+      [401, UnauthorizedError],
+      [403, RestrictedResourceError],
+      [404, ObjectNotFoundError],
+      [409, ConflictError],
+      [429, RateLimitedError],
+    ];
+    for (const [status, ErrorClass] of cases) {
+      const error = await notionErrorFromResponse(errorResponse(status, { code: "something_new", message: "New" }));
+      assert.ok(error instanceof ErrorClass, `${status} should map to ${ErrorClass.name}, got ${error.name}`);
+      assert.equal(error.code, "something_new");
+    }
+  });
+
+  it("treats any other 5xx as a server error and anything else as the base class", async () => {
+    const gateway = await notionErrorFromResponse(errorResponse(599, { code: "something_new", message: "Down" }));
+    assert.ok(gateway instanceof ServerError);
+
+    const teapot = await notionErrorFromResponse(errorResponse(418, { code: "something_new", message: "Teapot" }));
+    assert.equal(teapot.constructor, NotionApiError);
+  });
+
+  it("reads the OAuth { error, error_description } body", async () => {
+    const error = await notionErrorFromResponse(
+      errorResponse(400, { error: "invalid_grant", error_description: "Invalid code." }),
+    );
+    assert.ok(error instanceof ValidationError);
+    assert.equal(error.code, "invalid_grant");
+    assert.equal(error.message, "Notion API error (400): Invalid code.");
+
+    const bare = await notionErrorFromResponse(errorResponse(401, { error: "invalid_client" }));
+    assert.ok(bare instanceof UnauthorizedError);
+    assert.equal(bare.message, "Notion API error (401): invalid_client");
+  });
+
+  it("keeps a body that isn't JSON as text", async () => {
+    const html = "<html><body>502 Bad Gateway</body></html>";
+    const error = await notionErrorFromResponse(
+      errorResponse(502, html, { "x-notion-request-id": "req-proxy" }),
+    );
+    assert.ok(error instanceof ServerError);
+    assert.equal(error.code, "unknown");
+    assert.equal(error.body, html);
+    assert.equal(error.message, `Notion API error (502): ${html}`);
+    assert.equal(error.requestId, "req-proxy");
+
+    const empty = await notionErrorFromResponse(new Response(null, { status: 503, statusText: "Service Unavailable" }));
+    assert.equal(empty.message, "Notion API error (503): Service Unavailable");
+  });
+
+  it("parses Retry-After in seconds or as an HTTP date", async () => {
+    const retryAfter = async (header?: string) =>
+      (await notionErrorFromResponse(
+        errorResponse(429, { code: "rate_limited", message: "Slow down" }, header === undefined ? {} : { "Retry-After": header }),
+      )).retryAfter;
+
+    assert.equal(await retryAfter("7"), 7);
+    assert.equal(await retryAfter("-3"), 0);
+    assert.equal(await retryAfter(), null);
+    assert.equal(await retryAfter("soon"), null);
+
+    const inThirty = await retryAfter(new Date(Date.now() + 30_000).toUTCString());
+    assert.ok(inThirty !== null && inThirty >= 29 && inThirty <= 31, `expected about 30, got ${inThirty}`);
+    assert.equal(await retryAfter(new Date(Date.now() - 60_000).toUTCString()), 0);
+  });
+});
+
+describe("exit codes", () => {
+  let server: StubServer;
+  let cli: StubServer["cli"];
+
+  // `user get <status>` fails with that status and its usual Notion code
+  const codes: Record<string, string> = {
+    400: "validation_error",
+    401: "unauthorized",
+    403: "restricted_resource",
+    404: "object_not_found",
+    409: "conflict_error",
+    418: "teapot",
+    429: "rate_limited",
+    503: "service_unavailable",
+  };
+
+  before(async () => {
+    server = await startStubServer(({ path }) => {
+      const status = Number(path.split("/").pop());
+      const body = { object: "error", status, code: codes[status], message: `Failed with ${status}`, request_id: `req-${status}` };
+      return new Response(JSON.stringify(body), { status, headers: { "Retry-After": "0" } });
+    }, { NOTION_RETRY_MAX_ATTEMPTS: "1" });
+    cli = server.cli;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("exits with a distinct code for each kind of API error", async () => {
+    const expected: Record<string, number> = {
+      400: EXIT_CODES.VALIDATION,
+      401: EXIT_CODES.UNAUTHORIZED,
+      403: EXIT_CODES.RESTRICTED,
+      404: EXIT_CODES.NOT_FOUND,
+      409: EXIT_CODES.CONFLICT,
+      418: EXIT_CODES.GENERAL,
+      429: EXIT_CODES.RATE_LIMITED,
+      503: EXIT_CODES.SERVER,
+    };
+    for (const [status, exitCode] of Object.entries(expected)) {
+      const result = await cli("user", "get", status);
+      assert.equal(result.exitCode, exitCode, `${status}: ${result.stderr}`);
+      assert.ok(result.stderr.includes(`Failed with ${status}`), result.stderr);
+      assert.ok(result.stderr.includes(`Request ID: req-${status}`), result.stderr);
+    }
+  });
+
+  it("keeps the exit codes scripts rely on", () => {
+    assert.deepEqual(EXIT_CODES, {
+      GENERAL: 1,
+      VALIDATION: 2,
+      UNAUTHORIZED: 3,
+      RESTRICTED: 4,
+      NOT_FOUND: 5,
+      CONFLICT: 6,
+      RATE_LIMITED: 7,
+      SERVER: 8,
+    });
+  });
+});
@@ -4,15 +4,19 @@
  * Each test file is self-contained — it creates its own resources in
  * before() and cleans up in after(). This module provides the shared
  * helpers they all need: token loading, CLI runner, output parsers,
- * and a convenience setup that creates a test page.
+ * fixture factories, and a convenience setup that creates a test page.
  */
 
 import { execFile } from "node:child_process";
 import { readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
 import { fileURLToPath } from "node:url";
 import { dirname, resolve } from "node:path";
 import { homedir } from "node:os";
 import { join } from "node:path";
+import type { DatabasePropertySchema, NotionBlock } from "../src/postman/notion-api/index.js";
+import type { BlockNode } from "../helpers.js";
 
 // ---------------------------------------------------------------------------
 // Paths
@@ -81,14 +85,15 @@ export interface CliResult {
 
 /**
  * Create a CLI runner bound to a specific token.
+ * Extra environment variables (e.g. NOTION_API_BASE_URL) are passed through.
  */
-export function createCli(token: string) {
+export function createCli(token: string, env: Record<string, string> = {}) {
   return function cli(...args: string[]): Promise<CliResult> {
     return new Promise((res) => {
       execFile(
         process.execPath,
         ["--import", "tsx", CLI_ENTRY, ...args],
-        { env: { ...process.env, NOTION_TOKEN: token }, timeout: 60_000, cwd: PROJECT_DIR },
+        { env: { ...process.env, ...env, NOTION_TOKEN: token }, timeout: 60_000, cwd: PROJECT_DIR },
         (error, stdout, stderr) => {
           const exitCode = error
             ? typeof error.code === "number"
@@ -102,6 +107,63 @@ export function createCli(token: string) {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Stub server
+// ---------------------------------------------------------------------------
+
+/** A request received by a stub server, with its body read */
+export interface StubRequest {
+  method: string;
+  /** Path without the query string, e.g. "/v1/data_sources/ds/query" */
+  path: string;
+  url: URL;
+  /** Parsed JSON body ({} when there is none) */
+  body: Record<string, unknown>;
+}
+
+/**
+ * Answers one stub request. Return a Response to choose the status and
+ * headers; anything else is sent as a 200 JSON body.
+ */
+export type StubHandler = (req: StubRequest) => unknown | Promise<unknown>;
+
+export interface StubServer {
+  baseUrl: string;
+  /** CLI runner pointed at the stub, with rate limiting off */
+  cli: ReturnType<typeof createCli>;
+  close(): void;
+}
+
+/**
+ * Start a local HTTP server that stands in for the Notion API, so tests
+ * run without a token. Extra environment variables (e.g. HOME) are
+ * passed to the CLI runner. Call in before() and close in after().
+ */
+export async function startStubServer(handler: StubHandler, env: Record<string, string> = {}): Promise<StubServer> {
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", async () => {
+      const url = new URL(req.url!, "http://stub");
+      const reply = await handler({ method: req.method!, path: url.pathname, url, body: raw ? JSON.parse(raw) : {} });
+      if (reply instanceof Response) {
+        res.writeHead(reply.status, { ...Object.fromEntries(reply.headers), "Content-Type": "application/json" });
+        res.end(await reply.text());
+      } else {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(reply));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return {
+    baseUrl,
+    cli: createCli("test-token", { NOTION_API_BASE_URL: baseUrl, NOTION_REQUESTS_PER_SECOND: "0", ...env }),
+    close: () => server.close(),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Output parsers
 // ---------------------------------------------------------------------------
@@ -120,6 +182,48 @@ export function parseIds(stdout: string): string[] {
   return [...stdout.matchAll(/ID:\s+([0-9a-f-]{36})/g)].map((m) => m[1]);
 }
 
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+/** A data source property schema; the id defaults to the name */
+export const property = (name: string, type: string, config: Record<string, unknown> = {}, id = name) =>
+  ({ id, name, type, [type]: config }) as DatabasePropertySchema;
+
+/** Select options named after their ids, for a property's config */
+export const options = (...names: string[]) => ({ options: names.map((name) => ({ id: name, name, color: "default" })) });
+
+export type Annotations = Partial<Record<"bold" | "italic" | "strikethrough" | "underline" | "code", boolean>> & {
+  color?: string;
+};
+
+/** A rich text item, linked when a URL is given */
+export function text(content: string, annotations: Annotations = {}, url?: string) {
+  return {
+    type: "text",
+    text: { content, link: url ? { url } : null },
+    annotations,
+    plain_text: content,
+    href: url ?? null,
+  };
+}
+
+let nextId = 0;
+
+/** A block with a fresh id and the given children */
+export function node(type: string, content: Record<string, unknown>, children: BlockNode[] = []): BlockNode {
+  const block = {
+    object: "block",
+    id: `00000000-0000-0000-0000-${String(++nextId).padStart(12, "0")}`,
+    type,
+    [type]: content,
+    has_children: children.length > 0,
+  } as unknown as NotionBlock;
+  return { block, children };
+}
+
+export const para = (...rich: unknown[]) => node("paragraph", { rich_text: rich });
+
 // ---------------------------------------------------------------------------
 // Test page lifecycle
 // ---------------------------------------------------------------------------
@@ -0,0 +1,87 @@
+/**
+ * Tests for the HTML renderer behind `page export --format html`.
+ * Renders hand-built block trees — no Notion token needed.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { NotionPage } from "../src/postman/notion-api/index.js";
+import { renderBlocksHtml, renderPageHtml, renderRichTextHtml } from "../html.js";
+import { node, para, text } from "./helpers.js";
+
+describe("html", () => {
+  it("renders annotations, colors, and links, escaping text", () => {
+    const html = renderRichTextHtml([
+      text("a < b & "),
+      text("bold", { bold: true, color: "red" }),
+      text(" "),
+      text("docs", { code: true }, "https://example.com/?a=1&b=\"2\""),
+    ]);
+    assert.equal(
+      html,
+      'a &#60; b &#38; <span class="color-red"><strong>bold</strong></span> ' +
+        '<a href="https://example.com/?a=1&#38;b=&#34;2&#34;"><code>docs</code></a>',
+    );
+  });
+
+  it("groups list items and nests children", () => {
+    const html = renderBlocksHtml([
+      node("numbered_list_item", { rich_text: [text("one")] }),
+      node("numbered_list_item", { rich_text: [text("two")] }, [
+        node("bulleted_list_item", { rich_text: [text("nested")] }),
+      ]),
+      node("to_do", { rich_text: [text("done")], checked: true }),
+    ]);
+    assert.equal(
+      html,
+      "<ol>\n<li>one</li>\n<li>two\n<ul>\n<li>nested</li>\n</ul>\n</li>\n</ol>\n" +
+        '<ul class="to-do">\n<li class="checked"><input type="checkbox" disabled checked><span class="to-do-text">done</span></li>\n</ul>',
+    );
+  });
+
+  it("renders block colors, callout icons, and toggles", () => {
+    const html = renderBlocksHtml([
+      node("heading_1", { rich_text: [text("Intro")], color: "blue" }),
+      node("callout", { rich_text: [text("Note")], icon: { type: "emoji", emoji: "💡" }, color: "yellow_background" }),
+      node("toggle", { rich_text: [text("More")] }, [para(text("hidden"))]),
+    ]);
+    assert.equal(
+      html,
+      '<h2 class="color-blue">Intro</h2>\n' +
+        '<aside class="callout bg-yellow"><span class="callout-icon">💡</span><div class="callout-body">\n<p>Note</p>\n</div></aside>\n' +
+        "<details>\n<summary>More</summary>\n<p>hidden</p>\n</details>",
+    );
+  });
+
+  it("builds tables with column and row headers", () => {
+    const row = (...cells: string[]) => node("table_row", { cells: cells.map((c) => [text(c)]) });
+    const html = renderBlocksHtml([
+      node("table", { table_width: 2, has_column_header: true, has_row_header: true }, [
+        row("Name", "Qty"),
+        row("apples", "2"),
+      ]),
+    ]);
+    assert.equal(
+      html,
+      '<table><thead><tr><th scope="col">Name</th><th scope="col">Qty</th></tr></thead>' +
+        '<tbody><tr><th scope="row">apples</th><td>2</td></tr></tbody></table>',
+    );
+  });
+
+  it("wraps the page in a self-contained document", () => {
+    const page = {
+      object: "page",
+      id: "page-id",
+      icon: { type: "emoji", emoji: "📘" },
+      properties: { Name: { type: "title", title: [text("Guide <1>")] } },
+    } as unknown as NotionPage;
+    const html = renderPageHtml(page, [para(text("body"))]);
+
+    assert.ok(html.startsWith("<!DOCTYPE html>\n"));
+    assert.ok(html.includes("<title>Guide &#60;1&#62;</title>"));
+    assert.ok(html.includes('<div class="page-icon">📘</div>\n<h1 class="page-title">Guide &#60;1&#62;</h1>'));
+    assert.ok(html.includes(".bg-yellow { background: #fbf3db; }"), "should embed the color palette");
+    assert.ok(!/<(script|link)\b/.test(html), "should not reference external assets");
+    assert.ok(html.includes("<p>body</p>\n</article>"));
+  });
+});
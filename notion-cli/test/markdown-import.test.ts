@@ -0,0 +1,147 @@
+/**
+ * Tests for the Markdown parser behind `page import` and
+ * `block append --markdown`, and for chunked appends.
+ * Pure parsing plus an in-memory fetch stub — no Notion token needed.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createNotionClient } from "../src/postman/notion-api/index.js";
+import { appendBlockTree } from "../helpers.js";
+import { markdownToBlocks, parseInline } from "../markdown-import.js";
+import type { BlockInput, BlockInputOf, RichTextInput } from "../src/postman/notion-api/index.js";
+
+/** Block type plus plain text, with children nested — easier to compare than full JSON */
+interface Outline {
+  type: string;
+  text?: string;
+  children?: Outline[];
+}
+
+function plain(richText: RichTextInput[] | undefined): string {
+  return (richText ?? [])
+    .map((item) => (item.type === "text" ? item.text.content : item.type === "equation" ? `$${item.equation.expression}$` : ""))
+    .join("");
+}
+
+function outline(blocks: BlockInput[]): Outline[] {
+  return blocks.map((block) => {
+    const content = (block as Record<string, unknown>)[block.type] as { rich_text?: RichTextInput[]; children?: BlockInput[] };
+    return {
+      type: block.type,
+      ...(content.rich_text ? { text: plain(content.rich_text) } : {}),
+      ...(content.children ? { children: outline(content.children) } : {}),
+    };
+  });
+}
+
+describe("markdown import", () => {
+  it("parses inline annotations and links into rich text", () => {
+    const items = parseInline("a **b** _c_ ~~d~~ `e` [f](https://example.com) [rel](./x.md) $x^2$");
+    assert.deepEqual(items, [
+      { type: "text", text: { content: "a " } },
+      { type: "text", text: { content: "b" }, annotations: { bold: true } },
+      { type: "text", text: { content: " " } },
+      { type: "text", text: { content: "c" }, annotations: { italic: true } },
+      { type: "text", text: { content: " " } },
+      { type: "text", text: { content: "d" }, annotations: { strikethrough: true } },
+      { type: "text", text: { content: " " } },
+      { type: "text", text: { content: "e" }, annotations: { code: true } },
+      { type: "text", text: { content: " " } },
+      { type: "text", text: { content: "f", link: { url: "https://example.com" } } },
+      { type: "text", text: { content: " rel " } },
+      { type: "equation", equation: { expression: "x^2" } },
+    ]);
+  });
+
+  it("leaves intraword underscores and currency alone", () => {
+    assert.equal(plain(parseInline("snake_case_name costs $5 or $10")), "snake_case_name costs $5 or $10");
+  });
+
+  it("nests list items, sublists, and task items", () => {
+    const md = "- one\n- two\n  - nested\n    1. deep\n- [x] done\n\n1. first\n2. second\n";
+    assert.deepEqual(outline(markdownToBlocks(md)), [
+      { type: "bulleted_list_item", text: "one" },
+      {
+        type: "bulleted_list_item",
+        text: "two",
+        children: [{ type: "bulleted_list_item", text: "nested", children: [{ type: "numbered_list_item", text: "deep" }] }],
+      },
+      { type: "to_do", text: "done" },
+      { type: "numbered_list_item", text: "first" },
+      { type: "numbered_list_item", text: "second" },
+    ]);
+  });
+
+  it("parses headings, code, quotes, tables, images, and toggles", () => {
+    const md = [
+      "# Title",
+      "#### Deep",
+      "```py",
+      "print('hi')",
+      "```",
+      "> quoted",
+      ">",
+      "> - item",
+      "",
+      "| A | B |",
+      "|---|---|",
+      "| 1 | x \\| y |",
+      "",
+      "![Logo](https://example.com/logo.png)",
+      "",
+      "<details>",
+      "<summary>More</summary>",
+      "",
+      "hidden",
+      "",
+      "</details>",
+    ].join("\n");
+    const blocks = markdownToBlocks(md);
+
+    assert.deepEqual(blocks.map((b) => b.type), ["heading_1", "heading_3", "code", "quote", "table", "image", "toggle"]);
+    assert.equal(blocks[2].type === "code" && blocks[2].code.language, "python");
+    assert.deepEqual(outline([blocks[3]]), [{ type: "quote", text: "quoted", children: [{ type: "bulleted_list_item", text: "item" }] }]);
+
+    assert.ok(blocks[4].type === "table");
+    const { table } = blocks[4];
+    assert.equal(table.table_width, 2);
+    assert.equal(table.has_column_header, true);
+    const cells = table.children[1].table_row.cells.map(plain);
+    assert.deepEqual(cells, ["1", "x | y"]);
+
+    assert.deepEqual((blocks[5] as BlockInputOf<"image">).image, {
+      type: "external",
+      external: { url: "https://example.com/logo.png" },
+      caption: [{ type: "text", text: { content: "Logo" } }],
+    });
+    assert.deepEqual(outline([blocks[6]]), [{ type: "toggle", text: "More", children: [{ type: "paragraph", text: "hidden" }] }]);
+  });
+
+  it("joins soft line breaks and keeps hard breaks", () => {
+    const [paragraph] = outline(markdownToBlocks("one\ntwo  \nthree\\\nfour"));
+    assert.equal(paragraph.text, "one two\nthree\nfour");
+  });
+
+  it("appendBlockTree sends 100 blocks per request and appends nested children afterwards", async () => {
+    const calls: Array<{ parent: string; children: BlockInput[] }> = [];
+    let nextId = 0;
+    const stub: typeof fetch = async (input, init) => {
+      const parent = String(input).match(/blocks\/([^/]+)\/children/)![1];
+      const { children } = JSON.parse(String(init!.body)) as { children: BlockInput[] };
+      calls.push({ parent, children });
+      const results = children.map((b) => ({ object: "block", id: `b${++nextId}`, type: b.type }));
+      return new Response(JSON.stringify({ object: "list", results }), { status: 200 });
+    };
+    const notion = createNotionClient("test-token", { fetch: stub, rateLimit: { requestsPerSecond: Infinity } });
+
+    const items = Array.from({ length: 150 }, (_, n) => `- item ${n}`);
+    items.splice(1, 0, "  - nested");
+    const created = await appendBlockTree(notion, "page", markdownToBlocks(items.join("\n")));
+
+    assert.equal(created.length, 150);
+    assert.deepEqual(calls.map((c) => [c.parent, c.children.length]), [["page", 100], ["b1", 1], ["page", 50]]);
+    const first = calls[0].children[0] as BlockInputOf<"bulleted_list_item">;
+    assert.equal(first.bulleted_list_item.children, undefined, "nested children should not be sent inline");
+  });
+});
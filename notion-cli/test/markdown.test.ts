@@ -0,0 +1,153 @@
+/**
+ * Tests for the Markdown renderer behind `page export`.
+ * Renders hand-built block trees — no Notion token needed. The
+ * @ts-expect-error lines are checked by `tsc`.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  BlockInput,
+  Mention,
+  NotionBlockOf,
+  NotionClient,
+  NotionUser,
+} from "../src/postman/notion-api/index.js";
+import { blockContent, formatBlock, resolveUserMentions } from "../helpers.js";
+import { renderBlocks, renderRichText } from "../markdown.js";
+import { node, para, text } from "./helpers.js";
+
+function mention(value: Mention, plainText: string, href: string | null = null) {
+  return { type: "mention", mention: value, annotations: {}, plain_text: plainText, href };
+}
+
+const equation = (expression: string) => ({
+  type: "equation",
+  equation: { expression },
+  annotations: {},
+  plain_text: expression,
+  href: null,
+});
+
+describe("markdown", () => {
+  it("keeps annotations and links, with whitespace outside the markers", () => {
+    const md = renderRichText([
+      text("plain "),
+      text("bold ", { bold: true }),
+      text("both", { bold: true, italic: true }),
+      text(" and "),
+      text("x = 1", { code: true }),
+      text(" "),
+      text("docs", {}, "https://example.com/a(b)"),
+    ]);
+    assert.equal(md, "plain **bold** _**both**_ and `x = 1` [docs](https://example.com/a%28b%29)");
+  });
+
+  it("escapes Markdown syntax in plain text", () => {
+    assert.equal(renderRichText([text("2 * 3 [not a link]")]), "2 \\* 3 \\[not a link\\]");
+    assert.equal(renderBlocks([para(text("# not a heading"))]), "\\# not a heading");
+  });
+
+  it("numbers consecutive items and nests children", () => {
+    const md = renderBlocks([
+      node("numbered_list_item", { rich_text: [text("one")] }),
+      node("numbered_list_item", { rich_text: [text("two")] }, [
+        node("bulleted_list_item", { rich_text: [text("nested")] }),
+      ]),
+      node("to_do", { rich_text: [text("done")], checked: true }),
+      para(text("after")),
+      node("numbered_list_item", { rich_text: [text("restart")] }),
+    ]);
+    assert.equal(md, "1. one\n2. two\n   - nested\n- [x] done\n\nafter\n\n1. restart");
+  });
+
+  it("builds tables from table_row children", () => {
+    const row = (...cells: string[]) => node("table_row", { cells: cells.map((c) => [text(c)]) });
+    const md = renderBlocks([
+      node("table", { table_width: 2, has_column_header: true }, [row("Name", "Qty"), row("a|b", "2")]),
+    ]);
+    assert.equal(md, "| Name | Qty |\n| --- | --- |\n| a\\|b | 2 |");
+  });
+
+  it("renders toggles, code, callouts, and columns", () => {
+    const md = renderBlocks([
+      node("toggle", { rich_text: [text("More")] }, [para(text("hidden"))]),
+      node("code", { rich_text: [text("int x;")], language: "c++" }),
+      node("callout", { rich_text: [text("Note")], icon: { type: "emoji", emoji: "💡" } }),
+      node("column_list", {}, [
+        node("column", {}, [para(text("left"))]),
+        node("column", {}, [para(text("right"))]),
+      ]),
+    ]);
+    assert.equal(
+      md,
+      "<details>\n<summary>More</summary>\n\nhidden\n\n</details>\n\n```cpp\nint x;\n```\n\n> 💡 Note\n\nleft\n\nright",
+    );
+  });
+});
+
+describe("block union", () => {
+  it("narrows on type and reads typed content", () => {
+    const code = node("code", { rich_text: [text("ls")], caption: [], language: "shell" }).block;
+    if (code.type === "code") assert.equal(code.code.language, "shell");
+    assert.equal(blockContent(code as NotionBlockOf<"code">).language, "shell");
+    assert.equal(formatBlock(code), "```shell\nls\n```");
+  });
+
+  it("falls back to the type name for block types newer than the union", () => {
+    const block = node("meeting_notes", {}).block;
+    assert.equal(formatBlock(block), "[meeting_notes]");
+  });
+
+  it("rejects mismatched block inputs at compile time", () => {
+    const todo: BlockInput = { type: "to_do", to_do: { rich_text: [{ type: "text", text: { content: "x" } }] } };
+    // @ts-expect-error — the content goes under the type's own key
+    const paragraph: BlockInput = { type: "paragraph", quote: { rich_text: [] } };
+    // @ts-expect-error — child pages are created with `page create`, not appended
+    const childPage: BlockInput = { type: "child_page", child_page: { title: "x" } };
+    // @ts-expect-error — code blocks need a language
+    const code: BlockInput = { type: "code", code: { rich_text: [] } };
+    assert.ok(todo && paragraph && childPage && code);
+  });
+});
+
+describe("mentions and equations", () => {
+  const user = (id: string, name?: string) => mention({ type: "user", user: { object: "user", id, name } }, "");
+
+  it("renders users, pages, dates, and equations in Markdown and plain text", () => {
+    const block = para(
+      text("ask "),
+      user("u1", "Ada"),
+      text(" about "),
+      mention({ type: "page", page: { id: "p1" } }, "Roadmap", "https://www.notion.so/p1"),
+      text(" by "),
+      mention({ type: "date", date: { start: "2025-07-01", end: "2025-07-03", time_zone: null } }, "July 1, 2025"),
+      text(": "),
+      equation("e^{i\\pi}"),
+    );
+    assert.equal(
+      renderBlocks([block]),
+      "ask @Ada about [Roadmap](https://www.notion.so/p1) by 2025-07-01 → 2025-07-03: $e^{i\\pi}$",
+    );
+    assert.equal(formatBlock(block.block), "ask @Ada about Roadmap by 2025-07-01 → 2025-07-03: $e^{i\\pi}$");
+  });
+
+  it("resolves user names once per user and keeps IDs it can't resolve", async () => {
+    const lookups: string[] = [];
+    const notion = {
+      users: {
+        retrieve: async (id: string) => {
+          lookups.push(id);
+          return { object: "user", id, name: id === "u1" ? "Ada" : null } as NotionUser;
+        },
+      },
+    } as unknown as NotionClient;
+    const tree = [para(user("u1"), text(" "), user("u2")), para(user("u1"))];
+
+    await resolveUserMentions(notion, tree);
+    await resolveUserMentions(notion, tree);
+
+    assert.deepEqual(lookups.sort(), ["u1", "u2"]);
+    assert.equal(renderBlocks(tree), "@Ada @u2\n\n@Ada");
+  });
+});
@@ -1,10 +1,13 @@
 /**
- * Tests for `page` commands: get, property, update, create, archive.
+ * Tests for `page` commands: get, export, import, property, update, create, archive.
  * Creates a test page in before(), archives in after().
  */
 
 import { describe, it, before, after } from "node:test";
 import assert from "node:assert/strict";
+import { writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
   requireToken, createCli, extractJson,
   setupTestPage, teardownTestPage, type TestContext,
@@ -43,6 +46,48 @@ describe("page", () => {
     assert.ok(Array.isArray(data.blocks), "raw output should have a 'blocks' array");
   });
 
+  it("page export <id> renders Markdown with the title heading", async () => {
+    await cli("block", "append", ctx!.testPageId, "first", "--type", "bulleted_list_item");
+    await cli("block", "append", ctx!.testPageId, "second", "--type", "bulleted_list_item");
+
+    const { stdout, exitCode } = await cli("page", "export", ctx!.testPageId);
+    assert.equal(exitCode, 0, "should exit 0");
+    assert.ok(stdout.startsWith("# "), "should start with the title as a heading");
+    assert.ok(stdout.includes("- first\n- second"), "consecutive items should form one list");
+  });
+
+  it("page export --format html writes a standalone document", async () => {
+    const { stdout, exitCode } = await cli("page", "export", ctx!.testPageId, "--format", "html");
+    assert.equal(exitCode, 0, "should exit 0");
+    assert.ok(stdout.startsWith("<!DOCTYPE html>"), "should be a full HTML document");
+    assert.ok(stdout.includes("<style>"), "should embed its stylesheet");
+    assert.ok(stdout.includes("<ul>\n<li>first</li>\n<li>second</li>\n</ul>"), "consecutive items should form one list");
+  });
+
+  it("page export rejects an unknown --format", async () => {
+    const { stderr, exitCode } = await cli("page", "export", ctx!.testPageId, "--format", "docx");
+    assert.equal(exitCode, 1);
+    assert.ok(stderr.includes("unsupported --format"), stderr);
+  });
+
+  it("page import <parent-id> <file> creates a page from Markdown", async () => {
+    const file = join(tmpdir(), `notion-cli-import-${process.pid}.md`);
+    writeFileSync(file, "# Imported Doc\n\nSome **bold** text.\n\n1. one\n2. two\n");
+    try {
+      const { stdout, exitCode } = await cli("page", "import", ctx!.testPageId, file, "--raw");
+      assert.equal(exitCode, 0, "should exit 0");
+      const data = extractJson(stdout) as { page: { id: string }; blocks: Array<{ type: string }> };
+      assert.deepEqual(data.blocks.map((b) => b.type), ["paragraph", "numbered_list_item", "numbered_list_item"]);
+
+      const exported = await cli("page", "export", data.page.id);
+      assert.ok(exported.stdout.startsWith("# Imported Doc"), "leading heading should become the title");
+      assert.ok(exported.stdout.includes("Some **bold** text."), "annotations should round-trip");
+      assert.ok(exported.stdout.includes("1. one\n2. two"), "numbering should round-trip");
+    } finally {
+      rmSync(file, { force: true });
+    }
+  });
+
   it("page property <id> title", async () => {
     const { stdout, exitCode } = await cli("page", "property", ctx!.testPageId, "title");
     assert.equal(exitCode, 0, "should exit 0");
@@ -0,0 +1,126 @@
+/**
+ * Tests for the pagination helpers on createNotionClient and the CLI's
+ * --all / --max flags. Serves list pages from an in-memory fetch stub or a
+ * local stub server — no Notion token needed.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createNotionClient, collectAll } from "../src/postman/notion-api/index.js";
+import { startStubServer, extractJson, type StubServer } from "./helpers.js";
+
+/**
+ * Build a fetch stub that serves `total` users in pages, honouring
+ * start_cursor (an index) and page_size from the query string.
+ */
+function usersFetch(total: number, requests: URL[]): typeof fetch {
+  return async (input) => {
+    const url = new URL(String(input));
+    requests.push(url);
+    const start = Number(url.searchParams.get("start_cursor") ?? 0);
+    const size = Number(url.searchParams.get("page_size") ?? 100);
+    const end = Math.min(start + size, total);
+    const results = Array.from({ length: end - start }, (_, i) => ({ object: "user", id: `user-${start + i}` }));
+    const body = { object: "list", results, has_more: end < total, next_cursor: end < total ? String(end) : null };
+    return new Response(JSON.stringify(body), { status: 200 });
+  };
+}
+
+const unpaced = { requestsPerSecond: Infinity };
+
+describe("pagination", () => {
+  it("paginate.users follows cursors across pages", async () => {
+    const requests: URL[] = [];
+    const notion = createNotionClient("test-token", { fetch: usersFetch(250, requests), rateLimit: unpaced });
+
+    const users = await collectAll(notion.paginate.users());
+    assert.equal(users.length, 250);
+    assert.equal(users[249].id, "user-249");
+    assert.equal(requests.length, 3, "should fetch three pages of 100");
+  });
+
+  it("maxItems stops early and shrinks the last page request", async () => {
+    const requests: URL[] = [];
+    const notion = createNotionClient("test-token", { fetch: usersFetch(250, requests), rateLimit: unpaced });
+
+    const users = await collectAll(notion.paginate.users({ maxItems: 120 }));
+    assert.equal(users.length, 120);
+    assert.equal(requests.length, 2);
+    assert.equal(requests[1].searchParams.get("page_size"), "20", "second page should ask only for what's left");
+  });
+
+  it("collectAll caps a longer iterator", async () => {
+    const requests: URL[] = [];
+    const notion = createNotionClient("test-token", { fetch: usersFetch(50, requests), rateLimit: unpaced });
+
+    const users = await collectAll(notion.paginate.users({ pageSize: 10 }), { maxItems: 15 });
+    assert.equal(users.length, 15);
+    assert.equal(requests.length, 2, "should not fetch pages past the cap");
+  });
+
+  it("paginate.dataSourceTemplates reads the templates key", async () => {
+    const stub: typeof fetch = async () =>
+      new Response(JSON.stringify({
+        templates: [{ id: "t-1", name: "Default", is_default: true }],
+        has_more: false,
+        next_cursor: null,
+      }), { status: 200 });
+    const notion = createNotionClient("test-token", { fetch: stub, rateLimit: unpaced });
+
+    const templates = await collectAll(notion.paginate.dataSourceTemplates("ds-1"));
+    assert.deepEqual(templates.map((t) => t.id), ["t-1"]);
+  });
+});
+
+describe("list commands --all / --max", () => {
+  let server: StubServer;
+  let cli: StubServer["cli"];
+  const requests: URL[] = [];
+
+  before(async () => {
+    const serveUsers = usersFetch(250, requests);
+    server = await startStubServer(({ url }) => serveUsers(url.href));
+    cli = server.cli;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("user list --all --raw combines every page into one list", async () => {
+    requests.length = 0;
+    const { stdout, exitCode } = await cli("user", "list", "--all", "--raw");
+    assert.equal(exitCode, 0);
+    const list = extractJson(stdout) as { results: unknown[]; has_more: boolean; next_cursor: string | null };
+    assert.equal(list.results.length, 250);
+    assert.equal(list.has_more, false);
+    assert.equal(list.next_cursor, null);
+    assert.equal(requests.length, 3);
+  });
+
+  it("user list --max caps the formatted output", async () => {
+    requests.length = 0;
+    const { stdout, exitCode } = await cli("user", "list", "--max", "120");
+    assert.equal(exitCode, 0);
+    assert.ok(stdout.includes("Listed 120 user(s)."), stdout.slice(-200));
+    assert.ok(stdout.includes("user-119"));
+    assert.ok(!stdout.includes("user-120"), "should stop at the cap");
+  });
+
+  it("user list --all starts at --cursor and fetches --limit at a time", async () => {
+    requests.length = 0;
+    const { stdout, exitCode } = await cli("user", "list", "--all", "--cursor", "200", "--limit", "20", "--raw");
+    assert.equal(exitCode, 0);
+    const list = extractJson(stdout) as { results: Array<{ id: string }> };
+    assert.equal(list.results.length, 50);
+    assert.equal(list.results[0].id, "user-200");
+    assert.deepEqual(requests.map((url) => url.searchParams.get("start_cursor")), ["200", "220", "240"]);
+    assert.ok(requests.every((url) => url.searchParams.get("page_size") === "20"));
+  });
+
+  it("rejects a non-positive --max", async () => {
+    const { stderr, exitCode } = await cli("user", "list", "--max", "0");
+    assert.equal(exitCode, 1);
+    assert.ok(stderr.includes("invalid --max value"), stderr);
+  });
+});
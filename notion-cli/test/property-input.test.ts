@@ -0,0 +1,157 @@
+/**
+ * Tests for schema-aware `--set Name=value`. Converts values against a
+ * hand-built schema with faked lookups, then runs `page update` against a
+ * local stub server — no Notion token needed.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { FileUpload, NotionPage, NotionUser } from "../src/postman/notion-api/index.js";
+import {
+  closestMatch,
+  resolveAssignments,
+  PropertyInputError,
+  type PropertyLookups,
+  type PropertySchemas,
+} from "../property-input.js";
+import { options, property, startStubServer, type StubServer } from "./helpers.js";
+
+const schema: PropertySchemas = Object.fromEntries(
+  [
+    property("Name", "title"),
+    property("Status", "status", options("Not started", "In progress", "Done")),
+    property("Priority", "select", options("High", "Low")),
+    property("Tags", "multi_select", options("ui", "infra")),
+    property("Estimate", "number"),
+    property("Due", "date"),
+    property("Shipped", "checkbox"),
+    property("Owner", "people"),
+    property("Project", "relation", { data_source_id: "projects" }),
+    property("Spec", "files"),
+    property("Score", "formula"),
+  ].map((p) => [p.name, p]),
+);
+
+const users = [
+  { object: "user", id: "u-ada", name: "Ada Lovelace", type: "person", person: { email: "ada@example.com" } },
+  { object: "user", id: "u-alan", name: "Alan Turing", type: "person", person: { email: "alan@example.com" } },
+] as NotionUser[];
+
+const page = (id: string, title: string) =>
+  ({ object: "page", id, properties: { Name: { id: "title", type: "title", title: [{ plain_text: title }] } } }) as unknown as NotionPage;
+
+const lookups: PropertyLookups = {
+  users: async () => users,
+  pagesByTitle: async (_dataSourceId, title) =>
+    [page("p-site", "Website"), page("p-app", "App"), page("p-app-2", "App")].filter((p) => {
+      const titleValue = p.properties.Name;
+      return titleValue.type === "title" && titleValue.title[0].plain_text === title;
+    }),
+  fileUpload: async (id) => ({ id, status: "uploaded", filename: "spec.pdf" }) as FileUpload,
+};
+
+const UPLOAD_ID = "b52b8ed6-e029-4707-a671-832549c09de3";
+
+describe("property input", () => {
+  it("converts values by the schema's property types", async () => {
+    const properties = await resolveAssignments(
+      schema,
+      [
+        "name=Fix login",
+        "Status=in progress",
+        "Priority=",
+        "Tags=ui, infra",
+        "Estimate=3.5",
+        "Due=2025-07-01..2025-07-03",
+        "Shipped=yes",
+        "Owner=alan@example.com,Ada Lovelace",
+        "Project=Website",
+        `Spec=${UPLOAD_ID},https://example.com/files/design%20v2.png`,
+      ],
+      lookups,
+    );
+    assert.deepEqual(properties, {
+      Name: { title: [{ type: "text", text: { content: "Fix login" } }] },
+      Status: { status: { name: "In progress" } },
+      Priority: { select: null },
+      Tags: { multi_select: [{ name: "ui" }, { name: "infra" }] },
+      Estimate: { number: 3.5 },
+      Due: { date: { start: "2025-07-01", end: "2025-07-03" } },
+      Shipped: { checkbox: true },
+      Owner: { people: [{ object: "user", id: "u-alan" }, { object: "user", id: "u-ada" }] },
+      Project: { relation: [{ id: "p-site" }] },
+      Spec: {
+        files: [
+          { name: "spec.pdf", type: "file_upload", file_upload: { id: UPLOAD_ID } },
+          { name: "design v2.png", type: "external", external: { url: "https://example.com/files/design%20v2.png" } },
+        ],
+      },
+    });
+  });
+
+  it("suggests the closest property, option, or user", async () => {
+    const reject = (spec: string, message: RegExp) =>
+      assert.rejects(resolveAssignments(schema, [spec], lookups), (error: Error) => {
+        assert.ok(error instanceof PropertyInputError);
+        assert.match(error.message, message);
+        return true;
+      });
+    await reject("Stauts=Done", /unknown property "Stauts". Did you mean "Status"\?/);
+    await reject("Status=Dnoe", /"Dnoe" is not an option of status property "Status". Did you mean "Done"\? Options: Not started, In progress, Done/);
+    await reject("Owner=Ada Lovelce", /no user named "Ada Lovelce" for people property "Owner". Did you mean "Ada Lovelace"\?/);
+    await reject("Project=App", /"App" matches 2 pages for "Project" — pass one ID/);
+    await reject("Score=1", /formula property "Score" is computed by Notion and can't be set/);
+    await reject("Estimate=lots", /needs a number, got "lots"/);
+    await reject("Status", /Expected "Name=value" or "Name:type:value"/);
+  });
+
+  it("only suggests close matches", () => {
+    assert.equal(closestMatch("infar", ["ui", "infra"]), "infra");
+    assert.equal(closestMatch("backend", ["ui", "infra"]), undefined);
+  });
+});
+
+describe("page update --set Name=value", () => {
+  let server: StubServer;
+  let cli: StubServer["cli"];
+  const updates: Array<Record<string, unknown>> = [];
+
+  before(async () => {
+    server = await startStubServer(({ method, path, body }) => {
+      if (path.startsWith("/v1/users")) return { object: "list", results: users, has_more: false, next_cursor: null };
+      if (path.startsWith("/v1/data_sources/")) return { object: "data_source", id: "tasks", title: [], properties: schema };
+      if (method === "PATCH") {
+        updates.push(body);
+        return { ...page("task-1", "Fix login"), url: "https://www.notion.so/task-1" };
+      }
+      return { ...page("task-1", "Fix login"), parent: { type: "data_source_id", data_source_id: "tasks" } };
+    });
+    cli = server.cli;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("resolves values against the page's data source, alongside typed specs", async () => {
+    const { exitCode, stderr } = await cli(
+      "page", "update", "task-1", "--set", "Status=done", "--set", "Owner=Ada Lovelace", "--set", "Notes:rich_text:a=b",
+    );
+    assert.equal(exitCode, 0, stderr);
+    assert.deepEqual(updates.at(-1), {
+      properties: {
+        Status: { status: { name: "Done" } },
+        Owner: { people: [{ object: "user", id: "u-ada" }] },
+        Notes: { rich_text: [{ text: { content: "a=b" } }] },
+      },
+    });
+  });
+
+  it("reports a bad value without updating the page", async () => {
+    updates.length = 0;
+    const { exitCode, stderr } = await cli("page", "update", "task-1", "--set", "Priority=Hihg");
+    assert.equal(exitCode, 1);
+    assert.ok(stderr.includes(`Error: "Hihg" is not an option of select property "Priority". Did you mean "High"?`), stderr);
+    assert.equal(updates.length, 0);
+  });
+});
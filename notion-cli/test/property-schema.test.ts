@@ -0,0 +1,141 @@
+/**
+ * Tests for `datasource update` schema edits: parses property specs and
+ * plans renames, type changes, and option edits in-process, then sends
+ * an update to a local stub server — no Notion token needed.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { parsePropertySpec, schemaChanges, SchemaError } from "../property-schema.js";
+import type { PropertySchemas } from "../property-input.js";
+import { property, startStubServer, type StubServer } from "./helpers.js";
+
+const schema: PropertySchemas = Object.fromEntries(
+  [
+    property("Name", "title"),
+    property("Genre", "select", {
+      options: [
+        { id: "g1", name: "Rock", color: "red" },
+        { id: "g2", name: "Jazz", color: "blue" },
+      ],
+    }),
+    property("Status", "status", { options: [{ id: "s1", name: "Done", color: "green" }] }),
+    property("Due", "date"),
+    property("Notes", "rich_text"),
+  ].map((p) => [p.name, p]),
+);
+
+describe("property specs", () => {
+  it("builds the schema for each type's settings", () => {
+    assert.deepEqual(parsePropertySpec("Genre:select:Rock, Pop").schema, {
+      select: { options: [{ name: "Rock" }, { name: "Pop" }] },
+    });
+    assert.deepEqual(parsePropertySpec("Price:number:Dollar").schema, { number: { format: "dollar" } });
+    assert.deepEqual(parsePropertySpec('Total:formula:if(prop("A"), "x: y", "z")').schema, {
+      formula: { expression: 'if(prop("A"), "x: y", "z")' },
+    });
+    assert.deepEqual(parsePropertySpec("Project:relation:ds-2").schema, {
+      relation: { data_source_id: "ds-2", type: "single_property", single_property: {} },
+    });
+    assert.deepEqual(parsePropertySpec("Project:relation:ds-2:dual").schema, {
+      relation: { data_source_id: "ds-2", type: "dual_property", dual_property: {} },
+    });
+    assert.deepEqual(parsePropertySpec("Cost:rollup:Project:Budget:sum").schema, {
+      rollup: { relation_property_name: "Project", rollup_property_name: "Budget", function: "sum" },
+    });
+    assert.deepEqual(parsePropertySpec("ID:unique_id:TASK").schema, { unique_id: { prefix: "TASK" } });
+    assert.deepEqual(parsePropertySpec("ID:unique_id").schema, { unique_id: { prefix: null } });
+  });
+
+  it("rejects bad types and settings with suggestions", () => {
+    assert.throws(() => parsePropertySpec("Year:nubmer"), /unknown property type "nubmer" in "Year:nubmer". Did you mean "number"\?/);
+    assert.throws(() => parsePropertySpec("Price:number:dollars"), /Did you mean "dollar"\?/);
+    assert.throws(() => parsePropertySpec("Cost:rollup:Project:sum"), /needs a relation, a property, and a function/);
+    assert.throws(() => parsePropertySpec("Total:formula"), /needs an expression/);
+    assert.throws(() => parsePropertySpec("Done:checkbox:yes"), /checkbox properties take no settings/);
+    assert.throws(() => parsePropertySpec("Artist"), SchemaError);
+  });
+});
+
+describe("schema edits", () => {
+  it("combines renames, type changes, and option edits per property", () => {
+    assert.deepEqual(
+      schemaChanges(schema, {
+        rename: ["due=Due Date", "Genre=Style"],
+        retype: ["Notes:select:A,B"],
+        addOption: ["Genre:Ambient:purple", "Genre:Lo-fi: Chill"],
+        removeOption: ["Genre:jazz"],
+      }),
+      {
+        Due: { name: "Due Date" },
+        Genre: {
+          name: "Style",
+          select: {
+            options: [
+              { id: "g1", name: "Rock", color: "red" },
+              { name: "Ambient", color: "purple" },
+              { name: "Lo-fi: Chill" },
+            ],
+          },
+        },
+        Notes: { select: { options: [{ name: "A" }, { name: "B" }] } },
+      },
+    );
+  });
+
+  it("reports unknown names and edits the API can't make", () => {
+    assert.throws(() => schemaChanges(schema, { rename: ["Gnere=Style"] }), /unknown property "Gnere". Did you mean "Genre"\?/);
+    assert.throws(() => schemaChanges(schema, { rename: ["Due=Notes"] }), /a property with that name exists/);
+    assert.throws(() => schemaChanges(schema, { retype: ["Name:rich_text"] }), /title property "Name" can't change type/);
+    assert.throws(() => schemaChanges(schema, { addOption: ["Genre:rock"] }), /already has an option "rock"/);
+    assert.throws(() => schemaChanges(schema, { removeOption: ["Genre:Jaz"] }), /"Jaz" is not an option of "Genre". Did you mean "Jazz"\?/);
+    assert.throws(() => schemaChanges(schema, { addOption: ["Status:Blocked"] }), /can't change the options of status property/);
+    assert.throws(() => schemaChanges(schema, { addOption: ["Due:Soon"] }), /"Due" is a date property/);
+  });
+});
+
+describe("datasource update", () => {
+  let server: StubServer;
+  let cli: StubServer["cli"];
+  const updates: Array<Record<string, unknown>> = [];
+
+  before(async () => {
+    server = await startStubServer(({ method, body }) => {
+      if (method === "PATCH") updates.push(body);
+      return { object: "data_source", id: "ds", title: [], properties: schema };
+    });
+    cli = server.cli;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("sends new properties and edits to existing ones in one update", async () => {
+    const { exitCode, stdout, stderr } = await cli(
+      "datasource", "update", "ds",
+      "-p", "ID:unique_id:TASK",
+      "--rename-property", "Due=Due Date",
+      "--remove-option", "Genre:Rock",
+    );
+    assert.equal(exitCode, 0, stderr);
+    assert.ok(stdout.includes("Data source updated."), stdout);
+    assert.deepEqual(updates, [
+      {
+        properties: {
+          ID: { unique_id: { prefix: "TASK" } },
+          Due: { name: "Due Date" },
+          Genre: { select: { options: [{ id: "g2", name: "Jazz", color: "blue" }] } },
+        },
+      },
+    ]);
+  });
+
+  it("reports a misspelled property without updating", async () => {
+    updates.length = 0;
+    const { exitCode, stderr } = await cli("datasource", "update", "ds", "--retype", "Nots:rich_text");
+    assert.equal(exitCode, 1);
+    assert.ok(stderr.includes(`unknown property "Nots". Did you mean "Notes"?`), stderr);
+    assert.equal(updates.length, 0);
+  });
+});
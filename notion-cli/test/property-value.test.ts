@@ -0,0 +1,65 @@
+/**
+ * Tests for the PropertyValue union and formatPropertyValue.
+ * Formats hand-built property values — no Notion token needed. The
+ * @ts-expect-error lines are checked by `tsc`.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PropertyValue, PropertyValueOf } from "../src/postman/notion-api/index.js";
+import { formatPropertyValue } from "../helpers.js";
+
+const text = (content: string) => ({
+  type: "text" as const,
+  text: { content, link: null },
+  annotations: { bold: false, italic: false, strikethrough: false, underline: false, code: false, color: "default" },
+  plain_text: content,
+  href: null,
+});
+
+const option = (name: string) => ({ id: name, name, color: "default" });
+
+describe("property values", () => {
+  it("formats every value type", () => {
+    const values: Array<[PropertyValue, string]> = [
+      [{ id: "a", type: "title", title: [text("Fix "), text("login")] }, "Fix login"],
+      [{ id: "b", type: "rich_text", rich_text: [] }, "(empty)"],
+      [{ id: "c", type: "number", number: 0 }, "0"],
+      [{ id: "d", type: "select", select: null }, "(empty)"],
+      [{ id: "e", type: "multi_select", multi_select: [option("ui"), option("infra")] }, "ui, infra"],
+      [{ id: "f", type: "status", status: option("Done") }, "Done"],
+      [{ id: "g", type: "date", date: { start: "2025-07-01", end: "2025-07-03", time_zone: null } }, "2025-07-01 → 2025-07-03"],
+      [{ id: "h", type: "people", people: [{ object: "user", id: "u1", name: "Ada" }, { object: "user", id: "u2" }] }, "Ada, u2"],
+      [{ id: "i", type: "files", files: [{ name: "spec.pdf", type: "external", external: { url: "https://x" } }] }, "spec.pdf"],
+      [{ id: "j", type: "checkbox", checkbox: true }, "✓"],
+      [{ id: "k", type: "url", url: null }, "(empty)"],
+      [{ id: "l", type: "formula", formula: { type: "number", number: 3 } }, "3"],
+      [{ id: "m", type: "relation", relation: [{ id: "p1" }, { id: "p2" }], has_more: false }, "p1, p2"],
+      [{ id: "n", type: "rollup", rollup: { type: "array", array: [], function: "show_original" } }, "[rollup: array]"],
+      [{ id: "o", type: "created_by", created_by: { object: "user", id: "u1" } }, "u1"],
+      [{ id: "p", type: "unique_id", unique_id: { prefix: "TASK", number: 42 } }, "TASK-42"],
+      [{ id: "q", type: "verification", verification: { state: "verified", verified_by: null, date: null } }, "verified"],
+      [{ id: "r", type: "button", button: {} }, "[button]"],
+    ];
+    for (const [value, expected] of values) {
+      assert.equal(formatPropertyValue(value), expected, value.type);
+    }
+  });
+
+  it("falls back to the type name for property types newer than the union", () => {
+    const value = { id: "z", type: "place", place: { name: "Lisbon" } } as unknown as PropertyValue;
+    assert.equal(formatPropertyValue(value), "[place]");
+  });
+
+  it("narrows on type and rejects mismatched values at compile time", () => {
+    const status: PropertyValueOf<"status"> = { id: "s", type: "status", status: option("Done") };
+    const prop: PropertyValue = status;
+    if (prop.type === "status") assert.equal(prop.status?.name, "Done");
+
+    // @ts-expect-error — a select holds one option, not a list
+    const select: PropertyValue = { id: "x", type: "select", select: [option("a")] };
+    // @ts-expect-error — the value goes under the type's own key
+    const number: PropertyValue = { id: "y", type: "number", checkbox: true };
+    assert.ok(select && number);
+  });
+});
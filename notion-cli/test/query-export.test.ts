@@ -0,0 +1,172 @@
+/**
+ * Tests for `datasource query --format`: serializes property values and
+ * resolves --columns in-process, then exports entries from a local stub
+ * server as CSV, TSV, JSON, NDJSON, and a table — no Notion token needed.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { NotionPage, PropertyValue } from "../src/postman/notion-api/index.js";
+import { cellText, csvLine, resolveColumns, serializeValue } from "../query-export.js";
+import type { PropertySchemas } from "../property-input.js";
+import { parseCsv } from "../csv-import.js";
+import { property, startStubServer, type StubServer } from "./helpers.js";
+
+const schema: PropertySchemas = Object.fromEntries(
+  [
+    property("Tags", "multi_select"),
+    property("Name", "title"),
+    property("Estimate", "number"),
+    property("Due", "date"),
+    property("Owner", "people"),
+    property("Project", "relation"),
+    property("Shipped", "checkbox"),
+  ].map((p) => [p.name, p]),
+);
+
+const value = (type: string, content: unknown) => ({ id: type, type, [type]: content }) as PropertyValue;
+
+const entry = (id: string, name: string, tags: string[], estimate: number | null) =>
+  ({
+    object: "page",
+    id,
+    url: `https://www.notion.so/${id}`,
+    created_time: "2025-06-01T09:00:00.000Z",
+    last_edited_time: "2025-06-02T09:00:00.000Z",
+    properties: {
+      Name: value("title", [{ type: "text", text: { content: name }, plain_text: name }]),
+      Tags: value("multi_select", tags.map((tag) => ({ id: tag, name: tag, color: "default" }))),
+      Estimate: value("number", estimate),
+      Due: value("date", { start: "2025-07-01", end: "2025-07-03", time_zone: null }),
+      Owner: value("people", [{ object: "user", id: "u1", name: "Ada", person: { email: "ada@example.com" } }]),
+      Project: value("relation", [{ id: "p1" }]),
+      Shipped: value("checkbox", false),
+    },
+  }) as unknown as NotionPage;
+
+const entries = [entry("t1", "Fix login", ["ui", "auth"], 3), entry("t2", 'Say "hi", then leave', [], null)];
+
+describe("export values", () => {
+  it("serializes each property type to a plain value", () => {
+    const page = entries[0];
+    assert.equal(serializeValue(page.properties.Name), "Fix login");
+    assert.deepEqual(serializeValue(page.properties.Tags), ["ui", "auth"]);
+    assert.equal(serializeValue(page.properties.Due), "2025-07-01/2025-07-03");
+    assert.deepEqual(serializeValue(page.properties.Owner), ["ada@example.com"]);
+    assert.deepEqual(serializeValue(page.properties.Project, new Map([["p1", "Website"]])), ["Website"]);
+    assert.equal(serializeValue(page.properties.Shipped), false);
+    assert.equal(serializeValue(entries[1].properties.Tags), null);
+    assert.equal(serializeValue(value("unique_id", { prefix: "TASK", number: 42 })), "TASK-42");
+    assert.equal(serializeValue(value("formula", { type: "number", number: 7 })), 7);
+    assert.deepEqual(
+      serializeValue(value("rollup", { function: "show_original", type: "array", array: [value("number", 1), value("number", 2)] })),
+      [1, 2],
+    );
+    assert.equal(cellText(["ui", "auth"]), "ui, auth");
+    assert.equal(cellText(null), "");
+  });
+
+  it("resolves --columns against the schema and page fields", () => {
+    assert.deepEqual(resolveColumns(schema).slice(0, 2), ["Name", "Tags"]);
+    assert.deepEqual(resolveColumns(schema, "name, due ,id"), ["Name", "Due", "id"]);
+    assert.throws(() => resolveColumns(schema, "Name,Estimat"), /unknown column "Estimat". Did you mean "Estimate"\?/);
+  });
+
+  it("quotes CSV cells so they parse back", () => {
+    const line = csvLine(["a,b", 'say "hi"', "two\nlines", " padded", "plain"], ",");
+    assert.equal(line, '"a,b","say ""hi""","two\nlines"," padded",plain');
+    assert.deepEqual(parseCsv(`h1,h2,h3,h4,h5\n${line}`).rows, [["a,b", 'say "hi"', "two\nlines", " padded", "plain"]]);
+  });
+});
+
+describe("datasource query --format", () => {
+  let server: StubServer;
+  let cli: StubServer["cli"];
+
+  let served = entries;
+  const related = Array.from({ length: 30 }, (_, i) => ({ id: `r${i}` }));
+
+  before(async () => {
+    server = await startStubServer(({ path, url }) => {
+      if (path.endsWith("/query")) return { object: "list", results: served, has_more: true, next_cursor: "cursor-2" };
+      if (path === "/v1/pages/t3/properties/relation") {
+        // Served 25 at a time, as Notion does
+        const start = Number(url.searchParams.get("start_cursor") ?? 0);
+        const results = related.slice(start, start + 25).map((relation) => ({ object: "property_item", type: "relation", relation }));
+        const more = start + 25 < related.length;
+        return { object: "list", type: "property_item", results, has_more: more, next_cursor: more ? String(start + 25) : null };
+      }
+      if (path.startsWith("/v1/pages/")) {
+        return { object: "page", id: "p1", properties: { title: value("title", [{ plain_text: "Website" }]) } };
+      }
+      return { object: "data_source", id: "ds", title: [], properties: schema };
+    });
+    cli = server.cli;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("writes CSV with the title first and the next-page hint on stderr", async () => {
+    const { exitCode, stdout, stderr } = await cli("datasource", "query", "ds", "--format", "csv");
+    assert.equal(exitCode, 0, stderr);
+    assert.equal(
+      stdout,
+      "Name,Tags,Estimate,Due,Owner,Project,Shipped\n" +
+        'Fix login,"ui, auth",3,2025-07-01/2025-07-03,ada@example.com,p1,false\n' +
+        '"Say ""hi"", then leave",,,2025-07-01/2025-07-03,ada@example.com,p1,false\n',
+    );
+    assert.ok(stderr.includes("--format csv --cursor cursor-2"), stderr);
+  });
+
+  it("keeps types in JSON and NDJSON, with chosen columns in order", async () => {
+    const json = await cli("datasource", "query", "ds", "-f", "json", "--columns", "id,Tags,Estimate,Project", "--resolve-relations");
+    assert.equal(json.exitCode, 0, json.stderr);
+    assert.deepEqual(JSON.parse(json.stdout), [
+      { id: "t1", Tags: ["ui", "auth"], Estimate: 3, Project: ["Website"] },
+      { id: "t2", Tags: null, Estimate: null, Project: ["Website"] },
+    ]);
+
+    const ndjson = await cli("datasource", "query", "ds", "-f", "ndjson", "--columns", "Name,Shipped");
+    assert.deepEqual(ndjson.stdout.trim().split("\n").map((line) => JSON.parse(line)), [
+      { Name: "Fix login", Shipped: false },
+      { Name: 'Say "hi", then leave', Shipped: false },
+    ]);
+  });
+
+  it("writes TSV and aligned tables", async () => {
+    const tsv = await cli("datasource", "query", "ds", "-f", "tsv", "--columns", "Name,Tags");
+    assert.equal(tsv.stdout.split("\n")[1], "Fix login\tui, auth");
+
+    const table = await cli("datasource", "query", "ds", "-f", "table", "--columns", "Name,Estimate");
+    assert.deepEqual(table.stdout.split("\n").slice(0, 3), [
+      "Name                  Estimate",
+      "────────────────────  ────────",
+      "Fix login             3",
+    ]);
+  });
+
+  it("exports every related page past the 25 a page object holds", async () => {
+    const epic = entry("t3", "Epic", [], null);
+    epic.properties.Project = { ...value("relation", related.slice(0, 25)), has_more: true } as PropertyValue;
+    served = [epic];
+    try {
+      const { exitCode, stdout, stderr } = await cli("datasource", "query", "ds", "-f", "json", "--columns", "Project");
+      assert.equal(exitCode, 0, stderr);
+      assert.deepEqual(JSON.parse(stdout), [{ Project: related.map(({ id }) => id) }]);
+    } finally {
+      served = entries;
+    }
+  });
+
+  it("rejects unknown formats and columns", async () => {
+    const format = await cli("datasource", "query", "ds", "--format", "xlsx");
+    assert.equal(format.exitCode, 1);
+    assert.ok(format.stderr.includes(`unknown --format "xlsx". Use one of: csv, tsv, json, ndjson, table`), format.stderr);
+
+    const columns = await cli("datasource", "query", "ds", "-f", "csv", "--columns", "Nmae");
+    assert.equal(columns.exitCode, 1);
+    assert.ok(columns.stderr.includes(`Did you mean "Name"?`), columns.stderr);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests for the --where / --sort compiler behind `datasource query` and
+ * the SDK's typed filter and sort builders. Compiles against a hand-built
+ * schema, then runs the command against a local stub server — no Notion
+ * token needed. The @ts-expect-error lines are checked by `tsc`.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import {
+  filter,
+  sort,
+  type QueryDataSourceParams,
+  type QueryFilter,
+} from "../src/postman/notion-api/index.js";
+import { compileSorts, compileWhere, FilterError, type PropertySchemas } from "../query-filter.js";
+import { property, startStubServer, type StubServer } from "./helpers.js";
+
+const schema: PropertySchemas = Object.fromEntries(
+  [
+    property("Name", "title"),
+    property("Status", "status"),
+    property("Priority", "number"),
+    property("Tags", "multi_select"),
+    property("Due Date", "date"),
+    property("In Review", "checkbox"),
+    property("Owner", "people"),
+    property("Score", "formula"),
+    property("Created", "created_time"),
+  ].map((p) => [p.name, p]),
+);
+
+describe("query filter", () => {
+  it("compiles comparisons by property type", () => {
+    assert.deepEqual(compileWhere('Status = "Done"', schema), { property: "Status", status: { equals: "Done" } });
+    assert.deepEqual(compileWhere("Priority >= 2", schema), {
+      property: "Priority",
+      number: { greater_than_or_equal_to: 2 },
+    });
+    assert.deepEqual(compileWhere("[In Review] = false", schema), {
+      property: "In Review",
+      checkbox: { equals: false },
+    });
+    assert.deepEqual(compileWhere("tags does not contain infra", schema), {
+      property: "Tags",
+      multi_select: { does_not_contain: "infra" },
+    });
+    assert.deepEqual(compileWhere("[Due Date] < 2025-07-01", schema), {
+      property: "Due Date",
+      date: { before: "2025-07-01" },
+    });
+    assert.deepEqual(compileWhere("Created >= 2025-01-01T00:00:00Z", schema), {
+      timestamp: "created_time",
+      created_time: { on_or_after: "2025-01-01T00:00:00Z" },
+    });
+  });
+
+  it("resolves relative dates and falls back to the page timestamps", () => {
+    const daysFromNow = (days: number) => {
+      const date = new Date();
+      date.setUTCDate(date.getUTCDate() + days);
+      return date.toISOString().slice(0, 10);
+    };
+    assert.deepEqual(compileWhere("last_edited_time < 90 days ago", schema), {
+      timestamp: "last_edited_time",
+      last_edited_time: { before: daysFromNow(-90) },
+    });
+    assert.deepEqual(compileWhere("[Due Date] <= 2 weeks from now and Created > yesterday", schema), {
+      and: [
+        { property: "Due Date", date: { on_or_before: daysFromNow(14) } },
+        { timestamp: "created_time", created_time: { after: daysFromNow(-1) } },
+      ],
+    });
+    assert.throws(() => compileWhere("[Due Date] < 90", schema), /or a relative date like "90 days ago", got "90"/);
+  });
+
+  it("groups with and / or and parentheses, flattening same-kind joins", () => {
+    const filter = compileWhere("Name starts with 'Fix' and (Owner is empty or Priority > 3) and Tags contains a", schema);
+    assert.deepEqual(filter, {
+      and: [
+        { property: "Name", title: { starts_with: "Fix" } },
+        {
+          or: [
+            { property: "Owner", people: { is_empty: true } },
+            { property: "Priority", number: { greater_than: 3 } },
+          ],
+        },
+        { property: "Tags", multi_select: { contains: "a" } },
+      ],
+    });
+  });
+
+  it("rejects unknown properties, unsupported operators, and bad values", () => {
+    assert.throws(() => compileWhere("Stauts = Done", schema), /unknown property "Stauts". Available: Name, Status/);
+    assert.throws(() => compileWhere("Status > Done", schema), /operator ">" doesn't work with status property "Status"/);
+    assert.throws(() => compileWhere("Priority = high", schema), /needs a number, got "high"/);
+    assert.throws(() => compileWhere("Score = 1", schema), /use --filter-json instead/);
+    assert.throws(() => compileWhere("(Priority = 1", schema), /missing "\)"/);
+    assert.throws(() => compileWhere("Name = 'open", schema), FilterError);
+    assert.throws(() => compileWhere("Priority 1", schema), /expected an operator after "Priority"/);
+  });
+
+  it("compiles sorts with a default direction and timestamp fallbacks", () => {
+    assert.deepEqual(compileSorts(["Due Date:desc, name", "last_edited_time:asc"], schema), [
+      { property: "Due Date", direction: "descending" },
+      { property: "Name", direction: "ascending" },
+      { timestamp: "last_edited_time", direction: "ascending" },
+    ]);
+    assert.throws(() => compileSorts(["Priority:sideways"], schema), /invalid sort direction "sideways"/);
+  });
+});
+
+describe("filter builder", () => {
+  it("builds property, formula, rollup, and timestamp filters", () => {
+    assert.deepEqual(filter.status("Status").equals("Done"), { property: "Status", status: { equals: "Done" } });
+    assert.deepEqual(filter.richText("Notes").isNotEmpty(), { property: "Notes", rich_text: { is_not_empty: true } });
+    assert.deepEqual(filter.uniqueId("ID").greaterThan(10), { property: "ID", unique_id: { greater_than: 10 } });
+    assert.deepEqual(filter.date("Due").pastWeek(), { property: "Due", date: { past_week: {} } });
+    assert.deepEqual(filter.date("Due").onOrBefore("one_week_from_now"), {
+      property: "Due",
+      date: { on_or_before: "one_week_from_now" },
+    });
+    assert.deepEqual(filter.formula("Score").number().lessThan(5), {
+      property: "Score",
+      formula: { number: { less_than: 5 } },
+    });
+    assert.deepEqual(filter.rollup("Tasks").every({ status: { equals: "Done" } }), {
+      property: "Tasks",
+      rollup: { every: { status: { equals: "Done" } } },
+    });
+    assert.deepEqual(filter.lastEditedTime().after("2025-01-01"), {
+      timestamp: "last_edited_time",
+      last_edited_time: { after: "2025-01-01" },
+    });
+  });
+
+  it("nests and / or groups and builds sorts", () => {
+    const params: QueryDataSourceParams = {
+      filter: filter.and(
+        filter.checkbox("In Review").equals(true),
+        filter.or(filter.people("Owner").isEmpty(), filter.relation("Project").contains("p1")),
+      ),
+      sorts: [sort.property("Due Date").descending(), sort.createdTime().ascending()],
+    };
+    assert.deepEqual(params, {
+      filter: {
+        and: [
+          { property: "In Review", checkbox: { equals: true } },
+          { or: [{ property: "Owner", people: { is_empty: true } }, { property: "Project", relation: { contains: "p1" } }] },
+        ],
+      },
+      sorts: [
+        { property: "Due Date", direction: "descending" },
+        { timestamp: "created_time", direction: "ascending" },
+      ],
+    });
+  });
+
+  it("rejects conditions a property type doesn't support at compile time", () => {
+    // @ts-expect-error — selects have no greater-than
+    const select: QueryFilter = { property: "Status", select: { greater_than: 1 } };
+    // @ts-expect-error — numbers compare with numbers
+    const number: QueryFilter = { property: "Priority", number: { equals: "2" } };
+    // @ts-expect-error — files only support empty checks
+    const files: QueryFilter = { property: "Attachments", files: { contains: "a.pdf" } };
+    // @ts-expect-error — timestamp filters only exist for created and last edited time
+    const timestamp: QueryFilter = { timestamp: "due_time", due_time: { after: "2025-01-01" } };
+    // @ts-expect-error — the builder only offers checkbox conditions for checkboxes
+    const contains = () => filter.checkbox("Done").contains("x");
+    assert.ok(select && number && files && timestamp && contains);
+  });
+});
+
+describe("datasource query --where", () => {
+  let server: StubServer;
+  let cli: StubServer["cli"];
+  const queries: Array<Record<string, unknown>> = [];
+
+  before(async () => {
+    server = await startStubServer(({ path, body }) => {
+      if (path.endsWith("/query")) {
+        queries.push(body);
+        return { object: "list", results: [], has_more: false, next_cursor: null };
+      }
+      return { object: "data_source", id: "ds", title: [], properties: schema };
+    });
+    cli = server.cli;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("sends the compiled filter and sorts", async () => {
+    const { exitCode, stderr } = await cli(
+      "datasource", "query", "ds", "--where", "Status = Done and Priority < 3", "--sort", "Priority:desc",
+    );
+    assert.equal(exitCode, 0, stderr);
+    assert.deepEqual(queries.at(-1), {
+      filter: {
+        and: [
+          { property: "Status", status: { equals: "Done" } },
+          { property: "Priority", number: { less_than: 3 } },
+        ],
+      },
+      sorts: [{ property: "Priority", direction: "descending" }],
+      page_size: 20,
+    });
+  });
+
+  it("reports schema errors without querying", async () => {
+    queries.length = 0;
+    const { exitCode, stderr } = await cli("datasource", "query", "ds", "--where", "Priority contains 1");
+    assert.equal(exitCode, 1);
+    assert.ok(stderr.includes(`Error: operator "contains" doesn't work with number property "Priority"`), stderr);
+    assert.equal(queries.length, 0);
+  });
+
+  it("passes --filter-json through and refuses it with --where", async () => {
+    const filter = { property: "In Review", checkbox: { equals: true } };
+    const { exitCode } = await cli("datasource", "query", "ds", "--filter-json", JSON.stringify(filter));
+    assert.equal(exitCode, 0);
+    assert.deepEqual(queries.at(-1)?.filter, filter);
+
+    const both = await cli("datasource", "query", "ds", "--where", "Priority = 1", "--filter-json", "{}");
+    assert.equal(both.exitCode, 1);
+    assert.ok(both.stderr.includes("either --where or --filter-json"), both.stderr);
+  });
+});
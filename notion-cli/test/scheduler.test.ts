@@ -0,0 +1,71 @@
+/**
+ * Tests for the request scheduler that paces Notion API calls.
+ * Uses plain timed tasks — no Notion token or server needed.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createScheduler } from "../src/postman/notion-api/index.js";
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("scheduler", () => {
+  it("caps the number of tasks in flight", async () => {
+    const scheduler = createScheduler({ requestsPerSecond: Infinity, maxConcurrent: 2 });
+    let active = 0;
+    let peak = 0;
+
+    const results = await Promise.all(
+      Array.from({ length: 8 }, (_, i) =>
+        scheduler.schedule(async () => {
+          active++;
+          peak = Math.max(peak, active);
+          await delay(10);
+          active--;
+          return i;
+        }),
+      ),
+    );
+
+    assert.equal(peak, 2, "no more than maxConcurrent tasks should run at once");
+    assert.deepEqual(results, [0, 1, 2, 3, 4, 5, 6, 7], "results should keep their order");
+  });
+
+  it("paces task starts to the token-bucket rate after the burst", async () => {
+    const scheduler = createScheduler({ requestsPerSecond: 20, burst: 2, maxConcurrent: 10 });
+    const starts: number[] = [];
+    const begin = Date.now();
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        scheduler.schedule(async () => {
+          starts.push(Date.now() - begin);
+        }),
+      ),
+    );
+
+    // 2 start immediately, the other 4 wait for a refill every 50ms
+    assert.ok(starts[1] < 40, `burst should start immediately (got ${starts[1]}ms)`);
+    assert.ok(starts[5] >= 180, `6th task should wait for four refills (got ${starts[5]}ms)`);
+  });
+
+  it("pause() holds back queued tasks", async () => {
+    const scheduler = createScheduler({ requestsPerSecond: Infinity });
+    const begin = Date.now();
+    scheduler.pause(100);
+
+    await scheduler.schedule(async () => undefined);
+    assert.ok(Date.now() - begin >= 90, "task should start after the pause");
+  });
+
+  it("propagates task rejections and frees the slot", async () => {
+    const scheduler = createScheduler({ requestsPerSecond: Infinity, maxConcurrent: 1 });
+
+    await assert.rejects(scheduler.schedule(async () => {
+      throw new Error("boom");
+    }), /boom/);
+    assert.equal(await scheduler.schedule(async () => "next"), "next");
+  });
+});
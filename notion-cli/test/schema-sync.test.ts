@@ -0,0 +1,233 @@
+/**
+ * Tests for `datasource schema pull/apply`: round-trips YAML and plans
+ * schema changes in-process, then pulls and applies a schema file
+ * against a local stub server — no Notion token needed.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { NotionDatabase } from "../src/postman/notion-api/index.js";
+import { parseYaml, stringifyYaml, YamlError, type YamlValue } from "../yaml.js";
+import { initialProperties, planSchema, pullSchema, readSchemaDocument } from "../schema-sync.js";
+import { property, startStubServer, type StubServer } from "./helpers.js";
+
+const live = {
+  object: "data_source",
+  id: "ds",
+  title: [{ plain_text: "Tasks" }],
+  properties: Object.fromEntries(
+    [
+      property("Name", "title", {}, "title"),
+      property("Genre", "select", {
+        options: [
+          { id: "g1", name: "Rock", color: "red" },
+          { id: "g2", name: "Jazz", color: "blue" },
+        ],
+      }, "%3AUPp"),
+      property("Status", "status", { options: [{ id: "s1", name: "Done", color: "green" }] }, "st"),
+      property("Due", "date", {}, "due"),
+      property("Cost", "number", { format: "dollar" }, "cost"),
+      property("Notes", "rich_text", {}, "notes"),
+    ].map((p) => [p.name, p]),
+  ),
+} as unknown as NotionDatabase;
+
+describe("yaml", () => {
+  it("writes values that parse back unchanged", () => {
+    const value: { [key: string]: YamlValue } = {
+      title: "Tasks: Q3",
+      count: 3,
+      empty: "",
+      flags: [true, null, "yes", "42", "# not a comment"],
+      nested: { "key with: colon": [{ name: "a", color: "red" }, { name: "'quoted'" }], none: [] },
+    };
+    assert.deepEqual(parseYaml(stringifyYaml(value)), value);
+  });
+
+  it("reads hand-written files with comments and flow lists", () => {
+    const text = [
+      "# a schema",
+      "properties:",
+      "  Tags:   # the tags",
+      "    type: multi_select",
+      "    options: [ui, 'infra, ops', \"a # b\"]",
+      "  Steps:",
+      "  - first",
+      "  -   name: second",
+      "      color: blue",
+    ].join("\n");
+    assert.deepEqual(parseYaml(text), {
+      properties: {
+        Tags: { type: "multi_select", options: ["ui", "infra, ops", "a # b"] },
+        Steps: ["first", { name: "second", color: "blue" }],
+      },
+    });
+    assert.throws(() => parseYaml("a: 1\n    b: 2"), /line 2: unexpected indentation/);
+    assert.throws(() => parseYaml("a: 1\na: 2"), YamlError);
+  });
+});
+
+describe("schema plans", () => {
+  it("pulls a file that plans no changes", () => {
+    const plan = planSchema("ds", live, readSchemaDocument(pullSchema("ds", live)));
+    assert.deepEqual(plan, { changes: [], skipped: [], properties: {} });
+  });
+
+  it("plans renames, type changes, option edits, additions, and removals", () => {
+    const document = readSchemaDocument(`
+data_source: ds
+title: Team tasks
+properties:
+  Name:
+    type: title
+    id: title
+  Style:
+    type: select
+    options:
+      - Rock
+      - name: Ambient
+        color: purple
+    id: "%3AUPp"
+  Status:
+    type: status
+    options: [Done, Blocked]
+  Due:
+    type: date
+  Cost:
+    type: number
+    format: euro
+  Priority:
+    type: select
+    options: [Low, High]
+`);
+    const plan = planSchema("ds", live, document);
+    assert.equal(plan.title, "Team tasks");
+    assert.deepEqual(plan.changes, [
+      { action: "rename", name: "Genre", detail: "Genre → Style" },
+      { action: "options", name: "Style", detail: "options +Ambient −Jazz" },
+      { action: "retype", name: "Cost", detail: "number (format dollar) → number (format euro)" },
+      { action: "add", name: "Priority", detail: "select (options Low, High)" },
+      { action: "remove", name: "Notes", detail: "rich_text" },
+    ]);
+    assert.deepEqual(plan.properties, {
+      Genre: {
+        name: "Style",
+        select: { options: [{ id: "g1", name: "Rock", color: "red" }, { name: "Ambient", color: "purple" }] },
+      },
+      Cost: { number: { format: "euro" } },
+      Priority: { select: { options: [{ name: "Low" }, { name: "High" }] } },
+      Notes: null,
+    });
+    assert.deepEqual(plan.skipped, [`options of status property "Status" — Notion's API can't change them`]);
+  });
+
+  it("treats settings left out of a file as Notion's defaults", () => {
+    const plain = { ...live, properties: { ...live.properties, Cost: property("Cost", "number", { format: "number" }, "cost") } };
+    const document = readSchemaDocument("properties:\n  Name:\n    type: title\n  Cost:\n    type: number\n");
+    assert.deepEqual(planSchema("ds", plain, document).changes.filter((c) => c.name === "Cost"), []);
+  });
+
+  it("lists option color edits as skipped", () => {
+    const document = readSchemaDocument(pullSchema("ds", live).replace("color: red", "color: purple"));
+    const plan = planSchema("ds", live, document);
+    assert.deepEqual(plan.changes, []);
+    assert.deepEqual(plan.skipped, [`color of "Rock" (red → purple) in "Genre" — Notion's API can't change the color of an existing option`]);
+  });
+
+  it("refuses to add a property under the current name of one being renamed", () => {
+    const document = readSchemaDocument(
+      pullSchema("ds", live).replace("  Status:\n", "  Old Status:\n") + "  Status:\n    type: select\n",
+    );
+    assert.throws(
+      () => planSchema("ds", live, document),
+      /can't add "Status" while renaming the property now called "Status" — apply the rename first/,
+    );
+  });
+
+  it("builds a new data source's properties from either file format", () => {
+    assert.deepEqual(initialProperties(pullSchema("ds", live)), {
+      Name: { title: {} },
+      Genre: { select: { options: [{ name: "Rock", color: "red" }, { name: "Jazz", color: "blue" }] } },
+      Status: { status: {} },
+      Due: { date: {} },
+      Cost: { number: { format: "dollar" } },
+      Notes: { rich_text: {} },
+    });
+    const notionSchema = { Name: { title: {} }, Status: { status: {} } };
+    assert.deepEqual(initialProperties(JSON.stringify(notionSchema)), notionSchema);
+    assert.deepEqual(initialProperties(JSON.stringify({ properties: notionSchema })), notionSchema);
+  });
+
+  it("rejects files that can't be applied", () => {
+    assert.throws(() => readSchemaDocument("title: x"), /needs a "properties" mapping/);
+    assert.throws(
+      () => readSchemaDocument("properties:\n  Cost:\n    type: number\n    formt: euro"),
+      /property "Cost": unknown setting "formt". number properties take: format/,
+    );
+    assert.throws(
+      () => planSchema("ds", live, readSchemaDocument("properties:\n  Due:\n    type: date")),
+      /the file has no title property; keep "Name"/,
+    );
+  });
+});
+
+describe("datasource schema", () => {
+  let server: StubServer;
+  let cli: StubServer["cli"];
+  const testDir = mkdtempSync(join(tmpdir(), "notion-cli-schema-test-"));
+  const schemaFile = join(testDir, "schema.yaml");
+  const updates: Array<Record<string, unknown>> = [];
+
+  before(async () => {
+    server = await startStubServer(({ method, body }) => {
+      if (method === "PATCH") updates.push(body);
+      return live;
+    });
+    cli = server.cli;
+  });
+
+  after(() => {
+    server.close();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("pulls a schema that applies with no changes", async () => {
+    const pull = await cli("datasource", "schema", "pull", "ds");
+    assert.equal(pull.exitCode, 0, pull.stderr);
+    assert.ok(pull.stdout.includes(`    type: number\n    format: dollar\n    id: cost\n`), pull.stdout);
+    writeFileSync(schemaFile, pull.stdout);
+
+    const apply = await cli("datasource", "schema", "apply", "ds", schemaFile);
+    assert.equal(apply.exitCode, 0, apply.stderr);
+    assert.ok(apply.stdout.includes("No changes."), apply.stdout);
+
+    writeFileSync(schemaFile, pull.stdout.replace("color: red", "color: purple"));
+    const recolor = await cli("datasource", "schema", "apply", "ds", schemaFile);
+    assert.equal(recolor.exitCode, 0, recolor.stderr);
+    assert.ok(recolor.stdout.includes(`! skipped: color of "Rock" (red → purple)`), recolor.stdout);
+    assert.ok(recolor.stdout.includes("No changes to apply."), recolor.stdout);
+  });
+
+  it("prints the plan on --dry-run and applies it with --yes", async () => {
+    const pulled = (await cli("datasource", "schema", "pull", "ds")).stdout;
+    writeFileSync(schemaFile, pulled.replace("  Notes:\n    type: rich_text\n    id: notes\n", "  Points:\n    type: number\n"));
+
+    const dryRun = await cli("datasource", "schema", "apply", "ds", schemaFile, "--dry-run");
+    assert.equal(dryRun.exitCode, 0, dryRun.stderr);
+    assert.ok(dryRun.stdout.includes("  + Points  number\n"), dryRun.stdout);
+    assert.ok(dryRun.stdout.includes("  - Notes  rich_text — its values will be deleted\n"), dryRun.stdout);
+    assert.ok(dryRun.stdout.includes("Plan: 1 to add, 0 to change, 1 to remove."), dryRun.stdout);
+    assert.equal(updates.length, 0);
+
+    const noTerminal = await cli("datasource", "schema", "apply", "ds", schemaFile);
+    assert.equal(noTerminal.exitCode, 1);
+    assert.ok(noTerminal.stderr.includes("Pass --yes"), noTerminal.stderr);
+
+    const apply = await cli("datasource", "schema", "apply", "ds", schemaFile, "--yes");
+    assert.equal(apply.exitCode, 0, apply.stderr);
+    assert.deepEqual(updates, [{ properties: { Points: { number: {} }, Notes: null } }]);
+  });
+});
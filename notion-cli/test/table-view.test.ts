@@ -0,0 +1,96 @@
+/**
+ * Tests for `datasource query --table`: measures and fits table columns
+ * in-process, then checks the flags against a local stub server — no
+ * Notion token needed. The test runner's stdout is a pipe, so the CLI
+ * takes the non-terminal fallback.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { columnWidths, displayWidth, renderTable, truncateToWidth } from "../helpers.js";
+import { startStubServer, type StubServer } from "./helpers.js";
+
+describe("table layout", () => {
+  it("counts emoji and CJK characters as two columns", () => {
+    assert.equal(displayWidth("plain"), 5);
+    assert.equal(displayWidth("日本語"), 6);
+    assert.equal(displayWidth("🚀 Launch"), 9);
+    assert.equal(displayWidth("👩‍💻"), 2);
+    assert.equal(displayWidth("é"), 1);
+    assert.equal(truncateToWidth("日本語のテキスト", 7), "日本語…");
+    assert.equal(truncateToWidth("short", 5), "short");
+  });
+
+  it("aligns wide characters and cuts long cells with an ellipsis", () => {
+    const table = renderTable(
+      ["Name", "Notes"],
+      [
+        ["🚀 Launch", "a note that goes on\nfor two lines"],
+        ["日本語", "ok"],
+      ],
+      { maxColumnWidth: 12 },
+    );
+    assert.deepEqual(table.split("\n"), [
+      "Name       Notes",
+      "─────────  ────────────",
+      "🚀 Launch  a note that…",
+      "日本語     ok",
+    ]);
+  });
+
+  it("shrinks the widest columns first and leaves out what can't fit", () => {
+    const header = ["Name", "Status", "Notes", "Owner"];
+    const rows = [["Fix the login page", "Done", "x".repeat(30), "ada@example.com"]];
+    assert.deepEqual(columnWidths(header, rows), [18, 6, 30, 15]);
+    assert.deepEqual(columnWidths(header, rows, { width: 60 }), [16, 6, 17, 15]);
+    assert.deepEqual(columnWidths(header, rows, { width: 20 }), [12, 6]);
+
+    const lines = renderTable(header, rows, { width: 60 }).split("\n");
+    assert.ok(lines.every((line) => displayWidth(line) <= 60), lines.join("\n"));
+    assert.equal(lines[2], `Fix the login p…  Done    ${"x".repeat(16)}…  ada@example.com`);
+  });
+});
+
+describe("datasource query --table", () => {
+  let server: StubServer;
+  let cli: StubServer["cli"];
+
+  before(async () => {
+    server = await startStubServer(({ path }) =>
+      path.endsWith("/query")
+        ? {
+            object: "list",
+            results: [
+              {
+                object: "page",
+                id: "t1",
+                url: "https://www.notion.so/t1",
+                last_edited_time: "2025-06-02T09:00:00.000Z",
+                properties: { Name: { id: "title", type: "title", title: [{ plain_text: "Fix login" }] } },
+              },
+            ],
+            has_more: false,
+            next_cursor: null,
+          }
+        : { object: "data_source", id: "ds", title: [], properties: { Name: { id: "title", name: "Name", type: "title", title: {} } } },
+    );
+    cli = server.cli;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("falls back to the entry layout when stdout is not a terminal", async () => {
+    const { exitCode, stdout, stderr } = await cli("datasource", "query", "ds", "--table", "--columns", "Name");
+    assert.equal(exitCode, 0, stderr);
+    assert.ok(stdout.includes("📄 Fix login"), stdout);
+    assert.ok(stdout.includes("ID: t1"), stdout);
+  });
+
+  it("rejects --table with --raw or --format", async () => {
+    const { exitCode, stderr } = await cli("datasource", "query", "ds", "--table", "--format", "csv");
+    assert.equal(exitCode, 1);
+    assert.ok(stderr.includes("--table can't be combined with --raw or --format."), stderr);
+  });
+});
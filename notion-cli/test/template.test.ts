@@ -0,0 +1,175 @@
+/**
+ * Tests for page templates: local JSON templates (`page create
+ * --template`, `template list`) and Notion's data source templates
+ * (`page create --data-source --template-id`). Renders templates
+ * in-process, then runs the commands against a local stub server with an
+ * isolated HOME — no Notion token needed.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadTemplate, parseVars, renderTemplate, templateVariables, type PageTemplate } from "../templates.js";
+import { startStubServer, type StubServer } from "./helpers.js";
+
+const paragraph = (content: string) => ({
+  type: "paragraph",
+  paragraph: { rich_text: [{ type: "text", text: { content } }] },
+});
+
+const standup = {
+  description: "Daily standup notes",
+  title: "Standup {{date}}",
+  icon: "🗓️",
+  properties: { "{{field}}": { rich_text: [{ text: { content: "{{ owner }}" } }] } },
+  children: [paragraph("Owner: {{owner}}"), paragraph("Notes for {{date}}")],
+} as PageTemplate;
+
+const testHome = mkdtempSync(join(tmpdir(), "notion-cli-template-test-"));
+const templatesDir = join(testHome, ".notion-cli", "templates");
+
+describe("templates", () => {
+  it("fills in placeholders in strings and property names", () => {
+    assert.deepEqual(templateVariables(standup), ["date", "field", "owner"]);
+    const page = renderTemplate(standup, parseVars(["date=2026-10-19", "owner=@alice", "field=Lead", "extra=a=b"]));
+    assert.equal(page.title, "Standup 2026-10-19");
+    assert.deepEqual(page.properties, { Lead: { rich_text: [{ text: { content: "@alice" } }] } });
+    assert.deepEqual(page.children, [paragraph("Owner: @alice"), paragraph("Notes for 2026-10-19")]);
+  });
+
+  it("reports missing variables and malformed --var values", () => {
+    assert.throws(() => renderTemplate(standup, { date: "today" }), /missing template variables: --var field=… --var owner=…/);
+    assert.throws(() => parseVars(["owner"]), /invalid --var "owner". Expected name=value./);
+    assert.deepEqual(parseVars(["quote=say \"hi\""]), { quote: 'say "hi"' });
+  });
+
+  it("rejects template files with the wrong shape", () => {
+    const path = join(testHome, "bad.json");
+    writeFileSync(path, JSON.stringify({ children: { type: "paragraph" } }));
+    assert.throws(() => loadTemplate(path), /"children" must be an array of blocks/);
+    assert.throws(() => loadTemplate(join(testHome, "missing")), /no template file or saved template named/);
+  });
+});
+
+describe("page create --template", () => {
+  let server: StubServer;
+  let cli: StubServer["cli"];
+  const created: Array<Record<string, unknown>> = [];
+  let childPolls = 0;
+  let pagePolls = 0;
+
+  before(async () => {
+    mkdirSync(templatesDir, { recursive: true });
+    writeFileSync(join(templatesDir, "standup.json"), JSON.stringify(standup));
+    writeFileSync(join(templatesDir, "broken.json"), "{ not json");
+
+    server = await startStubServer(({ method, path, body }) => {
+      const page = (title: string, properties: Record<string, unknown> = {}) => ({
+        object: "page",
+        id: "new-page",
+        url: "https://www.notion.so/new-page",
+        properties: { title: { id: "title", type: "title", title: [{ plain_text: title }] }, ...properties },
+      });
+      const list = (results: unknown[]) => ({ object: "list", results, has_more: false, next_cursor: null });
+      const block = { object: "block", id: "b1", type: "paragraph" };
+      const status = (name: string | null) => ({ Status: { id: "s", type: "status", status: name && { name } } });
+
+      // tpl-1 has content; tpl-2 (the default) only fills in Status
+      if (path === "/v1/data_sources/ds/templates") {
+        return { templates: [{ id: "tpl-2", name: "Triage", is_default: true }], has_more: false, next_cursor: null };
+      }
+      if (path === "/v1/blocks/tpl-1/children") return list([block]);
+      if (path === "/v1/blocks/tpl-2/children") return list([]);
+      if (path === "/v1/pages/tpl-2") return page("Triage", status("Backlog"));
+      if (path.endsWith("/children")) {
+        // The template's content shows up on the second check
+        return list(++childPolls > 1 ? [block] : []);
+      }
+      if (method === "GET") {
+        // ...and so do the properties it fills in
+        return page("Sprint 42 (from template)", status(++pagePolls > 1 ? "Backlog" : null));
+      }
+      created.push(body);
+      return page("Standup 2026-10-19");
+    }, { HOME: testHome });
+    cli = server.cli;
+  });
+
+  after(() => {
+    server.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it("creates the page and its content in one request", async () => {
+    const { exitCode, stdout, stderr } = await cli(
+      "page", "create", "parent", "--template", "standup",
+      "--var", "date=2026-10-19", "--var", "owner=@alice", "--var", "field=Lead",
+    );
+    assert.equal(exitCode, 0, stderr);
+    assert.equal(created.length, 1);
+    assert.deepEqual(created[0], {
+      parent: { page_id: "parent" },
+      properties: {
+        Lead: { rich_text: [{ text: { content: "@alice" } }] },
+        title: [{ text: { content: "Standup 2026-10-19" } }],
+      },
+      children: [paragraph("Owner: @alice"), paragraph("Notes for 2026-10-19")],
+      icon: { type: "emoji", emoji: "🗓️" },
+    });
+    assert.ok(stdout.includes("Blocks: 2"), stdout);
+  });
+
+  it("stops before any request when a variable is missing", async () => {
+    created.length = 0;
+    const { exitCode, stderr } = await cli("page", "create", "parent", "--template", "standup", "--var", "date=x");
+    assert.equal(exitCode, 1);
+    assert.ok(stderr.includes("Error: missing template variables: --var field=… --var owner=…"), stderr);
+    assert.equal(created.length, 0);
+  });
+
+  it("lists saved templates with their variables", async () => {
+    const { exitCode, stdout } = await cli("template", "list");
+    assert.equal(exitCode, 0);
+    assert.ok(stdout.includes("standup — Daily standup notes\n    Variables: date, field, owner"), stdout);
+    assert.ok(stdout.includes("broken — invalid: cannot read template"), stdout);
+  });
+
+  it("creates a data source entry from a Notion template and waits for its content", async () => {
+    created.length = 0;
+    const { exitCode, stdout, stderr } = await cli(
+      "page", "create", "ds", "--data-source", "--template-id", "tpl-1", "--title", "Sprint 42", "-s", "Status:select:Planned",
+    );
+    assert.equal(exitCode, 0, stderr);
+    assert.deepEqual(created[0], {
+      parent: { data_source_id: "ds" },
+      properties: { title: [{ text: { content: "Sprint 42" } }], Status: { select: { name: "Planned" } } },
+      template: { type: "template_id", template_id: "tpl-1" },
+    });
+    assert.equal(childPolls, 2);
+    assert.ok(stdout.includes("Title: Sprint 42 (from template)"), stdout);
+    assert.ok(stdout.includes("Template: tpl-1 (applied)"), stdout);
+  });
+
+  it("uses the default template and refuses --template-id without --data-source", async () => {
+    created.length = 0;
+    const { exitCode, stderr } = await cli("page", "create", "ds", "--data-source", "--template", "default", "--no-wait");
+    assert.equal(exitCode, 0, stderr);
+    assert.deepEqual(created[0].template, { type: "default" });
+
+    const page = await cli("page", "create", "parent", "--template-id", "tpl-1");
+    assert.equal(page.exitCode, 1);
+    assert.ok(page.stderr.includes("Use it with --data-source"), page.stderr);
+  });
+
+  it("waits for the properties of a template without content", async () => {
+    pagePolls = 0;
+    const { exitCode, stdout, stderr } = await cli("page", "create", "ds", "--data-source", "--template", "default");
+    assert.equal(exitCode, 0, stderr);
+    // Two checks for Status, then the final read of the entry
+    assert.equal(pagePolls, 3);
+    assert.ok(stdout.includes("Template: default (applied)"), stdout);
+    assert.equal(stderr, "");
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for the retrying transport used by createNotionClient.
+ * Runs against a local stub server — no Notion token needed.
+ */
+
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createNotionClient, RateLimitedError, ValidationError,
+} from "../src/postman/notion-api/index.js";
+import { startStubServer, type StubServer } from "./helpers.js";
+
+type StubReply = { status: number; body: unknown; headers?: Record<string, string> };
+
+let server: StubServer;
+let baseUrl: string;
+let replies: StubReply[] = [];
+let requestCount = 0;
+
+function send(reply: StubReply): Response {
+  return new Response(JSON.stringify(reply.body), { status: reply.status, headers: reply.headers });
+}
+
+const notFound: StubReply = {
+  status: 404,
+  body: { object: "error", status: 404, code: "object_not_found", message: "Could not find page", request_id: "req-404" },
+};
+
+const rateLimited: StubReply = {
+  status: 429,
+  body: { object: "error", status: 429, code: "rate_limited", message: "Rate limited" },
+  headers: { "Retry-After": "0" },
+};
+
+const pageReply: StubReply = {
+  status: 200,
+  body: { object: "page", id: "page-1", properties: {} },
+};
+
+describe("transport", () => {
+  before(async () => {
+    server = await startStubServer(() => {
+      requestCount++;
+      return send(replies.shift() ?? notFound);
+    });
+    baseUrl = server.baseUrl;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    replies = [];
+    requestCount = 0;
+  });
+
+  it("retries 429 responses and honours Retry-After", async () => {
+    replies = [rateLimited, rateLimited, pageReply];
+    const retries: number[] = [];
+    const notion = createNotionClient("test-token", {
+      baseUrl,
+      onRetry: ({ status }) => retries.push(status),
+    });
+
+    const page = await notion.pages.retrieve("page-1");
+    assert.equal(page.id, "page-1");
+    assert.equal(requestCount, 3, "should make three attempts");
+    assert.deepEqual(retries, [429, 429]);
+  });
+
+  it("retries transient gateway errors with backoff", async () => {
+    replies = [
+      { status: 503, body: { object: "error", status: 503, code: "service_unavailable", message: "Unavailable" } },
+      { status: 502, body: { object: "error", status: 502, code: "bad_gateway", message: "Bad gateway" } },
+      pageReply,
+    ];
+    const notion = createNotionClient("test-token", { baseUrl, retry: { baseDelayMs: 1 } });
+
+    const page = await notion.pages.retrieve("page-1");
+    assert.equal(page.id, "page-1");
+    assert.equal(requestCount, 3);
+  });
+
+  it("gives up after maxAttempts and throws RateLimitedError", async () => {
+    replies = [rateLimited, rateLimited, rateLimited, rateLimited];
+    const notion = createNotionClient("test-token", { baseUrl, retry: { maxAttempts: 2 } });
+
+    await assert.rejects(notion.pages.retrieve("page-1"), (error: unknown) => {
+      assert.ok(error instanceof RateLimitedError, "should be a RateLimitedError");
+      assert.equal(error.code, "rate_limited");
+      assert.equal(error.retryAfter, 0);
+      return true;
+    });
+    assert.equal(requestCount, 2, "should stop at maxAttempts");
+  });
+
+  it("does not retry client errors", async () => {
+    replies = [{
+      status: 400,
+      body: { object: "error", status: 400, code: "validation_error", message: "Bad property" },
+    }];
+    const notion = createNotionClient("test-token", { baseUrl, retry: { baseDelayMs: 1 } });
+
+    await assert.rejects(notion.pages.retrieve("page-1"), ValidationError);
+    assert.equal(requestCount, 1);
+  });
+
+  it("CLI maps object_not_found to exit code 5 with a sharing hint", async () => {
+    replies = [notFound];
+
+    const { stderr, exitCode } = await server.cli("page", "get", "page-1");
+    assert.equal(exitCode, 5, "should exit with the not-found code");
+    assert.ok(stderr.includes("Could not find page"), stderr);
+    assert.ok(stderr.includes("shared with your integration"), "should hint at sharing");
+    assert.ok(stderr.includes("req-404"), "should print the request ID");
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Tests for `datasource update-entries`: plans changes in-process, then
+ * runs the command — dry run, apply, and undo — against a local stub
+ * server with a temporary undo log. No Notion token needed.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { NotionPage } from "../src/postman/notion-api/index.js";
+import { planUpdates } from "../bulk-update.js";
+import type { PropertySchemas } from "../property-input.js";
+import { property, startStubServer, type StubServer } from "./helpers.js";
+
+const schema: PropertySchemas = Object.fromEntries(
+  [
+    property("Name", "title"),
+    property("Status", "status", {
+      options: ["In progress", "Done", "Archived"].map((name) => ({ id: name, name, color: "default" })),
+    }),
+    property("Notes", "rich_text"),
+    property("Related", "relation", { data_source_id: "tasks", type: "single_property", single_property: {} }),
+    property("Files", "files"),
+  ].map((p) => [p.name, p]),
+);
+
+const entry = (id: string, title: string, status: string) =>
+  ({
+    object: "page",
+    id,
+    url: `https://www.notion.so/${id}`,
+    properties: {
+      Name: { id: "title", type: "title", title: [{ type: "text", text: { content: title }, plain_text: title }] },
+      Status: { id: "Status", type: "status", status: { id: status, name: status, color: "blue" } },
+      Notes: { id: "Notes", type: "rich_text", rich_text: [] },
+      Related: { id: "Related", type: "relation", relation: [], has_more: false },
+    },
+  }) as unknown as NotionPage;
+
+const entries = [entry("t1", "Fix login", "In progress"), entry("t2", "Old spec", "Done"), entry("t3", "Retro", "Archived")];
+
+// Fix login relates to 30 pages; its page object holds only the first 25
+const related = Array.from({ length: 30 }, (_, i) => ({ id: `r${i}` }));
+entries[0].properties.Related = { id: "Related", type: "relation", relation: related.slice(0, 25), has_more: true };
+
+describe("update planning", () => {
+  it("pairs old and new values and skips entries that already match", () => {
+    const { updates, unchanged } = planUpdates(entries, schema, {
+      Status: { status: { name: "Archived" } },
+      Notes: { rich_text: [{ type: "text", text: { content: "stale" } }] },
+    });
+    assert.equal(unchanged, 0);
+    assert.deepEqual(updates[0].changes, [
+      { name: "Status", before: "In progress", after: "Archived" },
+      { name: "Notes", before: "(empty)", after: "stale" },
+    ]);
+    assert.deepEqual(updates[0].previous, { Status: { status: { name: "In progress" } }, Notes: { rich_text: [] } });
+    // Retro is already archived, so only its notes change
+    assert.deepEqual(Object.keys(updates[2].properties), ["Notes"]);
+  });
+
+  it("keeps only files an undo can attach again and flags the rest", () => {
+    const page = {
+      ...entries[0],
+      properties: {
+        Files: {
+          id: "Files",
+          type: "files",
+          files: [
+            { name: "spec.pdf", type: "file", file: { url: "https://files.example/spec.pdf?sig=x", expiry_time: "2026-10-19T10:30:00.000Z" } },
+            { name: "Figma", type: "external", external: { url: "https://figma.com/f" } },
+          ],
+        },
+      },
+    } as unknown as NotionPage;
+    const { updates } = planUpdates([page], schema, { Files: { files: [] } });
+    assert.deepEqual(updates[0].previous, {
+      Files: { files: [{ name: "Figma", type: "external", external: { url: "https://figma.com/f" } }] },
+    });
+    assert.deepEqual(updates[0].unrestorable, ["Files: 1 Notion-hosted file can't be attached again"]);
+  });
+});
+
+describe("datasource update-entries", () => {
+  let server: StubServer;
+  let cli: StubServer["cli"];
+  const testDir = mkdtempSync(join(tmpdir(), "notion-cli-update-entries-test-"));
+  const undoLog = join(testDir, "undo.json");
+  const queries: Array<Record<string, unknown>> = [];
+  const updates: Array<{ id: string; body: Record<string, unknown> }> = [];
+
+  before(async () => {
+    server = await startStubServer(({ method, path, url, body }) => {
+      if (path.endsWith("/query")) {
+        queries.push(body);
+        return { object: "list", results: entries, has_more: false, next_cursor: null };
+      }
+      if (path.startsWith("/v1/data_sources/")) return { object: "data_source", id: "tasks", title: [], properties: schema };
+      if (path === "/v1/pages/t1/properties/Related") {
+        // Served 25 at a time, as Notion does
+        const start = Number(url.searchParams.get("start_cursor") ?? 0);
+        const results = related.slice(start, start + 25).map((relation) => ({ object: "property_item", type: "relation", relation }));
+        const more = start + 25 < related.length;
+        return { object: "list", type: "property_item", results, has_more: more, next_cursor: more ? String(start + 25) : null };
+      }
+      if (method === "PATCH") {
+        const id = path.split("/").pop()!;
+        updates.push({ id, body });
+        return entries.find((page) => page.id === id);
+      }
+    }, { HOME: testDir });
+    cli = server.cli;
+  });
+
+  after(() => {
+    server.close();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("shows the changes without applying them on --dry-run", async () => {
+    const { exitCode, stdout, stderr } = await cli(
+      "datasource", "update-entries", "tasks", "--where", "last_edited_time < 90 days ago", "--set", "Status=archived", "--dry-run",
+    );
+    assert.equal(exitCode, 0, stderr);
+    const cutoff = new Date();
+    cutoff.setUTCDate(cutoff.getUTCDate() - 90);
+    assert.deepEqual(queries.at(-1)?.filter, {
+      timestamp: "last_edited_time",
+      last_edited_time: { before: cutoff.toISOString().slice(0, 10) },
+    });
+    assert.match(stdout, /Fix login\s+In progress → Archived/);
+    assert.match(stdout, /Old spec\s+Done → Archived/);
+    assert.ok(stdout.includes("2 of 3 matching entries will change (1 already up to date)."), stdout);
+    assert.ok(stdout.includes("Dry run — no entries were changed."), stdout);
+    assert.equal(updates.length, 0);
+  });
+
+  it("refuses to apply without --yes when there's no terminal", async () => {
+    const { exitCode, stderr } = await cli("datasource", "update-entries", "tasks", "-w", "Status != Archived", "-s", "Status=Archived");
+    assert.equal(exitCode, 1);
+    assert.ok(stderr.includes("Pass --yes to apply the changes."), stderr);
+    assert.equal(updates.length, 0);
+  });
+
+  it("applies the changes, writes an undo log, and replays it with --undo", async () => {
+    const { exitCode, stdout, stderr } = await cli(
+      "datasource", "update-entries", "tasks", "-w", "Status != Archived", "-s", "Status=Archived",
+      "--yes", "--concurrency", "2", "--undo-log", undoLog,
+    );
+    assert.equal(exitCode, 0, stderr);
+    assert.ok(stdout.includes("Updated 2 entries."), stdout);
+    assert.deepEqual(
+      updates.map(({ id, body }) => [id, body]).sort(),
+      [
+        ["t1", { properties: { Status: { status: { name: "Archived" } } } }],
+        ["t2", { properties: { Status: { status: { name: "Archived" } } } }],
+      ],
+    );
+
+    const log = JSON.parse(readFileSync(undoLog, "utf-8"));
+    assert.equal(log.data_source_id, "tasks");
+    assert.deepEqual(log.entries[1], { page_id: "t2", title: "Old spec", properties: { Status: { status: { name: "Done" } } } });
+
+    updates.length = 0;
+    const undo = await cli("datasource", "update-entries", "--undo", undoLog, "--yes");
+    assert.equal(undo.exitCode, 0, undo.stderr);
+    assert.ok(undo.stdout.includes("Restored 2 entries."), undo.stdout);
+    assert.deepEqual(updates.find((update) => update.id === "t1")?.body, {
+      properties: { Status: { status: { name: "In progress" } } },
+    });
+  });
+
+  it("saves every related page, not just the first 25, in the undo log", async () => {
+    updates.length = 0;
+    const { exitCode, stdout, stderr } = await cli(
+      "datasource", "update-entries", "tasks", "-w", "Status = 'In progress'", "-s", "Related=", "--yes", "--undo-log", undoLog,
+    );
+    assert.equal(exitCode, 0, stderr);
+    assert.ok(stdout.includes("1 of 3 matching entries will change (2 already up to date)."), stdout);
+    assert.deepEqual(updates, [{ id: "t1", body: { properties: { Related: { relation: [] } } } }]);
+
+    const log = JSON.parse(readFileSync(undoLog, "utf-8"));
+    assert.deepEqual(log.entries[0].properties, { Related: { relation: related } });
+  });
+
+  it("reports a bad value or a missing filter before querying", async () => {
+    queries.length = 0;
+    const typo = await cli("datasource", "update-entries", "tasks", "-w", "Status = Done", "-s", "Status=Archvied", "--yes");
+    assert.equal(typo.exitCode, 1);
+    assert.ok(typo.stderr.includes('Did you mean "Archived"?'), typo.stderr);
+
+    const unfiltered = await cli("datasource", "update-entries", "tasks", "-s", "Status=Archived");
+    assert.equal(unfiltered.exitCode, 1);
+    assert.ok(unfiltered.stderr.includes("either --where or --filter-json"), unfiltered.stderr);
+    assert.equal(queries.length, 0);
+  });
+});
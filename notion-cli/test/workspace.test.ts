@@ -0,0 +1,258 @@
+/**
+ * Tests for `workspace backup` and `workspace restore`.
+ * Runs the CLI against a local stub server holding a small workspace —
+ * no Notion token needed.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { startStubServer, extractJson, type StubServer } from "./helpers.js";
+
+const text = (content: string) => ({
+  type: "text",
+  text: { content, link: null },
+  annotations: {},
+  plain_text: content,
+  href: null,
+});
+
+const page = (id: string, title: string, parent: Record<string, string>, properties: Record<string, unknown> = {}) => ({
+  object: "page",
+  id,
+  parent,
+  created_time: "2025-01-01T00:00:00.000Z",
+  last_edited_time: "2025-01-01T00:00:00.000Z",
+  archived: false,
+  icon: { type: "emoji", emoji: "📘" },
+  cover: null,
+  properties: { Name: { id: "title", type: "title", title: [text(title)] }, ...properties },
+  url: `https://www.notion.so/${id}`,
+});
+
+const block = (id: string, type: string, content: Record<string, unknown>) => ({
+  object: "block",
+  id,
+  type,
+  [type]: content,
+  has_children: false,
+});
+
+const ROOT = "aaaaaaaa-0000-0000-0000-000000000001";
+const CHILD = "bbbbbbbb-0000-0000-0000-000000000002";
+const DATABASE = "cccccccc-0000-0000-0000-000000000003";
+const DATA_SOURCE = "dddddddd-0000-0000-0000-000000000004";
+const ENTRY = "eeeeeeee-0000-0000-0000-000000000005";
+const TARGET = "ffffffff-0000-0000-0000-000000000006";
+
+const pages: Record<string, ReturnType<typeof page>> = {
+  [ROOT]: page(ROOT, "Handbook", { type: "workspace" }),
+  [CHILD]: page(CHILD, "On/boarding", { type: "page_id", page_id: ROOT }),
+  [ENTRY]: page(ENTRY, "Fix login", { type: "data_source_id", data_source_id: DATA_SOURCE }, {
+    Status: { id: "s", type: "status", status: { id: "x", name: "Done", color: "green" } },
+    Related: { id: "r", type: "relation", relation: [{ id: ENTRY }] },
+    Created: { id: "c", type: "created_time", created_time: "2025-01-01T00:00:00.000Z" },
+  }),
+};
+
+const children: Record<string, unknown[]> = {
+  [ROOT]: [
+    block("b1", "paragraph", { rich_text: [text("Welcome")], color: "default" }),
+    block("b2", "paragraph", {
+      rich_text: [{ type: "mention", mention: { type: "page", page: { id: CHILD } }, annotations: {}, plain_text: "On/boarding", href: null }],
+    }),
+    block("b3", "image", { type: "file", file: { url: "https://files.example/x.png" }, caption: [] }),
+    block(CHILD, "child_page", { title: "On/boarding" }),
+    block(DATABASE, "child_database", { title: "Tasks" }),
+  ],
+  [CHILD]: [block("b4", "paragraph", { rich_text: [text("Day one")] })],
+  [ENTRY]: [block("b5", "paragraph", { rich_text: [text("Steps")] })],
+};
+
+const dataSourceSchema = {
+  Name: { id: "title", name: "Name", type: "title", title: {} },
+  Status: { id: "s", name: "Status", type: "status", status: { options: [{ id: "x", name: "Done", color: "green" }], groups: [] } },
+  Related: { id: "r", name: "Related", type: "relation", relation: { data_source_id: DATA_SOURCE, type: "single_property", single_property: {} } },
+  Created: { id: "c", name: "Created", type: "created_time", created_time: {} },
+};
+
+interface Recorded {
+  method: string;
+  path: string;
+  body: Record<string, unknown>;
+}
+
+/** Routes a request against the stub workspace; `failing` IDs answer 404 */
+function route(method: string, path: string, failing: Set<string>, body: Record<string, unknown>, newId: () => string) {
+  const id = path.split("/")[3];
+  if (failing.has(id)) {
+    return { status: 404, body: { object: "error", status: 404, code: "object_not_found", message: `Could not find ${id}.` } };
+  }
+  const list = (results: unknown[]) => ({ object: "list", results, has_more: false, next_cursor: null });
+
+  // Writes made by restore
+  if (method === "POST" && path === "/v1/pages") return { status: 200, body: { object: "page", id: newId() } };
+  if (method === "POST" && path === "/v1/databases") {
+    return { status: 200, body: { object: "database", id: "new-db", title: [], data_sources: [{ id: "new-ds", name: "Tasks" }] } };
+  }
+  if (method === "PATCH" && path.endsWith("/children")) {
+    const results = (body.children as Array<{ type: string }>).map((b) => ({ object: "block", id: newId(), type: b.type }));
+    return { status: 200, body: list(results) };
+  }
+  if (method === "PATCH") return { status: 200, body: { object: path.split("/")[2].replace(/s$/, ""), id } };
+
+  // Reads made by backup
+  if (path === "/v1/search") return { status: 200, body: list(Object.values(pages)) };
+  if (path.endsWith("/children")) return { status: 200, body: list(children[id] ?? []) };
+  if (path.startsWith("/v1/pages/")) return { status: 200, body: pages[id] };
+  if (path.startsWith("/v1/databases/")) {
+    return {
+      status: 200,
+      body: { object: "database", id, title: [text("Tasks")], is_inline: true, data_sources: [{ id: DATA_SOURCE, name: "Tasks" }] },
+    };
+  }
+  if (path.endsWith("/query")) return { status: 200, body: list([pages[ENTRY]]) };
+  if (path.startsWith("/v1/data_sources/")) {
+    return { status: 200, body: { object: "data_source", id, title: [text("Tasks")], properties: dataSourceSchema } };
+  }
+  return { status: 400, body: { object: "error", status: 400, code: "invalid_request_url", message: path } };
+}
+
+describe("workspace", () => {
+  let server: StubServer;
+  let cli: StubServer["cli"];
+  let dir: string;
+  const requests: Recorded[] = [];
+  const failing = new Set<string>();
+  let nextId = 0;
+
+  before(async () => {
+    server = await startStubServer(({ method, path: fullPath, body }) => {
+      const path = fullPath.replace(/\/$/, "");
+      requests.push({ method, path, body });
+      const response = route(method, path, failing, body, () => `new-${++nextId}`);
+      return new Response(JSON.stringify(response.body), { status: response.status });
+    });
+    cli = server.cli;
+    dir = mkdtempSync(join(tmpdir(), "notion-cli-backup-"));
+  });
+
+  after(() => {
+    server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("backup mirrors the hierarchy and records failures in the manifest", async () => {
+    failing.add(ENTRY);
+    const { stdout, stderr, exitCode } = await cli("workspace", "backup", dir);
+    failing.clear();
+
+    assert.equal(exitCode, 1, "should exit 1 when an item failed");
+    assert.ok(stderr.includes("Could not find"), stderr);
+    assert.ok(stdout.includes("Saved 4 item(s)"), stdout);
+
+    const root = join(dir, "Handbook-aaaaaaaa");
+    const saved = JSON.parse(readFileSync(join(root, "page.json"), "utf-8")) as { page: { id: string }; blocks: unknown[] };
+    assert.equal(saved.page.id, ROOT);
+    assert.equal(saved.blocks.length, 5);
+    assert.ok(readFileSync(join(root, "page.md"), "utf-8").startsWith("# Handbook\n\nWelcome"));
+    assert.ok(existsSync(join(root, "Onboarding-bbbbbbbb", "page.md")), "unsafe characters should be dropped");
+    assert.ok(existsSync(join(root, "Tasks-cccccccc", "database.json")));
+    assert.ok(existsSync(join(root, "Tasks-cccccccc", "Tasks-dddddddd", "data_source.json")));
+
+    const manifest = JSON.parse(readFileSync(join(dir, "manifest.json"), "utf-8")) as {
+      items: Record<string, { status: string; parent_id: string | null }>;
+    };
+    assert.equal(manifest.items[ROOT].parent_id, null);
+    assert.equal(manifest.items[CHILD].parent_id, ROOT);
+    assert.equal(manifest.items[ENTRY].status, "failed");
+  });
+
+  it("backup resumes from the manifest, fetching only what is missing", async () => {
+    requests.length = 0;
+    const { stdout, exitCode } = await cli("workspace", "backup", dir);
+
+    assert.equal(exitCode, 0, stdout);
+    assert.ok(stdout.includes("4 item(s) already saved"), stdout);
+    assert.ok(stdout.includes("Saved 1 item(s)"), stdout);
+    const fetched = requests.filter((r) => r.path.endsWith("/children")).map((r) => r.path);
+    assert.deepEqual(fetched, [`/v1/blocks/${ENTRY}/children`]);
+    assert.ok(existsSync(join(dir, "Handbook-aaaaaaaa", "Tasks-cccccccc", "Tasks-dddddddd", "Fix login-eeeeeeee", "page.json")));
+  });
+
+  it("backup --fresh fetches everything again", async () => {
+    requests.length = 0;
+    const { stdout, exitCode } = await cli("workspace", "backup", dir, "--fresh");
+
+    assert.equal(exitCode, 0, stdout);
+    assert.ok(stdout.includes("Saved 5 item(s)"), stdout);
+    assert.equal(requests.filter((r) => r.path.endsWith("/children")).length, 3);
+  });
+
+  it("restore recreates the tree, remapping IDs and reporting what was skipped", async () => {
+    requests.length = 0;
+    const { stdout, exitCode } = await cli("workspace", "restore", dir, "--parent", TARGET, "--raw");
+    assert.equal(exitCode, 0, stdout);
+
+    const summary = extractJson(stdout) as {
+      pages: number;
+      databases: number;
+      dataSources: number;
+      ids: Record<string, string>;
+      issues: Array<{ message: string }>;
+    };
+    assert.deepEqual([summary.pages, summary.databases, summary.dataSources], [3, 1, 1]);
+    assert.equal(summary.ids[DATA_SOURCE], "new-ds");
+    const messages = summary.issues.map((i) => i.message);
+    assert.ok(messages.includes('status property "Status" was restored as a select'), messages.join("\n"));
+    assert.ok(messages.includes("Notion-hosted image was not restored"), messages.join("\n"));
+
+    const writes = (method: string, path: string) => requests.filter((r) => r.method === method && r.path === path);
+    const [rootPage, childPage, entryPage] = writes("POST", "/v1/pages").map((r) => r.body);
+    assert.deepEqual(rootPage.parent, { page_id: TARGET });
+    assert.deepEqual(rootPage.icon, { type: "emoji", emoji: "📘" });
+    assert.deepEqual(childPage.parent, { page_id: summary.ids[ROOT] });
+    assert.deepEqual(entryPage.parent, { data_source_id: "new-ds" });
+    assert.deepEqual(entryPage.properties, {
+      Name: { title: [{ type: "text", text: { content: "Fix login", link: null }, annotations: {} }] },
+      Status: { select: { name: "Done" } },
+    });
+
+    const [database] = writes("POST", "/v1/databases").map((r) => r.body);
+    assert.deepEqual(database.parent, { type: "page_id", page_id: summary.ids[ROOT] });
+    assert.equal(database.is_inline, true);
+    assert.equal(database.properties, undefined);
+    const initial = database.initial_data_source as { properties: object };
+    assert.deepEqual(Object.keys(initial.properties), ["Name", "Status", "Created"]);
+
+    const [schemaUpdate] = writes("PATCH", "/v1/data_sources/new-ds").map((r) => r.body);
+    assert.deepEqual(schemaUpdate.properties, {
+      Related: { relation: { data_source_id: "new-ds", type: "single_property", single_property: {} } },
+    });
+
+    const [rootContent] = writes("PATCH", `/v1/blocks/${summary.ids[ROOT]}/children`).map((r) => r.body);
+    const blocks = rootContent.children as Array<Record<string, { rich_text: unknown[] }>>;
+    assert.equal(blocks.length, 2, "child pages and the hosted image are not appended as blocks");
+    assert.deepEqual(blocks[1].paragraph.rich_text[0], {
+      type: "mention",
+      mention: { type: "page", page: { id: summary.ids[CHILD] } },
+      annotations: {},
+    });
+
+    const [relationUpdate] = writes("PATCH", `/v1/pages/${summary.ids[ENTRY]}`).map((r) => r.body);
+    assert.deepEqual(relationUpdate.properties, { Related: { relation: [{ id: summary.ids[ENTRY] }] } });
+  });
+
+  it("restore rejects a directory without a manifest", async () => {
+    const empty = mkdtempSync(join(tmpdir(), "notion-cli-restore-"));
+    try {
+      const { stderr, exitCode } = await cli("workspace", "restore", empty, "--parent", TARGET);
+      assert.equal(exitCode, 1);
+      assert.ok(stderr.includes("no manifest.json"), stderr);
+    } finally {
+      rmSync(empty, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * The YAML subset used for schema files (`datasource schema pull/apply`).
+ *
+ * Block mappings and sequences nested by indentation, plain, 'single',
+ * and "double" quoted scalars, true/false/null and numbers, flow lists
+ * of scalars ([a, b]), and # comments. Anchors, tags, multi-line
+ * scalars, and multiple documents are not supported — stringifyYaml
+ * never writes them, so pulled files always parse back.
+ */
+
+/** A YAML document that can't be parsed */
+export class YamlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "YamlError";
+  }
+}
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/** Strings that would read back as something else, or not at all, when left unquoted */
+function needsQuotes(text: string): boolean {
+  return (
+    text === "" ||
+    text !== text.trim() ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+    /: |:$| #|[\n\r\t]/.test(text) ||
+    /^(true|false|null|~|yes|no|on|off)$/i.test(text) ||
+    !Number.isNaN(Number(text))
+  );
+}
+
+function scalar(value: string | number | boolean | null): string {
+  if (typeof value !== "string") return String(value);
+  return needsQuotes(value) ? JSON.stringify(value) : value;
+}
+
+function isScalar(value: YamlValue): value is string | number | boolean | null {
+  return value === null || typeof value !== "object";
+}
+
+/** The lines of a mapping or sequence, indented by `indent` spaces */
+function blockLines(value: YamlValue[] | { [key: string]: YamlValue }, indent: number): string[] {
+  const pad = " ".repeat(indent);
+  const lines: string[] = [];
+  const nested = (prefix: string, item: YamlValue) => {
+    if (isScalar(item)) lines.push(`${prefix} ${scalar(item)}`);
+    else if (Array.isArray(item) ? item.length === 0 : Object.keys(item).length === 0) {
+      lines.push(`${prefix} ${Array.isArray(item) ? "[]" : "{}"}`);
+    } else {
+      lines.push(prefix);
+      lines.push(...blockLines(item, indent + 2));
+    }
+  };
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (!isScalar(item) && !Array.isArray(item) && Object.keys(item).length > 0) {
+        // "- key: value" with the rest of the mapping aligned under it
+        const [first, ...rest] = blockLines(item, indent + 2);
+        lines.push(`${pad}- ${first.trimStart()}`, ...rest);
+      } else {
+        nested(`${pad}-`, item);
+      }
+    }
+  } else {
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) nested(`${pad}${scalar(key)}:`, item);
+    }
+  }
+  return lines;
+}
+
+/** A mapping or sequence as YAML text, ending with a line break */
+export function stringifyYaml(value: YamlValue[] | { [key: string]: YamlValue }): string {
+  return `${blockLines(value, 0).join("\n")}\n`;
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+interface Line {
+  number: number;
+  indent: number;
+  text: string;
+}
+
+/** The text of a line without its comment */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+function parseScalar(raw: string, line: Line): YamlValue {
+  const text = raw.trim();
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      throw new YamlError(`line ${line.number}: unterminated or invalid "double-quoted" string`);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (text.length < 2 || !text.endsWith("'")) throw new YamlError(`line ${line.number}: unterminated 'single-quoted' string`);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith("[")) {
+    if (!text.endsWith("]")) throw new YamlError(`line ${line.number}: unterminated [list]`);
+    return splitFlow(text.slice(1, -1)).map((item) => parseScalar(item, line));
+  }
+  if (text === "{}") return {};
+  if (text === "" || text === "~" || text === "null") return null;
+  if (text === "true") return true;
+  if (text === "false") return false;
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+/** Split the items of a flow list on commas outside quotes */
+function splitFlow(inner: string): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ",") {
+      items.push(inner.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(inner.slice(start));
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+/** Split "key: value" into its key and the rest, or null when the line isn't a mapping entry */
+function splitKey(text: string): { key: string; rest: string } | null {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const quote = text[0];
+    let end = 1;
+    while (end < text.length && text[end] !== quote) end += text[end] === "\\" && quote === '"' ? 2 : 1;
+    if (text[end + 1] !== ":") return null;
+    const key = text.slice(0, end + 1);
+    return { key: quote === '"' ? (JSON.parse(key) as string) : key.slice(1, -1).replace(/''/g, "'"), rest: text.slice(end + 2) };
+  }
+  const match = /^([^:]*?):(\s|$)/.exec(text);
+  if (!match) return null;
+  return { key: match[1].trim(), rest: text.slice(match[0].length) };
+}
+
+const isItem = (line: Line) => line.text === "-" || line.text.startsWith("- ");
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly lines: Line[]) {}
+
+  parseDocument(): YamlValue {
+    if (this.lines.length === 0) return null;
+    const value = this.parseBlock(this.lines[0].indent);
+    const extra = this.lines[this.index];
+    if (extra) throw new YamlError(`line ${extra.number}: unexpected indentation`);
+    return value;
+  }
+
+  private parseBlock(indent: number): YamlValue {
+    return isItem(this.lines[this.index]) ? this.parseSequence(indent) : this.parseMapping(indent);
+  }
+
+  /** The value after "key:" or "-" when it's on the following lines */
+  private parseNested(parentIndent: number, allowSequence: boolean): YamlValue {
+    const next = this.lines[this.index];
+    if (next && next.indent > parentIndent) return this.parseBlock(next.indent);
+    // A sequence may sit at the same indentation as its key
+    if (allowSequence && next && next.indent === parentIndent && isItem(next)) return this.parseSequence(parentIndent);
+    return null;
+  }
+
+  private parseMapping(indent: number): { [key: string]: YamlValue } {
+    const mapping: { [key: string]: YamlValue } = {};
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent < indent || isItem(line)) break;
+      if (line.indent > indent) throw new YamlError(`line ${line.number}: unexpected indentation`);
+      const entry = splitKey(line.text);
+      if (!entry) throw new YamlError(`line ${line.number}: expected "key: value", got "${line.text}"`);
+      if (Object.hasOwn(mapping, entry.key)) throw new YamlError(`line ${line.number}: duplicate key "${entry.key}"`);
+      this.index++;
+      mapping[entry.key] = entry.rest.trim() ? parseScalar(entry.rest, line) : this.parseNested(indent, true);
+    }
+    return mapping;
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const sequence: YamlValue[] = [];
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent !== indent || !isItem(line)) break;
+      const rest = line.text.slice(1);
+      const content = rest.trimStart();
+      if (!content) {
+        this.index++;
+        sequence.push(this.parseNested(indent, false));
+      } else if (!content.startsWith("[") && splitKey(content)) {
+        // "- key: value" starts a mapping indented to where the key is
+        this.lines[this.index] = { ...line, indent: indent + 1 + rest.length - content.length, text: content };
+        sequence.push(this.parseMapping(this.lines[this.index].indent));
+      } else {
+        this.index++;
+        sequence.push(parseScalar(content, line));
+      }
+    }
+    return sequence;
+  }
+}
+
+/** Parse a YAML document in the subset stringifyYaml writes */
+export function parseYaml(text: string): YamlValue {
+  const lines: Line[] = [];
+  text.replace(/^\uFEFF/, "").split(/\r?\n/).forEach((raw, i) => {
+    const content = stripComment(raw).trimEnd();
+    if (!content.trim() || content === "---") return;
+    const indent = content.length - content.trimStart().length;
+    if (content.slice(0, indent).includes("\t")) throw new YamlError(`line ${i + 1}: indent with spaces, not tabs`);
+    lines.push({ number: i + 1, indent, text: content.trimStart() });
+  });
+  return new Parser(lines).parseDocument();
+}